@@ -16,8 +16,20 @@ const Sponsorship = lazy(() => import("./pages/Sponsorship"));
 const Prizes = lazy(() => import("./pages/Prizes"));
 const JudgesMentors = lazy(() => import("./pages/JudgesMentors"));
 const FAQ = lazy(() => import("./pages/FAQ"));
+const Register = lazy(() => import("./pages/Register"));
+const ConfirmEmail = lazy(() => import("./pages/ConfirmEmail"));
+const GuardianConsent = lazy(() => import("./pages/GuardianConsent"));
+const Me = lazy(() => import("./pages/Me"));
+const ConfirmErasure = lazy(() => import("./pages/ConfirmErasure"));
+const Matching = lazy(() => import("./pages/Matching"));
 const Blog = lazy(() => import("./pages/Blog"));
 const BlogPost = lazy(() => import("./pages/BlogPost"));
+const Projects = lazy(() => import("./pages/Projects"));
+const ProjectDetail = lazy(() => import("./pages/ProjectDetail"));
+const Judge = lazy(() => import("./pages/Judge"));
+const Mentor = lazy(() => import("./pages/Mentor"));
+const Sponsor = lazy(() => import("./pages/Sponsor"));
+const OfficeHours = lazy(() => import("./pages/OfficeHours"));
 const Admin = lazy(() => import("./pages/Admin"));
 const AdminAuth = lazy(() => import("./pages/AdminAuth"));
 
@@ -72,12 +84,24 @@ const AnimatedRoutes = () => {
       <Suspense fallback={<PageLoader />}>
         <Routes location={location}>
           <Route path="/" element={<Index />} />
+          <Route path="/register" element={<Register />} />
+          <Route path="/register/confirm/:token" element={<ConfirmEmail />} />
+          <Route path="/register/consent/:token" element={<GuardianConsent />} />
+          <Route path="/me" element={<Me />} />
+          <Route path="/me/erase/:token" element={<ConfirmErasure />} />
+          <Route path="/me/matching" element={<Matching />} />
           <Route path="/sponsorship" element={<Sponsorship />} />
           <Route path="/prizes" element={<Prizes />} />
           <Route path="/judges-mentors" element={<JudgesMentors />} />
+          <Route path="/office-hours" element={<OfficeHours />} />
           <Route path="/faq" element={<FAQ />} />
           <Route path="/blog" element={<Blog />} />
           <Route path="/blog/:id" element={<BlogPost />} />
+          <Route path="/projects" element={<Projects />} />
+          <Route path="/projects/:id" element={<ProjectDetail />} />
+          <Route path="/judge" element={<Judge />} />
+          <Route path="/mentor" element={<Mentor />} />
+          <Route path="/sponsor" element={<Sponsor />} />
           <Route path="/admin" element={<Admin />} />
           <Route path="/admin/login" element={<AdminAuth />} />
 
@@ -12,7 +12,7 @@ const About = () => {
       icon: Code,
       title: t("about.features.build.title"),
       description: t("about.features.build.description"),
-      link: "/#schedule",
+      link: "/#register",
     },
     {
       icon: Users,
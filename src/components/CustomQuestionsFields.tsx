@@ -0,0 +1,172 @@
+/**
+ * Renders the edition's custom registration questions
+ * Values and errors are owned by the registration form; react-hook-form only
+ * drives the shared ui/form components so labels, descriptions and messages
+ * are wired up accessibly.
+ */
+
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useTranslation } from "@/hooks/useTranslation";
+import {
+  answerErrorKey,
+  emptyAnswer,
+  type CustomAnswers,
+  type CustomAnswerValue,
+  type CustomQuestion,
+} from "@/lib/customQuestions";
+import type { RegistrationErrors } from "@/lib/registration";
+
+interface CustomQuestionsFieldsProps {
+  questions: CustomQuestion[];
+  answers: CustomAnswers;
+  errors: RegistrationErrors;
+  onChange: (questionId: string, value: CustomAnswerValue) => void;
+  onBlur: (questionId: string) => void;
+}
+
+interface AnswersFormValues {
+  answers: CustomAnswers;
+}
+
+export const CustomQuestionsFields = ({ questions, answers, errors, onChange, onBlur }: CustomQuestionsFieldsProps) => {
+  const { t } = useTranslation();
+  const form = useForm<AnswersFormValues>({
+    values: { answers },
+    resetOptions: { keepErrors: true },
+  });
+
+  // Mirror the registration form's errors into react-hook-form for FormLabel and FormMessage
+  useEffect(() => {
+    for (const question of questions) {
+      const key = answerErrorKey(question.id);
+      const message = errors[key];
+      if (message) {
+        form.setError(key, { type: "validate", message });
+      } else {
+        form.clearErrors(key);
+      }
+    }
+  }, [errors, questions, form]);
+
+  return (
+    <Form {...form}>
+      {questions.map((question) => (
+        <FormField
+          key={question.id}
+          control={form.control}
+          name={answerErrorKey(question.id)}
+          render={({ field }) => {
+            const value = field.value ?? emptyAnswer(question);
+            const update = (next: CustomAnswerValue) => {
+              field.onChange(next);
+              onChange(question.id, next);
+            };
+            const label = (
+              <>
+                {t(question.labelKey)}
+                {!question.required && <span className="ml-1 text-muted-foreground">{t("customQuestions.optional")}</span>}
+              </>
+            );
+
+            return (
+              <FormItem>
+                <FormLabel>{label}</FormLabel>
+                {question.type === "select" && (
+                  <Select value={typeof value === "string" ? value : ""} onValueChange={update}>
+                    <FormControl>
+                      <SelectTrigger className="bg-muted border-border" onBlur={() => onBlur(question.id)}>
+                        <SelectValue placeholder={question.placeholderKey ? t(question.placeholderKey) : undefined} />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {question.options?.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {t(option.labelKey)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {question.type === "radio" && (
+                  <FormControl>
+                    <RadioGroup value={typeof value === "string" ? value : ""} onValueChange={update}>
+                      {question.options?.map((option) => (
+                        <div key={option.value} className="flex items-center gap-2">
+                          <RadioGroupItem value={option.value} id={`${question.id}-${option.value}`} />
+                          <Label htmlFor={`${question.id}-${option.value}`} className="font-normal">
+                            {t(option.labelKey)}
+                          </Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  </FormControl>
+                )}
+                {question.type === "multiselect" && (
+                  <FormControl>
+                    <div className="grid gap-2 sm:grid-cols-2" role="group">
+                      {question.options?.map((option) => {
+                        const selected = Array.isArray(value) ? value : [];
+                        return (
+                          <div key={option.value} className="flex items-center gap-2">
+                            <Checkbox
+                              id={`${question.id}-${option.value}`}
+                              checked={selected.includes(option.value)}
+                              onCheckedChange={(checked) =>
+                                update(
+                                  checked
+                                    ? [...selected, option.value]
+                                    : selected.filter((v) => v !== option.value)
+                                )
+                              }
+                            />
+                            <Label htmlFor={`${question.id}-${option.value}`} className="font-normal">
+                              {t(option.labelKey)}
+                            </Label>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </FormControl>
+                )}
+                {question.type === "text" && (
+                  <FormControl>
+                    <Input
+                      value={typeof value === "string" ? value : ""}
+                      placeholder={question.placeholderKey ? t(question.placeholderKey) : undefined}
+                      maxLength={question.maxLength}
+                      onChange={(e) => update(e.target.value)}
+                      onBlur={() => onBlur(question.id)}
+                      className="bg-muted border-border focus:border-primary"
+                    />
+                  </FormControl>
+                )}
+                {question.type === "textarea" && (
+                  <FormControl>
+                    <Textarea
+                      value={typeof value === "string" ? value : ""}
+                      placeholder={question.placeholderKey ? t(question.placeholderKey) : undefined}
+                      maxLength={question.maxLength}
+                      onChange={(e) => update(e.target.value)}
+                      onBlur={() => onBlur(question.id)}
+                      className="bg-muted border-border focus:border-primary"
+                    />
+                  </FormControl>
+                )}
+                {question.descriptionKey && <FormDescription>{t(question.descriptionKey)}</FormDescription>}
+                <FormMessage role="alert" />
+              </FormItem>
+            );
+          }}
+        />
+      ))}
+    </Form>
+  );
+};
@@ -5,7 +5,9 @@
 import { useRef } from "react";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Upload, CheckCircle, AlertCircle } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Button } from "@/components/ui/button";
+import { Upload, CheckCircle, AlertCircle, X } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { sanitizeFileName } from "@/lib/security";
 import { useTranslation } from "@/hooks/useTranslation";
@@ -16,6 +18,9 @@ interface FileUploadFieldProps {
   error?: string;
   hasResume: boolean;
   onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  /** Upload progress in percent while an upload is running, otherwise null */
+  uploadProgress?: number | null;
+  onCancelUpload?: () => void;
 }
 
 export const FileUploadField = ({
@@ -24,8 +29,11 @@ export const FileUploadField = ({
   error,
   hasResume,
   onChange,
+  uploadProgress = null,
+  onCancelUpload,
 }: FileUploadFieldProps) => {
   const { t } = useTranslation();
+  const isUploading = uploadProgress !== null;
 
   return (
     <div className="space-y-2">
@@ -59,7 +67,29 @@ export const FileUploadField = ({
           }
         />
       </div>
-      {file && !error && (
+      {isUploading && (
+        <div className="flex items-center gap-3" aria-live="polite">
+          <Progress
+            value={uploadProgress}
+            className="h-2 flex-1"
+            aria-label={t("registration.uploadProgress", { percent: uploadProgress })}
+          />
+          <span className="text-xs text-muted-foreground tabular-nums">{uploadProgress}%</span>
+          {onCancelUpload && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={onCancelUpload}
+              aria-label={t("registration.cancelUpload")}
+              title={t("registration.cancelUpload")}
+            >
+              <X className="w-4 h-4" aria-hidden="true" />
+            </Button>
+          )}
+        </div>
+      )}
+      {file && !error && !isUploading && (
         <p
           id="resume-success"
           className="text-sm text-muted-foreground flex items-center gap-1.5 animate-slide-in-right"
@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useState } from "react";
+import { Hand, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useTranslation } from "@/hooks/useTranslation";
+import {
+  cancelHelpRequest,
+  getMyHelpRequest,
+  getWaitTime,
+  requestHelp,
+  subscribeToHelpQueue,
+  toMinutes,
+  type HelpRequestInput,
+  type TeamHelpRequest,
+} from "@/lib/helpQueue";
+import { MENTOR_TOPICS } from "@/lib/officeHours";
+
+const EMPTY_REQUEST: HelpRequestInput = { topic: "", location: "", description: "" };
+
+/**
+ * Ask for a mentor right now
+ * The team posts one request at a time and sees its place in the queue and who is
+ * coming, live.
+ */
+const HelpRequestCard = () => {
+  const { t } = useTranslation();
+  const [current, setCurrent] = useState<TeamHelpRequest | null>(null);
+  const [form, setForm] = useState<HelpRequestInput>(EMPTY_REQUEST);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadRequest = useCallback(async () => {
+    try {
+      setCurrent(await getMyHelpRequest());
+    } catch (error) {
+      setCurrent(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRequest();
+    return subscribeToHelpQueue(loadRequest);
+  }, [loadRequest]);
+
+  if (!current?.team_id) {
+    return null;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.topic) {
+      toast.error(t("helpQueue.errors.topicRequired"));
+      return;
+    }
+
+    setIsBusy(true);
+    const result = await requestHelp(form);
+    setIsBusy(false);
+
+    if (result.success) {
+      toast.success(t("helpQueue.requested"));
+      setForm(EMPTY_REQUEST);
+    } else {
+      toast.error(t(`helpQueue.errors.${result.error ?? "failed"}`));
+    }
+    loadRequest();
+  };
+
+  const handleCancel = async (id: string) => {
+    setIsBusy(true);
+    const cancelled = await cancelHelpRequest(id);
+    setIsBusy(false);
+
+    if (cancelled) {
+      toast.success(t("helpQueue.cancelled"));
+      loadRequest();
+    } else {
+      toast.error(t("helpQueue.errors.failed"));
+    }
+  };
+
+  const { request, position } = current;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hand className="w-5 h-5" aria-hidden="true" />
+          {t("helpQueue.title")}
+        </CardTitle>
+        <CardDescription>{t("helpQueue.description")}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {request ? (
+          <div className="space-y-3" aria-live="polite">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="secondary">{t(`officeHours.topics.${request.topic}`)}</Badge>
+              <Badge variant={request.status === "claimed" ? "default" : "outline"}>
+                {t(`helpQueue.statuses.${request.status}`)}
+              </Badge>
+            </div>
+            <p className="font-medium">
+              {request.status === "claimed" && request.mentor_name
+                ? t("helpQueue.mentorComing", { mentor: request.mentor_name })
+                : t("helpQueue.waiting", {
+                    position: position ?? 1,
+                    minutes: toMinutes(getWaitTime(request)),
+                  })}
+            </p>
+            {request.description && <p className="text-sm text-muted-foreground">{request.description}</p>}
+            <Button variant="outline" size="sm" onClick={() => handleCancel(request.id)} disabled={isBusy}>
+              {request.status === "claimed" ? t("helpQueue.noLongerNeeded") : t("helpQueue.cancel")}
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium">{t("helpQueue.topic")}</legend>
+              <div className="flex flex-wrap gap-2">
+                {MENTOR_TOPICS.map((topic) => (
+                  <Button
+                    key={topic}
+                    type="button"
+                    size="sm"
+                    variant={form.topic === topic ? "default" : "outline"}
+                    aria-pressed={form.topic === topic}
+                    onClick={() => setForm({ ...form, topic })}
+                  >
+                    {t(`officeHours.topics.${topic}`)}
+                  </Button>
+                ))}
+              </div>
+            </fieldset>
+            <div className="space-y-2">
+              <Label htmlFor="help-location">{t("helpQueue.location")}</Label>
+              <Input
+                id="help-location"
+                value={form.location}
+                placeholder={t("helpQueue.locationPlaceholder")}
+                onChange={(e) => setForm({ ...form, location: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="help-description">{t("helpQueue.problem")}</Label>
+              <Textarea
+                id="help-description"
+                rows={2}
+                value={form.description}
+                placeholder={t("helpQueue.problemPlaceholder")}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <Button type="submit" disabled={isBusy}>
+              {isBusy && <Loader2 className="mr-2 w-4 h-4 animate-spin" aria-hidden="true" />}
+              {t("helpQueue.submit")}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HelpRequestCard;
@@ -79,9 +79,7 @@ const Hero = () => {
             <nav className="animate-slide-up delay-300 flex flex-col sm:flex-row gap-3 sm:gap-4 w-full sm:w-auto px-4" aria-label={t("aria.mainActions")}>
               <Button size="lg" className="sm:size-xl w-full sm:w-auto text-lg font-semibold shadow-lg shadow-primary/25 hover:shadow-primary/40 transition-shadow" asChild>
                 <a 
-                  href="https://lu.ma/3uot4p9w"
-                  target="_blank" 
-                  rel="noopener noreferrer"
+                  href="#register"
                   onClick={() => trackButtonClick("Register Now", "hero")}
                 >
                   {t("common.register")}
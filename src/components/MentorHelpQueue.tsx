@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useState } from "react";
+import { Check, Hand, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useTranslation } from "@/hooks/useTranslation";
+import {
+  claimHelpRequest,
+  getActiveRequests,
+  getHelpQueue,
+  getWaitTime,
+  releaseHelpRequest,
+  resolveHelpRequest,
+  subscribeToHelpQueue,
+  toMinutes,
+  type HelpQueueEntry,
+  type QueueActionResult,
+} from "@/lib/helpQueue";
+import { logger } from "@/lib/logger";
+
+interface MentorHelpQueueProps {
+  mentorId: string;
+  /** Topics from the mentor's profile, highlighted in the queue */
+  expertise: string[];
+}
+
+/**
+ * Live help queue for mentors: claim a waiting team, then resolve or release it
+ */
+const MentorHelpQueue = ({ mentorId, expertise }: MentorHelpQueueProps) => {
+  const { t } = useTranslation();
+  const [queue, setQueue] = useState<HelpQueueEntry[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setQueue(await getHelpQueue());
+    } catch (error) {
+      logger.error("Error loading help queue", error instanceof Error ? error : new Error(String(error)));
+      toast.error(t("helpQueue.failedLoad"));
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadQueue();
+    return subscribeToHelpQueue(loadQueue);
+  }, [loadQueue]);
+
+  const handleAction = async (
+    id: string,
+    action: (id: string) => Promise<QueueActionResult>,
+    successKey: string
+  ) => {
+    setBusyId(id);
+    const result = await action(id);
+    setBusyId(null);
+
+    if (result.success) {
+      toast.success(t(successKey));
+    } else {
+      toast.error(t(`helpQueue.errors.${result.error ?? "failed"}`));
+    }
+    loadQueue();
+  };
+
+  const active = getActiveRequests(queue);
+  const mine = active.filter((request) => request.claimed_by === mentorId);
+  const waiting = active.filter((request) => request.status === "open");
+  const elsewhere = active.filter((request) => request.status === "claimed" && request.claimed_by !== mentorId);
+
+  const renderRequest = (request: HelpQueueEntry, actions: React.ReactNode) => (
+    <li key={request.id} className="flex items-start justify-between gap-4">
+      <div className="space-y-1">
+        <p className="font-medium">
+          {request.team_name}
+          {request.location && <span className="text-muted-foreground"> · {request.location}</span>}
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant={expertise.includes(request.topic) ? "default" : "secondary"}>
+            {t(`officeHours.topics.${request.topic}`)}
+          </Badge>
+          <span className="text-xs text-muted-foreground">
+            {t("helpQueue.waitedMinutes", { minutes: toMinutes(getWaitTime(request)) })}
+          </span>
+        </div>
+        {request.description && <p className="text-sm text-muted-foreground">{request.description}</p>}
+      </div>
+      <div className="flex shrink-0 gap-2">{actions}</div>
+    </li>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hand className="w-5 h-5" aria-hidden="true" />
+          {t("helpQueue.mentorTitle")}
+        </CardTitle>
+        <CardDescription>{t("helpQueue.mentorDescription", { count: waiting.length })}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {mine.length > 0 && (
+          <section aria-labelledby="help-queue-mine" className="space-y-3">
+            <h3 id="help-queue-mine" className="text-sm font-semibold">
+              {t("helpQueue.yourRequests")}
+            </h3>
+            <ul className="space-y-3">
+              {mine.map((request) =>
+                renderRequest(
+                  request,
+                  <>
+                    <Button
+                      size="sm"
+                      onClick={() => handleAction(request.id, resolveHelpRequest, "helpQueue.resolved")}
+                      disabled={busyId === request.id}
+                    >
+                      <Check className="mr-2 w-4 h-4" aria-hidden="true" />
+                      {t("helpQueue.resolve")}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleAction(request.id, releaseHelpRequest, "helpQueue.released")}
+                      disabled={busyId === request.id}
+                      aria-label={t("helpQueue.release")}
+                    >
+                      <Undo2 className="w-4 h-4" aria-hidden="true" />
+                    </Button>
+                  </>
+                )
+              )}
+            </ul>
+          </section>
+        )}
+
+        <section aria-labelledby="help-queue-waiting" className="space-y-3">
+          <h3 id="help-queue-waiting" className="text-sm font-semibold">
+            {t("helpQueue.waitingTeams")}
+          </h3>
+          {waiting.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t("helpQueue.emptyQueue")}</p>
+          ) : (
+            <ul className="space-y-3">
+              {waiting.map((request) =>
+                renderRequest(
+                  request,
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleAction(request.id, claimHelpRequest, "helpQueue.claimed")}
+                    disabled={busyId === request.id}
+                  >
+                    {t("helpQueue.claim")}
+                  </Button>
+                )
+              )}
+            </ul>
+          )}
+        </section>
+
+        {elsewhere.length > 0 && (
+          <p className="text-sm text-muted-foreground">{t("helpQueue.beingHelped", { count: elsewhere.length })}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MentorHelpQueue;
@@ -73,6 +73,7 @@ const Navbar = () => {
       { href: "/prizes", label: t("nav.prizes"), isRoute: true },
       { href: "/judges-mentors", label: t("nav.judgesMentors"), isRoute: true },
       { href: "/faq", label: t("nav.faq"), isRoute: true },
+      { href: "/projects", label: t("nav.projects"), isRoute: true },
       { href: "/blog", label: t("nav.blog"), isRoute: true },
       { href: "/sponsorship", label: t("nav.sponsorship"), isRoute: true },
     ];
@@ -92,7 +93,7 @@ const Navbar = () => {
           {/* Desktop Navigation */}
           <nav className="hidden md:flex items-center gap-4" aria-label={t("aria.desktopNavigation")}>
             {navLinks.map((link) => {
-              const isRouteLink = link.href === "/blog" || link.href === "/sponsorship" || link.href === "/prizes" || link.href === "/judges-mentors" || link.href === "/faq";
+              const isRouteLink = link.href === "/blog" || link.href === "/projects" || link.href === "/sponsorship" || link.href === "/prizes" || link.href === "/judges-mentors" || link.href === "/faq";
               return link.isRoute ? (
                 <Link
                   key={link.href}
@@ -124,9 +125,9 @@ const Navbar = () => {
             })}
             <LanguageSwitcher variant="compact" />
             <Button variant="default" asChild>
-              <a href="https://lu.ma/3uot4p9w" target="_blank" rel="noopener noreferrer">
+              <Link to="/register">
                 {t("common.register")}
-              </a>
+              </Link>
             </Button>
           </nav>
 
@@ -171,7 +172,7 @@ const Navbar = () => {
           <div className="border-t border-border pt-4">
             <div className="flex flex-col gap-3 animate-slide-in-down">
               {navLinks.map((link) => {
-                const isRouteLink = link.href === "/blog" || link.href === "/sponsorship" || link.href === "/prizes" || link.href === "/judges-mentors" || link.href === "/faq";
+                const isRouteLink = link.href === "/blog" || link.href === "/projects" || link.href === "/sponsorship" || link.href === "/prizes" || link.href === "/judges-mentors" || link.href === "/faq";
                 return link.isRoute ? (
                   <Link
                     key={link.href}
@@ -211,9 +212,9 @@ const Navbar = () => {
               })}
               <div className="pt-2 border-t border-border flex flex-col gap-3">
                  <Button variant="default" className="w-full" asChild>
-                  <a href="https://lu.ma/3uot4p9w" target="_blank" rel="noopener noreferrer">
+                  <Link to="/register" onClick={() => setIsOpen(false)}>
                     {t("common.register")}
-                  </a>
+                  </Link>
                 </Button>
                 <LanguageSwitcher variant="compact" className="w-full justify-start" />
               </div>
@@ -0,0 +1,243 @@
+import { useCallback, useEffect, useState } from "react";
+import { CheckCircle2, Heart, Loader2, Mail, Smartphone } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useParticipantAuth } from "@/hooks/useParticipantAuth";
+import { useTranslation } from "@/hooks/useTranslation";
+import { formatDateTimeShort } from "@/lib/i18n";
+import { formatRetryAfter } from "@/lib/rateLimit";
+import { isValidEmail } from "@/lib/security";
+import {
+  castVote,
+  getVoter,
+  getVotingStatus,
+  getVotingWindowState,
+  sendVoterCode,
+  sendVoterLink,
+  verifyVoterCode,
+  type VotingStatus,
+} from "@/lib/voting";
+
+interface PeoplesChoiceVoteProps {
+  submissionId: string;
+  projectTitle: string;
+}
+
+/**
+ * People's Choice vote for one project
+ * Voters sign in as an attendee (magic link) or with a phone number (SMS code), then
+ * vote once; the database enforces the window and one vote per voter.
+ */
+const PeoplesChoiceVote = ({ submissionId, projectTitle }: PeoplesChoiceVoteProps) => {
+  const { t } = useTranslation();
+  const { user, isLoading: authLoading, signOut } = useParticipantAuth();
+  const [status, setStatus] = useState<VotingStatus | null>(null);
+  const [email, setEmail] = useState("");
+  const [phone, setPhone] = useState("");
+  const [code, setCode] = useState("");
+  const [linkSent, setLinkSent] = useState(false);
+  const [codeSent, setCodeSent] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const voter = getVoter(user);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await getVotingStatus());
+    } catch (error) {
+      setStatus(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!authLoading) {
+      loadStatus();
+    }
+  }, [authLoading, user?.id, loadStatus]);
+
+  if (authLoading || !status) {
+    return null;
+  }
+
+  const windowState = getVotingWindowState(status.opens_at, status.closes_at);
+
+  const handleSendLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidEmail(email.trim())) {
+      toast.error(t("registration.errors.emailInvalid"));
+      return;
+    }
+
+    setIsBusy(true);
+    const result = await sendVoterLink(email, window.location.pathname);
+    setIsBusy(false);
+
+    if (result.success) {
+      setLinkSent(true);
+    } else {
+      toast.error(t(`voting.errors.${result.error ?? "failed"}`));
+    }
+  };
+
+  const handleSendCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    const result = await sendVoterCode(phone);
+    setIsBusy(false);
+
+    if (result.success) {
+      setCodeSent(true);
+    } else {
+      toast.error(t(`voting.errors.${result.error ?? "failed"}`));
+    }
+  };
+
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    const result = await verifyVoterCode(phone, code);
+    setIsBusy(false);
+
+    if (!result.success) {
+      toast.error(t(`voting.errors.${result.error ?? "failed"}`));
+    }
+  };
+
+  const handleVote = async () => {
+    if (!voter || !window.confirm(t("voting.confirmVote", { title: projectTitle }))) {
+      return;
+    }
+
+    setIsBusy(true);
+    const result = await castVote(submissionId);
+    setIsBusy(false);
+
+    if (result.success) {
+      toast.success(t("voting.voted"));
+    } else if (result.error === "rateLimited" && result.retryAfter) {
+      toast.error(t("voting.errors.rateLimitedRetry", { time: formatRetryAfter(result.retryAfter) }));
+    } else {
+      toast.error(t(`voting.errors.${result.error ?? "failed"}`));
+    }
+    loadStatus();
+  };
+
+  const renderSignIn = () => (
+    <div className="grid gap-6 md:grid-cols-2">
+      {linkSent ? (
+        <p className="text-sm text-muted-foreground" role="status">
+          {t("voting.linkSent", { email: email.trim() })}
+        </p>
+      ) : (
+        <form onSubmit={handleSendLink} noValidate className="space-y-2">
+          <Label htmlFor="vote-email">{t("voting.attendeeLabel")}</Label>
+          <Input
+            id="vote-email"
+            type="email"
+            autoComplete="email"
+            value={email}
+            placeholder={t("registration.emailPlaceholder")}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+          <Button type="submit" variant="outline" disabled={isBusy || !email.trim()}>
+            <Mail className="mr-2 w-4 h-4" aria-hidden="true" />
+            {t("voting.sendLink")}
+          </Button>
+        </form>
+      )}
+      {codeSent ? (
+        <form onSubmit={handleVerifyCode} noValidate className="space-y-2">
+          <Label htmlFor="vote-code">{t("voting.codeLabel", { phone: phone.trim() })}</Label>
+          <Input
+            id="vote-code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+          />
+          <Button type="submit" variant="outline" disabled={isBusy || !code.trim()}>
+            {t("voting.verifyCode")}
+          </Button>
+        </form>
+      ) : (
+        <form onSubmit={handleSendCode} noValidate className="space-y-2">
+          <Label htmlFor="vote-phone">{t("voting.phoneLabel")}</Label>
+          <Input
+            id="vote-phone"
+            type="tel"
+            autoComplete="tel"
+            value={phone}
+            placeholder="0712 345 678"
+            onChange={(e) => setPhone(e.target.value)}
+          />
+          <Button type="submit" variant="outline" disabled={isBusy || !phone.trim()}>
+            <Smartphone className="mr-2 w-4 h-4" aria-hidden="true" />
+            {t("voting.sendCode")}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+
+  const renderOpen = () => {
+    if (status.vote === submissionId) {
+      return (
+        <Badge className="gap-1">
+          <CheckCircle2 className="w-3 h-3" aria-hidden="true" />
+          {t("voting.votedForThis")}
+        </Badge>
+      );
+    }
+    if (status.vote) {
+      return <p className="text-sm text-muted-foreground">{t("voting.votedForOther")}</p>;
+    }
+    if (!voter) {
+      return renderSignIn();
+    }
+    if (!status.eligible) {
+      return (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">{t("voting.notEligible", { email: voter.identifier })}</p>
+          <Button variant="outline" size="sm" onClick={signOut}>
+            {t("voting.usePhone")}
+          </Button>
+        </div>
+      );
+    }
+    return (
+      <Button variant="hero" onClick={handleVote} disabled={isBusy}>
+        {isBusy ? (
+          <Loader2 className="mr-2 w-4 h-4 animate-spin" aria-hidden="true" />
+        ) : (
+          <Heart className="mr-2 w-4 h-4" aria-hidden="true" />
+        )}
+        {t("voting.vote")}
+      </Button>
+    );
+  };
+
+  return (
+    <Card className="mt-8" aria-live="polite">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Heart className="w-5 h-5" aria-hidden="true" />
+          {t("voting.title")}
+        </CardTitle>
+        <CardDescription>
+          {windowState === "upcoming"
+            ? t("voting.opensAt", { date: formatDateTimeShort(status.opens_at) })
+            : windowState === "open"
+              ? t("voting.closesAt", { date: formatDateTimeShort(status.closes_at) })
+              : t("voting.closed")}
+        </CardDescription>
+      </CardHeader>
+      {windowState === "open" && <CardContent>{renderOpen()}</CardContent>}
+    </Card>
+  );
+};
+
+export default PeoplesChoiceVote;
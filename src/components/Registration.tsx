@@ -0,0 +1,680 @@
+/**
+ * Multi-step registration form
+ * Collects personal details, profile links, a resume and the edition's custom questions,
+ * then writes to the registrations table. Participants under 18 also name a guardian,
+ * who is emailed a consent link after submitting.
+ * Progress is autosaved as a draft after each step and can be resumed from a link.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import ReCAPTCHA from "react-google-recaptcha";
+import { AlertCircle, ArrowLeft, ArrowRight, CheckCircle, Link2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { CaptchaField } from "@/components/CaptchaField";
+import { CustomQuestionsFields } from "@/components/CustomQuestionsFields";
+import { FileUploadField } from "@/components/FileUploadField";
+import LiveRegion from "@/components/LiveRegion";
+import { REGISTRATION_QUESTIONS } from "@/content/registrationQuestions";
+import { useFileUpload } from "@/hooks/useFileUpload";
+import { useTranslation } from "@/hooks/useTranslation";
+import { CACHE_DURATIONS, CACHE_KEYS } from "@/lib/cache";
+import { trackRegistration, trackRegistrationStart, trackRegistrationView } from "@/lib/analytics";
+import {
+  answerErrorKey,
+  formatCustomAnswer,
+  validateCustomAnswer,
+  type CustomAnswerValue,
+} from "@/lib/customQuestions";
+import { sendVerificationEmail } from "@/lib/emailVerification";
+import { requiresGuardianConsent, sendGuardianConsentEmail } from "@/lib/guardianConsent";
+import { formatDate } from "@/lib/i18n";
+import { logger } from "@/lib/logger";
+import { checkRateLimit, formatRetryAfter, recordSubmission } from "@/lib/rateLimit";
+import {
+  EMPTY_REGISTRATION,
+  findFirstInvalidStep,
+  getRegistrationSteps,
+  submitRegistration,
+  validateRegistration,
+  validateRegistrationField,
+  validateRegistrationStep,
+  type RegistrationErrors,
+  type RegistrationField,
+  type RegistrationFormData,
+  type RegistrationStepId,
+} from "@/lib/registration";
+import {
+  buildDraftResumeUrl,
+  clearStoredDraftToken,
+  completeRegistrationDraft,
+  getDraftToken,
+  loadRegistrationDraft,
+  saveRegistrationDraft,
+} from "@/lib/registrationDrafts";
+import { normalizeWhatsAppNumber, validateAndNormalizeLinkedIn, sanitizeFileName } from "@/lib/security";
+import { cn } from "@/lib/utils";
+import { getWaitlistStatus } from "@/lib/waitlist";
+
+const RECAPTCHA_SITE_KEY = import.meta.env.VITE_RECAPTCHA_SITE_KEY || window.VITE_RECAPTCHA_SITE_KEY || "";
+
+interface TextFieldProps {
+  name: RegistrationField;
+  label: string;
+  type?: string;
+  placeholder?: string;
+  autoComplete?: string;
+  value: string;
+  error?: string;
+  onChange: (name: RegistrationField, value: string) => void;
+  onBlur: (name: RegistrationField) => void;
+}
+
+const TextField = ({ name, label, type = "text", placeholder, autoComplete, value, error, onChange, onBlur }: TextFieldProps) => (
+  <div className="space-y-2">
+    <Label htmlFor={name} className={cn(error && "text-destructive")}>
+      {label}
+    </Label>
+    <Input
+      id={name}
+      name={name}
+      type={type}
+      value={value}
+      placeholder={placeholder}
+      autoComplete={autoComplete}
+      onChange={(e) => onChange(name, e.target.value)}
+      onBlur={() => onBlur(name)}
+      className={cn(
+        "bg-muted border-border focus:border-primary transition-all duration-300",
+        error && "border-destructive focus:border-destructive animate-error-flash"
+      )}
+      aria-invalid={!!error}
+      aria-describedby={error ? `${name}-error` : undefined}
+    />
+    {error && (
+      <p
+        id={`${name}-error`}
+        className="text-sm text-destructive flex items-center gap-1.5 animate-slide-in-right"
+        role="alert"
+      >
+        <AlertCircle className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+        <span>{error}</span>
+      </p>
+    )}
+  </div>
+);
+
+const Registration = () => {
+  const { t } = useTranslation();
+  const {
+    fileInputRef,
+    validateFile,
+    inspectFile,
+    uploadFile,
+    cancelUpload,
+    claimUpload,
+    uploadProgress,
+    resetFileInput,
+  } = useFileUpload();
+  const recaptchaRef = useRef<ReCAPTCHA>(null);
+  const sectionRef = useRef<HTMLElement>(null);
+  const hasStartedRef = useRef(false);
+  const draftTokenRef = useRef<string | null>(null);
+  const draftSaveRef = useRef<Promise<void>>(Promise.resolve());
+
+  const [stepIndex, setStepIndex] = useState(0);
+  const [formData, setFormData] = useState<RegistrationFormData>(EMPTY_REGISTRATION);
+  const [errors, setErrors] = useState<RegistrationErrors>({});
+  const [resume, setResume] = useState<File | null>(null);
+  const [captchaToken, setCaptchaToken] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [result, setResult] = useState<{ waitlistPosition: number | null; consentPending: boolean } | null>(null);
+  const [draftToken, setDraftToken] = useState<string | null>(null);
+
+  const { data: waitlistStatus } = useQuery({
+    queryKey: [CACHE_KEYS.registration.waitlistStatus],
+    queryFn: getWaitlistStatus,
+    staleTime: CACHE_DURATIONS.SHORT,
+  });
+
+  const steps = getRegistrationSteps(formData);
+  const step = steps[Math.min(stepIndex, steps.length - 1)];
+  const isLastStep = stepIndex >= steps.length - 1;
+  const progress = Math.round(((stepIndex + 1) / steps.length) * 100);
+  const isMinor = requiresGuardianConsent(formData.dateOfBirth);
+
+  // Track when the registration section scrolls into view
+  useEffect(() => {
+    const element = sectionRef.current;
+    if (!element) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        trackRegistrationView();
+        observer.disconnect();
+      }
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Restore a saved draft from a resume link or from this device
+  useEffect(() => {
+    const token = getDraftToken(window.location.search);
+    if (!token) return;
+
+    let cancelled = false;
+    loadRegistrationDraft(token).then((draft) => {
+      if (cancelled) return;
+      if (!draft) {
+        clearStoredDraftToken();
+        return;
+      }
+      hasStartedRef.current = true;
+      draftTokenRef.current = token;
+      setDraftToken(token);
+      setFormData(draft.data);
+      setStepIndex(Math.max(0, getRegistrationSteps(draft.data).findIndex((s) => s.id === draft.stepId)));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Saves are chained so the first one creates the draft and later ones reuse its token
+  const persistDraft = (stepId: RegistrationStepId, data: RegistrationFormData) => {
+    draftSaveRef.current = draftSaveRef.current.then(async () => {
+      const token = await saveRegistrationDraft(draftTokenRef.current, stepId, data);
+      if (token) {
+        draftTokenRef.current = token;
+        setDraftToken(token);
+      }
+    });
+  };
+
+  // Takes the values after the edit that started the form, so the first draft includes it
+  const markStarted = (data: RegistrationFormData) => {
+    if (!hasStartedRef.current) {
+      hasStartedRef.current = true;
+      trackRegistrationStart();
+      persistDraft(getRegistrationSteps(data)[0].id, data);
+    }
+  };
+
+  const handleChange = (name: RegistrationField, value: string) => {
+    const next = { ...formData, [name]: value };
+    markStarted(next);
+    setFormData(next);
+    if (errors[name]) {
+      setErrors((prev) => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  const handleBlur = (name: RegistrationField) => {
+    const error = validateRegistrationField(name, formData[name], t);
+    setErrors((prev) => ({ ...prev, [name]: error }));
+  };
+
+  const handleAnswerChange = (questionId: string, value: CustomAnswerValue) => {
+    const next = { ...formData, answers: { ...formData.answers, [questionId]: value } };
+    markStarted(next);
+    setFormData(next);
+    const key = answerErrorKey(questionId);
+    if (errors[key]) {
+      setErrors((prev) => ({ ...prev, [key]: undefined }));
+    }
+  };
+
+  const handleAnswerBlur = (questionId: string) => {
+    const question = REGISTRATION_QUESTIONS.find((q) => q.id === questionId);
+    if (!question) return;
+    const error = validateCustomAnswer(question, formData.answers[questionId], t);
+    setErrors((prev) => ({ ...prev, [answerErrorKey(questionId)]: error }));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    markStarted(formData);
+    const file = e.target.files?.[0] ?? null;
+    if (!file) {
+      cancelUpload();
+      setResume(null);
+      return;
+    }
+
+    const error = validateFile(file) ?? (await inspectFile(file));
+    if (error) {
+      cancelUpload();
+      setResume(null);
+      setErrors((prev) => ({ ...prev, resume: error }));
+      resetFileInput();
+      return;
+    }
+
+    setResume(file);
+    setErrors((prev) => ({ ...prev, resume: undefined, linkedIn: undefined }));
+
+    // Start uploading right away so slow connections get the rest of the form to finish;
+    // submitting later joins this upload instead of starting another, and picking a
+    // different file discards it
+    const upload = await uploadFile(file);
+    if (upload.success) return;
+    if (upload.cancelled) {
+      setResume((current) => (current === file ? null : current));
+      return;
+    }
+    setErrors((prev) => ({ ...prev, resume: upload.error || t("registration.errors.uploadFailed") }));
+  };
+
+  const handleCancelUpload = () => {
+    cancelUpload();
+    resetFileInput();
+  };
+
+  const goNext = () => {
+    const stepErrors = validateRegistrationStep(step.id, formData, !!resume, t);
+    setErrors((prev) => ({ ...prev, ...stepErrors }));
+    if (Object.keys(stepErrors).length === 0) {
+      const nextIndex = Math.min(stepIndex + 1, steps.length - 1);
+      setStepIndex(nextIndex);
+      persistDraft(steps[nextIndex].id, formData);
+    }
+  };
+
+  const goBack = () => {
+    setStepIndex((i) => Math.max(i - 1, 0));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isLastStep) {
+      goNext();
+      return;
+    }
+
+    const allErrors = validateRegistration(formData, !!resume, t);
+    if (RECAPTCHA_SITE_KEY && !captchaToken) {
+      allErrors.captcha = t("registration.errors.captchaRequired");
+    }
+    if (Object.keys(allErrors).length > 0) {
+      setErrors(allErrors);
+      const firstInvalidStep = findFirstInvalidStep(allErrors, formData);
+      if (firstInvalidStep !== -1) {
+        setStepIndex(firstInvalidStep);
+      }
+      return;
+    }
+
+    const rateLimit = checkRateLimit();
+    if (!rateLimit.allowed) {
+      const message = t("registration.errors.rateLimited", {
+        time: formatRetryAfter(rateLimit.retryAfter ?? 0),
+      });
+      setErrors({ form: message });
+      trackRegistration(false, "rate_limited");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrors({});
+
+    try {
+      let resumePath: string | null = null;
+      if (resume) {
+        const upload = await uploadFile(resume);
+        if (!upload.success) {
+          setErrors({ resume: upload.error || t("registration.errors.uploadFailed") });
+          setStepIndex(steps.findIndex((s) => s.id === "profile"));
+          trackRegistration(false, "upload_failed");
+          return;
+        }
+        resumePath = upload.resumePath;
+      }
+
+      const submission = await submitRegistration(formData, resumePath);
+      if (!submission.success) {
+        const message = submission.error === "duplicate"
+          ? t("registration.errors.duplicateEmail")
+          : t("registration.errors.submitFailed");
+        setErrors({ form: message });
+        trackRegistration(false, submission.error);
+        recaptchaRef.current?.reset();
+        setCaptchaToken(null);
+        return;
+      }
+
+      claimUpload();
+      recordSubmission();
+      trackRegistration(true);
+      const consentPending = submission.consentStatus === "pending";
+      if (submission.registrationId) {
+        void sendVerificationEmail(submission.registrationId);
+        if (consentPending) {
+          void sendGuardianConsentEmail(submission.registrationId);
+        }
+      }
+      if (draftTokenRef.current && submission.registrationId) {
+        const token = draftTokenRef.current;
+        const registrationId = submission.registrationId;
+        draftSaveRef.current = draftSaveRef.current.then(async () => {
+          await completeRegistrationDraft(token, registrationId);
+        });
+        draftTokenRef.current = null;
+        setDraftToken(null);
+      }
+      setResult({
+        waitlistPosition: submission.status === "waitlisted" ? submission.waitlistPosition ?? null : null,
+        consentPending,
+      });
+    } catch (error) {
+      logger.error("Registration submit error", error instanceof Error ? error : new Error(String(error)));
+      setErrors({ form: t("registration.errors.submitFailed") });
+      trackRegistration(false, "exception");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderStep = () => {
+    switch (step.id) {
+      case "personal":
+        return (
+          <>
+            <TextField
+              name="fullName"
+              label={t("registration.fullName")}
+              placeholder={t("registration.fullNamePlaceholder")}
+              autoComplete="name"
+              value={formData.fullName}
+              error={errors.fullName}
+              onChange={handleChange}
+              onBlur={handleBlur}
+            />
+            <TextField
+              name="email"
+              type="email"
+              label={t("registration.email")}
+              placeholder={t("registration.emailPlaceholder")}
+              autoComplete="email"
+              value={formData.email}
+              error={errors.email}
+              onChange={handleChange}
+              onBlur={handleBlur}
+            />
+            <TextField
+              name="dateOfBirth"
+              type="date"
+              label={t("registration.dateOfBirth")}
+              autoComplete="bday"
+              value={formData.dateOfBirth}
+              error={errors.dateOfBirth}
+              onChange={handleChange}
+              onBlur={handleBlur}
+            />
+            {isMinor && <p className="text-xs text-muted-foreground">{t("registration.guardianRequiredHint")}</p>}
+          </>
+        );
+      case "guardian":
+        return (
+          <>
+            <p className="text-sm text-muted-foreground">{t("registration.guardianIntro")}</p>
+            <TextField
+              name="guardianName"
+              label={t("registration.guardianName")}
+              placeholder={t("registration.guardianNamePlaceholder")}
+              value={formData.guardianName}
+              error={errors.guardianName}
+              onChange={handleChange}
+              onBlur={handleBlur}
+            />
+            <TextField
+              name="guardianEmail"
+              type="email"
+              label={t("registration.guardianEmail")}
+              placeholder={t("registration.emailPlaceholder")}
+              value={formData.guardianEmail}
+              error={errors.guardianEmail}
+              onChange={handleChange}
+              onBlur={handleBlur}
+            />
+          </>
+        );
+      case "profile":
+        return (
+          <>
+            <TextField
+              name="linkedIn"
+              label={t("registration.linkedin")}
+              placeholder={t("registration.linkedinPlaceholder")}
+              value={formData.linkedIn}
+              error={errors.linkedIn}
+              onChange={handleChange}
+              onBlur={handleBlur}
+            />
+            <TextField
+              name="whatsapp"
+              type="tel"
+              label={t("registration.whatsapp")}
+              placeholder={t("registration.whatsappPlaceholder")}
+              autoComplete="tel"
+              value={formData.whatsapp}
+              error={errors.whatsapp}
+              onChange={handleChange}
+              onBlur={handleBlur}
+            />
+            <FileUploadField
+              fileInputRef={fileInputRef}
+              file={resume}
+              error={errors.resume}
+              hasResume={!!resume}
+              onChange={handleFileChange}
+              uploadProgress={uploadProgress}
+              onCancelUpload={handleCancelUpload}
+            />
+            <p className="text-xs text-muted-foreground">{t("registration.linkedinOrResumeHint")}</p>
+          </>
+        );
+      case "questions":
+        return (
+          <CustomQuestionsFields
+            questions={REGISTRATION_QUESTIONS}
+            answers={formData.answers}
+            errors={errors}
+            onChange={handleAnswerChange}
+            onBlur={handleAnswerBlur}
+          />
+        );
+      case "review":
+        return (
+          <>
+            <dl className="grid gap-3 text-sm" aria-label={t("registration.steps.review")}>
+              <div className="flex justify-between gap-4">
+                <dt className="text-muted-foreground">{t("registration.fullName")}</dt>
+                <dd className="font-medium text-right">{formData.fullName}</dd>
+              </div>
+              <div className="flex justify-between gap-4">
+                <dt className="text-muted-foreground">{t("registration.email")}</dt>
+                <dd className="font-medium text-right break-all">{formData.email}</dd>
+              </div>
+              <div className="flex justify-between gap-4">
+                <dt className="text-muted-foreground">{t("registration.dateOfBirth")}</dt>
+                <dd className="font-medium text-right">
+                  {formData.dateOfBirth ? formatDate(`${formData.dateOfBirth}T00:00:00`) : "—"}
+                </dd>
+              </div>
+              {isMinor && (
+                <div className="flex justify-between gap-4">
+                  <dt className="text-muted-foreground">{t("registration.guardian")}</dt>
+                  <dd className="font-medium text-right break-all">
+                    {formData.guardianName} ({formData.guardianEmail})
+                  </dd>
+                </div>
+              )}
+              <div className="flex justify-between gap-4">
+                <dt className="text-muted-foreground">{t("registration.whatsapp")}</dt>
+                <dd className="font-medium text-right break-all">
+                  {formData.whatsapp.trim() ? normalizeWhatsAppNumber(formData.whatsapp) : "—"}
+                </dd>
+              </div>
+              <div className="flex justify-between gap-4">
+                <dt className="text-muted-foreground">{t("registration.linkedin")}</dt>
+                <dd className="font-medium text-right break-all">
+                  {formData.linkedIn.trim() ? validateAndNormalizeLinkedIn(formData.linkedIn) : "—"}
+                </dd>
+              </div>
+              <div className="flex justify-between gap-4">
+                <dt className="text-muted-foreground">{t("registration.resume")}</dt>
+                <dd className="font-medium text-right break-all">
+                  {resume ? sanitizeFileName(resume.name) : "—"}
+                </dd>
+              </div>
+              {REGISTRATION_QUESTIONS.map((question) => (
+                <div key={question.id} className="flex justify-between gap-4">
+                  <dt className="text-muted-foreground">{t(question.labelKey)}</dt>
+                  <dd className="font-medium text-right break-words">
+                    {formatCustomAnswer(question, formData.answers[question.id], t) || "—"}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+            <CaptchaField
+              recaptchaRef={recaptchaRef}
+              siteKey={RECAPTCHA_SITE_KEY}
+              token={captchaToken}
+              error={errors.captcha}
+              onTokenChange={(token) => {
+                setCaptchaToken(token);
+                if (token) {
+                  setErrors((prev) => ({ ...prev, captcha: undefined }));
+                }
+              }}
+              onError={(error) => {
+                logger.warn("reCAPTCHA error", { error: String(error) });
+                setErrors((prev) => ({ ...prev, captcha: t("registration.errors.captchaError") }));
+              }}
+            />
+          </>
+        );
+    }
+  };
+
+  return (
+    <section
+      ref={sectionRef}
+      id="register"
+      className="py-16 sm:py-20 md:py-24 relative"
+      aria-labelledby="register-heading"
+    >
+      <div className="absolute inset-0 circuit-pattern opacity-10" aria-hidden="true" />
+
+      <div className="container mx-auto px-4 sm:px-6 relative z-10">
+        <header className="text-center mb-8 sm:mb-10">
+          <h2 id="register-heading" className="text-2xl sm:text-3xl md:text-4xl font-bold mb-3 sm:mb-4 px-4">
+            {t("registration.title")}
+          </h2>
+          <p className="text-muted-foreground max-w-2xl mx-auto text-base sm:text-lg px-4">
+            {t("registration.subtitle")}
+          </p>
+        </header>
+
+        <div className="max-w-xl mx-auto bg-card border border-border rounded-xl p-5 sm:p-8">
+          {result ? (
+            <div className="text-center space-y-4" role="status" aria-live="polite">
+              <CheckCircle className="w-12 h-12 text-primary mx-auto animate-success-pulse" aria-hidden="true" />
+              {result.waitlistPosition !== null ? (
+                <>
+                  <h3 className="text-xl font-semibold">{t("registration.waitlistedTitle")}</h3>
+                  <p className="text-muted-foreground">
+                    {t("registration.waitlistedMessage", { position: result.waitlistPosition })}
+                  </p>
+                </>
+              ) : (
+                <>
+                  <h3 className="text-xl font-semibold">{t("registration.successTitle")}</h3>
+                  <p className="text-muted-foreground">{t("registration.successMessage")}</p>
+                </>
+              )}
+              <p className="text-sm text-muted-foreground">{t("registration.verifyEmailNotice")}</p>
+              {result.consentPending && (
+                <p className="text-sm text-muted-foreground">{t("registration.consentPendingNotice")}</p>
+              )}
+              <p className="text-sm text-muted-foreground">
+                {t("registration.manageRegistration")}{" "}
+                <Link to="/me" className="text-primary underline underline-offset-2">
+                  {t("registration.manageRegistrationLink")}
+                </Link>
+              </p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} noValidate className="space-y-6">
+              {waitlistStatus && (
+                <p className="text-sm text-center text-muted-foreground" aria-live="polite">
+                  {waitlistStatus.spotsRemaining > 0
+                    ? t("registration.spotsRemaining", { count: waitlistStatus.spotsRemaining })
+                    : t("registration.capacityReached")}
+                </p>
+              )}
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium">{t(`registration.steps.${step.id}`)}</span>
+                  <span className="text-muted-foreground">
+                    {t("registration.stepOf", { current: stepIndex + 1, total: steps.length })}
+                  </span>
+                </div>
+                <Progress value={progress} aria-label={t("registration.progress")} />
+              </div>
+
+              <fieldset className="space-y-4" disabled={isSubmitting}>
+                <legend className="sr-only">{t(`registration.steps.${step.id}`)}</legend>
+                {renderStep()}
+              </fieldset>
+
+              {errors.form && (
+                <p className="text-sm text-destructive flex items-center gap-1.5" role="alert">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+                  <span>{errors.form}</span>
+                </p>
+              )}
+
+              <div className="flex justify-between gap-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={goBack}
+                  disabled={stepIndex === 0 || isSubmitting}
+                >
+                  <ArrowLeft className="mr-2 w-4 h-4" aria-hidden="true" />
+                  {t("registration.back")}
+                </Button>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting && <Loader2 className="mr-2 w-4 h-4 animate-spin" aria-hidden="true" />}
+                  {isLastStep
+                    ? (isSubmitting ? t("registration.submitting") : t("registration.submit"))
+                    : t("registration.next")}
+                  {!isLastStep && <ArrowRight className="ml-2 w-4 h-4" aria-hidden="true" />}
+                </Button>
+              </div>
+
+              {draftToken && (
+                <p className="text-xs text-muted-foreground flex items-center justify-center gap-1.5" aria-live="polite">
+                  <Link2 className="w-3.5 h-3.5 flex-shrink-0" aria-hidden="true" />
+                  <span>{t("registration.draftSaved")}</span>
+                  <a href={buildDraftResumeUrl(draftToken)} className="text-primary underline underline-offset-2">
+                    {t("registration.resumeLink")}
+                  </a>
+                </p>
+              )}
+            </form>
+          )}
+        </div>
+      </div>
+      <LiveRegion message={t(`registration.steps.${step.id}`)} />
+    </section>
+  );
+};
+
+export default Registration;
@@ -156,7 +156,7 @@ const Schedule = () => {
         {/* Register CTA */}
         <div className="mt-16 flex justify-center">
             <Button size="lg" className="h-14 px-8 text-lg rounded-full shadow-lg shadow-primary/20 hover:shadow-primary/40 transition-shadow" asChild>
-            <a href="https://lu.ma/3uot4p9w" target="_blank" rel="noopener noreferrer">
+            <a href="#register">
                 {t("common.register")}
                 <ArrowRight className="ml-2 w-5 h-5" />
             </a>
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { Loader2, Save } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useTranslation } from "@/hooks/useTranslation";
+import {
+  SCORECARD_COMMENT_MAX_LENGTH,
+  getWeightedScore,
+  isScorecardComplete,
+  saveScorecard,
+  type CriterionScores,
+  type JudgingCriterion,
+  type Scorecard,
+} from "@/lib/judging";
+
+interface ScorecardFormProps {
+  submissionId: string;
+  criteria: JudgingCriterion[];
+  scorecard: Scorecard | null;
+  disabled: boolean;
+  onSaved: (scorecard: Scorecard) => void;
+}
+
+/**
+ * ScorecardForm - One judge's rubric scores for one assigned project
+ */
+const ScorecardForm = ({ submissionId, criteria, scorecard, disabled, onSaved }: ScorecardFormProps) => {
+  const { t } = useTranslation();
+  const [scores, setScores] = useState<CriterionScores>(scorecard?.scores ?? {});
+  const [comment, setComment] = useState(scorecard?.comment ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isComplete = isScorecardComplete(scores, criteria);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isComplete) {
+      toast.error(t("judge.errors.incomplete"));
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await saveScorecard(submissionId, scores, comment);
+    setIsSaving(false);
+
+    if (result.success && result.scorecard) {
+      onSaved(result.scorecard);
+      toast.success(t("judge.saved"));
+    } else {
+      toast.error(t(`judge.errors.${result.error ?? "failed"}`));
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        {criteria.map((criterion) => (
+          <div key={criterion.id} className="space-y-2">
+            <Label htmlFor={`score-${submissionId}-${criterion.id}`}>
+              {criterion.name}{" "}
+              <span className="text-xs text-muted-foreground">
+                {t("judge.weight", { weight: criterion.weight })}
+              </span>
+            </Label>
+            {criterion.description && <p className="text-xs text-muted-foreground">{criterion.description}</p>}
+            <Select
+              value={scores[criterion.id] ? String(scores[criterion.id]) : ""}
+              onValueChange={(value) => setScores((previous) => ({ ...previous, [criterion.id]: Number(value) }))}
+              disabled={disabled}
+            >
+              <SelectTrigger id={`score-${submissionId}-${criterion.id}`}>
+                <SelectValue placeholder={t("judge.scorePlaceholder", { max: criterion.max_score })} />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: criterion.max_score }, (_, index) => index + 1).map((score) => (
+                  <SelectItem key={score} value={String(score)}>
+                    {t("judge.scoreOption", { score, max: criterion.max_score })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`comment-${submissionId}`}>{t("judge.comment")}</Label>
+        <Textarea
+          id={`comment-${submissionId}`}
+          value={comment}
+          rows={3}
+          maxLength={SCORECARD_COMMENT_MAX_LENGTH}
+          placeholder={t("judge.commentPlaceholder")}
+          onChange={(e) => setComment(e.target.value)}
+          disabled={disabled}
+        />
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          {isComplete
+            ? t("judge.weightedScore", { score: getWeightedScore(scores, criteria).toFixed(1) })
+            : t("judge.incompleteHint")}
+        </p>
+        <Button type="submit" disabled={disabled || isSaving || !isComplete}>
+          {isSaving ? (
+            <Loader2 className="mr-2 w-4 h-4 animate-spin" aria-hidden="true" />
+          ) : (
+            <Save className="mr-2 w-4 h-4" aria-hidden="true" />
+          )}
+          {scorecard ? t("judge.update") : t("judge.submit")}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default ScorecardForm;
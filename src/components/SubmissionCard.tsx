@@ -0,0 +1,277 @@
+import { useCallback, useEffect, useState } from "react";
+import { ExternalLink, FileCode, Loader2, Send } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { TRACK_OPTIONS } from "@/content/registrationQuestions";
+import { useTranslation } from "@/hooks/useTranslation";
+import { formatDateTimeShort } from "@/lib/i18n";
+import {
+  SUBMISSION_DESCRIPTION_MAX_LENGTH,
+  SUBMISSION_TITLE_MAX_LENGTH,
+  canEditSubmission,
+  getMySubmission,
+  isPastDeadline,
+  saveSubmission,
+  validateSubmission,
+  type MySubmission,
+  type SubmissionField,
+  type SubmissionInput,
+} from "@/lib/submissions";
+
+const EMPTY_INPUT: SubmissionInput = {
+  title: "",
+  description: "",
+  track: "",
+  repositoryUrl: "",
+  demoVideoUrl: "",
+};
+
+/**
+ * SubmissionCard - Participant portal section for the team's project submission
+ *
+ * Note: The deadline shown comes from the database, which also enforces it.
+ */
+const SubmissionCard = () => {
+  const { t } = useTranslation();
+  const [current, setCurrent] = useState<MySubmission | null>(null);
+  const [input, setInput] = useState<SubmissionInput>(EMPTY_INPUT);
+  const [errors, setErrors] = useState<Partial<Record<SubmissionField, string>>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadSubmission = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const mine = await getMySubmission();
+      setCurrent(mine);
+      if (mine.submission) {
+        setInput({
+          title: mine.submission.title,
+          description: mine.submission.description,
+          track: mine.submission.track,
+          repositoryUrl: mine.submission.repository_url,
+          demoVideoUrl: mine.submission.demo_video_url,
+        });
+      }
+    } catch (error) {
+      toast.error(t("submission.failedLoad"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadSubmission();
+  }, [loadSubmission]);
+
+  const update = (field: SubmissionField, value: string) => {
+    setInput((previous) => ({ ...previous, [field]: value }));
+    setErrors((previous) => ({ ...previous, [field]: undefined }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validation = validateSubmission(input, TRACK_OPTIONS.map((option) => option.value), t);
+    setErrors(validation);
+    if (Object.keys(validation).length > 0) {
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await saveSubmission(input);
+    setIsSaving(false);
+
+    if (result.success && result.submission) {
+      const saved = result.submission;
+      setCurrent((previous) => (previous ? { ...previous, submission: saved } : previous));
+      toast.success(t(saved.is_late ? "submission.savedLate" : "submission.saved"));
+    } else if (result.error === "deadlinePassed") {
+      toast.error(t("submission.errors.deadlinePassed"));
+      loadSubmission();
+    } else {
+      toast.error(t("submission.failedSave"));
+    }
+  };
+
+  const renderField = (field: SubmissionField, label: string, control: React.ReactNode) => (
+    <div className="space-y-2">
+      <Label htmlFor={`submission-${field}`}>{label}</Label>
+      {control}
+      {errors[field] && (
+        <p id={`submission-${field}-error`} className="text-sm text-destructive" role="alert">
+          {errors[field]}
+        </p>
+      )}
+    </div>
+  );
+
+  const renderReadOnly = (mine: MySubmission) => {
+    const submission = mine.submission;
+    if (!submission) {
+      return null;
+    }
+
+    return (
+      <div className="space-y-3">
+        <p className="text-lg font-semibold">{submission.title}</p>
+        <p className="text-sm text-muted-foreground">{t(`customQuestions.track.options.${submission.track}`)}</p>
+        <p className="text-sm whitespace-pre-line">{submission.description}</p>
+        <div className="flex flex-wrap gap-2">
+          <Button asChild size="sm" variant="outline">
+            <a href={submission.repository_url} target="_blank" rel="noopener noreferrer">
+              <ExternalLink className="mr-2 w-4 h-4" aria-hidden="true" />
+              {t("submission.repositoryUrl")}
+            </a>
+          </Button>
+          <Button asChild size="sm" variant="outline">
+            <a href={submission.demo_video_url} target="_blank" rel="noopener noreferrer">
+              <ExternalLink className="mr-2 w-4 h-4" aria-hidden="true" />
+              {t("submission.demoVideoUrl")}
+            </a>
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderForm = () => (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      {renderField(
+        "title",
+        t("submission.title"),
+        <Input
+          id="submission-title"
+          value={input.title}
+          maxLength={SUBMISSION_TITLE_MAX_LENGTH}
+          onChange={(e) => update("title", e.target.value)}
+          aria-invalid={!!errors.title}
+          aria-describedby={errors.title ? "submission-title-error" : undefined}
+        />
+      )}
+      {renderField(
+        "description",
+        t("submission.description"),
+        <Textarea
+          id="submission-description"
+          value={input.description}
+          rows={5}
+          maxLength={SUBMISSION_DESCRIPTION_MAX_LENGTH}
+          placeholder={t("submission.descriptionPlaceholder")}
+          onChange={(e) => update("description", e.target.value)}
+          aria-invalid={!!errors.description}
+          aria-describedby={errors.description ? "submission-description-error" : undefined}
+        />
+      )}
+      {renderField(
+        "track",
+        t("submission.track"),
+        <Select value={input.track} onValueChange={(value) => update("track", value)}>
+          <SelectTrigger id="submission-track" aria-invalid={!!errors.track}>
+            <SelectValue placeholder={t("customQuestions.track.placeholder")} />
+          </SelectTrigger>
+          <SelectContent>
+            {TRACK_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {t(option.labelKey)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {renderField(
+        "repositoryUrl",
+        t("submission.repositoryUrl"),
+        <Input
+          id="submission-repositoryUrl"
+          type="url"
+          value={input.repositoryUrl}
+          placeholder="https://github.com/your-team/project"
+          onChange={(e) => update("repositoryUrl", e.target.value)}
+          aria-invalid={!!errors.repositoryUrl}
+          aria-describedby={errors.repositoryUrl ? "submission-repositoryUrl-error" : undefined}
+        />
+      )}
+      {renderField(
+        "demoVideoUrl",
+        t("submission.demoVideoUrl"),
+        <Input
+          id="submission-demoVideoUrl"
+          type="url"
+          value={input.demoVideoUrl}
+          placeholder="https://youtu.be/..."
+          onChange={(e) => update("demoVideoUrl", e.target.value)}
+          aria-invalid={!!errors.demoVideoUrl}
+          aria-describedby={errors.demoVideoUrl ? "submission-demoVideoUrl-error" : undefined}
+        />
+      )}
+      <Button type="submit" disabled={isSaving}>
+        {isSaving ? (
+          <Loader2 className="mr-2 w-4 h-4 animate-spin" aria-hidden="true" />
+        ) : (
+          <Send className="mr-2 w-4 h-4" aria-hidden="true" />
+        )}
+        {current?.submission ? t("submission.update") : t("submission.submit")}
+      </Button>
+    </form>
+  );
+
+  const renderContent = () => {
+    if (isLoading || !current) {
+      return (
+        <div className="flex justify-center py-4" role="status">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" aria-hidden="true" />
+          <span className="sr-only">{t("submission.loading")}</span>
+        </div>
+      );
+    }
+    if (!current.team_id) {
+      return <p className="text-sm text-muted-foreground">{t("submission.noTeam")}</p>;
+    }
+    if (!canEditSubmission(current.submission, current.deadline)) {
+      return renderReadOnly(current);
+    }
+    return renderForm();
+  };
+
+  const submission = current?.submission;
+  const deadline = current?.deadline;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <FileCode className="w-5 h-5" aria-hidden="true" />
+            {t("submission.cardTitle")}
+          </span>
+          {submission && (
+            <Badge variant={submission.is_late ? "destructive" : "default"}>
+              {submission.is_late ? t("submission.late") : t("submission.onTime")}
+            </Badge>
+          )}
+        </CardTitle>
+        {deadline && (
+          <CardDescription>
+            {isPastDeadline(deadline)
+              ? t("submission.deadlinePassed", { date: formatDateTimeShort(deadline) })
+              : t("submission.deadline", { date: formatDateTimeShort(deadline) })}
+            {submission && (
+              <span className="block">
+                {t("submission.lastUpdated", { date: formatDateTimeShort(submission.updated_at) })}
+              </span>
+            )}
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent>{renderContent()}</CardContent>
+    </Card>
+  );
+};
+
+export default SubmissionCard;
@@ -0,0 +1,276 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Copy, Handshake, Link2, Loader2, LogOut, Plus, Users } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useEventSchedule } from "@/hooks/useEventSchedule";
+import { useTranslation } from "@/hooks/useTranslation";
+import { formatDateTimeShort } from "@/lib/i18n";
+import { logger } from "@/lib/logger";
+import { MATCHING_PATH } from "@/lib/matching";
+import {
+  TEAM_NAME_MAX_LENGTH,
+  createTeam,
+  getMyTeam,
+  getOpenSpots,
+  getTeamInviteLink,
+  isTeamsLocked,
+  joinTeam,
+  leaveTeam,
+  takePendingInvite,
+  type Team,
+  type TeamResult,
+} from "@/lib/teams";
+import type { RegistrationStatus } from "@/lib/waitlist";
+
+interface TeamCardProps {
+  status: RegistrationStatus;
+}
+
+/**
+ * TeamCard - Participant portal section for creating, joining and leaving a team
+ *
+ * Note: An invite link opens the portal with ?team=CODE. When the participant still
+ * has to sign in, the code is kept in session storage by the portal and picked up here.
+ */
+const TeamCard = ({ status }: TeamCardProps) => {
+  const { t } = useTranslation();
+  const [searchParams] = useSearchParams();
+  const [team, setTeam] = useState<Team | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [teamName, setTeamName] = useState("");
+  const [inviteCode, setInviteCode] = useState(() => searchParams.get("team") ?? takePendingInvite() ?? "");
+  const [error, setError] = useState<string | undefined>();
+  const [busyAction, setBusyAction] = useState<"create" | "join" | "leave" | null>(null);
+
+  const schedule = useEventSchedule();
+  const isConfirmed = status === "confirmed";
+  const locked = schedule !== null && isTeamsLocked(schedule.team_lock_at);
+
+  const loadTeam = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setTeam(await getMyTeam());
+    } catch (error) {
+      toast.error(t("teams.failedLoad"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (isConfirmed) {
+      loadTeam();
+    } else {
+      setIsLoading(false);
+    }
+  }, [isConfirmed, loadTeam]);
+
+  const handleResult = (result: TeamResult, successKey: string) => {
+    if (result.success) {
+      setTeam(result.team ?? null);
+      setTeamName("");
+      setInviteCode("");
+      toast.success(t(successKey));
+    } else {
+      setError(t(`teams.errors.${result.error ?? "failed"}`, schedule ? { max: schedule.team_max_size } : undefined));
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(undefined);
+    setBusyAction("create");
+    const result = await createTeam(teamName);
+    setBusyAction(null);
+    handleResult(result, "teams.created");
+  };
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(undefined);
+    setBusyAction("join");
+    const result = await joinTeam(inviteCode);
+    setBusyAction(null);
+    handleResult(result, "teams.joined");
+  };
+
+  const handleLeave = async () => {
+    if (!window.confirm(t("teams.confirmLeave"))) {
+      return;
+    }
+
+    setError(undefined);
+    setBusyAction("leave");
+    const result = await leaveTeam();
+    setBusyAction(null);
+    handleResult(result, "teams.left");
+  };
+
+  const handleCopy = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast.success(t("teams.copied"));
+    } catch (error) {
+      logger.error("Copy error", error instanceof Error ? error : new Error(String(error)));
+      toast.error(t("socialShare.copyFailed"));
+    }
+  };
+
+  const renderTeam = (current: Team) => (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-lg font-semibold">{current.name}</p>
+        {schedule && (
+          <Badge variant="secondary">
+            {t("teams.memberCount", { count: current.members.length, max: schedule.team_max_size })}
+          </Badge>
+        )}
+      </div>
+
+      <ul className="space-y-1" aria-label={t("teams.members")}>
+        {current.members.map((member) => (
+          <li key={member.registration_id} className="flex items-center justify-between text-sm">
+            <span>{member.full_name}</span>
+            {member.is_creator && <Badge variant="outline">{t("teams.creator")}</Badge>}
+          </li>
+        ))}
+      </ul>
+
+      {!locked && schedule && getOpenSpots(current, schedule.team_max_size) > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            {t("teams.inviteHint", { count: getOpenSpots(current, schedule.team_max_size) })}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={() => handleCopy(current.invite_code)}>
+              <Copy className="mr-2 w-4 h-4" aria-hidden="true" />
+              {t("teams.copyCode", { code: current.invite_code })}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleCopy(getTeamInviteLink(current.invite_code))}>
+              <Link2 className="mr-2 w-4 h-4" aria-hidden="true" />
+              {t("teams.copyLink")}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!locked && (
+        <Button variant="destructive" size="sm" onClick={handleLeave} disabled={busyAction !== null}>
+          {busyAction === "leave" ? (
+            <Loader2 className="mr-2 w-4 h-4 animate-spin" aria-hidden="true" />
+          ) : (
+            <LogOut className="mr-2 w-4 h-4" aria-hidden="true" />
+          )}
+          {t("teams.leave")}
+        </Button>
+      )}
+    </div>
+  );
+
+  const renderForms = () => (
+    <div className="space-y-6">
+      <form onSubmit={handleCreate} noValidate className="space-y-2">
+        <Label htmlFor="team-name">{t("teams.teamName")}</Label>
+        <div className="flex gap-2">
+          <Input
+            id="team-name"
+            value={teamName}
+            maxLength={TEAM_NAME_MAX_LENGTH}
+            placeholder={t("teams.teamNamePlaceholder")}
+            onChange={(e) => setTeamName(e.target.value)}
+          />
+          <Button type="submit" variant="outline" disabled={busyAction !== null || !teamName.trim()}>
+            {busyAction === "create" ? (
+              <Loader2 className="mr-2 w-4 h-4 animate-spin" aria-hidden="true" />
+            ) : (
+              <Plus className="mr-2 w-4 h-4" aria-hidden="true" />
+            )}
+            {t("teams.create")}
+          </Button>
+        </div>
+      </form>
+
+      <form onSubmit={handleJoin} noValidate className="space-y-2">
+        <Label htmlFor="team-invite">{t("teams.inviteCode")}</Label>
+        <div className="flex gap-2">
+          <Input
+            id="team-invite"
+            value={inviteCode}
+            placeholder={t("teams.inviteCodePlaceholder")}
+            onChange={(e) => setInviteCode(e.target.value)}
+          />
+          <Button type="submit" variant="outline" disabled={busyAction !== null || !inviteCode.trim()}>
+            {busyAction === "join" && <Loader2 className="mr-2 w-4 h-4 animate-spin" aria-hidden="true" />}
+            {t("teams.join")}
+          </Button>
+        </div>
+      </form>
+
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">{t("teams.matchingHint")}</p>
+        <Button asChild variant="outline" size="sm">
+          <Link to={MATCHING_PATH}>
+            <Handshake className="mr-2 w-4 h-4" aria-hidden="true" />
+            {t("teams.findTeammates")}
+          </Link>
+        </Button>
+      </div>
+    </div>
+  );
+
+  const renderContent = () => {
+    if (!isConfirmed) {
+      return <p className="text-sm text-muted-foreground">{t("teams.confirmedOnly")}</p>;
+    }
+    if (isLoading) {
+      return (
+        <div className="flex justify-center py-4" role="status">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" aria-hidden="true" />
+          <span className="sr-only">{t("teams.loading")}</span>
+        </div>
+      );
+    }
+    if (team) {
+      return renderTeam(team);
+    }
+    if (locked) {
+      return <p className="text-sm text-muted-foreground">{t("teams.lockedNoTeam")}</p>;
+    }
+    return renderForms();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="w-5 h-5" aria-hidden="true" />
+          {t("teams.title")}
+        </CardTitle>
+        <CardDescription>
+          {locked
+            ? t("teams.locked")
+            : schedule &&
+              t("teams.description", {
+                max: schedule.team_max_size,
+                date: formatDateTimeShort(schedule.team_lock_at),
+              })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {renderContent()}
+        {error && (
+          <p className="text-sm text-destructive" role="alert">
+            {error}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TeamCard;
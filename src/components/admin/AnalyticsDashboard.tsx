@@ -16,6 +16,7 @@ import {
 } from "recharts";
 import { formatDateShort } from "@/lib/i18n";
 import { useTranslation } from "@/hooks/useTranslation";
+import type { StepFunnelEntry } from "@/lib/registrationDrafts";
 
 interface RegistrationStats {
   total: number;
@@ -28,6 +29,7 @@ interface RegistrationStats {
   dailyTrends?: Array<{ date: string; count: number }>;
   hourlyDistribution?: Array<{ hour: number; count: number }>;
   incompleteCount: number;
+  stepFunnel?: StepFunnelEntry[];
 }
 
 interface AnalyticsDashboardProps {
@@ -178,6 +180,42 @@ const AnalyticsDashboard = ({ stats }: AnalyticsDashboardProps) => {
         </Card>
       </div>
 
+      {/* Step Drop-off */}
+      {stats.stepFunnel && stats.stepFunnel.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("adminAnalytics.stepDropOff")}</CardTitle>
+            <CardDescription>{t("adminAnalytics.stepDropOffDesc")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {stats.stepFunnel.map((entry, index) => {
+                const first = stats.stepFunnel?.[0]?.reached || 0;
+                const width = first > 0 ? Math.round((entry.reached / first) * 100) : 0;
+                return (
+                  <div key={entry.step} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span>{t(`adminAnalytics.funnelSteps.${entry.step}`)}</span>
+                      <span>
+                        {entry.reached}
+                        {index > 0 && (
+                          <span className="text-xs text-muted-foreground ml-2">
+                            {t("adminAnalytics.droppedOff", { count: entry.dropOff, rate: entry.dropOffRate })}
+                          </span>
+                        )}
+                      </span>
+                    </div>
+                    <div className="w-full h-2 bg-muted rounded-full overflow-hidden">
+                      <div className="h-full bg-primary" style={{ width: `${width}%` }} />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Daily Trends Chart */}
       {dailyTrendsData.length > 0 && (
         <Card>
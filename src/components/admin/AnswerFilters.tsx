@@ -0,0 +1,54 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTranslation } from "@/hooks/useTranslation";
+import { getFilterableQuestions, type CustomQuestion } from "@/lib/customQuestions";
+
+/**
+ * AnswerFilters - Admin filters on custom registration answers
+ *
+ * Note: One select per filterable question; an empty value means no filter.
+ */
+
+const ALL = "all";
+
+interface AnswerFiltersProps {
+  questions: CustomQuestion[];
+  value: Record<string, string>;
+  onChange: (value: Record<string, string>) => void;
+}
+
+const AnswerFilters = ({ questions, value, onChange }: AnswerFiltersProps) => {
+  const { t } = useTranslation();
+  const filterable = getFilterableQuestions(questions);
+
+  if (filterable.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" role="group" aria-label={t("adminTable.answerFilters")}>
+      {filterable.map((question) => (
+        <Select
+          key={question.id}
+          value={value[question.id] || ALL}
+          onValueChange={(selected) => onChange({ ...value, [question.id]: selected === ALL ? "" : selected })}
+        >
+          <SelectTrigger className="w-[170px]" aria-label={t(question.labelKey)}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>
+              {t("adminTable.allAnswers", { question: t(question.labelKey) })}
+            </SelectItem>
+            {question.options?.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {t(option.labelKey)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ))}
+    </div>
+  );
+};
+
+export default AnswerFilters;
@@ -0,0 +1,235 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Hand, RefreshCw, X } from "lucide-react";
+import { useTranslation } from "@/hooks/useTranslation";
+import { logger } from "@/lib/logger";
+import { formatTime } from "@/lib/i18n";
+import {
+  cancelHelpRequest,
+  getActiveRequests,
+  getHelpQueue,
+  getQueueStats,
+  getWaitTime,
+  reportHelpQueueMetrics,
+  subscribeToHelpQueue,
+  toMinutes,
+  type HelpQueueEntry,
+  type HelpRequestStatus,
+} from "@/lib/helpQueue";
+import { toast } from "sonner";
+
+/**
+ * HelpQueuePanel - Admin view of the live mentor help queue
+ *
+ * Note: The queue reloads whenever a request changes, and each load reports the
+ * average and longest wait to monitoring.
+ */
+
+const STATUS_VARIANTS: Record<HelpRequestStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  open: "destructive",
+  claimed: "default",
+  resolved: "secondary",
+  cancelled: "outline",
+};
+
+const HelpQueuePanel = () => {
+  const { t } = useTranslation();
+  const [queue, setQueue] = useState<HelpQueueEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadData = useCallback(async () => {
+    try {
+      const requests = await getHelpQueue();
+      setQueue(requests);
+      reportHelpQueueMetrics(getQueueStats(requests));
+    } catch (error) {
+      logger.error(
+        "Error loading help queue",
+        error instanceof Error ? error : new Error(String(error))
+      );
+      toast.error(t("adminHelpQueue.failedLoad"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadData();
+    return subscribeToHelpQueue(loadData);
+  }, [loadData]);
+
+  const handleClose = async (request: HelpQueueEntry) => {
+    if (!window.confirm(t("adminHelpQueue.confirmClose", { team: request.team_name }))) {
+      return;
+    }
+
+    if (await cancelHelpRequest(request.id)) {
+      toast.success(t("adminHelpQueue.closed"));
+      loadData();
+    } else {
+      toast.error(t("adminHelpQueue.failedClose"));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="mb-4 h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent mx-auto" />
+          <p className="text-muted-foreground">{t("adminHelpQueue.loading")}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const stats = getQueueStats(queue);
+  const active = getActiveRequests(queue);
+  const rows = [
+    ...active,
+    ...queue
+      .filter((request) => !active.includes(request))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at)),
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <Hand className="h-6 w-6" />
+            {t("adminHelpQueue.title")}
+          </h2>
+          <p className="text-muted-foreground mt-1">{t("adminHelpQueue.description")}</p>
+        </div>
+        <Button onClick={loadData} variant="outline" size="sm">
+          <RefreshCw className="h-4 w-4 mr-2" />
+          {t("common.refresh")}
+        </Button>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminHelpQueue.waiting")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.open}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminHelpQueue.inProgress")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.claimed}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminHelpQueue.averageWait")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {t("adminHelpQueue.minutes", { minutes: toMinutes(stats.averageWaitMs) })}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {t("adminHelpQueue.averageResolution", { minutes: toMinutes(stats.averageResolutionMs) })}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminHelpQueue.longestWait")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {t("adminHelpQueue.minutes", { minutes: toMinutes(stats.longestWaitMs) })}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Queue */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("adminHelpQueue.queue")}</CardTitle>
+          <CardDescription>{t("adminHelpQueue.queueDesc")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("adminHelpQueue.team")}</TableHead>
+                <TableHead>{t("adminHelpQueue.topic")}</TableHead>
+                <TableHead>{t("adminHelpQueue.status")}</TableHead>
+                <TableHead>{t("adminHelpQueue.mentor")}</TableHead>
+                <TableHead>{t("adminHelpQueue.posted")}</TableHead>
+                <TableHead className="text-right">{t("adminHelpQueue.waited")}</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    {t("adminHelpQueue.noRequests")}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map((request) => (
+                  <TableRow key={request.id}>
+                    <TableCell>
+                      <div className="font-medium">{request.team_name}</div>
+                      {request.location && (
+                        <div className="text-xs text-muted-foreground">{request.location}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{t(`officeHours.topics.${request.topic}`)}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[request.status]}>
+                        {t(`helpQueue.statuses.${request.status}`)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{request.mentor_name ?? "—"}</TableCell>
+                    <TableCell>{formatTime(request.created_at)}</TableCell>
+                    <TableCell className="text-right">
+                      {request.status === "cancelled" && !request.claimed_at
+                        ? "—"
+                        : t("adminHelpQueue.minutes", { minutes: toMinutes(getWaitTime(request)) })}
+                    </TableCell>
+                    <TableCell>
+                      {active.includes(request) && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleClose(request)}
+                          aria-label={t("adminHelpQueue.close")}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default HelpQueuePanel;
@@ -0,0 +1,632 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Lock, Plus, RefreshCw, Save, Shuffle, Trash2, X } from "lucide-react";
+import { TRACK_OPTIONS } from "@/content/registrationQuestions";
+import { useTranslation } from "@/hooks/useTranslation";
+import { logger } from "@/lib/logger";
+import { formatDateTimeShort } from "@/lib/i18n";
+import {
+  CONFLICT_REASONS,
+  JUDGES_PER_PROJECT,
+  JUDGES_PER_PROJECT_MAX,
+  JUDGES_PER_PROJECT_MIN,
+  addConflict,
+  findCompanyConflicts,
+  getAssignmentData,
+  getConflictKey,
+  getConflictSet,
+  getWorkloads,
+  lockAssignments,
+  planAssignments,
+  removeConflict,
+  saveAssignments,
+  saveJudgeProfile,
+  type Assignment,
+  type AssignmentData,
+  type ConflictReason,
+  type Judge,
+  type JudgeProfileInput,
+} from "@/lib/judgeAssignments";
+import { toast } from "sonner";
+
+/**
+ * JudgeAssignmentsPanel - Admin component for assigning judges to projects
+ *
+ * Note: Generating a plan only changes the draft on screen; nothing reaches judges
+ * until the draft is saved and locked.
+ */
+
+type ProfileEdits = Record<string, { display_name: string; company: string; company_domain: string; tracks: string[] }>;
+
+const JudgeAssignmentsPanel = () => {
+  const { t } = useTranslation();
+  const [data, setData] = useState<AssignmentData | null>(null);
+  const [draft, setDraft] = useState<Assignment[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [perProject, setPerProject] = useState(String(JUDGES_PER_PROJECT));
+  const [profileEdits, setProfileEdits] = useState<ProfileEdits>({});
+  const [newConflict, setNewConflict] = useState<{ judgeId: string; teamId: string; reason: ConflictReason }>({
+    judgeId: "",
+    teamId: "",
+    reason: "company",
+  });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const loaded = await getAssignmentData();
+      setData(loaded);
+      setDraft(loaded.assignments);
+      setIsDirty(false);
+      setProfileEdits({});
+    } catch (error) {
+      logger.error(
+        "Error loading judge assignments",
+        error instanceof Error ? error : new Error(String(error))
+      );
+      toast.error(t("adminAssignments.failedLoad"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="mb-4 h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent mx-auto" />
+          <p className="text-muted-foreground">{t("adminAssignments.loading")}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const isLocked = !!data.lockedAt;
+  const target = Number(perProject);
+  const detected = findCompanyConflicts(data.judges, data.projects);
+  const conflictSet = getConflictSet([...data.conflicts, ...detected]);
+  const workloads = getWorkloads(draft, data.judges);
+  const judgeNames = new Map(data.judges.map((judge) => [judge.user_id, judge.display_name || judge.email]));
+  const teams = Array.from(new Map(data.projects.map((project) => [project.team_id, project.team_name])));
+  const teamNames = new Map(teams);
+  const shortCount = data.projects.filter(
+    (project) => draft.filter((assignment) => assignment.submission_id === project.id).length < target
+  ).length;
+
+  const getProfileEdit = (judge: Judge) =>
+    profileEdits[judge.user_id] ?? {
+      display_name: judge.display_name,
+      company: judge.company ?? "",
+      company_domain: judge.company_domain ?? "",
+      tracks: judge.tracks,
+    };
+
+  const setProfileEdit = (judge: Judge, changes: Partial<ProfileEdits[string]>) => {
+    setProfileEdits((current) => ({ ...current, [judge.user_id]: { ...getProfileEdit(judge), ...changes } }));
+  };
+
+  const handleSaveProfile = async (judge: Judge) => {
+    const edit = getProfileEdit(judge);
+    if (!edit.display_name.trim()) {
+      toast.error(t("adminAssignments.errors.nameRequired"));
+      return;
+    }
+
+    const input: JudgeProfileInput = {
+      display_name: edit.display_name,
+      company: edit.company,
+      company_domain: edit.company_domain,
+      tracks: edit.tracks,
+    };
+    try {
+      await saveJudgeProfile(judge.user_id, input);
+      toast.success(t("adminAssignments.profileSaved"));
+      loadData();
+    } catch (error) {
+      logger.error(
+        "Error saving judge profile",
+        error instanceof Error ? error : new Error(String(error)),
+        { judgeId: judge.user_id }
+      );
+      toast.error(t("adminAssignments.failedSave"));
+    }
+  };
+
+  const handleAddConflict = async () => {
+    if (!newConflict.judgeId || !newConflict.teamId) {
+      toast.error(t("adminAssignments.errors.conflictIncomplete"));
+      return;
+    }
+
+    try {
+      await addConflict(newConflict.judgeId, newConflict.teamId, newConflict.reason);
+      setNewConflict({ judgeId: "", teamId: "", reason: "company" });
+      toast.success(t("adminAssignments.conflictAdded"));
+      loadData();
+    } catch (error) {
+      logger.error(
+        "Error adding judge conflict",
+        error instanceof Error ? error : new Error(String(error))
+      );
+      toast.error(t("adminAssignments.failedSave"));
+    }
+  };
+
+  const handleRemoveConflict = async (id: string) => {
+    try {
+      await removeConflict(id);
+      loadData();
+    } catch (error) {
+      logger.error(
+        "Error removing judge conflict",
+        error instanceof Error ? error : new Error(String(error)),
+        { conflictId: id }
+      );
+      toast.error(t("adminAssignments.failedSave"));
+    }
+  };
+
+  const handleGenerate = () => {
+    if (!Number.isInteger(target) || target < JUDGES_PER_PROJECT_MIN || target > JUDGES_PER_PROJECT_MAX) {
+      toast.error(t("adminAssignments.errors.perProjectRange", { min: JUDGES_PER_PROJECT_MIN, max: JUDGES_PER_PROJECT_MAX }));
+      return;
+    }
+    if (isDirty && !window.confirm(t("adminAssignments.confirmRegenerate"))) {
+      return;
+    }
+
+    const plan = planAssignments(data.projects, data.judges, conflictSet, target);
+    setDraft(plan.assignments);
+    setIsDirty(true);
+    if (plan.shortfalls.length > 0) {
+      toast.warning(t("adminAssignments.shortfallWarning", { count: plan.shortfalls.length }));
+    }
+  };
+
+  const handleAddJudge = (submissionId: string, judgeId: string) => {
+    setDraft((current) => [...current, { submission_id: submissionId, judge_id: judgeId }]);
+    setIsDirty(true);
+  };
+
+  const handleRemoveJudge = (submissionId: string, judgeId: string) => {
+    setDraft((current) =>
+      current.filter((assignment) => !(assignment.submission_id === submissionId && assignment.judge_id === judgeId))
+    );
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const result = await saveAssignments(draft);
+    setIsSaving(false);
+
+    if (result.success) {
+      toast.success(t("adminAssignments.saved"));
+      loadData();
+    } else {
+      toast.error(t(`adminAssignments.errors.${result.error ?? "failed"}`));
+    }
+  };
+
+  const handleLock = async () => {
+    if (!window.confirm(t("adminAssignments.confirmLock"))) {
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await lockAssignments();
+    setIsSaving(false);
+
+    if (result.success) {
+      toast.success(t("adminAssignments.locked"));
+      loadData();
+    } else {
+      toast.error(t(`adminAssignments.errors.${result.error ?? "failed"}`));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <Shuffle className="h-6 w-6" />
+            {t("adminAssignments.title")}
+          </h2>
+          <p className="text-muted-foreground mt-1">{t("adminAssignments.description")}</p>
+        </div>
+        <Button onClick={loadData} variant="outline" size="sm">
+          <RefreshCw className="h-4 w-4 mr-2" />
+          {t("common.refresh")}
+        </Button>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminAssignments.judges")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{data.judges.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminAssignments.projects")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{data.projects.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminAssignments.shortProjects")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{shortCount}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminAssignments.status")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLocked ? (
+              <Badge>{t("adminAssignments.lockedAt", { date: formatDateTimeShort(data.lockedAt ?? "") })}</Badge>
+            ) : (
+              <Badge variant="secondary">{isDirty ? t("adminAssignments.unsaved") : t("adminAssignments.draft")}</Badge>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Judges */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("adminAssignments.judgeProfiles")}</CardTitle>
+          <CardDescription>{t("adminAssignments.judgeProfilesDesc")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("adminAssignments.judgeName")}</TableHead>
+                <TableHead>{t("adminAssignments.company")}</TableHead>
+                <TableHead>{t("adminAssignments.companyDomain")}</TableHead>
+                <TableHead>{t("adminAssignments.tracks")}</TableHead>
+                <TableHead className="text-right">{t("adminAssignments.workload")}</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.judges.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    {t("adminAssignments.noJudges")}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                data.judges.map((judge) => {
+                  const edit = getProfileEdit(judge);
+                  return (
+                    <TableRow key={judge.user_id}>
+                      <TableCell>
+                        <Input
+                          value={edit.display_name}
+                          onChange={(e) => setProfileEdit(judge, { display_name: e.target.value })}
+                          aria-label={t("adminAssignments.judgeName")}
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">{judge.email}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={edit.company}
+                          onChange={(e) => setProfileEdit(judge, { company: e.target.value })}
+                          aria-label={t("adminAssignments.company")}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={edit.company_domain}
+                          placeholder="example.co.ke"
+                          onChange={(e) => setProfileEdit(judge, { company_domain: e.target.value })}
+                          aria-label={t("adminAssignments.companyDomain")}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1 max-w-xs">
+                          {TRACK_OPTIONS.map((option) => {
+                            const selected = edit.tracks.includes(option.value);
+                            return (
+                              <Button
+                                key={option.value}
+                                type="button"
+                                size="sm"
+                                variant={selected ? "default" : "outline"}
+                                className="h-7 px-2 text-xs"
+                                aria-pressed={selected}
+                                onClick={() =>
+                                  setProfileEdit(judge, {
+                                    tracks: selected
+                                      ? edit.tracks.filter((track) => track !== option.value)
+                                      : [...edit.tracks, option.value],
+                                  })
+                                }
+                              >
+                                {t(option.labelKey)}
+                              </Button>
+                            );
+                          })}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{workloads.get(judge.user_id) ?? 0}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleSaveProfile(judge)}
+                          disabled={!profileEdits[judge.user_id]}
+                        >
+                          {t("adminAssignments.save")}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Conflicts */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("adminAssignments.conflicts")}</CardTitle>
+          <CardDescription>{t("adminAssignments.conflictsDesc")}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("adminAssignments.judgeName")}</TableHead>
+                <TableHead>{t("adminTeams.name")}</TableHead>
+                <TableHead>{t("adminAssignments.reason")}</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.conflicts.length === 0 && detected.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                    {t("adminAssignments.noConflicts")}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                <>
+                  {data.conflicts.map((conflict) => (
+                    <TableRow key={conflict.id}>
+                      <TableCell>{judgeNames.get(conflict.judge_id) ?? conflict.judge_id}</TableCell>
+                      <TableCell>{teamNames.get(conflict.team_id) ?? conflict.team_id}</TableCell>
+                      <TableCell>{t(`adminAssignments.reasons.${conflict.reason}`)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleRemoveConflict(conflict.id)}
+                          aria-label={t("adminAssignments.removeConflict")}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {detected.map((conflict) => (
+                    <TableRow key={`detected-${getConflictKey(conflict.judge_id, conflict.team_id)}`}>
+                      <TableCell>{judgeNames.get(conflict.judge_id) ?? conflict.judge_id}</TableCell>
+                      <TableCell>{teamNames.get(conflict.team_id) ?? conflict.team_id}</TableCell>
+                      <TableCell>
+                        {t("adminAssignments.reasons.company")}{" "}
+                        <Badge variant="outline">{t("adminAssignments.detected")}</Badge>
+                      </TableCell>
+                      <TableCell />
+                    </TableRow>
+                  ))}
+                </>
+              )}
+            </TableBody>
+          </Table>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={newConflict.judgeId} onValueChange={(judgeId) => setNewConflict((c) => ({ ...c, judgeId }))}>
+              <SelectTrigger className="w-48" aria-label={t("adminAssignments.judgeName")}>
+                <SelectValue placeholder={t("adminAssignments.chooseJudge")} />
+              </SelectTrigger>
+              <SelectContent>
+                {data.judges.map((judge) => (
+                  <SelectItem key={judge.user_id} value={judge.user_id}>
+                    {judgeNames.get(judge.user_id)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={newConflict.teamId} onValueChange={(teamId) => setNewConflict((c) => ({ ...c, teamId }))}>
+              <SelectTrigger className="w-48" aria-label={t("adminTeams.name")}>
+                <SelectValue placeholder={t("adminAssignments.chooseTeam")} />
+              </SelectTrigger>
+              <SelectContent>
+                {teams.map(([teamId, teamName]) => (
+                  <SelectItem key={teamId} value={teamId}>
+                    {teamName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={newConflict.reason}
+              onValueChange={(reason) => setNewConflict((c) => ({ ...c, reason: reason as ConflictReason }))}
+            >
+              <SelectTrigger className="w-48" aria-label={t("adminAssignments.reason")}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONFLICT_REASONS.map((reason) => (
+                  <SelectItem key={reason} value={reason}>
+                    {t(`adminAssignments.reasons.${reason}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={handleAddConflict}>
+              <Plus className="h-4 w-4 mr-1" />
+              {t("adminAssignments.addConflict")}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Assignments */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>{t("adminAssignments.assignments")}</CardTitle>
+              <CardDescription>{t("adminAssignments.assignmentsDesc")}</CardDescription>
+            </div>
+            {!isLocked && (
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  type="number"
+                  min={JUDGES_PER_PROJECT_MIN}
+                  max={JUDGES_PER_PROJECT_MAX}
+                  value={perProject}
+                  onChange={(e) => setPerProject(e.target.value)}
+                  className="w-20"
+                  aria-label={t("adminAssignments.perProject")}
+                />
+                <Button size="sm" variant="outline" onClick={handleGenerate}>
+                  <Shuffle className="h-4 w-4 mr-2" />
+                  {t("adminAssignments.generate")}
+                </Button>
+                <Button size="sm" variant="outline" onClick={handleSave} disabled={isSaving || !isDirty}>
+                  <Save className="h-4 w-4 mr-2" />
+                  {t("adminAssignments.saveDraft")}
+                </Button>
+                <Button size="sm" onClick={handleLock} disabled={isSaving || isDirty || draft.length === 0}>
+                  <Lock className="h-4 w-4 mr-2" />
+                  {t("adminAssignments.lock")}
+                </Button>
+              </div>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("adminSubmissions.project")}</TableHead>
+                <TableHead>{t("submission.track")}</TableHead>
+                <TableHead>{t("adminAssignments.assignedJudges")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.projects.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center py-8 text-muted-foreground">
+                    {t("adminSubmissions.empty")}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                data.projects.map((project) => {
+                  const assigned = draft
+                    .filter((assignment) => assignment.submission_id === project.id)
+                    .map((assignment) => assignment.judge_id);
+                  const available = data.judges.filter(
+                    (judge) =>
+                      !assigned.includes(judge.user_id) &&
+                      !conflictSet.has(getConflictKey(judge.user_id, project.team_id))
+                  );
+                  return (
+                    <TableRow key={project.id}>
+                      <TableCell>
+                        <div className="font-medium">{project.title}</div>
+                        <p className="text-xs text-muted-foreground">{project.team_name}</p>
+                      </TableCell>
+                      <TableCell>{t(`customQuestions.track.options.${project.track}`)}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap items-center gap-1">
+                          {assigned.map((judgeId) => {
+                            const conflicted = conflictSet.has(getConflictKey(judgeId, project.team_id));
+                            return (
+                              <Badge
+                                key={judgeId}
+                                variant={conflicted ? "destructive" : "secondary"}
+                                className="gap-1"
+                                title={conflicted ? t("adminAssignments.conflicted") : undefined}
+                              >
+                                {judgeNames.get(judgeId) ?? judgeId}
+                                {!isLocked && (
+                                  <button
+                                    type="button"
+                                    onClick={() => handleRemoveJudge(project.id, judgeId)}
+                                    aria-label={t("adminAssignments.removeJudge")}
+                                  >
+                                    <X className="h-3 w-3" />
+                                  </button>
+                                )}
+                              </Badge>
+                            );
+                          })}
+                          {assigned.length < target && (
+                            <Badge variant="outline">
+                              {t("adminAssignments.missing", { count: target - assigned.length })}
+                            </Badge>
+                          )}
+                          {!isLocked && available.length > 0 && (
+                            <Select value="" onValueChange={(judgeId) => handleAddJudge(project.id, judgeId)}>
+                              <SelectTrigger className="h-7 w-36 text-xs" aria-label={t("adminAssignments.addJudge")}>
+                                <SelectValue placeholder={t("adminAssignments.addJudge")} />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {available.map((judge) => (
+                                  <SelectItem key={judge.user_id} value={judge.user_id}>
+                                    {judgeNames.get(judge.user_id)} ({workloads.get(judge.user_id) ?? 0})
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default JudgeAssignmentsPanel;
@@ -0,0 +1,417 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { EyeOff, Gavel, Plus, RefreshCw, Send, Trash2 } from "lucide-react";
+import { TRACK_OPTIONS } from "@/content/registrationQuestions";
+import { useTranslation } from "@/hooks/useTranslation";
+import { logger } from "@/lib/logger";
+import { formatDateTimeShort } from "@/lib/i18n";
+import {
+  CRITERION_MAX_SCORE_MAX,
+  CRITERION_MAX_SCORE_MIN,
+  CRITERION_WEIGHT_MAX,
+  CRITERION_WEIGHT_MIN,
+  deleteCriterion,
+  getJudgingOverview,
+  publishResults,
+  saveCriterion,
+  unpublishResults,
+  validateCriterion,
+  type JudgingCriterion,
+  type JudgingOverview,
+} from "@/lib/judging";
+import { toast } from "sonner";
+
+/**
+ * JudgingPanel - Admin component for the judging rubric and leaderboard
+ *
+ * Note: Scores are normalized per judge, so the leaderboard only settles once every
+ * judge has scored several projects. Publishing freezes scoring and shows ranks in
+ * the public gallery; unpublishing reopens scoring.
+ */
+
+const ALL_TRACKS = "all";
+const NEW_CRITERION = "new";
+
+interface CriterionEdit {
+  name: string;
+  description: string;
+  weight: string;
+  max_score: string;
+}
+
+const EMPTY_CRITERION: CriterionEdit = { name: "", description: "", weight: "1", max_score: "10" };
+
+const JudgingPanel = () => {
+  const { t } = useTranslation();
+  const [overview, setOverview] = useState<JudgingOverview | null>(null);
+  const [edits, setEdits] = useState<Record<string, CriterionEdit>>({});
+  const [track, setTrack] = useState(ALL_TRACKS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setOverview(await getJudgingOverview());
+      setEdits({});
+    } catch (error) {
+      logger.error(
+        "Error loading judging overview",
+        error instanceof Error ? error : new Error(String(error))
+      );
+      toast.error(t("adminJudging.failedLoad"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const getEdit = (criterion: JudgingCriterion | null): CriterionEdit =>
+    criterion
+      ? edits[criterion.id] ?? {
+          name: criterion.name,
+          description: criterion.description ?? "",
+          weight: String(criterion.weight),
+          max_score: String(criterion.max_score),
+        }
+      : edits[NEW_CRITERION] ?? EMPTY_CRITERION;
+
+  const setEdit = (criterion: JudgingCriterion | null, changes: Partial<CriterionEdit>) => {
+    setEdits((current) => ({ ...current, [criterion?.id ?? NEW_CRITERION]: { ...getEdit(criterion), ...changes } }));
+  };
+
+  const handleSave = async (criterion: JudgingCriterion | null) => {
+    const edit = getEdit(criterion);
+    const input = {
+      name: edit.name,
+      description: edit.description,
+      weight: Number(edit.weight),
+      max_score: Number(edit.max_score),
+    };
+    const error = validateCriterion(input);
+    if (error) {
+      toast.error(
+        t(error, {
+          min: error.endsWith("weightRange") ? CRITERION_WEIGHT_MIN : CRITERION_MAX_SCORE_MIN,
+          max: error.endsWith("weightRange") ? CRITERION_WEIGHT_MAX : CRITERION_MAX_SCORE_MAX,
+        })
+      );
+      return;
+    }
+
+    try {
+      await saveCriterion(input, criterion?.id, overview?.criteria.length ?? 0);
+      toast.success(t("adminJudging.criterionSaved"));
+      loadData();
+    } catch (error) {
+      logger.error(
+        "Error saving judging criterion",
+        error instanceof Error ? error : new Error(String(error)),
+        { criterionId: criterion?.id }
+      );
+      toast.error(t("adminJudging.failedSave"));
+    }
+  };
+
+  const handleDelete = async (criterion: JudgingCriterion) => {
+    if (!window.confirm(t("adminJudging.confirmDelete", { name: criterion.name }))) {
+      return;
+    }
+
+    try {
+      await deleteCriterion(criterion.id);
+      toast.success(t("adminJudging.criterionDeleted"));
+      loadData();
+    } catch (error) {
+      logger.error(
+        "Error deleting judging criterion",
+        error instanceof Error ? error : new Error(String(error)),
+        { criterionId: criterion.id }
+      );
+      toast.error(t("adminJudging.failedSave"));
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!overview) return;
+    const isPublished = !!overview.publishedAt;
+    if (!window.confirm(t(isPublished ? "adminJudging.confirmUnpublish" : "adminJudging.confirmPublish"))) {
+      return;
+    }
+
+    setIsPublishing(true);
+    const success = isPublished ? await unpublishResults() : await publishResults(overview.leaderboard);
+    setIsPublishing(false);
+
+    if (success) {
+      toast.success(t(isPublished ? "adminJudging.unpublished" : "adminJudging.published"));
+      loadData();
+    } else {
+      toast.error(t("adminJudging.failedPublish"));
+    }
+  };
+
+  const renderCriterionRow = (criterion: JudgingCriterion | null) => {
+    const edit = getEdit(criterion);
+    const key = criterion?.id ?? NEW_CRITERION;
+    return (
+      <TableRow key={key}>
+        <TableCell>
+          <Input
+            value={edit.name}
+            onChange={(e) => setEdit(criterion, { name: e.target.value })}
+            placeholder={t("adminJudging.namePlaceholder")}
+            aria-label={t("adminJudging.name")}
+          />
+        </TableCell>
+        <TableCell>
+          <Input
+            value={edit.description}
+            onChange={(e) => setEdit(criterion, { description: e.target.value })}
+            placeholder={t("adminJudging.descriptionPlaceholder")}
+            aria-label={t("adminJudging.criterionDescription")}
+          />
+        </TableCell>
+        <TableCell>
+          <Input
+            type="number"
+            min={CRITERION_WEIGHT_MIN}
+            max={CRITERION_WEIGHT_MAX}
+            value={edit.weight}
+            onChange={(e) => setEdit(criterion, { weight: e.target.value })}
+            className="w-20"
+            aria-label={t("adminJudging.weight")}
+          />
+        </TableCell>
+        <TableCell>
+          <Input
+            type="number"
+            min={CRITERION_MAX_SCORE_MIN}
+            max={CRITERION_MAX_SCORE_MAX}
+            value={edit.max_score}
+            onChange={(e) => setEdit(criterion, { max_score: e.target.value })}
+            className="w-20"
+            aria-label={t("adminJudging.maxScore")}
+          />
+        </TableCell>
+        <TableCell className="text-right whitespace-nowrap">
+          {criterion ? (
+            <>
+              <Button size="sm" variant="outline" onClick={() => handleSave(criterion)} disabled={!edits[key]}>
+                {t("adminJudging.save")}
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleDelete(criterion)}
+                aria-label={t("adminJudging.delete")}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          ) : (
+            <Button size="sm" onClick={() => handleSave(null)}>
+              <Plus className="h-4 w-4 mr-1" />
+              {t("adminJudging.add")}
+            </Button>
+          )}
+        </TableCell>
+      </TableRow>
+    );
+  };
+
+  if (isLoading || !overview) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="mb-4 h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent mx-auto" />
+          <p className="text-muted-foreground">{t("adminJudging.loading")}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const visible =
+    track === ALL_TRACKS ? overview.leaderboard : overview.leaderboard.filter((entry) => entry.track === track);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <Gavel className="h-6 w-6" />
+            {t("adminJudging.title")}
+          </h2>
+          <p className="text-muted-foreground mt-1">{t("adminJudging.description")}</p>
+        </div>
+        <Button onClick={loadData} variant="outline" size="sm">
+          <RefreshCw className="h-4 w-4 mr-2" />
+          {t("common.refresh")}
+        </Button>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminJudging.projectsRanked")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {overview.leaderboard.length} / {overview.projectCount}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminJudging.assignments")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{overview.assignmentCount}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminJudging.scorecards")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{overview.scorecardCount}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminJudging.status")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {overview.publishedAt ? (
+              <Badge>{t("adminJudging.publishedAt", { date: formatDateTimeShort(overview.publishedAt) })}</Badge>
+            ) : (
+              <Badge variant="secondary">{t("adminJudging.draft")}</Badge>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Rubric */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("adminJudging.rubric")}</CardTitle>
+          <CardDescription>{t("adminJudging.rubricDesc")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("adminJudging.name")}</TableHead>
+                <TableHead>{t("adminJudging.criterionDescription")}</TableHead>
+                <TableHead>{t("adminJudging.weight")}</TableHead>
+                <TableHead>{t("adminJudging.maxScore")}</TableHead>
+                <TableHead className="text-right">{t("adminJudging.actions")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {overview.criteria.map((criterion) => renderCriterionRow(criterion))}
+              {renderCriterionRow(null)}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Leaderboard */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>{t("adminJudging.leaderboard")}</CardTitle>
+              <CardDescription>{t("adminJudging.leaderboardDesc")}</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={track} onValueChange={setTrack}>
+                <SelectTrigger className="w-44" aria-label={t("submission.track")}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_TRACKS}>{t("gallery.allTracks")}</SelectItem>
+                  {TRACK_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {t(option.labelKey)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                variant={overview.publishedAt ? "outline" : "default"}
+                onClick={handlePublish}
+                disabled={isPublishing || (!overview.publishedAt && overview.leaderboard.length === 0)}
+              >
+                {overview.publishedAt ? (
+                  <EyeOff className="h-4 w-4 mr-2" />
+                ) : (
+                  <Send className="h-4 w-4 mr-2" />
+                )}
+                {overview.publishedAt ? t("adminJudging.unpublish") : t("adminJudging.publish")}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("adminJudging.rank")}</TableHead>
+                <TableHead>{t("adminSubmissions.project")}</TableHead>
+                <TableHead>{t("adminTeams.name")}</TableHead>
+                <TableHead>{t("submission.track")}</TableHead>
+                <TableHead className="text-right">{t("adminJudging.normalizedScore")}</TableHead>
+                <TableHead className="text-right">{t("adminJudging.rawScore")}</TableHead>
+                <TableHead className="text-right">{t("adminJudging.judges")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    {t("adminJudging.empty")}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visible.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="font-medium">
+                      {track === ALL_TRACKS ? entry.overall_rank : entry.track_rank}
+                    </TableCell>
+                    <TableCell>{entry.title}</TableCell>
+                    <TableCell>{entry.team_name}</TableCell>
+                    <TableCell>{t(`customQuestions.track.options.${entry.track}`)}</TableCell>
+                    <TableCell className="text-right">{entry.score.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">{entry.raw_score.toFixed(1)}</TableCell>
+                    <TableCell className="text-right">{entry.judge_count}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default JudgingPanel;
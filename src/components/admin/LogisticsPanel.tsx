@@ -0,0 +1,171 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { Printer, RefreshCw, Truck } from "lucide-react";
+import { useTranslation } from "@/hooks/useTranslation";
+import { logger } from "@/lib/logger";
+import { formatCustomAnswer } from "@/lib/customQuestions";
+import { buildLogisticsReport, getLogisticsRegistrations, type LogisticsReport } from "@/lib/logistics";
+import { LOGISTICS_CATEGORIES, REGISTRATION_QUESTIONS } from "@/content/registrationQuestions";
+import { toast } from "sonner";
+
+/**
+ * LogisticsPanel - Catering, accessibility and t-shirt planning
+ *
+ * Note: Counts come from confirmed registrations. Printing hides everything except
+ * the chosen category's list.
+ */
+
+const LogisticsPanel = () => {
+  const { t } = useTranslation();
+  const [report, setReport] = useState<LogisticsReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [printCategory, setPrintCategory] = useState<string | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const registrations = await getLogisticsRegistrations();
+      setReport(buildLogisticsReport(registrations, LOGISTICS_CATEGORIES, REGISTRATION_QUESTIONS));
+    } catch (error) {
+      logger.error(
+        "Error loading logistics report",
+        error instanceof Error ? error : new Error(String(error))
+      );
+      toast.error(t("adminLogistics.failedLoad"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  // Print once the chosen list is the only thing left visible
+  useEffect(() => {
+    if (!printCategory) return;
+    const reset = () => setPrintCategory(null);
+    window.addEventListener("afterprint", reset);
+    window.print();
+    return () => window.removeEventListener("afterprint", reset);
+  }, [printCategory]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="mb-4 h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent mx-auto" />
+          <p className="text-muted-foreground">{t("adminLogistics.loading")}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between print:hidden">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <Truck className="h-6 w-6" />
+            {t("adminLogistics.title")}
+          </h2>
+          <p className="text-muted-foreground mt-1">
+            {t("adminLogistics.description", { count: report?.total ?? 0 })}
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadData}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          {t("adminLogistics.refresh")}
+        </Button>
+      </div>
+
+      {report?.categories.map(({ category, question, counts, entries }) => {
+        const chartData = counts.map((c) => ({ name: t(c.labelKey), count: c.count }));
+        const hidden = printCategory !== null && printCategory !== category.id;
+
+        return (
+          <Card key={category.id} className={hidden ? "print:hidden" : "print:border-0 print:shadow-none"}>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle>{t(`adminLogistics.categories.${category.id}`)}</CardTitle>
+                <CardDescription>
+                  {t("adminLogistics.respondents", { count: entries.length })}
+                  {question.adminOnly && ` · ${t("adminLogistics.adminOnly")}`}
+                </CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="print:hidden"
+                onClick={() => setPrintCategory(category.id)}
+                disabled={entries.length === 0}
+              >
+                <Printer className="mr-2 h-4 w-4" />
+                {t("adminLogistics.print")}
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="print:hidden">
+                <ResponsiveContainer width="100%" height={220}>
+                  <BarChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="name" />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip />
+                    <Bar dataKey="count" fill="#65bb3a" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+                {counts.map((c) => (
+                  <span key={c.value}>
+                    {t(c.labelKey)}: <span className="font-medium">{c.count}</span>
+                  </span>
+                ))}
+              </div>
+
+              {entries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t("adminLogistics.noEntries")}</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("registration.fullName")}</TableHead>
+                      <TableHead>{t("registration.email")}</TableHead>
+                      <TableHead>{t(question.labelKey)}</TableHead>
+                      {category.notesQuestionId && <TableHead>{t("adminLogistics.notes")}</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => (
+                      <TableRow key={entry.registrationId}>
+                        <TableCell className="font-medium">{entry.fullName}</TableCell>
+                        <TableCell>{entry.email}</TableCell>
+                        <TableCell>{formatCustomAnswer(question, entry.values, t)}</TableCell>
+                        {category.notesQuestionId && <TableCell className="whitespace-pre-wrap">{entry.notes}</TableCell>}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LogisticsPanel;
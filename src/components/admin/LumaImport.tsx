@@ -0,0 +1,269 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FileSpreadsheet, Upload } from "lucide-react";
+import { useTranslation } from "@/hooks/useTranslation";
+import { logger } from "@/lib/logger";
+import {
+  buildImportPlan,
+  commitImportPlan,
+  getExistingRegistrations,
+  mapLumaRows,
+  parseCsv,
+  type ImportField,
+  type ImportPlan,
+  type LumaImportRow,
+} from "@/lib/lumaImport";
+import { toast } from "sonner";
+
+interface LumaImportProps {
+  onImported?: () => void;
+}
+
+const getRowValue = (row: LumaImportRow, field: ImportField): string | null =>
+  ({ full_name: row.fullName, linkedin_url: row.linkedinUrl, whatsapp_number: row.whatsappNumber })[field];
+
+const LumaImport = ({ onImported }: LumaImportProps) => {
+  const { t } = useTranslation();
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isCommitting, setIsCommitting] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setIsAnalyzing(true);
+      setPlan(null);
+      setFileName(file.name);
+
+      const text = await file.text();
+      const { rows, invalid } = mapLumaRows(parseCsv(text));
+      const existing = await getExistingRegistrations();
+      setPlan(buildImportPlan(rows, existing, invalid));
+    } catch (error) {
+      logger.error(
+        "Error analyzing Luma export",
+        error instanceof Error ? error : new Error(String(error)),
+        { fileName: file.name }
+      );
+      toast.error(t("adminImport.failedAnalyze"));
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!plan) return;
+
+    try {
+      setIsCommitting(true);
+      const result = await commitImportPlan(plan);
+
+      if (result.failed > 0) {
+        toast.error(
+          t("adminImport.partialFailure", {
+            failed: result.failed,
+            lines: result.failures.map((failure) => failure.line).join(", "),
+          })
+        );
+      } else {
+        toast.success(
+          t("adminImport.committed", {
+            inserted: result.inserted,
+            waitlisted: result.waitlisted,
+            updated: result.updated,
+          })
+        );
+      }
+
+      setPlan(null);
+      setFileName(null);
+      if (onImported) onImported();
+    } catch (error) {
+      logger.error(
+        "Error committing Luma import",
+        error instanceof Error ? error : new Error(String(error))
+      );
+      toast.error(t("adminImport.failedCommit"));
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  const summary = plan
+    ? [
+        { key: "new", count: plan.new.length, className: "bg-green-600" },
+        { key: "updated", count: plan.updated.length, className: "bg-blue-500" },
+        { key: "conflicting", count: plan.conflicting.length, className: "bg-orange-500" },
+        { key: "unchanged", count: plan.unchanged.length, className: "bg-gray-500" },
+        { key: "invalid", count: plan.invalid.length, className: "bg-red-500" },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-2xl font-bold flex items-center gap-2">
+          <FileSpreadsheet className="h-6 w-6" />
+          {t("adminImport.title")}
+        </h2>
+        <p className="text-muted-foreground mt-1">{t("adminImport.description")}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("adminImport.selectFile")}</CardTitle>
+          <CardDescription>{t("adminImport.selectFileDesc")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleFileChange}
+            disabled={isAnalyzing || isCommitting}
+            aria-label={t("adminImport.selectFile")}
+          />
+          {isAnalyzing && (
+            <p className="text-sm text-muted-foreground mt-2">{t("adminImport.analyzing")}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {plan && (
+        <>
+          {/* Dry-run Summary */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("adminImport.dryRun")}</CardTitle>
+              <CardDescription>{t("adminImport.dryRunDesc", { fileName: fileName || "" })}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {summary.map((item) => (
+                  <Badge key={item.key} className={item.className}>
+                    {t(`adminImport.kinds.${item.key}`)}: {item.count}
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  onClick={handleCommit}
+                  disabled={isCommitting || plan.new.length + plan.updated.length === 0}
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  {isCommitting
+                    ? t("adminImport.committing")
+                    : t("adminImport.commit", { count: plan.new.length + plan.updated.length })}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setPlan(null);
+                    setFileName(null);
+                  }}
+                  disabled={isCommitting}
+                >
+                  {t("common.cancel")}
+                </Button>
+              </div>
+              {plan.conflicting.length > 0 && (
+                <p className="text-sm text-muted-foreground">{t("adminImport.conflictsSkipped")}</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Diff */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("adminImport.changes")}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t("adminImport.line")}</TableHead>
+                    <TableHead>{t("adminImport.change")}</TableHead>
+                    <TableHead>{t("adminTable.email")}</TableHead>
+                    <TableHead>{t("adminImport.details")}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.new.map((row) => (
+                    <TableRow key={`new-${row.line}`}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell><Badge className="bg-green-600">{t("adminImport.kinds.new")}</Badge></TableCell>
+                      <TableCell>{row.email}</TableCell>
+                      <TableCell>{row.fullName}</TableCell>
+                    </TableRow>
+                  ))}
+                  {plan.updated.map((update) => (
+                    <TableRow key={`updated-${update.row.line}`}>
+                      <TableCell>{update.row.line}</TableCell>
+                      <TableCell><Badge className="bg-blue-500">{t("adminImport.kinds.updated")}</Badge></TableCell>
+                      <TableCell>{update.row.email}</TableCell>
+                      <TableCell>
+                        {Object.entries(update.changes).map(([field, value]) => (
+                          <div key={field} className="text-sm">
+                            {t(`adminImport.fields.${field}`)}: <span className="font-medium">{value}</span>
+                          </div>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {plan.conflicting.map((conflict) => (
+                    <TableRow key={`conflict-${conflict.row.line}`}>
+                      <TableCell>{conflict.row.line}</TableCell>
+                      <TableCell><Badge className="bg-orange-500">{t("adminImport.kinds.conflicting")}</Badge></TableCell>
+                      <TableCell>{conflict.row.email}</TableCell>
+                      <TableCell>
+                        {conflict.reason === "duplicateInFile" ? (
+                          <span className="text-sm">{t("adminImport.duplicateInFile")}</span>
+                        ) : (
+                          conflict.fields.map((field) => (
+                            <div key={field} className="text-sm">
+                              {t(`adminImport.fields.${field}`)}:{" "}
+                              <span className="line-through text-muted-foreground">
+                                {conflict.existing?.[field]}
+                              </span>{" "}
+                              → <span className="font-medium">
+                                {getRowValue(conflict.row, field)}
+                              </span>
+                            </div>
+                          ))
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {plan.invalid.map((row) => (
+                    <TableRow key={`invalid-${row.line}`}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell><Badge className="bg-red-500">{t("adminImport.kinds.invalid")}</Badge></TableCell>
+                      <TableCell>—</TableCell>
+                      <TableCell className="text-sm">{t(`adminImport.reasons.${row.reason}`)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LumaImport;
@@ -0,0 +1,197 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CalendarClock, RefreshCw } from "lucide-react";
+import { useTranslation } from "@/hooks/useTranslation";
+import { logger } from "@/lib/logger";
+import {
+  getMentorUtilization,
+  getUtilizationRate,
+  getUtilizationStatus,
+  type MentorUtilization,
+  type UtilizationStatus,
+} from "@/lib/officeHours";
+import { toast } from "sonner";
+
+/**
+ * OfficeHoursPanel - Admin utilization report for mentor office hours
+ */
+
+const STATUS_ORDER: UtilizationStatus[] = ["overbooked", "idle", "noAvailability", "balanced"];
+
+const STATUS_VARIANTS: Record<UtilizationStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  overbooked: "destructive",
+  balanced: "default",
+  idle: "secondary",
+  noAvailability: "outline",
+};
+
+const formatHours = (minutes: number) => (minutes / 60).toFixed(1);
+
+const OfficeHoursPanel = () => {
+  const { t } = useTranslation();
+  const [mentors, setMentors] = useState<MentorUtilization[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setMentors(await getMentorUtilization());
+    } catch (error) {
+      logger.error(
+        "Error loading mentor utilization",
+        error instanceof Error ? error : new Error(String(error))
+      );
+      toast.error(t("adminOfficeHours.failedLoad"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="mb-4 h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent mx-auto" />
+          <p className="text-muted-foreground">{t("adminOfficeHours.loading")}</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Mentors needing attention first, busiest first within each group
+  const rows = [...mentors].sort(
+    (a, b) =>
+      STATUS_ORDER.indexOf(getUtilizationStatus(a)) - STATUS_ORDER.indexOf(getUtilizationStatus(b)) ||
+      getUtilizationRate(b) - getUtilizationRate(a)
+  );
+  const countStatus = (status: UtilizationStatus) =>
+    mentors.filter((mentor) => getUtilizationStatus(mentor) === status).length;
+  const totalSessions = mentors.reduce((sum, mentor) => sum + mentor.sessions, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <CalendarClock className="h-6 w-6" />
+            {t("adminOfficeHours.title")}
+          </h2>
+          <p className="text-muted-foreground mt-1">{t("adminOfficeHours.description")}</p>
+        </div>
+        <Button onClick={loadData} variant="outline" size="sm">
+          <RefreshCw className="h-4 w-4 mr-2" />
+          {t("common.refresh")}
+        </Button>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminOfficeHours.mentors")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{mentors.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminOfficeHours.sessions")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{totalSessions}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminOfficeHours.statuses.overbooked")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{countStatus("overbooked")}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminOfficeHours.statuses.idle")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{countStatus("idle") + countStatus("noAvailability")}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Utilization */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("adminOfficeHours.utilization")}</CardTitle>
+          <CardDescription>{t("adminOfficeHours.utilizationDesc")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("adminOfficeHours.mentor")}</TableHead>
+                <TableHead className="text-right">{t("adminOfficeHours.availableHours")}</TableHead>
+                <TableHead className="text-right">{t("adminOfficeHours.bookedHours")}</TableHead>
+                <TableHead className="w-40">{t("adminOfficeHours.utilization")}</TableHead>
+                <TableHead className="text-right">{t("adminOfficeHours.sessions")}</TableHead>
+                <TableHead className="text-right">{t("adminOfficeHours.cancelled")}</TableHead>
+                <TableHead>{t("adminOfficeHours.status")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    {t("adminOfficeHours.noMentors")}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map((mentor) => {
+                  const rate = Math.round(getUtilizationRate(mentor) * 100);
+                  const status = getUtilizationStatus(mentor);
+                  return (
+                    <TableRow key={mentor.mentor_id}>
+                      <TableCell className="font-medium">{mentor.display_name}</TableCell>
+                      <TableCell className="text-right">{formatHours(mentor.available_minutes)}</TableCell>
+                      <TableCell className="text-right">{formatHours(mentor.booked_minutes)}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Progress value={rate} className="h-2" aria-label={`${rate}%`} />
+                          <span className="text-sm w-10 text-right">{rate}%</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{mentor.sessions}</TableCell>
+                      <TableCell className="text-right">{mentor.cancelled}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[status]}>{t(`adminOfficeHours.statuses.${status}`)}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default OfficeHoursPanel;
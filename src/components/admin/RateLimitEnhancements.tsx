@@ -98,7 +98,7 @@ const RateLimitEnhancements = () => {
     try {
       await blockIdentifier(
         identifier,
-        violationType as "email" | "ip" | "client",
+        violationType as "email" | "ip" | "client" | "phone",
         0,
         "Manual block by admin",
         "admin"
@@ -115,7 +115,7 @@ const RateLimitEnhancements = () => {
     try {
       await unblockIdentifier(
         identifier,
-        violationType as "email" | "ip" | "client",
+        violationType as "email" | "ip" | "client" | "phone",
         "admin"
       );
       toast.success("Identifier unblocked");
@@ -63,6 +63,8 @@ const RateLimitViolations = () => {
         return "bg-orange-500";
       case "client":
         return "bg-purple-500";
+      case "phone":
+        return "bg-green-500";
       default:
         return "bg-gray-500";
     }
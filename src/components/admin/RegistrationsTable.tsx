@@ -1,3 +1,4 @@
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -8,21 +9,38 @@ import {
     TableHeader,
     TableRow,
 } from "@/components/ui/table";
+import { REGISTRATION_QUESTIONS } from "@/content/registrationQuestions";
 import { useTranslation } from "@/hooks/useTranslation";
 import { supabase } from "@/integrations/supabase/client";
+import { formatCustomAnswer, getFilterableQuestions, type CustomAnswers } from "@/lib/customQuestions";
 import { getPaginatedRegistrations } from "@/lib/dbQueries";
+import {
+    buildMergePlan,
+    findDuplicateGroups,
+    getDedupCandidates,
+    mergeRegistrations,
+    type DuplicateGroup,
+} from "@/lib/deduplication";
+import { isSponsorShareable, type ConsentStatus } from "@/lib/guardianConsent";
 import { formatDateTimeShort } from "@/lib/i18n";
 import { logger } from "@/lib/logger";
 import { createObjectURL, revokeObjectURL } from "@/lib/polyfills";
-import { ExternalLink, FileText, Mail, Search } from "lucide-react";
-import { useCallback, useEffect, useState } from "react";
+import { parseSnippet, reindexMissingResumes } from "@/lib/resumeSearch";
+import { withdrawRegistration, type RegistrationStatus } from "@/lib/waitlist";
+import { Copy, ExternalLink, FileSearch, FileText, GitMerge, Mail, MessageCircle, Search, UserMinus } from "lucide-react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { toast } from "sonner";
 
 /**
- * RegistrationsTable - Admin component for viewing historical registrations
+ * RegistrationsTable - Admin component for viewing registrations
  * 
- * Note: This component displays legacy registration data from before the migration to Luma.
- * New registrations are handled through Luma and will not appear in this table.
+ * Note: Includes native registrations as well as attendees imported from Luma
+ * exports via the Import tab. Searches also match resume text; results are then
+ * ordered by relevance and show the matching resume excerpt. Likely duplicate
+ * registrations are flagged and can be merged into the earliest one. Custom answers
+ * are summarized per row and can be filtered on from the Admin page. Minors show
+ * their guardian consent status. Registrations from past editions are anonymized or
+ * removed by the policies on the Retention tab.
  */
 
 
@@ -31,25 +49,38 @@ interface Registration {
   full_name: string;
   email: string;
   linkedin_url: string | null;
+  whatsapp_number: string | null;
   resume_path: string | null;
   created_at: string;
+  status: RegistrationStatus;
+  waitlist_position: number | null;
+  verified_at: string | null;
+  resume_snippet?: string | null;
+  custom_answers?: CustomAnswers | null;
+  consent_status?: ConsentStatus | null;
 }
 
 interface RegistrationsTableProps {
   onRefresh?: () => void;
+  answerFilter?: CustomAnswers | null;
 }
 
-const RegistrationsTable = ({ onRefresh }: RegistrationsTableProps) => {
+const SUMMARY_QUESTIONS = getFilterableQuestions(REGISTRATION_QUESTIONS);
+
+const RegistrationsTable = ({ onRefresh, answerFilter = null }: RegistrationsTableProps) => {
   const { t } = useTranslation();
   const [registrations, setRegistrations] = useState<Registration[]>([]);
   const [filteredRegistrations, setFilteredRegistrations] = useState<Registration[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
-  const [sortBy, setSortBy] = useState<"name" | "email" | "date">("date");
+  const [sortBy, setSortBy] = useState<"name" | "email" | "date" | "rank">("date");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
   const [totalCount, setTotalCount] = useState(0);
   const [currentPage, setCurrentPage] = useState(0);
   const [pageSize] = useState(50);
+  const [isReindexing, setIsReindexing] = useState(false);
+  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup[]>([]);
+  const isSearching = searchQuery.trim() !== "";
 
   const loadRegistrations = useCallback(async () => {
     try {
@@ -60,8 +91,9 @@ const RegistrationsTable = ({ onRefresh }: RegistrationsTableProps) => {
         limit: pageSize,
         offset: currentPage * pageSize,
         search: searchQuery || undefined,
-        sortBy: sortBy === "name" ? "full_name" : sortBy === "email" ? "email" : "created_at",
+        sortBy: sortBy === "name" ? "full_name" : sortBy === "email" ? "email" : sortBy === "rank" ? "rank" : "created_at",
         sortOrder: sortOrder.toUpperCase() as "ASC" | "DESC",
+        answerFilter,
       });
 
       setRegistrations(result.data);
@@ -74,7 +106,21 @@ const RegistrationsTable = ({ onRefresh }: RegistrationsTableProps) => {
     } finally {
       setIsLoading(false);
     }
-  }, [onRefresh, t, currentPage, pageSize, searchQuery, sortBy, sortOrder]);
+  }, [onRefresh, t, currentPage, pageSize, searchQuery, sortBy, sortOrder, answerFilter]);
+
+  // Duplicates are detected across all registrations, not just the current page
+  const loadDuplicates = useCallback(async () => {
+    try {
+      setDuplicateGroups(findDuplicateGroups(await getDedupCandidates()));
+    } catch (error) {
+      logger.error("Error detecting duplicate registrations", error instanceof Error ? error : new Error(String(error)), { component: "RegistrationsTable" });
+    }
+  }, []);
+
+  const duplicateGroupById = useMemo(
+    () => new Map(duplicateGroups.flatMap((group) => group.registrations.map((r) => [r.id, group] as const))),
+    [duplicateGroups]
+  );
 
   // Search and sorting are now handled by the database query
   useEffect(() => {
@@ -82,14 +128,38 @@ const RegistrationsTable = ({ onRefresh }: RegistrationsTableProps) => {
   }, [registrations]);
 
   useEffect(() => {
-    // Reset to first page when search or sort changes
+    // Reset to first page when search, sort or filters change
     setCurrentPage(0);
-  }, [searchQuery, sortBy, sortOrder]);
+  }, [searchQuery, sortBy, sortOrder, answerFilter]);
+
+  useEffect(() => {
+    // Rank search results by relevance until another column is picked
+    setSortBy(isSearching ? "rank" : "date");
+    setSortOrder("desc");
+  }, [isSearching]);
 
   useEffect(() => {
     loadRegistrations();
   }, [loadRegistrations]);
 
+  useEffect(() => {
+    loadDuplicates();
+  }, [loadDuplicates]);
+
+  const handleReindex = async () => {
+    setIsReindexing(true);
+    const indexed = await reindexMissingResumes();
+    setIsReindexing(false);
+
+    if (indexed === null) {
+      toast.error(t("adminTable.reindexFailed"));
+      return;
+    }
+
+    toast.success(t("adminTable.reindexed", { count: indexed }));
+    if (isSearching) loadRegistrations();
+  };
+
   const handleSort = (column: "name" | "email" | "date") => {
     if (sortBy === column) {
       setSortOrder(sortOrder === "asc" ? "desc" : "asc");
@@ -149,6 +219,70 @@ const RegistrationsTable = ({ onRefresh }: RegistrationsTableProps) => {
     }
   };
 
+  const handleWithdraw = async (registration: Registration) => {
+    if (!window.confirm(t("adminTable.confirmWithdraw", { name: registration.full_name }))) {
+      return;
+    }
+
+    const result = await withdrawRegistration(registration.id);
+    if (!result.success) {
+      toast.error(t("adminTable.failedWithdraw"));
+      return;
+    }
+
+    toast.success(
+      result.promotedRegistrationId
+        ? t("adminTable.withdrawnAndPromoted")
+        : t("adminTable.withdrawn")
+    );
+    loadRegistrations();
+    loadDuplicates();
+  };
+
+  const handleMerge = async (group: DuplicateGroup) => {
+    const [primary, ...duplicates] = group.registrations;
+    if (!window.confirm(t("adminTable.confirmMerge", { count: duplicates.length, name: primary.full_name }))) {
+      return;
+    }
+
+    if (!(await mergeRegistrations(buildMergePlan(group)))) {
+      toast.error(t("adminTable.failedMerge"));
+      return;
+    }
+
+    toast.success(t("adminTable.merged", { name: primary.full_name }));
+    loadRegistrations();
+    loadDuplicates();
+  };
+
+  const describeDuplicates = (registration: Registration, group: DuplicateGroup) =>
+    group.registrations
+      .filter((r) => r.id !== registration.id)
+      .map((r) => `${r.full_name} <${r.email}>`)
+      .join("\n");
+
+  const getConsentVariant = (status: ConsentStatus) => {
+    switch (status) {
+      case "pending":
+        return "secondary";
+      case "declined":
+        return "destructive";
+      default:
+        return "outline";
+    }
+  };
+
+  const getStatusVariant = (status: RegistrationStatus) => {
+    switch (status) {
+      case "confirmed":
+        return "default";
+      case "waitlisted":
+        return "secondary";
+      default:
+        return "outline";
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -173,6 +307,10 @@ const RegistrationsTable = ({ onRefresh }: RegistrationsTableProps) => {
             className="pl-9"
           />
         </div>
+        <Button onClick={handleReindex} variant="outline" disabled={isReindexing}>
+          <FileSearch className="mr-2 h-4 w-4" />
+          {isReindexing ? t("adminTable.reindexing") : t("adminTable.reindexResumes")}
+        </Button>
         <Button onClick={loadRegistrations} variant="outline">
           {t("adminTable.refresh")}
         </Button>
@@ -188,6 +326,13 @@ const RegistrationsTable = ({ onRefresh }: RegistrationsTableProps) => {
         )}
       </div>
 
+      {duplicateGroups.length > 0 && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Copy className="h-4 w-4" />
+          {t("adminTable.duplicateGroups", { count: duplicateGroups.length })}
+        </div>
+      )}
+
       {/* Pagination Controls */}
       {totalCount > pageSize && (
         <div className="flex items-center justify-between">
@@ -228,6 +373,7 @@ const RegistrationsTable = ({ onRefresh }: RegistrationsTableProps) => {
               >
                 {t("adminTable.email")} {sortBy === "email" && (sortOrder === "asc" ? "↑" : "↓")}
               </TableHead>
+              <TableHead>{t("adminTable.whatsapp")}</TableHead>
               <TableHead>{t("adminTable.linkedin")}</TableHead>
               <TableHead>{t("adminTable.resume")}</TableHead>
               <TableHead
@@ -236,67 +382,169 @@ const RegistrationsTable = ({ onRefresh }: RegistrationsTableProps) => {
               >
                 {t("adminTable.date")} {sortBy === "date" && (sortOrder === "asc" ? "↑" : "↓")}
               </TableHead>
+              <TableHead>{t("adminTable.status")}</TableHead>
+              <TableHead>
+                <span className="sr-only">{t("adminTable.actions")}</span>
+              </TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {filteredRegistrations.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
                   {t("adminTable.noRegistrations")}
                 </TableCell>
               </TableRow>
             ) : (
-              filteredRegistrations.map((registration) => (
-                <TableRow key={registration.id}>
-                  <TableCell className="font-medium">
-                    {registration.full_name}
-                  </TableCell>
-                  <TableCell>
-                    <div className="flex items-center gap-2">
-                      <Mail className="h-4 w-4 text-muted-foreground" />
-                      {registration.email}
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    {registration.linkedin_url ? (
-                      <a
-                        href={registration.linkedin_url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="flex items-center gap-2 text-primary hover:underline"
-                      >
-                        <ExternalLink className="h-4 w-4" />
-                        {t("adminTable.viewProfile")}
-                      </a>
-                    ) : (
-                      <span className="text-muted-foreground">—</span>
-                    )}
-                  </TableCell>
-                  <TableCell>
-                    {registration.resume_path ? (
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() =>
-                          downloadResume(
-                            registration.resume_path!,
-                            `${registration.full_name}-resume.pdf`
-                          )
-                        }
-                        className="flex items-center gap-2"
-                      >
-                        <FileText className="h-4 w-4" />
-                        {t("adminTable.download")}
-                      </Button>
-                    ) : (
-                      <span className="text-muted-foreground">—</span>
-                    )}
-                  </TableCell>
-                  <TableCell>
-                    {formatDateTimeShort(registration.created_at)}
-                  </TableCell>
-                </TableRow>
-              ))
+              filteredRegistrations.map((registration) => {
+                const duplicateGroup = duplicateGroupById.get(registration.id);
+                return (
+                  <TableRow key={registration.id}>
+                    <TableCell className="font-medium">
+                      {registration.full_name}
+                      {duplicateGroup && (
+                        <Badge
+                          variant={duplicateGroup.confidence === "likely" ? "destructive" : "outline"}
+                          className="ml-2"
+                          title={describeDuplicates(registration, duplicateGroup)}
+                        >
+                          {t(`adminTable.duplicate.${duplicateGroup.confidence}`)}
+                        </Badge>
+                      )}
+                      {registration.custom_answers && (
+                        <p className="mt-1 text-xs font-normal text-muted-foreground">
+                          {SUMMARY_QUESTIONS
+                            .map((question) => formatCustomAnswer(question, registration.custom_answers?.[question.id], t))
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </p>
+                      )}
+                      {registration.resume_snippet && (
+                        <p
+                          className="mt-1 max-w-md text-xs font-normal text-muted-foreground"
+                          title={t("adminTable.resumeMatch")}
+                        >
+                          <FileText className="mr-1 inline h-3 w-3" />
+                          {parseSnippet(registration.resume_snippet).map((segment, index) =>
+                            segment.highlighted ? (
+                              <mark key={index} className="rounded bg-primary/20 px-0.5 text-foreground">
+                                {segment.text}
+                              </mark>
+                            ) : (
+                              <span key={index}>{segment.text}</span>
+                            )
+                          )}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Mail className="h-4 w-4 text-muted-foreground" />
+                        {registration.email}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {registration.whatsapp_number ? (
+                        <a
+                          href={`https://wa.me/${registration.whatsapp_number.replace(/^\+/, "")}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-2 text-primary hover:underline whitespace-nowrap"
+                        >
+                          <MessageCircle className="h-4 w-4" />
+                          {registration.whatsapp_number}
+                        </a>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {registration.linkedin_url ? (
+                        <a
+                          href={registration.linkedin_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-2 text-primary hover:underline"
+                        >
+                          <ExternalLink className="h-4 w-4" />
+                          {t("adminTable.viewProfile")}
+                        </a>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {registration.resume_path ? (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            downloadResume(
+                              registration.resume_path!,
+                              `${registration.full_name}-resume.pdf`
+                            )
+                          }
+                          className="flex items-center gap-2"
+                        >
+                          <FileText className="h-4 w-4" />
+                          {t("adminTable.download")}
+                        </Button>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {formatDateTimeShort(registration.created_at)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={getStatusVariant(registration.status)}>
+                        {t(`adminTable.statuses.${registration.status}`)}
+                        {registration.status === "waitlisted" && registration.waitlist_position !== null && (
+                          <span className="ml-1">#{registration.waitlist_position}</span>
+                        )}
+                      </Badge>
+                      {!registration.verified_at && (
+                        <Badge variant="outline" className="ml-1">
+                          {t("adminTable.unverified")}
+                        </Badge>
+                      )}
+                      {registration.consent_status && registration.consent_status !== "not_required" && (
+                        <Badge
+                          variant={getConsentVariant(registration.consent_status)}
+                          className="ml-1"
+                          title={isSponsorShareable(registration) ? undefined : t("adminTable.notSponsorShareable")}
+                        >
+                          {t(`adminTable.consent.${registration.consent_status}`)}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {duplicateGroup && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleMerge(duplicateGroup)}
+                          aria-label={t("adminTable.merge")}
+                          title={t("adminTable.merge")}
+                        >
+                          <GitMerge className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {registration.status !== "withdrawn" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleWithdraw(registration)}
+                          aria-label={t("adminTable.withdraw")}
+                          title={t("adminTable.withdraw")}
+                        >
+                          <UserMinus className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })
             )}
           </TableBody>
         </Table>
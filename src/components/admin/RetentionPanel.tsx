@@ -0,0 +1,361 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Archive, History, Play, RefreshCw, ScanSearch } from "lucide-react";
+import { useEventSchedule } from "@/hooks/useEventSchedule";
+import { useTranslation } from "@/hooks/useTranslation";
+import { logger } from "@/lib/logger";
+import { formatDateShort, formatDateTimeShort } from "@/lib/i18n";
+import {
+  RETENTION_ACTIONS,
+  RETENTION_ANCHORS,
+  getRetentionCutoff,
+  getRetentionPolicies,
+  getRetentionRuns,
+  runRetention,
+  updateRetentionPolicy,
+  validateRetentionPolicy,
+  type RetentionAction,
+  type RetentionAnchor,
+  type RetentionPolicy,
+  type RetentionRun,
+} from "@/lib/retention";
+import { toast } from "sonner";
+
+/**
+ * RetentionPanel - Admin component for data retention policies
+ *
+ * Note: Policies are applied nightly by a scheduled job. A preview runs the same job
+ * as a dry run, so its counts match what "Run now" would remove at that moment.
+ */
+
+type PolicyEdits = Record<string, { action: RetentionAction; anchor: RetentionAnchor; retain_days: string }>;
+
+const RetentionPanel = () => {
+  const { t } = useTranslation();
+  const schedule = useEventSchedule();
+  const [policies, setPolicies] = useState<RetentionPolicy[]>([]);
+  const [edits, setEdits] = useState<PolicyEdits>({});
+  const [runs, setRuns] = useState<RetentionRun[]>([]);
+  const [preview, setPreview] = useState<RetentionRun | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [running, setRunning] = useState<"preview" | "apply" | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [policyRows, history] = await Promise.all([getRetentionPolicies(), getRetentionRuns()]);
+      setPolicies(policyRows);
+      setRuns(history);
+      setEdits({});
+    } catch (error) {
+      logger.error(
+        "Error loading retention policies",
+        error instanceof Error ? error : new Error(String(error))
+      );
+      toast.error(t("adminRetention.failedLoad"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const getEdit = (policy: RetentionPolicy) =>
+    edits[policy.id] ?? { action: policy.action, anchor: policy.anchor, retain_days: String(policy.retain_days) };
+
+  const setEdit = (policy: RetentionPolicy, changes: Partial<PolicyEdits[string]>) => {
+    setEdits((current) => ({ ...current, [policy.id]: { ...getEdit(policy), ...changes } }));
+  };
+
+  const savePolicy = async (
+    policy: RetentionPolicy,
+    changes: Partial<Pick<RetentionPolicy, "action" | "anchor" | "retain_days" | "enabled">>
+  ) => {
+    const candidate = { ...policy, ...changes };
+    const error = validateRetentionPolicy(candidate);
+    if (error) {
+      toast.error(t(error));
+      return;
+    }
+
+    const updated = await updateRetentionPolicy(policy.id, changes);
+    if (!updated) {
+      toast.error(t("adminRetention.failedSave"));
+      return;
+    }
+
+    setPolicies((current) => current.map((row) => (row.id === updated.id ? updated : row)));
+    setEdits((current) => {
+      const { [policy.id]: _saved, ...rest } = current;
+      return rest;
+    });
+    setPreview(null);
+    toast.success(t("adminRetention.saved"));
+  };
+
+  const handleRun = async (dryRun: boolean) => {
+    if (!dryRun && !window.confirm(t("adminRetention.confirmRun"))) {
+      return;
+    }
+
+    setRunning(dryRun ? "preview" : "apply");
+    const run = await runRetention(dryRun);
+    setRunning(null);
+
+    if (!run) {
+      toast.error(t("adminRetention.failedRun"));
+      return;
+    }
+
+    if (dryRun) {
+      setPreview(run);
+    } else {
+      setPreview(null);
+      toast.success(t("adminRetention.runComplete"));
+    }
+    setRuns((current) => [run, ...current]);
+  };
+
+  const getPreviewCount = (policyId: string) =>
+    preview?.report.find((entry) => entry.policy_id === policyId)?.affected;
+
+  const getRunTotal = (run: RetentionRun) => run.report.reduce((total, entry) => total + entry.affected, 0);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="mb-4 h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent mx-auto" />
+          <p className="text-muted-foreground">{t("adminRetention.loading")}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <Archive className="h-6 w-6" />
+            {t("adminRetention.title")}
+          </h2>
+          <p className="text-muted-foreground mt-1">{t("adminRetention.description")}</p>
+        </div>
+        <Button onClick={loadData} variant="outline" size="sm">
+          <RefreshCw className="h-4 w-4 mr-2" />
+          {t("common.refresh")}
+        </Button>
+      </div>
+
+      {/* Policies */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+            <div>
+              <CardTitle>{t("adminRetention.policies")}</CardTitle>
+              <CardDescription>{t("adminRetention.policiesDesc")}</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => handleRun(true)} disabled={running !== null}>
+                <ScanSearch className="h-4 w-4 mr-2" />
+                {running === "preview" ? t("adminRetention.previewing") : t("adminRetention.preview")}
+              </Button>
+              <Button variant="destructive" size="sm" onClick={() => handleRun(false)} disabled={running !== null}>
+                <Play className="h-4 w-4 mr-2" />
+                {running === "apply" ? t("adminRetention.running") : t("adminRetention.runNow")}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("adminRetention.target")}</TableHead>
+                <TableHead>{t("adminRetention.action")}</TableHead>
+                <TableHead>{t("adminRetention.retainDays")}</TableHead>
+                <TableHead>{t("adminRetention.anchor")}</TableHead>
+                <TableHead>{t("adminRetention.cutoff")}</TableHead>
+                {preview && <TableHead>{t("adminRetention.wouldAffect")}</TableHead>}
+                <TableHead>{t("adminRetention.enabled")}</TableHead>
+                <TableHead className="text-right">{t("adminTable.actions")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {policies.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={preview ? 8 : 7} className="text-center py-8 text-muted-foreground">
+                    {t("adminRetention.noPolicies")}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                policies.map((policy) => {
+                  const edit = getEdit(policy);
+                  const retainDays = Number(edit.retain_days);
+                  const isDirty =
+                    edit.action !== policy.action || edit.anchor !== policy.anchor || retainDays !== policy.retain_days;
+                  const cutoff =
+                    Number.isFinite(retainDays) && schedule
+                      ? getRetentionCutoff({ anchor: edit.anchor, retain_days: retainDays }, schedule.event_ends_at)
+                      : undefined;
+                  const previewCount = getPreviewCount(policy.id);
+
+                  return (
+                    <TableRow key={policy.id}>
+                      <TableCell className="font-medium">{t(`adminRetention.targets.${policy.target}`)}</TableCell>
+                      <TableCell>
+                        {RETENTION_ACTIONS[policy.target].length > 1 ? (
+                          <Select
+                            value={edit.action}
+                            onValueChange={(value) => setEdit(policy, { action: value as RetentionAction })}
+                          >
+                            <SelectTrigger className="w-36" aria-label={t("adminRetention.action")}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {RETENTION_ACTIONS[policy.target].map((action) => (
+                                <SelectItem key={action} value={action}>
+                                  {t(`adminRetention.actions.${action}`)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          t(`adminRetention.actions.${policy.action}`)
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={1}
+                          className="w-24"
+                          value={edit.retain_days}
+                          onChange={(event) => setEdit(policy, { retain_days: event.target.value })}
+                          aria-label={t("adminRetention.retainDays")}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={edit.anchor}
+                          onValueChange={(value) => setEdit(policy, { anchor: value as RetentionAnchor })}
+                        >
+                          <SelectTrigger className="w-40" aria-label={t("adminRetention.anchor")}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {RETENTION_ANCHORS.map((anchor) => (
+                              <SelectItem key={anchor} value={anchor}>
+                                {t(`adminRetention.anchors.${anchor}`)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {cutoff === undefined ? "—" : cutoff ? formatDateShort(cutoff) : t("adminRetention.nothingYet")}
+                      </TableCell>
+                      {preview && (
+                        <TableCell>
+                          <Badge variant={previewCount ? "destructive" : "secondary"}>{previewCount ?? 0}</Badge>
+                        </TableCell>
+                      )}
+                      <TableCell>
+                        <Switch
+                          checked={policy.enabled}
+                          onCheckedChange={(enabled) => savePolicy(policy, { enabled })}
+                          aria-label={t("adminRetention.enabled")}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={!isDirty}
+                          onClick={() => savePolicy(policy, { action: edit.action, anchor: edit.anchor, retain_days: retainDays })}
+                        >
+                          {t("adminRetention.save")}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Run History */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            {t("adminRetention.history")}
+          </CardTitle>
+          <CardDescription>{t("adminRetention.historyDesc")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("adminRetention.ranAt")}</TableHead>
+                <TableHead>{t("adminRetention.mode")}</TableHead>
+                <TableHead>{t("adminRetention.triggeredBy")}</TableHead>
+                <TableHead>{t("adminRetention.affected")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                    {t("adminRetention.noRuns")}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                runs.map((run) => (
+                  <TableRow key={run.id}>
+                    <TableCell>{formatDateTimeShort(run.ran_at)}</TableCell>
+                    <TableCell>
+                      <Badge variant={run.dry_run ? "outline" : "default"}>
+                        {run.dry_run ? t("adminRetention.dryRun") : t("adminRetention.applied")}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{t(`adminRetention.triggers.${run.triggered_by}`)}</TableCell>
+                    <TableCell>
+                      <span className="font-medium">{getRunTotal(run)}</span>
+                      <span className="block text-xs text-muted-foreground">
+                        {run.report
+                          .filter((entry) => entry.affected > 0)
+                          .map((entry) => `${t(`adminRetention.targets.${entry.target}`)}: ${entry.affected}`)
+                          .join(", ")}
+                      </span>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default RetentionPanel;
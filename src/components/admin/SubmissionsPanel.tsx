@@ -0,0 +1,237 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ExternalLink, FileCode, RefreshCw } from "lucide-react";
+import { useEventSchedule } from "@/hooks/useEventSchedule";
+import { useTranslation } from "@/hooks/useTranslation";
+import { logger } from "@/lib/logger";
+import { formatDateTimeShort } from "@/lib/i18n";
+import { PROJECT_AWARDS, getAwardLabelKey, setProjectAward, type ProjectAward } from "@/lib/gallery";
+import { getSubmissions, type AdminSubmission } from "@/lib/submissions";
+import { toast } from "sonner";
+
+const NO_AWARD = "none";
+
+/**
+ * SubmissionsPanel - Admin component for project submissions
+ *
+ * Note: Late submissions were made after the deadline and are flagged, not rejected;
+ * deciding whether they are judged is left to the organizers. Awards set here are
+ * shown as winner badges in the public project gallery.
+ */
+const SubmissionsPanel = () => {
+  const { t } = useTranslation();
+  const schedule = useEventSchedule();
+  const [submissions, setSubmissions] = useState<AdminSubmission[]>([]);
+  const [showLateOnly, setShowLateOnly] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setSubmissions(await getSubmissions());
+    } catch (error) {
+      logger.error(
+        "Error loading submissions",
+        error instanceof Error ? error : new Error(String(error))
+      );
+      toast.error(t("adminSubmissions.failedLoad"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleAwardChange = async (submission: AdminSubmission, value: string) => {
+    const award = value === NO_AWARD ? null : (value as ProjectAward);
+    try {
+      await setProjectAward(submission.id, award);
+      setSubmissions((current) =>
+        current.map((item) => (item.id === submission.id ? { ...item, award } : item))
+      );
+      toast.success(t("adminSubmissions.awardSaved"));
+    } catch (error) {
+      logger.error(
+        "Error saving award",
+        error instanceof Error ? error : new Error(String(error)),
+        { submissionId: submission.id }
+      );
+      toast.error(t("adminSubmissions.failedAward"));
+    }
+  };
+
+  const lateCount = submissions.filter((submission) => submission.is_late).length;
+  const visible = showLateOnly ? submissions.filter((submission) => submission.is_late) : submissions;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="mb-4 h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent mx-auto" />
+          <p className="text-muted-foreground">{t("adminSubmissions.loading")}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <FileCode className="h-6 w-6" />
+            {t("adminSubmissions.title")}
+          </h2>
+          {schedule && (
+            <p className="text-muted-foreground mt-1">
+              {t("adminSubmissions.description", { date: formatDateTimeShort(schedule.submission_deadline) })}
+            </p>
+          )}
+        </div>
+        <Button onClick={loadData} variant="outline" size="sm">
+          <RefreshCw className="h-4 w-4 mr-2" />
+          {t("common.refresh")}
+        </Button>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminSubmissions.total")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{submissions.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminSubmissions.lateCount")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{lateCount}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Submissions */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>{t("adminSubmissions.projects")}</CardTitle>
+              <CardDescription>{t("adminSubmissions.projectsDesc")}</CardDescription>
+            </div>
+            <Button
+              variant={showLateOnly ? "default" : "outline"}
+              size="sm"
+              onClick={() => setShowLateOnly((current) => !current)}
+              aria-pressed={showLateOnly}
+            >
+              {t("adminSubmissions.showLate")}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("adminSubmissions.project")}</TableHead>
+                <TableHead>{t("adminTeams.name")}</TableHead>
+                <TableHead>{t("submission.track")}</TableHead>
+                <TableHead>{t("adminSubmissions.links")}</TableHead>
+                <TableHead>{t("adminSubmissions.submittedAt")}</TableHead>
+                <TableHead>{t("adminSubmissions.award")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    {t("adminSubmissions.empty")}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visible.map((submission) => (
+                  <TableRow key={submission.id}>
+                    <TableCell>
+                      <div className="font-medium">{submission.title}</div>
+                      <p className="text-xs text-muted-foreground line-clamp-2 max-w-sm">{submission.description}</p>
+                    </TableCell>
+                    <TableCell>{submission.team_name}</TableCell>
+                    <TableCell>{t(`customQuestions.track.options.${submission.track}`)}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-col gap-1 text-sm">
+                        <a
+                          href={submission.repository_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 text-primary hover:underline"
+                        >
+                          <ExternalLink className="h-3 w-3" aria-hidden="true" />
+                          {t("adminSubmissions.repository")}
+                        </a>
+                        <a
+                          href={submission.demo_video_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 text-primary hover:underline"
+                        >
+                          <ExternalLink className="h-3 w-3" aria-hidden="true" />
+                          {t("adminSubmissions.demo")}
+                        </a>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div>{formatDateTimeShort(submission.submitted_at)}</div>
+                      {submission.is_late && <Badge variant="destructive">{t("submission.late")}</Badge>}
+                      {submission.updated_at !== submission.submitted_at && (
+                        <p className="text-xs text-muted-foreground">
+                          {t("submission.lastUpdated", { date: formatDateTimeShort(submission.updated_at) })}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={submission.award ?? NO_AWARD}
+                        onValueChange={(value) => handleAwardChange(submission, value)}
+                      >
+                        <SelectTrigger className="w-40" aria-label={t("adminSubmissions.award")}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_AWARD}>{t("adminSubmissions.noAward")}</SelectItem>
+                          {PROJECT_AWARDS.map((award) => (
+                            <SelectItem key={award} value={award}>
+                              {t(getAwardLabelKey(award))}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SubmissionsPanel;
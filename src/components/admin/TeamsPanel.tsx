@@ -0,0 +1,282 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Lock, Pencil, RefreshCw, User, UsersRound } from "lucide-react";
+import { useEventSchedule } from "@/hooks/useEventSchedule";
+import { useTranslation } from "@/hooks/useTranslation";
+import { logger } from "@/lib/logger";
+import { formatDateTimeShort } from "@/lib/i18n";
+import {
+  getTeamOverview,
+  isTeamIncomplete,
+  isTeamsLocked,
+  renameTeam,
+  type Team,
+  type TeamOverview,
+} from "@/lib/teams";
+import { toast } from "sonner";
+
+/**
+ * TeamsPanel - Admin component for hackathon teams
+ *
+ * Note: Solo participants are confirmed registrations that have not joined a team.
+ * Incomplete teams have fewer members than the schedule's team_min_size.
+ */
+const TeamsPanel = () => {
+  const { t } = useTranslation();
+  const schedule = useEventSchedule();
+  const [overview, setOverview] = useState<TeamOverview>({ teams: [], solo: [] });
+  const [showIncompleteOnly, setShowIncompleteOnly] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setOverview(await getTeamOverview());
+    } catch (error) {
+      logger.error(
+        "Error loading teams",
+        error instanceof Error ? error : new Error(String(error))
+      );
+      toast.error(t("adminTeams.failedLoad"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const incompleteTeams = useMemo(
+    () => (schedule ? overview.teams.filter((team) => isTeamIncomplete(team, schedule.team_min_size)) : []),
+    [overview.teams, schedule]
+  );
+  const visibleTeams = showIncompleteOnly ? incompleteTeams : overview.teams;
+
+  const handleRename = async (team: Team) => {
+    const name = window.prompt(t("adminTeams.renamePrompt", { name: team.name }), team.name);
+    if (!name || name.trim() === team.name) {
+      return;
+    }
+
+    const result = await renameTeam(team.id, name);
+    if (result.success && result.team) {
+      const renamed = result.team;
+      setOverview((current) => ({
+        ...current,
+        teams: current.teams.map((row) => (row.id === renamed.id ? { ...row, name: renamed.name } : row)),
+      }));
+      toast.success(t("adminTeams.renamed"));
+    } else {
+      toast.error(t(`teams.errors.${result.error ?? "failed"}`, schedule ? { max: schedule.team_max_size } : undefined));
+    }
+  };
+
+  const getSizeVariant = (team: Team): "default" | "secondary" | "destructive" => {
+    if (!schedule) return "secondary";
+    if (isTeamIncomplete(team, schedule.team_min_size)) return "destructive";
+    if (team.members.length >= schedule.team_max_size) return "default";
+    return "secondary";
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="mb-4 h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent mx-auto" />
+          <p className="text-muted-foreground">{t("adminTeams.loading")}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <UsersRound className="h-6 w-6" />
+            {t("adminTeams.title")}
+          </h2>
+          <p className="text-muted-foreground mt-1 flex items-center gap-1">
+            {schedule && isTeamsLocked(schedule.team_lock_at) && <Lock className="h-4 w-4" aria-hidden="true" />}
+            {schedule &&
+              (isTeamsLocked(schedule.team_lock_at)
+                ? t("adminTeams.locked")
+                : t("adminTeams.description", { date: formatDateTimeShort(schedule.team_lock_at) }))}
+          </p>
+        </div>
+        <Button onClick={loadData} variant="outline" size="sm">
+          <RefreshCw className="h-4 w-4 mr-2" />
+          {t("common.refresh")}
+        </Button>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminTeams.teams")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{overview.teams.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminTeams.incomplete")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{incompleteTeams.length}</div>
+            {schedule && (
+              <p className="text-xs text-muted-foreground">
+                {t("adminTeams.incompleteHint", { min: schedule.team_min_size })}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminTeams.solo")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{overview.solo.length}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Teams */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>{t("adminTeams.teams")}</CardTitle>
+              <CardDescription>
+                {schedule && t("adminTeams.teamsDesc", { max: schedule.team_max_size })}
+              </CardDescription>
+            </div>
+            <Button
+              variant={showIncompleteOnly ? "default" : "outline"}
+              size="sm"
+              onClick={() => setShowIncompleteOnly((current) => !current)}
+              aria-pressed={showIncompleteOnly}
+            >
+              {t("adminTeams.showIncomplete")}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("adminTeams.name")}</TableHead>
+                <TableHead>{t("adminTeams.members")}</TableHead>
+                <TableHead>{t("adminTeams.size")}</TableHead>
+                <TableHead>{t("adminTeams.inviteCode")}</TableHead>
+                <TableHead>{t("adminTeams.createdAt")}</TableHead>
+                <TableHead className="text-right">{t("adminTable.actions")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleTeams.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    {t("adminTeams.noTeams")}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visibleTeams.map((team) => (
+                  <TableRow key={team.id}>
+                    <TableCell className="font-medium">{team.name}</TableCell>
+                    <TableCell>
+                      <ul className="space-y-1">
+                        {team.members.map((member) => (
+                          <li key={member.registration_id} className="text-sm">
+                            {member.full_name}
+                            {member.email && (
+                              <span className="block text-xs text-muted-foreground">{member.email}</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={getSizeVariant(team)}>
+                        {schedule ? `${team.members.length} / ${schedule.team_max_size}` : team.members.length}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{team.invite_code}</TableCell>
+                    <TableCell>{formatDateTimeShort(team.created_at)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleRename(team)}
+                        title={t("adminTeams.rename")}
+                        aria-label={t("adminTeams.rename")}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Solo Participants */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <User className="h-5 w-5" />
+            {t("adminTeams.solo")}
+          </CardTitle>
+          <CardDescription>{t("adminTeams.soloDesc")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("adminTable.name")}</TableHead>
+                <TableHead>{t("adminTable.email")}</TableHead>
+                <TableHead>{t("adminTable.date")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {overview.solo.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center py-8 text-muted-foreground">
+                    {t("adminTeams.noSolo")}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                overview.solo.map((participant) => (
+                  <TableRow key={participant.id}>
+                    <TableCell className="font-medium">{participant.full_name}</TableCell>
+                    <TableCell>{participant.email}</TableCell>
+                    <TableCell>{formatDateTimeShort(participant.created_at)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TeamsPanel;
@@ -0,0 +1,287 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download, Heart, RefreshCw, Trash2 } from "lucide-react";
+import { useTranslation } from "@/hooks/useTranslation";
+import { logger } from "@/lib/logger";
+import { formatDateTimeShort } from "@/lib/i18n";
+import { downloadViolationsCSV, formatIdentifier } from "@/lib/rateLimitTracking";
+import {
+  buildSuspiciousVotesCSV,
+  discardVote,
+  getSuspiciousVotes,
+  getVoteShare,
+  getVoteTally,
+  getVotingStatus,
+  getVotingWindowState,
+  type SuspiciousVote,
+  type VoteTallyEntry,
+  type VotingStatus,
+} from "@/lib/voting";
+import { toast } from "sonner";
+
+/**
+ * VotingPanel - Admin component for the People's Choice tally and vote audit
+ *
+ * Note: The tally refreshes every 30 seconds while the tab is open. The window comes
+ * from get_voting_status, so it matches what cast_vote enforces.
+ */
+
+const REFRESH_INTERVAL_MS = 30000;
+
+const VotingPanel = () => {
+  const { t } = useTranslation();
+  const [tally, setTally] = useState<VoteTallyEntry[]>([]);
+  const [suspicious, setSuspicious] = useState<SuspiciousVote[]>([]);
+  const [status, setStatus] = useState<VotingStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [voteTally, suspiciousVotes, votingStatus] = await Promise.all([
+        getVoteTally(),
+        getSuspiciousVotes(),
+        getVotingStatus(),
+      ]);
+      setTally(voteTally);
+      setSuspicious(suspiciousVotes);
+      setStatus(votingStatus);
+    } catch (error) {
+      logger.error(
+        "Error loading votes",
+        error instanceof Error ? error : new Error(String(error))
+      );
+      toast.error(t("adminVoting.failedLoad"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadData();
+    const interval = setInterval(loadData, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadData]);
+
+  const handleDiscard = async (vote: SuspiciousVote) => {
+    if (!window.confirm(t("adminVoting.confirmDiscard", { title: vote.project_title }))) {
+      return;
+    }
+
+    try {
+      await discardVote(vote.id);
+      toast.success(t("adminVoting.discarded"));
+      loadData();
+    } catch (error) {
+      logger.error(
+        "Error discarding vote",
+        error instanceof Error ? error : new Error(String(error)),
+        { voteId: vote.id }
+      );
+      toast.error(t("adminVoting.failedDiscard"));
+    }
+  };
+
+  const handleExport = () => {
+    const date = new Date().toISOString().split("T")[0];
+    downloadViolationsCSV(buildSuspiciousVotesCSV(suspicious), `suspicious_votes_${date}.csv`);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="mb-4 h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent mx-auto" />
+          <p className="text-muted-foreground">{t("adminVoting.loading")}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const totalVotes = tally.reduce((sum, entry) => sum + entry.votes, 0);
+  const flaggedVotes = tally.reduce((sum, entry) => sum + entry.flagged, 0);
+  const windowState = status ? getVotingWindowState(status.opens_at, status.closes_at) : null;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <Heart className="h-6 w-6" />
+            {t("adminVoting.title")}
+          </h2>
+          <p className="text-muted-foreground mt-1">{t("adminVoting.description")}</p>
+        </div>
+        <Button onClick={loadData} variant="outline" size="sm">
+          <RefreshCw className="h-4 w-4 mr-2" />
+          {t("common.refresh")}
+        </Button>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminVoting.totalVotes")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{totalVotes}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminVoting.flaggedVotes")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{flaggedVotes}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t("adminVoting.window")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {windowState && (
+              <Badge variant={windowState === "open" ? "default" : "secondary"}>
+                {t(`adminVoting.windowStates.${windowState}`)}
+              </Badge>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Tally */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("adminVoting.tally")}</CardTitle>
+          <CardDescription>{t("adminVoting.tallyDesc")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">#</TableHead>
+                <TableHead>{t("adminSubmissions.project")}</TableHead>
+                <TableHead>{t("submission.track")}</TableHead>
+                <TableHead className="text-right">{t("adminVoting.votes")}</TableHead>
+                <TableHead className="text-right">{t("adminVoting.share")}</TableHead>
+                <TableHead className="text-right">{t("adminVoting.flagged")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tally.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    {t("adminVoting.noVotes")}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                tally.map((entry, index) => (
+                  <TableRow key={entry.submission_id}>
+                    <TableCell>{index + 1}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{entry.title}</div>
+                      <p className="text-xs text-muted-foreground">{entry.team_name}</p>
+                    </TableCell>
+                    <TableCell>{t(`customQuestions.track.options.${entry.track}`)}</TableCell>
+                    <TableCell className="text-right font-medium">{entry.votes}</TableCell>
+                    <TableCell className="text-right">{getVoteShare(entry.votes, totalVotes)}%</TableCell>
+                    <TableCell className="text-right">
+                      {entry.flagged > 0 ? <Badge variant="destructive">{entry.flagged}</Badge> : 0}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Suspicious votes */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>{t("adminVoting.suspicious")}</CardTitle>
+              <CardDescription>{t("adminVoting.suspiciousDesc")}</CardDescription>
+            </div>
+            <Button onClick={handleExport} variant="outline" size="sm" disabled={suspicious.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              {t("adminVoting.export")}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("adminVoting.castAt")}</TableHead>
+                <TableHead>{t("adminSubmissions.project")}</TableHead>
+                <TableHead>{t("adminVoting.voter")}</TableHead>
+                <TableHead>{t("adminVoting.flags")}</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {suspicious.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    {t("adminVoting.noSuspicious")}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                suspicious.map((vote) => (
+                  <TableRow key={vote.id} className={vote.discarded_at ? "opacity-60" : undefined}>
+                    <TableCell className="whitespace-nowrap">{formatDateTimeShort(vote.created_at)}</TableCell>
+                    <TableCell>{vote.project_title}</TableCell>
+                    <TableCell>
+                      <div className="font-mono text-sm">
+                        {formatIdentifier(vote.voter, vote.method === "phone" ? "phone" : "email")}
+                      </div>
+                      <p className="text-xs text-muted-foreground">{t(`adminVoting.methods.${vote.method}`)}</p>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {vote.flag_reasons.map((reason) => (
+                          <Badge key={reason} variant="outline">
+                            {t(`adminVoting.flagReasons.${reason}`)}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {vote.discarded_at ? (
+                        <Badge variant="secondary">{t("adminVoting.discardedBadge")}</Badge>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleDiscard(vote)}
+                          aria-label={t("adminVoting.discard")}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default VotingPanel;
@@ -0,0 +1,207 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowUpCircle, ListOrdered, RefreshCw } from "lucide-react";
+import { useTranslation } from "@/hooks/useTranslation";
+import { logger } from "@/lib/logger";
+import { formatDateTimeShort } from "@/lib/i18n";
+import {
+  getPromotionHistory,
+  getWaitlist,
+  getWaitlistStatus,
+  type WaitlistEntry,
+  type WaitlistPromotion,
+  type WaitlistStatus,
+} from "@/lib/waitlist";
+import { toast } from "sonner";
+
+const WaitlistPanel = () => {
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<WaitlistStatus | null>(null);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  const [promotions, setPromotions] = useState<WaitlistPromotion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [waitlistStatus, entries, history] = await Promise.all([
+        getWaitlistStatus(),
+        getWaitlist(),
+        getPromotionHistory(),
+      ]);
+      setStatus(waitlistStatus);
+      setWaitlist(entries);
+      setPromotions(history);
+    } catch (error) {
+      logger.error(
+        "Error loading waitlist",
+        error instanceof Error ? error : new Error(String(error))
+      );
+      toast.error(t("adminWaitlist.failedLoad"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="mb-4 h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent mx-auto" />
+          <p className="text-muted-foreground">{t("adminWaitlist.loading")}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <ListOrdered className="h-6 w-6" />
+            {t("adminWaitlist.title")}
+          </h2>
+          <p className="text-muted-foreground mt-1">{t("adminWaitlist.description")}</p>
+        </div>
+        <Button onClick={loadData} variant="outline" size="sm">
+          <RefreshCw className="h-4 w-4 mr-2" />
+          {t("common.refresh")}
+        </Button>
+      </div>
+
+      {/* Capacity Cards */}
+      {status && (
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">{t("adminWaitlist.confirmed")}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {status.confirmed} / {status.capacity}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {t("adminWaitlist.spotsRemaining", { count: status.spotsRemaining })}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">{t("adminWaitlist.waitlisted")}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{status.waitlisted}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">{t("adminWaitlist.promotions")}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{promotions.length}</div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Queue */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("adminWaitlist.queue")}</CardTitle>
+          <CardDescription>{t("adminWaitlist.queueDesc")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("adminWaitlist.position")}</TableHead>
+                <TableHead>{t("adminTable.name")}</TableHead>
+                <TableHead>{t("adminTable.email")}</TableHead>
+                <TableHead>{t("adminTable.date")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {waitlist.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                    {t("adminWaitlist.empty")}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                waitlist.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell>
+                      <Badge variant="outline">#{entry.waitlist_position}</Badge>
+                    </TableCell>
+                    <TableCell className="font-medium">{entry.full_name}</TableCell>
+                    <TableCell>{entry.email}</TableCell>
+                    <TableCell>{formatDateTimeShort(entry.created_at)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Promotion History */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ArrowUpCircle className="h-5 w-5" />
+            {t("adminWaitlist.history")}
+          </CardTitle>
+          <CardDescription>{t("adminWaitlist.historyDesc")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("adminTable.name")}</TableHead>
+                <TableHead>{t("adminTable.email")}</TableHead>
+                <TableHead>{t("adminWaitlist.fromPosition")}</TableHead>
+                <TableHead>{t("adminWaitlist.promotedAt")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {promotions.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                    {t("adminWaitlist.noPromotions")}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                promotions.map((promotion) => (
+                  <TableRow key={promotion.id}>
+                    <TableCell className="font-medium">{promotion.full_name}</TableCell>
+                    <TableCell>{promotion.email}</TableCell>
+                    <TableCell>#{promotion.from_position}</TableCell>
+                    <TableCell>{formatDateTimeShort(promotion.promoted_at)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default WaitlistPanel;
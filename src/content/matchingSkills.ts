@@ -0,0 +1,19 @@
+/**
+ * Skills participants can list on the teammate matching page
+ * Labels live under `matching.skills` in the locale files. Keywords are matched
+ * against the participant's resume text to suggest skills they have not ticked yet.
+ */
+
+import type { MatchingSkill } from "@/lib/matching";
+
+export const MATCHING_SKILLS: MatchingSkill[] = [
+  { id: "design", role: "design", keywords: ["figma", "ui/ux", "ux design", "ui design", "user research", "prototyping", "adobe xd"] },
+  { id: "frontend", role: "frontend", keywords: ["react", "vue", "angular", "svelte", "next.js", "css", "tailwind", "typescript"] },
+  { id: "mobile", role: "frontend", keywords: ["flutter", "react native", "kotlin", "swift", "android", "ios"] },
+  { id: "backend", role: "backend", keywords: ["node.js", "django", "flask", "fastapi", "spring", "laravel", "postgresql", "rest api", "graphql"] },
+  { id: "devops", role: "backend", keywords: ["docker", "kubernetes", "terraform", "aws", "gcp", "azure", "ci/cd"] },
+  { id: "ml", role: "data", keywords: ["machine learning", "deep learning", "pytorch", "tensorflow", "nlp", "computer vision", "llm"] },
+  { id: "data", role: "data", keywords: ["data analysis", "pandas", "sql", "power bi", "tableau", "data engineering"] },
+  { id: "hardware", role: "hardware", keywords: ["arduino", "raspberry pi", "iot", "embedded", "esp32"] },
+  { id: "product", role: "product", keywords: ["product management", "product manager", "business analysis", "pitching", "market research"] },
+];
@@ -0,0 +1,93 @@
+/**
+ * Custom registration questions for the current edition
+ * Labels live under `customQuestions` in the locale files. Removing a question
+ * hides it from the form and admin, but answers already stored are kept.
+ */
+
+import type { CustomQuestion } from "@/lib/customQuestions";
+import type { LogisticsCategory } from "@/lib/logistics";
+
+const options = (questionId: string, values: string[]) =>
+  values.map((value) => ({ value, labelKey: `customQuestions.${questionId}.options.${value}` }));
+
+export const REGISTRATION_QUESTIONS: CustomQuestion[] = [
+  {
+    id: "track",
+    type: "select",
+    labelKey: "customQuestions.track.label",
+    placeholderKey: "customQuestions.track.placeholder",
+    required: true,
+    filterable: true,
+    options: options("track", ["fintech", "agritech", "healthtech", "climate", "edtech", "jobtech", "ai", "open"]),
+  },
+  {
+    id: "experience",
+    type: "radio",
+    labelKey: "customQuestions.experience.label",
+    required: true,
+    filterable: true,
+    options: options("experience", ["beginner", "intermediate", "advanced"]),
+  },
+  {
+    id: "teamStatus",
+    type: "radio",
+    labelKey: "customQuestions.teamStatus.label",
+    required: true,
+    filterable: true,
+    options: options("teamStatus", ["hasTeam", "lookingForTeam", "solo"]),
+  },
+  {
+    id: "tshirtSize",
+    type: "select",
+    labelKey: "customQuestions.tshirtSize.label",
+    placeholderKey: "customQuestions.tshirtSize.placeholder",
+    required: true,
+    filterable: true,
+    options: options("tshirtSize", ["xs", "s", "m", "l", "xl", "xxl"]),
+  },
+  {
+    id: "dietary",
+    type: "multiselect",
+    labelKey: "customQuestions.dietary.label",
+    descriptionKey: "customQuestions.dietary.description",
+    filterable: true,
+    options: options("dietary", ["vegetarian", "vegan", "halal", "glutenFree", "nutAllergy", "lactoseFree"]),
+  },
+  {
+    id: "dietaryNotes",
+    type: "textarea",
+    labelKey: "customQuestions.dietaryNotes.label",
+    placeholderKey: "customQuestions.dietaryNotes.placeholder",
+    maxLength: 200,
+  },
+  {
+    id: "accessibility",
+    type: "multiselect",
+    labelKey: "customQuestions.accessibility.label",
+    descriptionKey: "customQuestions.accessibility.description",
+    adminOnly: true,
+    options: options("accessibility", ["stepFree", "hearing", "visual", "quietSpace", "other"]),
+  },
+  {
+    id: "accessibilityNotes",
+    type: "textarea",
+    labelKey: "customQuestions.accessibilityNotes.label",
+    placeholderKey: "customQuestions.accessibilityNotes.placeholder",
+    adminOnly: true,
+    maxLength: 300,
+  },
+];
+
+/**
+ * Options of the track question, shared by every screen that groups by track
+ */
+export const TRACK_OPTIONS = REGISTRATION_QUESTIONS.find((question) => question.id === "track")?.options ?? [];
+
+/**
+ * Categories shown in the admin Logistics tab, each backed by a question above
+ */
+export const LOGISTICS_CATEGORIES: LogisticsCategory[] = [
+  { id: "dietary", questionId: "dietary", notesQuestionId: "dietaryNotes" },
+  { id: "accessibility", questionId: "accessibility", notesQuestionId: "accessibilityNotes" },
+  { id: "tshirt", questionId: "tshirtSize" },
+];
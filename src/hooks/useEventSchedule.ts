@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import { CACHE_DURATIONS, CACHE_KEYS } from "@/lib/cache";
+import { getEventSchedule, type EventSchedule } from "@/lib/eventSchedule";
+
+/**
+ * The event schedule as the database enforces it
+ * Null until it has loaded; cached like other rarely changing data
+ */
+export const useEventSchedule = (): EventSchedule | null => {
+  const { data } = useQuery({
+    queryKey: [CACHE_KEYS.event.schedule],
+    queryFn: getEventSchedule,
+    staleTime: CACHE_DURATIONS.LONG,
+  });
+
+  return data ?? null;
+};
@@ -1,32 +1,104 @@
 /**
  * Custom hook for file upload logic
+ * Files are checked by content before upload and verified again by the
+ * validate-resume Edge Function afterwards, which deletes rejected uploads.
+ * Accepted resumes are queued for text extraction so they show up in search.
+ * Uploads are resumable and report progress; calling uploadFile again with the
+ * same file joins the upload already in flight instead of starting another.
+ * A finished upload stays unclaimed until claimUpload is called after the
+ * registration is saved. Unclaimed uploads are removed through the discard-resume
+ * Edge Function, which only deletes objects no registration references, when
+ * another file replaces them, the upload is cancelled or the form is abandoned.
  */
 
-import { useCallback, useRef } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import {
   sanitizeFileName,
   isValidPdfExtension,
   isValidPdfMimeType,
 } from "@/lib/security";
+import { useTranslation } from "@/hooks/useTranslation";
+import { MAX_PDF_PAGES } from "@/lib/constants";
 import { logger } from "@/lib/logger";
+import { inspectPdfFile, type PdfRejectionReason } from "@/lib/pdfInspection";
+import { uploadResumable } from "@/lib/resumableUpload";
+import { indexResume } from "@/lib/resumeSearch";
 import { validateFile } from "@/lib/validation";
 
 export interface FileUploadResult {
   success: boolean;
   resumePath: string | null;
   error?: string;
+  reason?: PdfRejectionReason;
+  cancelled?: boolean;
 }
 
+interface TrackedUpload {
+  file: File;
+  promise: Promise<FileUploadResult>;
+  controller: AbortController;
+}
+
+const discardResume = async (resumePath: string): Promise<void> => {
+  const { error } = await supabase.functions.invoke("discard-resume", {
+    body: { resume_path: resumePath },
+  });
+
+  if (error) {
+    logger.error("Failed to discard resume upload", new Error(error.message), { resumePath });
+  }
+};
+
+// Used while the page is being unloaded, when only keepalive requests are still sent
+const discardResumeOnUnload = (resumePath: string): void => {
+  const apiKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY as string;
+  void fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/discard-resume`, {
+    method: "POST",
+    headers: { apikey: apiKey, authorization: `Bearer ${apiKey}`, "content-type": "application/json" },
+    body: JSON.stringify({ resume_path: resumePath }),
+    keepalive: true,
+  }).catch(() => undefined);
+};
+
 export const useFileUpload = () => {
+  const { t } = useTranslation();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadRef = useRef<TrackedUpload | null>(null);
+  const unclaimedPathRef = useRef<string | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
 
   const validateFileRef = useCallback((file: File): string | undefined => {
     return validateFile(file);
   }, []);
 
-  const uploadFile = useCallback(
-    async (file: File): Promise<FileUploadResult> => {
+  const rejectionMessage = useCallback(
+    (reason: PdfRejectionReason) => t(`registration.errors.pdf.${reason}`, { max: MAX_PDF_PAGES }),
+    [t]
+  );
+
+  /**
+   * Check the file contents in the browser
+   * Returns a translated error message when the PDF is rejected
+   */
+  const inspectFile = useCallback(
+    async (file: File): Promise<string | undefined> => {
+      try {
+        const inspection = await inspectPdfFile(file);
+        return inspection.valid || !inspection.reason ? undefined : rejectionMessage(inspection.reason);
+      } catch (error) {
+        logger.error(
+          "Resume inspection error",
+          error instanceof Error ? error : new Error(String(error))
+        );
+        return rejectionMessage("malformed");
+      }
+    },
+    [rejectionMessage]
+  );
+
+  const performUpload = useCallback(
+    async (file: File, signal: AbortSignal): Promise<FileUploadResult> => {
       try {
         // Validate file
         const validationError = validateFileRef(file);
@@ -38,6 +110,17 @@ export const useFileUpload = () => {
           };
         }
 
+        // Check the actual contents, not just the name and type
+        const inspection = await inspectPdfFile(file);
+        if (!inspection.valid && inspection.reason) {
+          return {
+            success: false,
+            resumePath: null,
+            error: rejectionMessage(inspection.reason),
+            reason: inspection.reason,
+          };
+        }
+
         // Sanitize original filename
         const sanitizedOriginalName = sanitizeFileName(file.name);
         const fileExt = sanitizedOriginalName.split(".").pop() || "pdf";
@@ -54,16 +137,28 @@ export const useFileUpload = () => {
           };
         }
 
-        const { error: uploadError } = await supabase.storage
-          .from("resumes")
-          .upload(fileName, file);
+        setUploadProgress(0);
+        const upload = await uploadResumable({
+          bucket: "resumes",
+          file,
+          objectName: fileName,
+          onProgress: setUploadProgress,
+          signal,
+        });
+        // An upload resumed after a reload keeps the object name it started with
+        const resumePath = upload.objectName;
 
-        if (uploadError) {
-          logger.error(
-            "Resume upload error",
-            uploadError instanceof Error ? uploadError : new Error(String(uploadError)),
-            { resumePath: fileName }
-          );
+        if (upload.status === "cancelled") {
+          return {
+            success: false,
+            resumePath: null,
+            error: t("registration.uploadCancelled"),
+            cancelled: true,
+          };
+        }
+
+        if (upload.status === "failed") {
+          logger.error("Resume upload error", new Error(upload.error ?? "Upload failed"), { resumePath });
           return {
             success: false,
             resumePath: null,
@@ -71,9 +166,38 @@ export const useFileUpload = () => {
           };
         }
 
+        // Server-side verification; rejected files are removed from storage
+        const { data: verification, error: verifyError } = await supabase.functions.invoke(
+          "validate-resume",
+          { body: { resume_path: resumePath } }
+        );
+
+        if (verifyError) {
+          logger.error("Resume verification error", new Error(verifyError.message), { resumePath });
+          return {
+            success: false,
+            resumePath: null,
+            error: "Failed to upload resume",
+          };
+        }
+
+        const verdict = verification as { valid?: boolean; reason?: PdfRejectionReason } | null;
+        if (!verdict?.valid) {
+          const reason = verdict?.reason ?? "malformed";
+          return {
+            success: false,
+            resumePath: null,
+            error: rejectionMessage(reason),
+            reason,
+          };
+        }
+
+        // Extract text for resume search in the background; upload succeeds regardless
+        void indexResume(resumePath);
+
         return {
           success: true,
-          resumePath: fileName,
+          resumePath,
         };
       } catch (error) {
         logger.error(
@@ -87,9 +211,81 @@ export const useFileUpload = () => {
         };
       }
     },
-    [validateFileRef]
+    [validateFileRef, rejectionMessage, t]
   );
 
+  const releaseUpload = useCallback(() => {
+    uploadRef.current?.controller.abort();
+    uploadRef.current = null;
+    if (unclaimedPathRef.current) {
+      void discardResume(unclaimedPathRef.current);
+      unclaimedPathRef.current = null;
+    }
+  }, []);
+
+  const uploadFile = useCallback(
+    (file: File): Promise<FileUploadResult> => {
+      if (uploadRef.current?.file === file) {
+        return uploadRef.current.promise;
+      }
+
+      releaseUpload();
+      const controller = new AbortController();
+      const promise = performUpload(file, controller.signal).then((result) => {
+        if (uploadRef.current?.controller !== controller) {
+          // Replaced or cancelled while the server was still verifying it
+          if (result.success && result.resumePath) void discardResume(result.resumePath);
+          return result;
+        }
+
+        setUploadProgress(null);
+        // Keep successful uploads so a later call reuses them; allow retrying failures
+        if (result.success) {
+          unclaimedPathRef.current = result.resumePath;
+        } else {
+          uploadRef.current = null;
+        }
+        return result;
+      });
+
+      uploadRef.current = { file, promise, controller };
+      return promise;
+    },
+    [performUpload, releaseUpload]
+  );
+
+  /**
+   * Stop the current upload, discarding it if it already finished
+   */
+  const cancelUpload = useCallback(() => {
+    releaseUpload();
+    setUploadProgress(null);
+  }, [releaseUpload]);
+
+  /**
+   * Keep the finished upload once a registration references it
+   */
+  const claimUpload = useCallback(() => {
+    unclaimedPathRef.current = null;
+  }, []);
+
+  // Abandoning the form, by leaving the page or closing the tab, discards the upload
+  useEffect(() => {
+    const handlePageHide = () => {
+      if (unclaimedPathRef.current) {
+        discardResumeOnUnload(unclaimedPathRef.current);
+        unclaimedPathRef.current = null;
+      }
+    };
+
+    window.addEventListener("pagehide", handlePageHide);
+    return () => {
+      window.removeEventListener("pagehide", handlePageHide);
+      uploadRef.current?.controller.abort();
+      handlePageHide();
+    };
+  }, []);
+
   const resetFileInput = useCallback(() => {
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
@@ -99,7 +295,11 @@ export const useFileUpload = () => {
   return {
     fileInputRef,
     validateFile: validateFileRef,
+    inspectFile,
     uploadFile,
+    cancelUpload,
+    claimUpload,
+    uploadProgress,
     resetFileInput,
   };
 };
@@ -0,0 +1,58 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { logger } from "@/lib/logger";
+import type { User, Session } from "@supabase/supabase-js";
+
+interface UseParticipantAuthReturn {
+  user: User | null;
+  session: Session | null;
+  isLoading: boolean;
+  signOut: () => Promise<void>;
+}
+
+/**
+ * Magic-link session for the participant portal
+ * Unlike useRoleAuth this grants no role; it only identifies the participant by email
+ */
+export const useParticipantAuth = (): UseParticipantAuthReturn => {
+  const [user, setUser] = useState<User | null>(null);
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    // Set up auth state listener FIRST so the magic-link redirect is picked up
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(
+      (event, session) => {
+        setSession(session);
+        setUser(session?.user ?? null);
+        setIsLoading(false);
+      }
+    );
+
+    // THEN check for existing session
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSession(session);
+      setUser(session?.user ?? null);
+      setIsLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const signOut = async () => {
+    try {
+      await supabase.auth.signOut();
+      setUser(null);
+      setSession(null);
+    } catch (error) {
+      logger.error("Error signing out", error instanceof Error ? error : new Error(String(error)));
+    }
+  };
+
+  return {
+    user,
+    session,
+    isLoading,
+    signOut,
+  };
+};
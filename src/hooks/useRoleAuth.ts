@@ -2,37 +2,68 @@ import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { logger } from "@/lib/logger";
+import type { Database } from "@/integrations/supabase/types";
 import type { User, Session } from "@supabase/supabase-js";
 
-interface UseAdminAuthReturn {
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+interface UseRoleAuthReturn {
   user: User | null;
   session: Session | null;
-  isAdmin: boolean;
+  /** Whether the signed-in user holds the role */
+  hasRole: boolean;
   isLoading: boolean;
   signOut: () => Promise<void>;
 }
 
-export const useAdminAuth = (): UseAdminAuthReturn => {
+/**
+ * Password session for a staff page
+ * Admins, judges, mentors and sponsors all sign in on the admin login page; this checks
+ * user_roles for the one role the page needs.
+ */
+export const useRoleAuth = (role: AppRole): UseRoleAuthReturn => {
   const navigate = useNavigate();
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [hasRole, setHasRole] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
+    const checkRole = async (userId: string) => {
+      try {
+        const { data: roles, error } = await supabase
+          .from("user_roles")
+          .select("role")
+          .eq("user_id", userId)
+          .eq("role", role);
+
+        if (error) {
+          logger.error("Error checking role", error, { role });
+          setHasRole(false);
+        } else {
+          setHasRole(roles && roles.length > 0);
+        }
+      } catch (error) {
+        logger.error("Error checking role", error instanceof Error ? error : new Error(String(error)), { role });
+        setHasRole(false);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
     // Set up auth state listener FIRST
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       (event, session) => {
         setSession(session);
         setUser(session?.user ?? null);
 
-        // Defer admin role check with setTimeout to avoid deadlock
+        // Defer role check with setTimeout to avoid deadlock
         if (session?.user) {
           setTimeout(() => {
-            checkAdminRole(session.user.id);
+            checkRole(session.user.id);
           }, 0);
         } else {
-          setIsAdmin(false);
+          setHasRole(false);
           setIsLoading(false);
         }
       }
@@ -44,43 +75,21 @@ export const useAdminAuth = (): UseAdminAuthReturn => {
       setUser(session?.user ?? null);
 
       if (session?.user) {
-        checkAdminRole(session.user.id);
+        checkRole(session.user.id);
       } else {
         setIsLoading(false);
       }
     });
 
     return () => subscription.unsubscribe();
-  }, []);
-
-  const checkAdminRole = async (userId: string) => {
-    try {
-      const { data: roles, error } = await supabase
-        .from("user_roles")
-        .select("role")
-        .eq("user_id", userId)
-        .eq("role", "admin");
-
-      if (error) {
-        logger.error("Error checking admin role", error);
-        setIsAdmin(false);
-      } else {
-        setIsAdmin(roles && roles.length > 0);
-      }
-    } catch (error) {
-      logger.error("Error checking admin role", error instanceof Error ? error : new Error(String(error)));
-      setIsAdmin(false);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  }, [role]);
 
   const signOut = async () => {
     try {
       await supabase.auth.signOut();
       setUser(null);
       setSession(null);
-      setIsAdmin(false);
+      setHasRole(false);
       navigate("/admin/login");
     } catch (error) {
       logger.error("Error signing out", error instanceof Error ? error : new Error(String(error)));
@@ -90,7 +99,7 @@ export const useAdminAuth = (): UseAdminAuthReturn => {
   return {
     user,
     session,
-    isAdmin,
+    hasRole,
     isLoading,
     signOut,
   };
@@ -14,30 +14,766 @@ export type Database = {
   }
   public: {
     Tables: {
+      data_erasures: {
+        Row: {
+          erased_at: string
+          id: string
+          registration_id: string
+          requested_at: string
+          resume_deleted: boolean
+          violations_scrubbed: number
+        }
+        Insert: {
+          erased_at?: string
+          id?: string
+          registration_id: string
+          requested_at: string
+          resume_deleted?: boolean
+          violations_scrubbed?: number
+        }
+        Update: {
+          erased_at?: string
+          id?: string
+          registration_id?: string
+          requested_at?: string
+          resume_deleted?: boolean
+          violations_scrubbed?: number
+        }
+        Relationships: []
+      }
+      help_requests: {
+        Row: {
+          claimed_at: string | null
+          claimed_by: string | null
+          created_at: string
+          description: string | null
+          id: string
+          location: string | null
+          requested_by: string | null
+          resolved_at: string | null
+          status: Database["public"]["Enums"]["help_request_status"]
+          team_id: string
+          topic: string
+        }
+        Insert: {
+          claimed_at?: string | null
+          claimed_by?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          location?: string | null
+          requested_by?: string | null
+          resolved_at?: string | null
+          status?: Database["public"]["Enums"]["help_request_status"]
+          team_id: string
+          topic: string
+        }
+        Update: {
+          claimed_at?: string | null
+          claimed_by?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          location?: string | null
+          requested_by?: string | null
+          resolved_at?: string | null
+          status?: Database["public"]["Enums"]["help_request_status"]
+          team_id?: string
+          topic?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "help_requests_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      judge_assignments: {
+        Row: {
+          created_at: string
+          id: string
+          judge_id: string
+          locked_at: string | null
+          submission_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          judge_id: string
+          locked_at?: string | null
+          submission_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          judge_id?: string
+          locked_at?: string | null
+          submission_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "judge_assignments_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "project_submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      judge_conflicts: {
+        Row: {
+          created_at: string
+          id: string
+          judge_id: string
+          reason: Database["public"]["Enums"]["conflict_reason"]
+          team_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          judge_id: string
+          reason: Database["public"]["Enums"]["conflict_reason"]
+          team_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          judge_id?: string
+          reason?: Database["public"]["Enums"]["conflict_reason"]
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "judge_conflicts_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      judge_profiles: {
+        Row: {
+          company: string | null
+          company_domain: string | null
+          created_at: string
+          display_name: string
+          tracks: string[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          company?: string | null
+          company_domain?: string | null
+          created_at?: string
+          display_name: string
+          tracks?: string[]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          company?: string | null
+          company_domain?: string | null
+          created_at?: string
+          display_name?: string
+          tracks?: string[]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      judge_scorecards: {
+        Row: {
+          comment: string | null
+          created_at: string
+          id: string
+          judge_id: string
+          scores: Json
+          submission_id: string
+          updated_at: string
+        }
+        Insert: {
+          comment?: string | null
+          created_at?: string
+          id?: string
+          judge_id: string
+          scores: Json
+          submission_id: string
+          updated_at?: string
+        }
+        Update: {
+          comment?: string | null
+          created_at?: string
+          id?: string
+          judge_id?: string
+          scores?: Json
+          submission_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "judge_scorecards_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "project_submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      judging_criteria: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          max_score: number
+          name: string
+          sort_order: number
+          weight: number
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          max_score?: number
+          name: string
+          sort_order?: number
+          weight?: number
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          max_score?: number
+          name?: string
+          sort_order?: number
+          weight?: number
+        }
+        Relationships: []
+      }
+      judging_results: {
+        Row: {
+          overall_rank: number
+          published_at: string
+          score: number
+          submission_id: string
+          track_rank: number
+        }
+        Insert: {
+          overall_rank: number
+          published_at?: string
+          score: number
+          submission_id: string
+          track_rank: number
+        }
+        Update: {
+          overall_rank?: number
+          published_at?: string
+          score?: number
+          submission_id?: string
+          track_rank?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "judging_results_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: true
+            referencedRelation: "project_submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      match_connections: {
+        Row: {
+          created_at: string
+          id: string
+          recipient_id: string
+          requester_id: string
+          responded_at: string | null
+          status: Database["public"]["Enums"]["connection_status"]
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          recipient_id: string
+          requester_id: string
+          responded_at?: string | null
+          status?: Database["public"]["Enums"]["connection_status"]
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          recipient_id?: string
+          requester_id?: string
+          responded_at?: string | null
+          status?: Database["public"]["Enums"]["connection_status"]
+        }
+        Relationships: []
+      }
+      matching_profiles: {
+        Row: {
+          bio: string | null
+          registration_id: string
+          skills: string[]
+          tracks: string[]
+          updated_at: string
+        }
+        Insert: {
+          bio?: string | null
+          registration_id: string
+          skills?: string[]
+          tracks?: string[]
+          updated_at?: string
+        }
+        Update: {
+          bio?: string | null
+          registration_id?: string
+          skills?: string[]
+          tracks?: string[]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      mentor_bookings: {
+        Row: {
+          booked_by: string | null
+          cancelled_at: string | null
+          created_at: string
+          ends_at: string
+          id: string
+          mentor_id: string
+          slot_id: string
+          starts_at: string
+          team_id: string
+          topic: string | null
+        }
+        Insert: {
+          booked_by?: string | null
+          cancelled_at?: string | null
+          created_at?: string
+          ends_at: string
+          id?: string
+          mentor_id: string
+          slot_id: string
+          starts_at: string
+          team_id: string
+          topic?: string | null
+        }
+        Update: {
+          booked_by?: string | null
+          cancelled_at?: string | null
+          created_at?: string
+          ends_at?: string
+          id?: string
+          mentor_id?: string
+          slot_id?: string
+          starts_at?: string
+          team_id?: string
+          topic?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mentor_bookings_slot_id_fkey"
+            columns: ["slot_id"]
+            isOneToOne: false
+            referencedRelation: "mentor_slots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mentor_bookings_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mentor_profiles: {
+        Row: {
+          bio: string | null
+          company: string | null
+          created_at: string
+          display_name: string
+          expertise: string[]
+          title: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          bio?: string | null
+          company?: string | null
+          created_at?: string
+          display_name: string
+          expertise?: string[]
+          title?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          bio?: string | null
+          company?: string | null
+          created_at?: string
+          display_name?: string
+          expertise?: string[]
+          title?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      mentor_slots: {
+        Row: {
+          created_at: string
+          ends_at: string
+          id: string
+          mentor_id: string
+          starts_at: string
+        }
+        Insert: {
+          created_at?: string
+          ends_at: string
+          id?: string
+          mentor_id: string
+          starts_at: string
+        }
+        Update: {
+          created_at?: string
+          ends_at?: string
+          id?: string
+          mentor_id?: string
+          starts_at?: string
+        }
+        Relationships: []
+      }
+      project_submissions: {
+        Row: {
+          award: Database["public"]["Enums"]["project_award"] | null
+          demo_video_url: string
+          description: string
+          id: string
+          is_late: boolean
+          repository_url: string
+          submitted_at: string
+          team_id: string
+          title: string
+          track: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          award?: Database["public"]["Enums"]["project_award"] | null
+          demo_video_url: string
+          description: string
+          id?: string
+          is_late?: boolean
+          repository_url: string
+          submitted_at?: string
+          team_id: string
+          title: string
+          track: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          award?: Database["public"]["Enums"]["project_award"] | null
+          demo_video_url?: string
+          description?: string
+          id?: string
+          is_late?: boolean
+          repository_url?: string
+          submitted_at?: string
+          team_id?: string
+          title?: string
+          track?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_submissions_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: true
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_votes: {
+        Row: {
+          created_at: string
+          discarded_at: string | null
+          flag_reasons: string[]
+          id: string
+          ip_hash: string | null
+          method: Database["public"]["Enums"]["vote_method"]
+          phone: string | null
+          registration_id: string | null
+          submission_id: string
+          user_agent: string | null
+        }
+        Insert: {
+          created_at?: string
+          discarded_at?: string | null
+          flag_reasons?: string[]
+          id?: string
+          ip_hash?: string | null
+          method: Database["public"]["Enums"]["vote_method"]
+          phone?: string | null
+          registration_id?: string | null
+          submission_id: string
+          user_agent?: string | null
+        }
+        Update: {
+          created_at?: string
+          discarded_at?: string | null
+          flag_reasons?: string[]
+          id?: string
+          ip_hash?: string | null
+          method?: Database["public"]["Enums"]["vote_method"]
+          phone?: string | null
+          registration_id?: string | null
+          submission_id?: string
+          user_agent?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_votes_registration_id_fkey"
+            columns: ["registration_id"]
+            isOneToOne: true
+            referencedRelation: "registrations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_votes_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "project_submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      registration_drafts: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          data: Json
+          furthest_step: string
+          id: string
+          registration_id: string | null
+          resume_token: string
+          updated_at: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          data?: Json
+          furthest_step?: string
+          id?: string
+          registration_id?: string | null
+          resume_token?: string
+          updated_at?: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          data?: Json
+          furthest_step?: string
+          id?: string
+          registration_id?: string | null
+          resume_token?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "registration_drafts_registration_id_fkey"
+            columns: ["registration_id"]
+            isOneToOne: false
+            referencedRelation: "registrations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       registrations: {
         Row: {
+          consent_responded_at: string | null
+          consent_status: Database["public"]["Enums"]["consent_status"]
           created_at: string
+          custom_answers: Json
+          date_of_birth: string | null
           email: string
           full_name: string
+          guardian_email: string | null
+          guardian_name: string | null
           id: string
           linkedin_url: string | null
           resume_path: string | null
+          status: Database["public"]["Enums"]["registration_status"]
+          verified_at: string | null
+          waitlist_position: number | null
+          whatsapp_number: string | null
         }
         Insert: {
+          consent_responded_at?: string | null
+          consent_status?: Database["public"]["Enums"]["consent_status"]
           created_at?: string
+          custom_answers?: Json
+          date_of_birth?: string | null
           email: string
           full_name: string
+          guardian_email?: string | null
+          guardian_name?: string | null
           id?: string
           linkedin_url?: string | null
           resume_path?: string | null
+          status?: Database["public"]["Enums"]["registration_status"]
+          verified_at?: string | null
+          waitlist_position?: number | null
+          whatsapp_number?: string | null
         }
         Update: {
+          consent_responded_at?: string | null
+          consent_status?: Database["public"]["Enums"]["consent_status"]
           created_at?: string
+          custom_answers?: Json
+          date_of_birth?: string | null
           email?: string
           full_name?: string
+          guardian_email?: string | null
+          guardian_name?: string | null
           id?: string
           linkedin_url?: string | null
           resume_path?: string | null
+          status?: Database["public"]["Enums"]["registration_status"]
+          verified_at?: string | null
+          waitlist_position?: number | null
+          whatsapp_number?: string | null
+        }
+        Relationships: []
+      }
+      resume_texts: {
+        Row: {
+          content: string
+          extracted_at: string
+          page_count: number
+          resume_path: string
+        }
+        Insert: {
+          content: string
+          extracted_at?: string
+          page_count?: number
+          resume_path: string
+        }
+        Update: {
+          content?: string
+          extracted_at?: string
+          page_count?: number
+          resume_path?: string
+        }
+        Relationships: []
+      }
+      retention_policies: {
+        Row: {
+          action: Database["public"]["Enums"]["retention_action"]
+          anchor: Database["public"]["Enums"]["retention_anchor"]
+          enabled: boolean
+          id: string
+          retain_days: number
+          target: Database["public"]["Enums"]["retention_target"]
+          updated_at: string
+        }
+        Insert: {
+          action: Database["public"]["Enums"]["retention_action"]
+          anchor?: Database["public"]["Enums"]["retention_anchor"]
+          enabled?: boolean
+          id?: string
+          retain_days: number
+          target: Database["public"]["Enums"]["retention_target"]
+          updated_at?: string
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["retention_action"]
+          anchor?: Database["public"]["Enums"]["retention_anchor"]
+          enabled?: boolean
+          id?: string
+          retain_days?: number
+          target?: Database["public"]["Enums"]["retention_target"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      retention_runs: {
+        Row: {
+          dry_run: boolean
+          id: string
+          ran_at: string
+          report: Json
+          triggered_by: string
+        }
+        Insert: {
+          dry_run?: boolean
+          id?: string
+          ran_at?: string
+          report?: Json
+          triggered_by: string
+        }
+        Update: {
+          dry_run?: boolean
+          id?: string
+          ran_at?: string
+          report?: Json
+          triggered_by?: string
+        }
+        Relationships: []
+      }
+      team_members: {
+        Row: {
+          joined_at: string
+          registration_id: string
+          team_id: string
+        }
+        Insert: {
+          joined_at?: string
+          registration_id: string
+          team_id: string
+        }
+        Update: {
+          joined_at?: string
+          registration_id?: string
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          invite_code: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          id?: string
+          invite_code?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          invite_code?: string
+          name?: string
         }
         Relationships: []
       }
@@ -62,6 +798,38 @@ export type Database = {
         }
         Relationships: []
       }
+      waitlist_promotions: {
+        Row: {
+          from_position: number
+          id: string
+          promoted_at: string
+          registration_id: string
+          vacated_by: string | null
+        }
+        Insert: {
+          from_position: number
+          id?: string
+          promoted_at?: string
+          registration_id: string
+          vacated_by?: string | null
+        }
+        Update: {
+          from_position?: number
+          id?: string
+          promoted_at?: string
+          registration_id?: string
+          vacated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waitlist_promotions_registration_id_fkey"
+            columns: ["registration_id"]
+            isOneToOne: false
+            referencedRelation: "registrations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -74,9 +842,339 @@ export type Database = {
         }
         Returns: boolean
       }
+      get_waitlist_status: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      withdraw_registration: {
+        Args: {
+          p_registration_id: string
+        }
+        Returns: Json
+      }
+      save_registration_draft: {
+        Args: {
+          p_data: Json
+          p_resume_token: string | null
+          p_step: string
+        }
+        Returns: Json
+      }
+      get_registration_draft: {
+        Args: {
+          p_resume_token: string
+        }
+        Returns: Json
+      }
+      complete_registration_draft: {
+        Args: {
+          p_registration_id: string
+          p_resume_token: string
+        }
+        Returns: boolean
+      }
+      get_registration_funnel: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      get_my_registration: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      update_my_registration: {
+        Args: {
+          p_linkedin_url?: string | null
+          p_resume_path?: string | null
+        }
+        Returns: Json
+      }
+      withdraw_my_registration: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      export_my_data: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      get_my_team: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      create_team: {
+        Args: {
+          p_name: string
+        }
+        Returns: Json
+      }
+      join_team: {
+        Args: {
+          p_invite_code: string
+        }
+        Returns: Json
+      }
+      leave_team: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      get_team_overview: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      rename_team: {
+        Args: {
+          p_name: string
+          p_team_id: string
+        }
+        Returns: Json
+      }
+      get_my_matching_context: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      save_matching_profile: {
+        Args: {
+          p_bio: string | null
+          p_skills: string[]
+          p_tracks: string[]
+        }
+        Returns: Json
+      }
+      remove_matching_profile: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      get_matching_candidates: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      get_my_connections: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      request_connection: {
+        Args: {
+          p_registration_id: string
+        }
+        Returns: Json
+      }
+      respond_to_connection: {
+        Args: {
+          p_accept: boolean
+          p_connection_id: string
+        }
+        Returns: Json
+      }
+      get_my_submission: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      save_submission: {
+        Args: {
+          p_demo_video_url: string
+          p_description: string
+          p_repository_url: string
+          p_title: string
+          p_track: string
+        }
+        Returns: Json
+      }
+      get_public_projects: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      get_public_project: {
+        Args: {
+          p_id: string
+        }
+        Returns: Json
+      }
+      get_my_judging: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      save_scorecard: {
+        Args: {
+          p_comment: string | null
+          p_scores: Json
+          p_submission_id: string
+        }
+        Returns: Json
+      }
+      publish_judging_results: {
+        Args: {
+          p_results: Json
+        }
+        Returns: Json
+      }
+      unpublish_judging_results: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      get_judges: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      save_judge_assignments: {
+        Args: {
+          p_assignments: Json
+        }
+        Returns: Json
+      }
+      lock_judge_assignments: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      get_voting_status: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      cast_vote: {
+        Args: {
+          p_submission_id: string
+          p_user_agent: string | null
+        }
+        Returns: Json
+      }
+      get_vote_tally: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      get_suspicious_votes: {
+        Args: {
+          p_limit: number
+        }
+        Returns: Json
+      }
+      discard_vote: {
+        Args: {
+          p_id: string
+        }
+        Returns: undefined
+      }
+      get_office_hours: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      book_mentor_session: {
+        Args: {
+          p_duration_minutes: number
+          p_slot_id: string
+          p_starts_at: string
+          p_topic: string | null
+        }
+        Returns: Json
+      }
+      cancel_mentor_booking: {
+        Args: {
+          p_booking_id: string
+        }
+        Returns: Json
+      }
+      get_my_mentor_agenda: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      get_mentor_utilization: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      search_sponsor_resumes: {
+        Args: {
+          p_limit: number
+          p_offset: number
+          p_search: string
+        }
+        Returns: Json
+      }
+      get_help_queue: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      get_my_help_request: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      request_help: {
+        Args: {
+          p_description: string | null
+          p_location: string | null
+          p_topic: string
+        }
+        Returns: Json
+      }
+      cancel_help_request: {
+        Args: {
+          p_id: string
+        }
+        Returns: Json
+      }
+      claim_help_request: {
+        Args: {
+          p_id: string
+        }
+        Returns: Json
+      }
+      resolve_help_request: {
+        Args: {
+          p_id: string
+        }
+        Returns: Json
+      }
+      release_help_request: {
+        Args: {
+          p_id: string
+        }
+        Returns: Json
+      }
+      get_event_schedule: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      import_registration: {
+        Args: {
+          p_created_at: string | null
+          p_email: string
+          p_full_name: string
+          p_linkedin_url: string | null
+          p_waitlisted: boolean
+          p_whatsapp_number: string | null
+        }
+        Returns: Json
+      }
+      merge_registrations: {
+        Args: {
+          p_duplicate_ids: string[]
+          p_keep_id: string
+          p_linkedin_url: string | null
+          p_resume_path: string | null
+          p_whatsapp_number: string | null
+        }
+        Returns: Json
+      }
     }
     Enums: {
-      app_role: "admin" | "moderator" | "user"
+      app_role: "admin" | "judge" | "mentor" | "moderator" | "sponsor" | "user"
+      conflict_reason: "company" | "mentored" | "other"
+      connection_status: "pending" | "accepted" | "declined"
+      consent_status: "not_required" | "pending" | "granted" | "declined"
+      help_request_status: "open" | "claimed" | "resolved" | "cancelled"
+      project_award:
+        | "first"
+        | "second"
+        | "third"
+        | "bestDesign"
+        | "mostInnovative"
+        | "bestPitch"
+      registration_status: "confirmed" | "waitlisted" | "withdrawn"
+      retention_action: "anonymize" | "delete"
+      retention_anchor: "created_at" | "event_end"
+      retention_target:
+        | "query_cache"
+        | "rate_limit_violations"
+        | "registration_drafts"
+        | "registrations"
+        | "resumes"
+      vote_method: "attendee" | "phone"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -204,7 +1302,30 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "moderator", "user"],
+      app_role: ["admin", "judge", "mentor", "moderator", "sponsor", "user"],
+      conflict_reason: ["company", "mentored", "other"],
+      connection_status: ["pending", "accepted", "declined"],
+      consent_status: ["not_required", "pending", "granted", "declined"],
+      help_request_status: ["open", "claimed", "resolved", "cancelled"],
+      project_award: [
+        "first",
+        "second",
+        "third",
+        "bestDesign",
+        "mostInnovative",
+        "bestPitch",
+      ],
+      registration_status: ["confirmed", "waitlisted", "withdrawn"],
+      retention_action: ["anonymize", "delete"],
+      retention_anchor: ["created_at", "event_end"],
+      retention_target: [
+        "query_cache",
+        "rate_limit_violations",
+        "registration_drafts",
+        "registrations",
+        "resumes",
+      ],
+      vote_method: ["attendee", "phone"],
     },
   },
 } as const
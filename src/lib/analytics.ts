@@ -195,7 +195,7 @@ export const trackSocialShare = (platform: string, contentType?: string, content
  * Track rate limit violation
  */
 export const trackRateLimitViolation = (
-  violationType: "email" | "ip" | "client",
+  violationType: "email" | "ip" | "client" | "phone",
   identifier?: string,
   attemptCount?: number
 ): void => {
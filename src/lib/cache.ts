@@ -27,6 +27,16 @@ export const CACHE_KEYS = {
     posts: 'blog:posts',
     post: (id: string) => `blog:post:${id}`,
   },
+  projects: {
+    list: 'projects:list',
+    project: (id: string) => `projects:project:${id}`,
+  },
+  event: {
+    schedule: 'event:schedule',
+  },
+  voting: {
+    status: 'voting:status',
+  },
   registration: {
     waitlistStatus: 'registration:waitlist',
     stats: 'registration:stats',
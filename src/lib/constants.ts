@@ -6,10 +6,13 @@
 // File upload constants
 export const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB in bytes
 export const MAX_FILE_SIZE_MB = 5; // 5MB for display purposes
+export const MAX_PDF_PAGES = 5; // Resumes longer than this are rejected
 
 // Registration constants
 export const REGISTRATION_LIMIT = 200; // Maximum number of participants
 export const DEBOUNCE_DELAY_MS = 2000; // 2 seconds debounce delay for form inputs
+export const AGE_OF_MAJORITY = 18; // Younger participants need guardian consent
+export const DEFAULT_COUNTRY_CODE = "254"; // Kenya; local numbers start with 0 instead
 
 // Time constants (in seconds)
 export const SECONDS_PER_MINUTE = 60;
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildAnswerFilter,
+  formatCustomAnswer,
+  getFilterableQuestions,
+  sanitizeCustomAnswers,
+  validateCustomAnswer,
+  validateCustomAnswers,
+  type CustomQuestion,
+} from './customQuestions';
+
+const t = (key: string, params?: Record<string, string | number>) =>
+  params ? `${key}:${JSON.stringify(params)}` : key;
+
+const track: CustomQuestion = {
+  id: 'track',
+  type: 'select',
+  labelKey: 'q.track',
+  required: true,
+  filterable: true,
+  options: [
+    { value: 'fintech', labelKey: 'q.track.fintech' },
+    { value: 'climate', labelKey: 'q.track.climate' },
+  ],
+};
+
+const dietary: CustomQuestion = {
+  id: 'dietary',
+  type: 'multiselect',
+  labelKey: 'q.dietary',
+  filterable: true,
+  maxSelections: 2,
+  options: [
+    { value: 'vegan', labelKey: 'q.dietary.vegan' },
+    { value: 'halal', labelKey: 'q.dietary.halal' },
+    { value: 'glutenFree', labelKey: 'q.dietary.glutenFree' },
+  ],
+};
+
+const notes: CustomQuestion = {
+  id: 'notes',
+  type: 'textarea',
+  labelKey: 'q.notes',
+  filterable: true,
+  maxLength: 10,
+};
+
+const questions = [track, dietary, notes];
+
+describe('validateCustomAnswer', () => {
+  it('requires an answer to required questions', () => {
+    expect(validateCustomAnswer(track, '', t)).toBe('registration.errors.answerRequired');
+    expect(validateCustomAnswer(track, undefined, t)).toBe('registration.errors.answerRequired');
+  });
+
+  it('leaves empty optional questions alone', () => {
+    expect(validateCustomAnswer(dietary, [], t)).toBeUndefined();
+    expect(validateCustomAnswer(notes, '  ', t)).toBeUndefined();
+  });
+
+  it('rejects values that are not options', () => {
+    expect(validateCustomAnswer(track, 'space', t)).toBe('registration.errors.answerInvalidOption');
+    expect(validateCustomAnswer(dietary, ['vegan', 'keto'], t)).toBe('registration.errors.answerInvalidOption');
+  });
+
+  it('limits multiselect selections', () => {
+    expect(validateCustomAnswer(dietary, ['vegan', 'halal', 'glutenFree'], t)).toBe(
+      'registration.errors.answerTooManySelections:{"max":2}'
+    );
+  });
+
+  it('limits text length', () => {
+    expect(validateCustomAnswer(notes, 'a'.repeat(11), t)).toBe('registration.errors.answerTooLong:{"max":10}');
+    expect(validateCustomAnswer(notes, 'no nuts', t)).toBeUndefined();
+  });
+});
+
+describe('validateCustomAnswers', () => {
+  it('keys errors by question id', () => {
+    expect(validateCustomAnswers(questions, { dietary: ['keto'] }, t)).toEqual({
+      'answers.track': 'registration.errors.answerRequired',
+      'answers.dietary': 'registration.errors.answerInvalidOption',
+    });
+  });
+});
+
+describe('sanitizeCustomAnswers', () => {
+  it('drops unknown questions, invalid options and empty answers', () => {
+    expect(
+      sanitizeCustomAnswers(questions, {
+        track: 'space',
+        dietary: ['vegan', 'keto', 'vegan'],
+        notes: '',
+        unknown: 'value',
+      })
+    ).toEqual({ dietary: ['vegan'] });
+  });
+
+  it('sanitizes and truncates text answers', () => {
+    expect(sanitizeCustomAnswers(questions, { track: 'fintech', notes: '  <b>no nuts please</b>  ' })).toEqual({
+      track: 'fintech',
+      notes: 'bno nuts',
+    });
+  });
+});
+
+describe('formatCustomAnswer', () => {
+  it('translates choice answers', () => {
+    expect(formatCustomAnswer(track, 'climate', t)).toBe('q.track.climate');
+    expect(formatCustomAnswer(dietary, ['vegan', 'halal'], t)).toBe('q.dietary.vegan, q.dietary.halal');
+  });
+
+  it('returns text answers as-is and handles missing answers', () => {
+    expect(formatCustomAnswer(notes, 'no nuts', t)).toBe('no nuts');
+    expect(formatCustomAnswer(track, undefined, t)).toBe('');
+  });
+});
+
+describe('answer filters', () => {
+  it('only offers choice questions marked filterable', () => {
+    expect(getFilterableQuestions(questions).map((q) => q.id)).toEqual(['track', 'dietary']);
+  });
+
+  it('builds a containment filter, wrapping multiselect values', () => {
+    expect(buildAnswerFilter(questions, { track: 'fintech', dietary: 'halal', unknown: 'x' })).toEqual({
+      track: 'fintech',
+      dietary: ['halal'],
+    });
+  });
+
+  it('returns null when nothing is selected', () => {
+    expect(buildAnswerFilter(questions, { track: '', dietary: '' })).toBeNull();
+  });
+});
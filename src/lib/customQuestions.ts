@@ -0,0 +1,180 @@
+/**
+ * Custom registration questions
+ * Each edition defines its own questions in src/content/registrationQuestions.ts.
+ * Questions are typed, validated like the built-in fields and stored as structured
+ * JSON in registrations.custom_answers, keyed by question id.
+ */
+
+import { sanitizeInput } from "./security";
+
+export type CustomQuestionType = "select" | "radio" | "multiselect" | "text" | "textarea";
+
+export interface CustomQuestionOption {
+  value: string;
+  labelKey: string;
+}
+
+export interface CustomQuestion {
+  /** Stable key in custom_answers; never reuse an id for a different question */
+  id: string;
+  type: CustomQuestionType;
+  labelKey: string;
+  descriptionKey?: string;
+  placeholderKey?: string;
+  required?: boolean;
+  /** Choices for select, radio and multiselect questions */
+  options?: CustomQuestionOption[];
+  /** Text questions only */
+  maxLength?: number;
+  /** Multiselect questions only */
+  maxSelections?: number;
+  /** Offer the question as a filter in the admin registrations view */
+  filterable?: boolean;
+  /** Sensitive answers (e.g. accessibility needs) that only admins may see */
+  adminOnly?: boolean;
+}
+
+export type CustomAnswerValue = string | string[];
+export type CustomAnswers = Record<string, CustomAnswerValue>;
+
+/** Error keys for custom answers, e.g. `answers.track` */
+export type CustomAnswerErrorKey = `answers.${string}`;
+
+const DEFAULT_MAX_TEXT_LENGTH = 500;
+
+export const isChoiceQuestion = (question: CustomQuestion): boolean => question.type !== "text" && question.type !== "textarea";
+
+export const emptyAnswer = (question: CustomQuestion): CustomAnswerValue => (question.type === "multiselect" ? [] : "");
+
+export const answerErrorKey = (questionId: string): CustomAnswerErrorKey => `answers.${questionId}`;
+
+const toArray = (value: CustomAnswerValue | undefined): string[] =>
+  Array.isArray(value) ? value : value ? [value] : [];
+
+/**
+ * Validate a single answer
+ * Mirrors validateField: returns a translated message or undefined
+ */
+export const validateCustomAnswer = (
+  question: CustomQuestion,
+  value: CustomAnswerValue | undefined,
+  t: (key: string, params?: Record<string, string | number>) => string
+): string | undefined => {
+  if (question.type === "multiselect") {
+    const selected = toArray(value);
+    if (question.required && selected.length === 0) {
+      return t("registration.errors.answerRequired");
+    }
+    if (selected.some((v) => !question.options?.some((o) => o.value === v))) {
+      return t("registration.errors.answerInvalidOption");
+    }
+    if (question.maxSelections && selected.length > question.maxSelections) {
+      return t("registration.errors.answerTooManySelections", { max: question.maxSelections });
+    }
+    return undefined;
+  }
+
+  const trimmed = typeof value === "string" ? value.trim() : "";
+  if (!trimmed) {
+    return question.required ? t("registration.errors.answerRequired") : undefined;
+  }
+
+  if (isChoiceQuestion(question)) {
+    return question.options?.some((o) => o.value === trimmed) ? undefined : t("registration.errors.answerInvalidOption");
+  }
+
+  const maxLength = question.maxLength ?? DEFAULT_MAX_TEXT_LENGTH;
+  if (trimmed.length > maxLength) {
+    return t("registration.errors.answerTooLong", { max: maxLength });
+  }
+
+  return undefined;
+};
+
+/**
+ * Validate every answer, keyed by `answers.<id>`
+ */
+export const validateCustomAnswers = (
+  questions: CustomQuestion[],
+  answers: CustomAnswers,
+  t: (key: string, params?: Record<string, string | number>) => string
+): Partial<Record<CustomAnswerErrorKey, string>> => {
+  const errors: Partial<Record<CustomAnswerErrorKey, string>> = {};
+  for (const question of questions) {
+    const error = validateCustomAnswer(question, answers[question.id], t);
+    if (error) {
+      errors[answerErrorKey(question.id)] = error;
+    }
+  }
+  return errors;
+};
+
+/**
+ * Keep only answers to known questions with valid values
+ * Text is sanitized and empty answers are dropped before storage
+ */
+export const sanitizeCustomAnswers = (questions: CustomQuestion[], answers: CustomAnswers): CustomAnswers => {
+  const result: CustomAnswers = {};
+
+  for (const question of questions) {
+    const value = answers[question.id];
+    const validValues = new Set(question.options?.map((o) => o.value));
+
+    if (question.type === "multiselect") {
+      const selected = toArray(value).filter((v) => validValues.has(v));
+      if (selected.length > 0) {
+        result[question.id] = Array.from(new Set(selected)).slice(0, question.maxSelections);
+      }
+    } else if (typeof value === "string" && value.trim()) {
+      if (isChoiceQuestion(question)) {
+        if (validValues.has(value)) result[question.id] = value;
+      } else {
+        result[question.id] = sanitizeInput(value, question.maxLength ?? DEFAULT_MAX_TEXT_LENGTH);
+      }
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Human-readable answer for review screens, tables and exports
+ */
+export const formatCustomAnswer = (
+  question: CustomQuestion,
+  value: CustomAnswerValue | undefined,
+  t: (key: string) => string
+): string => {
+  if (!isChoiceQuestion(question)) {
+    return typeof value === "string" ? value : "";
+  }
+
+  return toArray(value)
+    .map((v) => {
+      const option = question.options?.find((o) => o.value === v);
+      return option ? t(option.labelKey) : v;
+    })
+    .join(", ");
+};
+
+export const getFilterableQuestions = (questions: CustomQuestion[]): CustomQuestion[] =>
+  questions.filter((q) => q.filterable && !q.adminOnly && isChoiceQuestion(q));
+
+/**
+ * Turn selected filter values into a JSON containment filter for custom_answers
+ * Multiselect answers are arrays, so their filter values must be arrays too
+ */
+export const buildAnswerFilter = (
+  questions: CustomQuestion[],
+  selected: Record<string, string>
+): CustomAnswers | null => {
+  const filter: CustomAnswers = {};
+
+  for (const [id, value] of Object.entries(selected)) {
+    const question = questions.find((q) => q.id === id);
+    if (!question || !value) continue;
+    filter[id] = question.type === "multiselect" ? [value] : value;
+  }
+
+  return Object.keys(filter).length > 0 ? filter : null;
+};
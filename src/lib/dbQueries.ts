@@ -4,6 +4,9 @@
  */
 
 import { supabase } from "@/integrations/supabase/client";
+import type { CustomAnswers } from "./customQuestions";
+import type { VerificationFilter } from "./emailVerification";
+import type { ConsentStatus } from "./guardianConsent";
 import { callRpc } from "./supabaseRpc";
 
 export interface PaginatedRegistrations {
@@ -14,7 +17,14 @@ export interface PaginatedRegistrations {
     linkedin_url: string | null;
     resume_path: string | null;
     created_at: string;
+    status: "confirmed" | "waitlisted" | "withdrawn";
+    waitlist_position: number | null;
+    verified_at: string | null;
+    whatsapp_number: string | null;
+    custom_answers?: CustomAnswers | null;
+    consent_status?: ConsentStatus | null;
     rank?: number; // Full-text search ranking
+    resume_snippet?: string | null; // Matched resume text, see resumeSearch
   }>;
   total: number;
   limit: number;
@@ -24,6 +34,7 @@ export interface PaginatedRegistrations {
 export interface RegistrationStats {
   total: number;
   withLinkedIn: number;
+  withWhatsApp: number;
   withResume: number;
   today: number;
   thisWeek: number;
@@ -35,6 +46,8 @@ export interface RegistrationStats {
 /**
  * Get paginated registrations with optional search and sorting
  * Uses database function for optimal performance with full-text search support
+ * Full-text search also covers extracted resume text and returns a highlighted snippet
+ * An answer filter keeps rows whose custom_answers contain it (JSON containment)
  */
 export async function getPaginatedRegistrations(
   options: {
@@ -44,6 +57,7 @@ export async function getPaginatedRegistrations(
     sortBy?: "created_at" | "full_name" | "email" | "rank";
     sortOrder?: "ASC" | "DESC";
     useFullTextSearch?: boolean;
+    answerFilter?: CustomAnswers | null;
   } = {}
 ): Promise<PaginatedRegistrations> {
   const {
@@ -53,6 +67,7 @@ export async function getPaginatedRegistrations(
     sortBy = "created_at",
     sortOrder = "DESC",
     useFullTextSearch = true,
+    answerFilter = null,
   } = options;
 
   try {
@@ -69,8 +84,14 @@ export async function getPaginatedRegistrations(
         linkedin_url: string | null;
         resume_path: string | null;
         created_at: string;
+        status: "confirmed" | "waitlisted" | "withdrawn";
+        waitlist_position: number | null;
+        verified_at: string | null;
+        whatsapp_number: string | null;
+        custom_answers: CustomAnswers | null;
         total_count: number;
         rank?: number;
+        resume_snippet?: string | null;
       }>
     >(functionName, {
       p_limit: limit,
@@ -78,6 +99,7 @@ export async function getPaginatedRegistrations(
       p_search: search || null,
       p_sort_by: sortBy,
       p_sort_order: sortOrder,
+      p_answers: answerFilter,
     });
 
     if (error) {
@@ -127,6 +149,7 @@ async function getPaginatedRegistrationsFallback(
     search?: string;
     sortBy?: "created_at" | "full_name" | "email" | "rank";
     sortOrder?: "ASC" | "DESC";
+    answerFilter?: CustomAnswers | null;
   } = {}
 ): Promise<PaginatedRegistrations> {
   const {
@@ -135,6 +158,7 @@ async function getPaginatedRegistrationsFallback(
     search,
     sortBy = "created_at",
     sortOrder = "DESC",
+    answerFilter = null,
   } = options;
 
   // Build query
@@ -158,10 +182,14 @@ async function getPaginatedRegistrationsFallback(
     const safeSearch = escapedSearch.substring(0, 100);
     
     query = query.or(
-      `full_name.ilike.%${safeSearch}%,email.ilike.%${safeSearch}%,linkedin_url.ilike.%${safeSearch}%`
+      `full_name.ilike.%${safeSearch}%,email.ilike.%${safeSearch}%,linkedin_url.ilike.%${safeSearch}%,whatsapp_number.ilike.%${safeSearch}%`
     );
   }
 
+  if (answerFilter) {
+    query = query.contains("custom_answers", answerFilter);
+  }
+
   const { data, error, count } = await query;
 
   if (error) {
@@ -169,7 +197,7 @@ async function getPaginatedRegistrationsFallback(
   }
 
   return {
-    data: data || [],
+    data: (data || []) as PaginatedRegistrations["data"],
     total: count || 0,
     limit,
     offset,
@@ -179,10 +207,16 @@ async function getPaginatedRegistrationsFallback(
 /**
  * Get registration statistics efficiently
  * Uses database function for optimal performance
+ * Optionally restricted to verified or unverified email addresses
  */
-export async function getRegistrationStats(): Promise<RegistrationStats> {
+export async function getRegistrationStats(
+  verification: VerificationFilter = "all"
+): Promise<RegistrationStats> {
   try {
-    const { data, error } = await callRpc<RegistrationStats>("get_registration_stats", {});
+    const { data, error } = await callRpc<RegistrationStats>(
+      "get_registration_stats",
+      verification === "all" ? {} : { p_verified: verification === "verified" }
+    );
 
     if (error) {
       throw error;
@@ -192,7 +226,7 @@ export async function getRegistrationStats(): Promise<RegistrationStats> {
       throw new Error("No stats data returned");
     }
 
-    return data;
+    return { ...data, withWhatsApp: data.withWhatsApp ?? 0 };
   } catch (error) {
     // Fallback to direct query if RPC function fails
     // Only log warnings in development
@@ -200,7 +234,7 @@ export async function getRegistrationStats(): Promise<RegistrationStats> {
     if (isDevelopment) {
       console.warn("RPC function failed, falling back to direct query", error);
     }
-    return getRegistrationStatsFallback();
+    return getRegistrationStatsFallback(verification);
   }
 }
 
@@ -208,7 +242,9 @@ export async function getRegistrationStats(): Promise<RegistrationStats> {
  * Fallback function using direct Supabase queries
  * Less efficient but more compatible
  */
-async function getRegistrationStatsFallback(): Promise<RegistrationStats> {
+async function getRegistrationStatsFallback(
+  verification: VerificationFilter = "all"
+): Promise<RegistrationStats> {
   const now = new Date();
   const today = new Date(now);
   today.setHours(0, 0, 0, 0);
@@ -224,11 +260,19 @@ async function getRegistrationStatsFallback(): Promise<RegistrationStats> {
 
   // Get all registrations (unfortunately, we need them for stats)
   // In production, consider using the materialized view or RPC function
-  const { data: registrations, error } = await supabase
+  let query = supabase
     .from("registrations")
-    .select("created_at, linkedin_url, resume_path")
+    .select("created_at, linkedin_url, resume_path, whatsapp_number")
     .order("created_at", { ascending: false });
 
+  if (verification === "verified") {
+    query = query.not("verified_at", "is", null);
+  } else if (verification === "unverified") {
+    query = query.is("verified_at", null);
+  }
+
+  const { data: registrations, error } = await query;
+
   if (error) {
     throw error;
   }
@@ -237,6 +281,7 @@ async function getRegistrationStatsFallback(): Promise<RegistrationStats> {
     return {
       total: 0,
       withLinkedIn: 0,
+      withWhatsApp: 0,
       withResume: 0,
       today: 0,
       thisWeek: 0,
@@ -250,6 +295,7 @@ async function getRegistrationStatsFallback(): Promise<RegistrationStats> {
   const stats: RegistrationStats = {
     total: registrations.length,
     withLinkedIn: registrations.filter((r) => r.linkedin_url).length,
+    withWhatsApp: registrations.filter((r) => r.whatsapp_number).length,
     withResume: registrations.filter((r) => r.resume_path).length,
     today: registrations.filter((r) => new Date(r.created_at) >= today).length,
     thisWeek: registrations.filter((r) => new Date(r.created_at) >= thisWeek).length,
@@ -341,6 +387,7 @@ export async function getCachedQuery<T>(
 
 /**
  * Set cached query result in database cache
+ * Entries outlive their TTL until the query_cache retention policy removes them
  */
 export async function setCachedQuery<T>(
   cacheKey: string,
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildMergePlan,
+  canonicalizeEmail,
+  findDuplicateGroups,
+  mergeRegistrations,
+  nameSimilarity,
+  type DedupCandidate,
+} from './deduplication';
+import { callRpc } from './supabaseRpc';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+vi.mock('./supabaseRpc', () => ({
+  callRpc: vi.fn(),
+}));
+
+vi.mock('./logger', () => ({
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+const candidate = (overrides: Partial<DedupCandidate>): DedupCandidate => ({
+  id: 'id',
+  full_name: 'Someone',
+  email: 'someone@example.com',
+  linkedin_url: null,
+  whatsapp_number: null,
+  resume_path: null,
+  created_at: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('deduplication', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('canonicalizeEmail', () => {
+    it('should ignore case, Gmail dots and plus-tags', () => {
+      expect(canonicalizeEmail('Jane.Doe@gmail.com')).toBe('janedoe@gmail.com');
+      expect(canonicalizeEmail('janedoe+hack@gmail.com')).toBe('janedoe@gmail.com');
+      expect(canonicalizeEmail('jane.doe@googlemail.com')).toBe('janedoe@gmail.com');
+    });
+
+    it('should keep dots for other providers', () => {
+      expect(canonicalizeEmail('Jane.Doe+x@Example.co.ke')).toBe('jane.doe@example.co.ke');
+    });
+  });
+
+  describe('nameSimilarity', () => {
+    it('should ignore case, accents, punctuation and word order', () => {
+      expect(nameSimilarity('Jane Doe', 'doe, JANE')).toBe(1);
+      expect(nameSimilarity('Zoë Wanjiru', 'Zoe Wanjiru')).toBe(1);
+    });
+
+    it('should score unrelated names low', () => {
+      expect(nameSimilarity('Jane Doe', 'John Kamau')).toBeLessThan(0.5);
+    });
+  });
+
+  describe('findDuplicateGroups', () => {
+    it('should group registrations with the same canonical email', () => {
+      const groups = findDuplicateGroups([
+        candidate({ id: 'b', full_name: 'J. Doe', email: 'janedoe+hack@gmail.com', created_at: '2025-01-02T00:00:00Z' }),
+        candidate({ id: 'a', full_name: 'Jane Doe', email: 'Jane.Doe@gmail.com' }),
+        candidate({ id: 'c', full_name: 'John Kamau', email: 'john@example.com' }),
+      ]);
+
+      expect(groups).toHaveLength(1);
+      expect(groups[0].primaryId).toBe('a');
+      expect(groups[0].registrations.map((r) => r.id)).toEqual(['a', 'b']);
+      expect(groups[0].reasons).toEqual(['email']);
+      expect(groups[0].confidence).toBe('likely');
+    });
+
+    it('should match LinkedIn URLs after normalization', () => {
+      const groups = findDuplicateGroups([
+        candidate({ id: 'a', full_name: 'Jane Doe', email: 'jane@work.com', linkedin_url: 'https://www.linkedin.com/in/JaneDoe/' }),
+        candidate({ id: 'b', full_name: 'Janet D', email: 'jane@home.com', linkedin_url: 'janedoe' }),
+      ]);
+
+      expect(groups[0].reasons).toEqual(['linkedin']);
+    });
+
+    it('should flag similar names alone as possible duplicates', () => {
+      const groups = findDuplicateGroups([
+        candidate({ id: 'a', full_name: 'Jane Doe', email: 'jane@work.com' }),
+        candidate({ id: 'b', full_name: 'Doe Jane', email: 'jd@home.com' }),
+      ]);
+
+      expect(groups[0].reasons).toEqual(['name']);
+      expect(groups[0].confidence).toBe('possible');
+    });
+
+    it('should return nothing when everyone is distinct', () => {
+      expect(
+        findDuplicateGroups([
+          candidate({ id: 'a', full_name: 'Jane Doe', email: 'jane@example.com' }),
+          candidate({ id: 'b', full_name: 'John Kamau', email: 'john@example.com' }),
+        ])
+      ).toEqual([]);
+    });
+  });
+
+  describe('buildMergePlan', () => {
+    it('should keep the earliest registration and the newest resume', () => {
+      const [group] = findDuplicateGroups([
+        candidate({ id: 'a', email: 'jane@gmail.com', resume_path: 'old.pdf' }),
+        candidate({ id: 'b', email: 'j.ane@gmail.com', resume_path: 'new.pdf', whatsapp_number: '+254712345678', created_at: '2025-01-03T00:00:00Z' }),
+        candidate({ id: 'c', email: 'jane+1@gmail.com', created_at: '2025-01-04T00:00:00Z' }),
+      ]);
+
+      expect(buildMergePlan(group)).toEqual({
+        keepId: 'a',
+        duplicateIds: ['b', 'c'],
+        resumePath: 'new.pdf',
+        linkedinUrl: null,
+        whatsappNumber: '+254712345678',
+      });
+    });
+  });
+
+  describe('mergeRegistrations', () => {
+    const plan = { keepId: 'a', duplicateIds: ['b'], resumePath: null, linkedinUrl: null, whatsappNumber: null };
+
+    it('should call the merge function', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: { kept_id: 'a' }, error: null });
+
+      expect(await mergeRegistrations(plan)).toBe(true);
+      expect(callRpc).toHaveBeenCalledWith('merge_registrations', expect.objectContaining({
+        p_keep_id: 'a',
+        p_duplicate_ids: ['b'],
+      }));
+    });
+
+    it('should report failures', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: null, error: new Error('forbidden') });
+
+      expect(await mergeRegistrations(plan)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Registration deduplication utilities
+ * Groups registrations that probably belong to the same person. Emails are compared
+ * in canonical form (case, Gmail dots and plus-tags removed), LinkedIn URLs after
+ * normalization, and names by similarity so "Jane Doe" and "Doe, Jane" still match.
+ * Merging keeps the earliest registration and is carried out by the database so
+ * waitlist positions stay consistent.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { logger } from "./logger";
+import { validateAndNormalizeLinkedIn } from "./security";
+import { callRpc } from "./supabaseRpc";
+
+export interface DedupCandidate {
+  id: string;
+  full_name: string;
+  email: string;
+  linkedin_url: string | null;
+  whatsapp_number: string | null;
+  resume_path: string | null;
+  created_at: string;
+}
+
+export type DuplicateReason = "email" | "linkedin" | "name";
+
+export interface DuplicateGroup {
+  /** Earliest registration in the group; the one a merge keeps */
+  primaryId: string;
+  registrations: DedupCandidate[];
+  reasons: DuplicateReason[];
+  /** Email or LinkedIn matches are likely; a similar name alone is only possible */
+  confidence: "likely" | "possible";
+}
+
+export interface MergePlan {
+  keepId: string;
+  duplicateIds: string[];
+  resumePath: string | null;
+  linkedinUrl: string | null;
+  whatsappNumber: string | null;
+}
+
+// Names at least this similar (0-1) are flagged when nothing else matches
+export const NAME_SIMILARITY_THRESHOLD = 0.9;
+
+const GMAIL_DOMAINS = new Set(["gmail.com", "googlemail.com"]);
+
+/**
+ * Canonical form of an email address for duplicate detection only
+ * Never store this; the address the participant typed is the one we mail
+ */
+export const canonicalizeEmail = (email: string): string => {
+  const trimmed = email.trim().toLowerCase();
+  const at = trimmed.lastIndexOf("@");
+  if (at <= 0) {
+    return trimmed;
+  }
+
+  let local = trimmed.slice(0, at).split("+")[0];
+  let domain = trimmed.slice(at + 1);
+
+  if (GMAIL_DOMAINS.has(domain)) {
+    local = local.replace(/\./g, "");
+    domain = "gmail.com";
+  }
+
+  return `${local}@${domain}`;
+};
+
+/**
+ * Lowercase, strip accents and punctuation, and sort name parts
+ */
+export const canonicalizeName = (name: string): string =>
+  name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(" ");
+
+export const canonicalizeLinkedIn = (url: string | null): string | null => {
+  if (!url) return null;
+  return validateAndNormalizeLinkedIn(url)?.toLowerCase() ?? null;
+};
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+const canonicalSimilarity = (left: string, right: string): number => {
+  if (!left || !right) return 0;
+  const longest = Math.max(left.length, right.length);
+  return 1 - levenshtein(left, right) / longest;
+};
+
+/**
+ * Similarity of two names between 0 and 1, ignoring case, accents and word order
+ */
+export const nameSimilarity = (a: string, b: string): number =>
+  canonicalSimilarity(canonicalizeName(a), canonicalizeName(b));
+
+/**
+ * Group registrations that are likely the same person
+ * Only groups with at least two registrations are returned, earliest first
+ */
+export const findDuplicateGroups = (registrations: DedupCandidate[]): DuplicateGroup[] => {
+  const parent = registrations.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const reasons = new Map<number, Set<DuplicateReason>>();
+
+  const union = (a: number, b: number, reason: DuplicateReason) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const merged = new Set([...(reasons.get(rootA) ?? []), ...(reasons.get(rootB) ?? []), reason]);
+    parent[rootB] = rootA;
+    reasons.set(rootA, merged);
+  };
+
+  // Exact matches on canonical keys
+  const linkByKey = (key: (r: DedupCandidate) => string | null, reason: DuplicateReason) => {
+    const firstByKey = new Map<string, number>();
+    registrations.forEach((registration, i) => {
+      const value = key(registration);
+      if (!value) return;
+      const first = firstByKey.get(value);
+      if (first === undefined) {
+        firstByKey.set(value, i);
+      } else {
+        union(first, i, reason);
+      }
+    });
+  };
+
+  linkByKey((r) => canonicalizeEmail(r.email), "email");
+  linkByKey((r) => canonicalizeLinkedIn(r.linkedin_url), "linkedin");
+
+  // Similar names, only compared within blocks sharing a name part to avoid comparing every pair
+  const names = registrations.map((r) => canonicalizeName(r.full_name));
+  const blocks = new Map<string, number[]>();
+  names.forEach((name, i) => {
+    new Set(name.split(" ").filter(Boolean)).forEach((part) => blocks.set(part, [...(blocks.get(part) ?? []), i]));
+  });
+  const compared = new Set<string>();
+  blocks.forEach((indices) => {
+    for (let x = 0; x < indices.length; x++) {
+      for (let y = x + 1; y < indices.length; y++) {
+        const pair = `${indices[x]}:${indices[y]}`;
+        if (compared.has(pair)) continue;
+        compared.add(pair);
+        if (canonicalSimilarity(names[indices[x]], names[indices[y]]) >= NAME_SIMILARITY_THRESHOLD) {
+          union(indices[x], indices[y], "name");
+        }
+      }
+    }
+  });
+
+  const groups = new Map<number, DedupCandidate[]>();
+  registrations.forEach((registration, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), registration]);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => {
+      const sorted = [...members].sort((a, b) => a.created_at.localeCompare(b.created_at));
+      const groupReasons = Array.from(reasons.get(root) ?? []).sort() as DuplicateReason[];
+      return {
+        primaryId: sorted[0].id,
+        registrations: sorted,
+        reasons: groupReasons,
+        confidence: groupReasons.some((r) => r !== "name") ? "likely" as const : "possible" as const,
+      };
+    })
+    .sort((a, b) => a.registrations[0].created_at.localeCompare(b.registrations[0].created_at));
+};
+
+/**
+ * Decide what a merge keeps
+ * The earliest registration survives so its timestamp and queue position hold; the most
+ * recently uploaded resume is treated as the best one, and missing contact details are
+ * filled in from the newest duplicate that has them.
+ */
+export const buildMergePlan = (group: DuplicateGroup): MergePlan => {
+  const [primary, ...duplicates] = group.registrations;
+  const newestFirst = [...group.registrations].reverse();
+  const pick = (field: "resume_path" | "linkedin_url" | "whatsapp_number") =>
+    newestFirst.find((r) => r[field])?.[field] ?? null;
+
+  return {
+    keepId: primary.id,
+    duplicateIds: duplicates.map((r) => r.id),
+    resumePath: pick("resume_path"),
+    linkedinUrl: primary.linkedin_url ?? pick("linkedin_url"),
+    whatsappNumber: primary.whatsapp_number ?? pick("whatsapp_number"),
+  };
+};
+
+/**
+ * Fetch every active registration for duplicate detection (admin only)
+ */
+export async function getDedupCandidates(): Promise<DedupCandidate[]> {
+  const all: DedupCandidate[] = [];
+  const limit = 1000;
+  let offset = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    const { data, error } = await supabase
+      .from("registrations")
+      .select("id, full_name, email, linkedin_url, whatsapp_number, resume_path, created_at")
+      .neq("status", "withdrawn")
+      .order("created_at", { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (error) throw error;
+
+    if (data && data.length > 0) {
+      all.push(...data);
+      offset += limit;
+      hasMore = data.length === limit;
+    } else {
+      hasMore = false;
+    }
+  }
+
+  return all;
+}
+
+/**
+ * Merge duplicates into the kept registration (admin only)
+ * The database moves the chosen details onto the kept row, removes the duplicates and
+ * promotes from the waitlist if a confirmed spot was freed
+ */
+export async function mergeRegistrations(plan: MergePlan): Promise<boolean> {
+  const { error } = await callRpc("merge_registrations", {
+    p_keep_id: plan.keepId,
+    p_duplicate_ids: plan.duplicateIds,
+    p_resume_path: plan.resumePath,
+    p_linkedin_url: plan.linkedinUrl,
+    p_whatsapp_number: plan.whatsappNumber,
+  });
+
+  if (error) {
+    logger.error("Failed to merge registrations", error, { keepId: plan.keepId });
+    return false;
+  }
+
+  return true;
+}
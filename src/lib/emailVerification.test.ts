@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  confirmEmail,
+  decodeVerificationToken,
+  isVerificationTokenExpired,
+  sendVerificationEmail,
+} from './emailVerification';
+import { supabase } from '@/integrations/supabase/client';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    functions: {
+      invoke: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('./logger', () => ({
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+const encode = (value: unknown) =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const makeToken = (rid: string, exp: number) => `${encode({ rid, exp })}.c2lnbmF0dXJl`;
+
+const inOneHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+describe('emailVerification', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('decodeVerificationToken', () => {
+    it('should decode the registration and expiry', () => {
+      const payload = decodeVerificationToken(makeToken('reg-1', 1767225600));
+
+      expect(payload).toEqual({
+        registrationId: 'reg-1',
+        expiresAt: new Date('2026-01-01T00:00:00.000Z'),
+      });
+    });
+
+    it('should reject malformed tokens', () => {
+      expect(decodeVerificationToken('')).toBeNull();
+      expect(decodeVerificationToken('no-signature')).toBeNull();
+      expect(decodeVerificationToken('not-base64!.sig')).toBeNull();
+      expect(decodeVerificationToken(`${encode({ rid: 42 })}.sig`)).toBeNull();
+    });
+  });
+
+  it('should detect expired tokens', () => {
+    const payload = { registrationId: 'reg-1', expiresAt: new Date('2026-01-01T00:00:00Z') };
+
+    expect(isVerificationTokenExpired(payload, new Date('2025-12-31T23:59:59Z'))).toBe(false);
+    expect(isVerificationTokenExpired(payload, new Date('2026-01-01T00:00:00Z'))).toBe(true);
+  });
+
+  describe('sendVerificationEmail', () => {
+    it('should invoke the Edge Function with the registration', async () => {
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: { sent: true }, error: null });
+
+      expect(await sendVerificationEmail('reg-1')).toBe(true);
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('send-verification-email', {
+        body: { registration_id: 'reg-1' },
+      });
+    });
+
+    it('should report failures', async () => {
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: null, error: new Error('SMTP down') });
+
+      expect(await sendVerificationEmail('reg-1')).toBe(false);
+    });
+  });
+
+  describe('confirmEmail', () => {
+    it('should not call the server for malformed tokens', async () => {
+      const result = await confirmEmail('garbage');
+
+      expect(result).toEqual({ status: 'invalid', registrationId: null });
+      expect(supabase.functions.invoke).not.toHaveBeenCalled();
+    });
+
+    it('should report expired tokens with the registration for resending', async () => {
+      const result = await confirmEmail(makeToken('reg-1', 1000));
+
+      expect(result).toEqual({ status: 'expired', registrationId: 'reg-1' });
+      expect(supabase.functions.invoke).not.toHaveBeenCalled();
+    });
+
+    it('should return the server status', async () => {
+      const token = makeToken('reg-1', inOneHour());
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: { status: 'verified' }, error: null });
+
+      const result = await confirmEmail(token);
+
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('confirm-registration-email', { body: { token } });
+      expect(result).toEqual({ status: 'verified', registrationId: 'reg-1' });
+    });
+
+    it('should report server errors as failed', async () => {
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: null, error: new Error('boom') });
+
+      const result = await confirmEmail(makeToken('reg-1', inOneHour()));
+      expect(result.status).toBe('failed');
+    });
+  });
+});
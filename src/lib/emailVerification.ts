@@ -0,0 +1,107 @@
+/**
+ * Email verification (double opt-in) utilities
+ * Confirmation tokens are signed and given an expiry by the send-verification-email
+ * Edge Function, which also delivers the message over SMTP. Tokens have the form
+ * `<base64url payload>.<base64url signature>`; only the Edge Functions hold the
+ * signing secret, so the client decodes the payload purely to give early feedback.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { logger } from "./logger";
+
+export type VerificationFilter = "all" | "verified" | "unverified";
+
+export const VERIFICATION_FILTERS: VerificationFilter[] = ["all", "verified", "unverified"];
+
+export interface VerificationTokenPayload {
+  registrationId: string;
+  expiresAt: Date;
+}
+
+export type ConfirmEmailStatus = "verified" | "alreadyVerified" | "expired" | "invalid" | "failed";
+
+export interface ConfirmEmailResult {
+  status: ConfirmEmailStatus;
+  registrationId: string | null;
+}
+
+const decodeBase64Url = (value: string): string => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  return atob(padded);
+};
+
+/**
+ * Decode the payload of a confirmation token without verifying its signature
+ * Returns null when the token is malformed
+ */
+export const decodeVerificationToken = (token: string): VerificationTokenPayload | null => {
+  const parts = token.split(".");
+  if (parts.length !== 2 || !parts[0] || !parts[1]) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(decodeBase64Url(parts[0])) as { rid?: unknown; exp?: unknown };
+    if (typeof payload.rid !== "string" || typeof payload.exp !== "number") {
+      return null;
+    }
+    return {
+      registrationId: payload.rid,
+      // exp is in seconds, as in JWTs
+      expiresAt: new Date(payload.exp * 1000),
+    };
+  } catch {
+    return null;
+  }
+};
+
+export const isVerificationTokenExpired = (
+  payload: VerificationTokenPayload,
+  now: Date = new Date()
+): boolean => payload.expiresAt.getTime() <= now.getTime();
+
+/**
+ * Ask the Edge Function to email a fresh confirmation link
+ * The function is rate limited per registration
+ */
+export async function sendVerificationEmail(registrationId: string): Promise<boolean> {
+  const { error } = await supabase.functions.invoke("send-verification-email", {
+    body: { registration_id: registrationId },
+  });
+
+  if (error) {
+    logger.error("Failed to send verification email", new Error(error.message), { registrationId });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Confirm an email address from the token in a confirmation link
+ */
+export async function confirmEmail(token: string): Promise<ConfirmEmailResult> {
+  const payload = decodeVerificationToken(token);
+  if (!payload) {
+    return { status: "invalid", registrationId: null };
+  }
+  if (isVerificationTokenExpired(payload)) {
+    return { status: "expired", registrationId: payload.registrationId };
+  }
+
+  const { data, error } = await supabase.functions.invoke("confirm-registration-email", {
+    body: { token },
+  });
+
+  if (error) {
+    logger.error("Failed to confirm email", new Error(error.message), { registrationId: payload.registrationId });
+    return { status: "failed", registrationId: payload.registrationId };
+  }
+
+  const status = (data as { status?: ConfirmEmailStatus } | null)?.status;
+  return {
+    status: status ?? "failed",
+    registrationId: payload.registrationId,
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getEventSchedule } from './eventSchedule';
+import { callRpc } from './supabaseRpc';
+
+vi.mock('./supabaseRpc', () => ({
+  callRpc: vi.fn(),
+}));
+
+vi.mock('./logger', () => ({
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+describe('getEventSchedule', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return the schedule the database enforces', async () => {
+    const schedule = {
+      team_lock_at: '2026-02-21T09:00:00+03:00',
+      submission_deadline: '2026-02-22T16:00:00+03:00',
+      event_ends_at: '2026-02-22T20:00:00+03:00',
+      team_max_size: 4,
+      team_min_size: 2,
+    };
+    vi.mocked(callRpc).mockResolvedValue({ data: schedule, error: null });
+
+    expect(await getEventSchedule()).toEqual(schedule);
+    expect(callRpc).toHaveBeenCalledWith('get_event_schedule', {});
+  });
+
+  it('should throw when no schedule comes back', async () => {
+    vi.mocked(callRpc).mockResolvedValue({ data: null, error: null });
+
+    await expect(getEventSchedule()).rejects.toThrow('No event schedule returned');
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Event schedule
+ * The moments that gate team changes, submissions and mentor availability live in
+ * the event_schedule table, which the team functions and save_submission read
+ * directly, as get_voting_status reads the voting window. The same row holds the
+ * team size limits.
+ * get_event_schedule returns that row, so the UI always shows the limits the
+ * database enforces instead of a copy that can drift from them.
+ */
+
+import { logger } from "./logger";
+import { callRpc } from "./supabaseRpc";
+
+export interface EventSchedule {
+  /** Teams are frozen once hacking starts */
+  team_lock_at: string;
+  /** Hacking ends; late submissions are flagged from here */
+  submission_deadline: string;
+  /** The event is over; retention periods anchored on the event count from here */
+  event_ends_at: string;
+  /** Members per team, including the creator */
+  team_max_size: number;
+  /** Smaller teams are listed as incomplete for admins */
+  team_min_size: number;
+}
+
+/**
+ * Load the event schedule
+ */
+export async function getEventSchedule(): Promise<EventSchedule> {
+  const { data, error } = await callRpc<EventSchedule>("get_event_schedule", {});
+
+  if (error || !data) {
+    const failure = error ?? new Error("No event schedule returned");
+    logger.error("Failed to load event schedule", failure);
+    throw failure;
+  }
+
+  return data;
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  filterProjects,
+  getAwardLabelKey,
+  getPublicProject,
+  getPublicProjects,
+  sortProjects,
+  type PublicProject,
+} from './gallery';
+import { callRpc } from './supabaseRpc';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+vi.mock('./supabaseRpc', () => ({
+  callRpc: vi.fn(),
+}));
+
+const project = (id: string, overrides: Partial<PublicProject> = {}): PublicProject => ({
+  id,
+  title: id,
+  description: 'A project built during the hackathon.',
+  track: 'fintech',
+  repository_url: 'https://github.com/team/project',
+  demo_video_url: 'https://youtu.be/abc123',
+  team_name: 'Team',
+  award: null,
+  overall_rank: null,
+  track_rank: null,
+  submitted_at: '2026-02-22T12:00:00Z',
+  ...overrides,
+});
+
+describe('gallery', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('filterProjects', () => {
+    const projects = [
+      project('Shamba Sense', { track: 'agritech', description: 'Soil moisture alerts over SMS.' }),
+      project('Chama Ledger', { team_name: 'Savings Crew' }),
+      project('Kliniki', { track: 'healthtech' }),
+    ];
+
+    it('should filter by track', () => {
+      expect(filterProjects(projects, { track: 'agritech', query: '' }).map((p) => p.id)).toEqual(['Shamba Sense']);
+    });
+
+    it('should search title, description and team name case-insensitively', () => {
+      expect(filterProjects(projects, { track: null, query: 'SMS' }).map((p) => p.id)).toEqual(['Shamba Sense']);
+      expect(filterProjects(projects, { track: null, query: ' savings ' }).map((p) => p.id)).toEqual(['Chama Ledger']);
+    });
+
+    it('should combine track and search', () => {
+      expect(filterProjects(projects, { track: 'healthtech', query: 'chama' })).toEqual([]);
+    });
+  });
+
+  describe('sortProjects', () => {
+    it('should list winners first in prize order', () => {
+      const sorted = sortProjects([
+        project('b'),
+        project('design', { award: 'bestDesign' }),
+        project('a'),
+        project('winner', { award: 'first' }),
+      ]);
+
+      expect(sorted.map((p) => p.id)).toEqual(['winner', 'design', 'a', 'b']);
+    });
+
+    it('should follow published ranks after the award winners', () => {
+      const sorted = sortProjects([
+        project('a'),
+        project('third', { overall_rank: 3 }),
+        project('winner', { award: 'first', overall_rank: 1 }),
+        project('second', { overall_rank: 2 }),
+      ]);
+
+      expect(sorted.map((p) => p.id)).toEqual(['winner', 'second', 'third', 'a']);
+    });
+  });
+
+  describe('getAwardLabelKey', () => {
+    it('should reuse the prize labels', () => {
+      expect(getAwardLabelKey('second')).toBe('prizes.categories.second.title');
+      expect(getAwardLabelKey('bestPitch')).toBe('prizes.specialAwards.bestPitch.title');
+    });
+  });
+
+  describe('getPublicProjects', () => {
+    it('should return an empty gallery before submissions close', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: null, error: null });
+
+      expect(await getPublicProjects()).toEqual([]);
+    });
+
+    it('should throw when loading fails', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: null, error: new Error('Network error') });
+
+      await expect(getPublicProjects()).rejects.toThrow('Network error');
+    });
+  });
+
+  describe('getPublicProject', () => {
+    it('should return null for unknown projects', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: null, error: null });
+
+      expect(await getPublicProject('missing')).toBeNull();
+      expect(callRpc).toHaveBeenCalledWith('get_public_project', { p_id: 'missing' });
+    });
+  });
+});
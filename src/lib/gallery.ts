@@ -0,0 +1,112 @@
+/**
+ * Public project gallery
+ * Reads go through the get_public_projects and get_public_project database
+ * functions, which only expose the public fields of a submission and return
+ * nothing until submissions close at the schedule's submission_deadline, so
+ * teams cannot copy each other mid-hack. Awards are set by admins once judging
+ * is finished and show up as winner badges; ranks stay null until judging
+ * results are published.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { callRpc } from "./supabaseRpc";
+
+export type ProjectAward = Database["public"]["Enums"]["project_award"];
+
+export interface PublicProject {
+  id: string;
+  title: string;
+  description: string;
+  track: string;
+  repository_url: string;
+  demo_video_url: string;
+  team_name: string;
+  award: ProjectAward | null;
+  overall_rank: number | null;
+  track_rank: number | null;
+  submitted_at: string;
+}
+
+export interface ProjectFilters {
+  track: string | null;
+  query: string;
+}
+
+export const PROJECTS_PATH = "/projects";
+
+/** Prize categories first, then special awards, matching the Prizes page */
+export const PROJECT_AWARDS: ProjectAward[] = ["first", "second", "third", "bestDesign", "mostInnovative", "bestPitch"];
+
+const PLACES: ProjectAward[] = ["first", "second", "third"];
+
+/**
+ * Translation key for an award's title, reusing the Prizes page labels
+ */
+export const getAwardLabelKey = (award: ProjectAward): string =>
+  PLACES.includes(award) ? `prizes.categories.${award}.title` : `prizes.specialAwards.${award}.title`;
+
+export const getProjectPath = (id: string): string => `${PROJECTS_PATH}/${id}`;
+
+/**
+ * Projects matching a track and a free-text search over title, description and team
+ */
+export const filterProjects = (projects: PublicProject[], filters: ProjectFilters): PublicProject[] => {
+  const query = filters.query.trim().toLowerCase();
+
+  return projects.filter((project) => {
+    if (filters.track && project.track !== filters.track) {
+      return false;
+    }
+    if (!query) {
+      return true;
+    }
+    return [project.title, project.description, project.team_name].some((field) =>
+      field.toLowerCase().includes(query)
+    );
+  });
+};
+
+/**
+ * Award winners first in prize order, then by published rank, then everything else by title
+ */
+export const sortProjects = (projects: PublicProject[]): PublicProject[] => {
+  const awardOrder = (project: PublicProject) =>
+    project.award ? PROJECT_AWARDS.indexOf(project.award) : PROJECT_AWARDS.length;
+  const rankOrder = (project: PublicProject) => project.overall_rank ?? Number.MAX_SAFE_INTEGER;
+
+  return [...projects].sort(
+    (a, b) => awardOrder(a) - awardOrder(b) || rankOrder(a) - rankOrder(b) || a.title.localeCompare(b.title)
+  );
+};
+
+/**
+ * Every published project (empty before submissions close)
+ */
+export async function getPublicProjects(): Promise<PublicProject[]> {
+  const { data, error } = await callRpc<PublicProject[]>("get_public_projects", {});
+
+  if (error) throw error;
+
+  return sortProjects(data ?? []);
+}
+
+/**
+ * A single published project, or null if it does not exist or is not public yet
+ */
+export async function getPublicProject(id: string): Promise<PublicProject | null> {
+  const { data, error } = await callRpc<PublicProject | null>("get_public_project", { p_id: id });
+
+  if (error) throw error;
+
+  return data ?? null;
+}
+
+/**
+ * Set or clear a project's award after judging (admin only)
+ */
+export async function setProjectAward(submissionId: string, award: ProjectAward | null): Promise<void> {
+  const { error } = await supabase.from("project_submissions").update({ award }).eq("id", submissionId);
+
+  if (error) throw error;
+}
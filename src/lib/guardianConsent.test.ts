@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  getConsentRequest,
+  isSponsorShareable,
+  requiresGuardianConsent,
+  respondToConsent,
+  sendGuardianConsentEmail,
+} from './guardianConsent';
+import { supabase } from '@/integrations/supabase/client';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    functions: {
+      invoke: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('./logger', () => ({
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+const encode = (value: unknown) =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const makeToken = (rid: string, exp: number) => `${encode({ rid, exp })}.c2lnbmF0dXJl`;
+
+const inOneHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+describe('guardianConsent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('requiresGuardianConsent', () => {
+    const eventDay = new Date(2026, 5, 15);
+
+    it('should require consent until the 18th birthday', () => {
+      expect(requiresGuardianConsent('2008-06-16', eventDay)).toBe(true);
+      expect(requiresGuardianConsent('2008-06-15', eventDay)).toBe(false);
+      expect(requiresGuardianConsent('1990-01-01', eventDay)).toBe(false);
+    });
+
+    it('should leave invalid dates to field validation', () => {
+      expect(requiresGuardianConsent('', eventDay)).toBe(false);
+      expect(requiresGuardianConsent('2010-02-30', eventDay)).toBe(false);
+    });
+  });
+
+  it('should only share resumes of adults and minors with granted consent', () => {
+    expect(isSponsorShareable({ consent_status: 'not_required' })).toBe(true);
+    expect(isSponsorShareable({ consent_status: 'granted' })).toBe(true);
+    expect(isSponsorShareable({ consent_status: 'pending' })).toBe(false);
+    expect(isSponsorShareable({ consent_status: 'declined' })).toBe(false);
+    expect(isSponsorShareable({ consent_status: null })).toBe(false);
+    expect(isSponsorShareable({})).toBe(false);
+  });
+
+  describe('sendGuardianConsentEmail', () => {
+    it('should invoke the Edge Function with the registration', async () => {
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: { sent: true }, error: null });
+
+      expect(await sendGuardianConsentEmail('reg-1')).toBe(true);
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('send-guardian-consent', {
+        body: { registration_id: 'reg-1' },
+      });
+    });
+
+    it('should report failures', async () => {
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: null, error: new Error('rate limited') });
+
+      expect(await sendGuardianConsentEmail('reg-1')).toBe(false);
+    });
+  });
+
+  describe('getConsentRequest', () => {
+    it('should reject malformed and expired links without calling the server', async () => {
+      expect(await getConsentRequest('garbage')).toEqual({
+        status: 'invalid',
+        participantName: null,
+        registrationId: null,
+      });
+      expect((await getConsentRequest(makeToken('reg-1', 1000))).status).toBe('expired');
+      expect(supabase.functions.invoke).not.toHaveBeenCalled();
+    });
+
+    it('should return the participant and current status', async () => {
+      const token = makeToken('reg-1', inOneHour());
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({
+        data: { status: 'pending', participant_name: 'Baraka' },
+        error: null,
+      });
+
+      expect(await getConsentRequest(token)).toEqual({
+        status: 'pending',
+        participantName: 'Baraka',
+        registrationId: 'reg-1',
+      });
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('guardian-consent', { body: { token } });
+    });
+  });
+
+  describe('respondToConsent', () => {
+    it('should send the decision', async () => {
+      const token = makeToken('reg-1', inOneHour());
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({
+        data: { status: 'granted', participant_name: 'Baraka' },
+        error: null,
+      });
+
+      expect((await respondToConsent(token, 'granted')).status).toBe('granted');
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('guardian-consent', {
+        body: { token, decision: 'granted' },
+      });
+    });
+
+    it('should report server errors as failed', async () => {
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: null, error: new Error('boom') });
+
+      expect((await respondToConsent(makeToken('reg-1', inOneHour()), 'declined')).status).toBe('failed');
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Guardian consent for participants under 18
+ * Minors name a guardian when registering. The send-guardian-consent Edge Function
+ * emails that guardian a signed link in the same token format as email verification,
+ * and the registration's consent_status stays "pending" until the guardian answers
+ * through the guardian-consent Edge Function. The database sets consent_status from
+ * the date of birth, so it cannot be chosen by the client.
+ *
+ * Minors' resumes are only shared with sponsors once their guardian has granted
+ * consent; registrations still pending or declined are left out.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { AGE_OF_MAJORITY } from "./constants";
+import { decodeVerificationToken, isVerificationTokenExpired } from "./emailVerification";
+import { logger } from "./logger";
+import { calculateAge } from "./security";
+
+export type ConsentStatus = Database["public"]["Enums"]["consent_status"];
+
+export const CONSENT_STATUSES: ConsentStatus[] = ["not_required", "pending", "granted", "declined"];
+
+export type ConsentDecision = "granted" | "declined";
+
+export type ConsentLinkStatus = "pending" | ConsentDecision | "expired" | "invalid" | "failed";
+
+export interface ConsentRequest {
+  status: ConsentLinkStatus;
+  participantName: string | null;
+  registrationId: string | null;
+}
+
+/**
+ * Whether a participant with this date of birth needs guardian consent
+ * Unparseable dates are left to field validation and do not require consent
+ */
+export const requiresGuardianConsent = (dateOfBirth: string, now: Date = new Date()): boolean => {
+  const age = calculateAge(dateOfBirth, now);
+  return age !== null && age < AGE_OF_MAJORITY;
+};
+
+/**
+ * Whether a registration's resume may be shared with sponsors
+ * Adults and minors whose guardian granted consent qualify; a missing status does not.
+ * search_sponsor_resumes enforces the same rule on the server.
+ */
+export const isSponsorShareable = (registration: { consent_status?: ConsentStatus | null }): boolean =>
+  registration.consent_status === "not_required" || registration.consent_status === "granted";
+
+/**
+ * Ask the Edge Function to email the guardian a consent link
+ * The function is rate limited per registration and ignores adults
+ */
+export async function sendGuardianConsentEmail(registrationId: string): Promise<boolean> {
+  const { error } = await supabase.functions.invoke("send-guardian-consent", {
+    body: { registration_id: registrationId },
+  });
+
+  if (error) {
+    logger.error("Failed to send guardian consent email", new Error(error.message), { registrationId });
+    return false;
+  }
+
+  return true;
+}
+
+const callConsentFunction = async (token: string, decision?: ConsentDecision): Promise<ConsentRequest> => {
+  const payload = decodeVerificationToken(token);
+  if (!payload) {
+    return { status: "invalid", participantName: null, registrationId: null };
+  }
+  if (isVerificationTokenExpired(payload)) {
+    return { status: "expired", participantName: null, registrationId: payload.registrationId };
+  }
+
+  const { data, error } = await supabase.functions.invoke("guardian-consent", {
+    body: decision ? { token, decision } : { token },
+  });
+
+  if (error) {
+    logger.error("Guardian consent request failed", new Error(error.message), {
+      registrationId: payload.registrationId,
+    });
+    return { status: "failed", participantName: null, registrationId: payload.registrationId };
+  }
+
+  const result = data as { status?: ConsentLinkStatus; participant_name?: string } | null;
+  return {
+    status: result?.status ?? "failed",
+    participantName: result?.participant_name ?? null,
+    registrationId: payload.registrationId,
+  };
+};
+
+/**
+ * Look up the participant and current status behind a consent link
+ */
+export const getConsentRequest = (token: string): Promise<ConsentRequest> => callConsentFunction(token);
+
+/**
+ * Record the guardian's decision
+ * Declining withdraws the registration; a decision cannot be changed from the link
+ */
+export const respondToConsent = (token: string, decision: ConsentDecision): Promise<ConsentRequest> =>
+  callConsentFunction(token, decision);
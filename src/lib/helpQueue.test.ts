@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  claimHelpRequest,
+  getActiveRequests,
+  getQueueStats,
+  requestHelp,
+  type HelpRequest,
+} from './helpQueue';
+import { monitor } from './monitoring';
+import { callRpc } from './supabaseRpc';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(),
+    channel: vi.fn(),
+    removeChannel: vi.fn(),
+  },
+}));
+
+vi.mock('./supabaseRpc', () => ({
+  callRpc: vi.fn(),
+}));
+
+vi.mock('./monitoring', () => ({
+  monitor: {
+    trackMetric: vi.fn(),
+  },
+}));
+
+vi.mock('./logger', () => ({
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+const at = (time: string) => `2026-02-21T${time}:00.000Z`;
+
+const request = (id: string, overrides: Partial<HelpRequest> = {}): HelpRequest => ({
+  id,
+  team_id: `team-${id}`,
+  topic: 'supabase',
+  description: null,
+  location: null,
+  requested_by: null,
+  status: 'open',
+  claimed_by: null,
+  claimed_at: null,
+  resolved_at: null,
+  created_at: at('10:00'),
+  ...overrides,
+});
+
+describe('helpQueue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getActiveRequests', () => {
+    it('should list waiting requests oldest first, then those being helped', () => {
+      const queue = [
+        request('claimed', { status: 'claimed', created_at: at('09:00'), claimed_at: at('09:05') }),
+        request('newer', { created_at: at('10:10') }),
+        request('resolved', { status: 'resolved', created_at: at('08:00') }),
+        request('older', { created_at: at('10:00') }),
+      ];
+
+      expect(getActiveRequests(queue).map((r) => r.id)).toEqual(['older', 'newer', 'claimed']);
+    });
+  });
+
+  describe('getQueueStats', () => {
+    it('should average waits over answered requests and track the longest open wait', () => {
+      const queue = [
+        request('a', { status: 'resolved', claimed_at: at('10:10'), resolved_at: at('10:30') }),
+        request('b', { status: 'claimed', claimed_at: at('10:20') }),
+        request('c', { created_at: at('10:40') }),
+        request('d', { status: 'cancelled', created_at: at('09:00') }),
+      ];
+
+      const stats = getQueueStats(queue, new Date(at('11:00')));
+
+      expect(stats).toMatchObject({ open: 1, claimed: 1, resolved: 1 });
+      expect(stats.averageWaitMs).toBe(15 * 60 * 1000);
+      expect(stats.longestWaitMs).toBe(20 * 60 * 1000);
+      expect(stats.averageResolutionMs).toBe(20 * 60 * 1000);
+    });
+
+    it('should report zeros for an empty queue', () => {
+      expect(getQueueStats([])).toEqual({
+        open: 0,
+        claimed: 0,
+        resolved: 0,
+        averageWaitMs: 0,
+        longestWaitMs: 0,
+        averageResolutionMs: 0,
+      });
+    });
+  });
+
+  describe('requestHelp', () => {
+    it('should reject unknown topics before reaching the database', async () => {
+      expect(await requestHelp({ topic: 'astrology', location: '', description: '' })).toEqual({
+        success: false,
+        error: 'invalid',
+      });
+      expect(callRpc).not.toHaveBeenCalled();
+    });
+
+    it('should pass through queue errors from the database', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: { error: 'alreadyOpen' }, error: null });
+
+      const result = await requestHelp({ topic: 'pitch', location: 'Table 4', description: ' ' });
+
+      expect(result).toEqual({ success: false, error: 'alreadyOpen' });
+      expect(callRpc).toHaveBeenCalledWith('request_help', {
+        p_topic: 'pitch',
+        p_location: 'Table 4',
+        p_description: null,
+      });
+    });
+  });
+
+  describe('claimHelpRequest', () => {
+    it('should report how long the team waited', async () => {
+      const claimed = request('a', { status: 'claimed', topic: 'ml', claimed_at: at('10:12') });
+      vi.mocked(callRpc).mockResolvedValue({ data: { request: claimed }, error: null });
+
+      expect(await claimHelpRequest('a')).toEqual({ success: true, request: claimed });
+      expect(monitor.trackMetric).toHaveBeenCalledWith('help_request_wait_time', 12 * 60 * 1000, {
+        unit: 'ms',
+        topic: 'ml',
+      });
+    });
+
+    it('should not report a wait when another mentor got there first', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: { error: 'alreadyClaimed' }, error: null });
+
+      expect(await claimHelpRequest('a')).toEqual({ success: false, error: 'alreadyClaimed' });
+      expect(monitor.trackMetric).not.toHaveBeenCalled();
+    });
+  });
+});
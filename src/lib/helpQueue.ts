@@ -0,0 +1,263 @@
+/**
+ * Live mentor help queue
+ * During hacking a team posts one help request at a time, tagged with a topic from
+ * MENTOR_TOPICS and optionally where they are sitting. Mentors see the open requests,
+ * claim one, walk over and resolve it, or release it back to the queue if they cannot
+ * help. request_help refuses a second open request from the same team and
+ * claim_help_request only succeeds for the first mentor to claim, so two mentors never
+ * answer the same ticket.
+ *
+ * Pages subscribe to changes on help_requests (subscribeToHelpQueue) and reload, so the
+ * queue updates without refreshing; row level security limits participants to their own
+ * team's requests. The wait from posting to being claimed is reported through
+ * monitor.trackMetric when a mentor claims a request, and the admin queue view reports
+ * the queue-wide average each time it loads.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { logger } from "./logger";
+import { monitor } from "./monitoring";
+import { MENTOR_TOPICS } from "./officeHours";
+import { sanitizeInput } from "./security";
+import { callRpc } from "./supabaseRpc";
+
+export type HelpRequest = Database["public"]["Tables"]["help_requests"]["Row"];
+export type HelpRequestStatus = Database["public"]["Enums"]["help_request_status"];
+
+export interface HelpQueueEntry extends HelpRequest {
+  team_name: string;
+  /** Display name of the mentor who claimed the request */
+  mentor_name: string | null;
+}
+
+export interface TeamHelpRequest {
+  /** The signed-in participant's team, or null */
+  team_id: string | null;
+  /** The team's open or claimed request */
+  request: HelpQueueEntry | null;
+  /** 1-based place among open requests, while the request is waiting */
+  position: number | null;
+}
+
+export interface HelpRequestInput {
+  topic: string;
+  location: string;
+  description: string;
+}
+
+export type HelpRequestError = "noTeam" | "alreadyOpen" | "invalid" | "failed";
+
+export interface HelpRequestResult {
+  success: boolean;
+  error?: HelpRequestError;
+  request?: HelpRequest;
+}
+
+export type QueueActionError = "alreadyClaimed" | "notAllowed" | "failed";
+
+export interface QueueActionResult {
+  success: boolean;
+  error?: QueueActionError;
+  request?: HelpRequest;
+}
+
+export interface HelpQueueStats {
+  open: number;
+  claimed: number;
+  resolved: number;
+  /** Average time from posting to being claimed, over claimed and resolved requests */
+  averageWaitMs: number;
+  /** How long the oldest open request has been waiting */
+  longestWaitMs: number;
+  /** Average time from being claimed to resolved */
+  averageResolutionMs: number;
+}
+
+export const ACTIVE_HELP_STATUSES: HelpRequestStatus[] = ["open", "claimed"];
+
+const HELP_LOCATION_MAX_LENGTH = 60;
+const HELP_DESCRIPTION_MAX_LENGTH = 500;
+const MINUTE_MS = 60 * 1000;
+
+const elapsed = (from: string, to: string | Date): number =>
+  Math.max(0, new Date(to).getTime() - new Date(from).getTime());
+
+const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/**
+ * How long a request waited for a mentor, or has been waiting so far
+ */
+export const getWaitTime = (request: Pick<HelpRequest, "created_at" | "claimed_at">, now: Date = new Date()): number =>
+  elapsed(request.created_at, request.claimed_at ?? now);
+
+/**
+ * Whole minutes, for display
+ */
+export const toMinutes = (ms: number): number => Math.floor(ms / MINUTE_MS);
+
+/**
+ * Active requests: open ones first, longest waiting first, then those being helped
+ */
+export const getActiveRequests = <T extends HelpRequest>(queue: T[]): T[] =>
+  queue
+    .filter((request) => ACTIVE_HELP_STATUSES.includes(request.status))
+    .sort(
+      (a, b) =>
+        ACTIVE_HELP_STATUSES.indexOf(a.status) - ACTIVE_HELP_STATUSES.indexOf(b.status) ||
+        a.created_at.localeCompare(b.created_at)
+    );
+
+export const getQueueStats = (queue: HelpRequest[], now: Date = new Date()): HelpQueueStats => {
+  const open = queue.filter((request) => request.status === "open");
+  const answered = queue.filter((request) => request.claimed_at && request.status !== "cancelled");
+  const resolved = queue.filter((request) => request.status === "resolved");
+
+  return {
+    open: open.length,
+    claimed: queue.filter((request) => request.status === "claimed").length,
+    resolved: resolved.length,
+    averageWaitMs: average(answered.map((request) => getWaitTime(request))),
+    longestWaitMs: Math.max(0, ...open.map((request) => getWaitTime(request, now))),
+    averageResolutionMs: average(
+      resolved
+        .filter((request) => request.claimed_at && request.resolved_at)
+        .map((request) => elapsed(request.claimed_at as string, request.resolved_at as string))
+    ),
+  };
+};
+
+/**
+ * Report queue-wide wait times to monitoring
+ */
+export const reportHelpQueueMetrics = (stats: HelpQueueStats): void => {
+  monitor.trackMetric("help_queue_average_wait", stats.averageWaitMs, { unit: "ms" });
+  monitor.trackMetric("help_queue_longest_wait", stats.longestWaitMs, { unit: "ms" });
+  monitor.trackMetric("help_queue_open", stats.open);
+};
+
+/**
+ * Call onChange whenever a help request visible to the user changes
+ * Returns a function that unsubscribes
+ */
+export const subscribeToHelpQueue = (onChange: () => void): (() => void) => {
+  const channel = supabase
+    .channel(`help-queue-${Math.random().toString(36).slice(2)}`)
+    .on("postgres_changes", { event: "*", schema: "public", table: "help_requests" }, () => onChange())
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+/**
+ * The signed-in participant's team and its active request
+ */
+export async function getMyHelpRequest(): Promise<TeamHelpRequest> {
+  const { data, error } = await callRpc<TeamHelpRequest>("get_my_help_request", {});
+
+  if (error) {
+    logger.error("Failed to load help request", error);
+    throw error;
+  }
+
+  return {
+    team_id: data?.team_id ?? null,
+    request: data?.request ?? null,
+    position: data?.position ?? null,
+  };
+}
+
+/**
+ * Post a help request for the signed-in participant's team
+ */
+export async function requestHelp(input: HelpRequestInput): Promise<HelpRequestResult> {
+  if (!MENTOR_TOPICS.includes(input.topic)) {
+    return { success: false, error: "invalid" };
+  }
+
+  const { data, error } = await callRpc<{ request?: HelpRequest; error?: HelpRequestError }>("request_help", {
+    p_topic: input.topic,
+    p_location: input.location.trim() ? sanitizeInput(input.location, HELP_LOCATION_MAX_LENGTH) : null,
+    p_description: input.description.trim() ? sanitizeInput(input.description, HELP_DESCRIPTION_MAX_LENGTH) : null,
+  });
+
+  if (error) {
+    logger.error("Failed to request help", error, { topic: input.topic });
+    return { success: false, error: "failed" };
+  }
+  if (data?.error || !data?.request) {
+    return { success: false, error: data?.error ?? "failed" };
+  }
+  return { success: true, request: data.request };
+}
+
+/**
+ * Withdraw the team's request; admins can also close any request
+ */
+export async function cancelHelpRequest(id: string): Promise<boolean> {
+  const { data, error } = await callRpc<{ error?: string }>("cancel_help_request", { p_id: id });
+
+  if (error || data?.error) {
+    logger.error("Failed to cancel help request", error ?? new Error(data?.error), { id });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Active requests and those resolved today, with team and mentor names (mentors and admins)
+ */
+export async function getHelpQueue(): Promise<HelpQueueEntry[]> {
+  const { data, error } = await callRpc<HelpQueueEntry[]>("get_help_queue", {});
+
+  if (error) throw error;
+
+  return data ?? [];
+}
+
+const runQueueAction = async (
+  fn: "claim_help_request" | "resolve_help_request" | "release_help_request",
+  id: string
+): Promise<QueueActionResult> => {
+  const { data, error } = await callRpc<{ request?: HelpRequest; error?: QueueActionError }>(fn, { p_id: id });
+
+  if (error) {
+    logger.error("Failed to update help request", error, { fn, id });
+    return { success: false, error: "failed" };
+  }
+  if (data?.error || !data?.request) {
+    return { success: false, error: data?.error ?? "failed" };
+  }
+  return { success: true, request: data.request };
+};
+
+/**
+ * Take a request as the signed-in mentor, reporting how long the team waited
+ */
+export async function claimHelpRequest(id: string): Promise<QueueActionResult> {
+  const result = await runQueueAction("claim_help_request", id);
+
+  if (result.request) {
+    monitor.trackMetric("help_request_wait_time", getWaitTime(result.request), {
+      unit: "ms",
+      topic: result.request.topic,
+    });
+  }
+
+  return result;
+}
+
+export async function resolveHelpRequest(id: string): Promise<QueueActionResult> {
+  return runQueueAction("resolve_help_request", id);
+}
+
+/**
+ * Hand a claimed request back to the queue; it keeps its place
+ */
+export async function releaseHelpRequest(id: string): Promise<QueueActionResult> {
+  return runQueueAction("release_help_request", id);
+}
@@ -188,6 +188,30 @@ export const formatDateTimeShort = (dateString: string | Date): string => {
   }
 };
 
+/**
+ * Format a time of day
+ * Example: "10:30 AM"
+ */
+export const formatTime = (dateString: string | Date): string => {
+  const date = typeof dateString === "string" ? new Date(dateString) : dateString;
+  const locale = getLocale();
+
+  try {
+    return date.toLocaleTimeString(locale, {
+      hour: "numeric",
+      minute: "2-digit",
+      hour12: true,
+    });
+  } catch (error) {
+    console.warn("Invalid locale, falling back to default:", error);
+    return date.toLocaleTimeString(DEFAULT_LOCALE, {
+      hour: "numeric",
+      minute: "2-digit",
+      hour12: true,
+    });
+  }
+};
+
 /**
  * Format relative time (e.g., "2 days ago", "in 3 hours")
  */
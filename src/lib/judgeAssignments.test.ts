@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  findCompanyConflicts,
+  getConflictKey,
+  getConflictSet,
+  getWorkloads,
+  normalizeCompanyDomain,
+  planAssignments,
+  saveAssignments,
+  type AssignableProject,
+  type Judge,
+} from './judgeAssignments';
+import { callRpc } from './supabaseRpc';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+vi.mock('./supabaseRpc', () => ({
+  callRpc: vi.fn(),
+}));
+
+vi.mock('./logger', () => ({
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+const judge = (user_id: string, tracks: string[] = [], company_domain: string | null = null): Judge => ({
+  user_id,
+  email: `${user_id}@judges.test`,
+  display_name: user_id,
+  company: null,
+  company_domain,
+  tracks,
+});
+
+const project = (id: string, track = 'fintech', member_emails: string[] = []): AssignableProject => ({
+  id,
+  title: id,
+  team_id: `team-${id}`,
+  team_name: `Team ${id}`,
+  track,
+  member_emails,
+});
+
+describe('judgeAssignments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('normalizeCompanyDomain', () => {
+    it('should accept domains typed as emails or URLs', () => {
+      expect(normalizeCompanyDomain('@Acme.co.ke')).toBe('acme.co.ke');
+      expect(normalizeCompanyDomain('https://www.acme.co.ke/about')).toBe('acme.co.ke');
+      expect(normalizeCompanyDomain('acme')).toBeNull();
+    });
+  });
+
+  describe('findCompanyConflicts', () => {
+    it('should match team members at the judge company or a subdomain of it', () => {
+      const judges = [judge('j1', [], 'acme.co.ke'), judge('j2')];
+      const projects = [
+        project('a', 'fintech', ['wanjiru@labs.acme.co.ke']),
+        project('b', 'fintech', ['otieno@notacme.co.ke']),
+      ];
+
+      expect(findCompanyConflicts(judges, projects)).toEqual([
+        { judge_id: 'j1', team_id: 'team-a', reason: 'company' },
+      ]);
+    });
+  });
+
+  describe('planAssignments', () => {
+    it('should give every project distinct judges and balance the workload', () => {
+      const judges = ['j1', 'j2', 'j3', 'j4'].map((id) => judge(id, ['fintech']));
+      const projects = ['a', 'b', 'c', 'd'].map((id) => project(id));
+
+      const plan = planAssignments(projects, judges, new Set(), 3);
+
+      expect(plan.shortfalls).toEqual([]);
+      projects.forEach(({ id }) => {
+        const assigned = plan.assignments.filter((a) => a.submission_id === id).map((a) => a.judge_id);
+        expect(new Set(assigned).size).toBe(3);
+      });
+      expect([...getWorkloads(plan.assignments, judges).values()]).toEqual([3, 3, 3, 3]);
+    });
+
+    it('should never assign a conflicted judge', () => {
+      const judges = [judge('j1'), judge('j2'), judge('j3')];
+      const conflictSet = getConflictSet([{ judge_id: 'j1', team_id: 'team-a' }]);
+
+      const plan = planAssignments([project('a'), project('b')], judges, conflictSet, 2);
+
+      expect(plan.assignments).not.toContainEqual({ submission_id: 'a', judge_id: 'j1' });
+      expect(plan.assignments.filter((a) => a.judge_id === 'j1')).toHaveLength(1);
+    });
+
+    it('should prefer judges with expertise in the track', () => {
+      const judges = [judge('j1', ['healthtech']), judge('j2', ['fintech'])];
+
+      const plan = planAssignments([project('a', 'fintech'), project('b', 'healthtech')], judges, new Set(), 1);
+
+      expect(plan.assignments).toEqual(
+        expect.arrayContaining([
+          { submission_id: 'a', judge_id: 'j2' },
+          { submission_id: 'b', judge_id: 'j1' },
+        ])
+      );
+    });
+
+    it('should report projects without enough eligible judges', () => {
+      const judges = [judge('j1'), judge('j2')];
+      const conflictSet = new Set([getConflictKey('j1', 'team-a')]);
+
+      const plan = planAssignments([project('a')], judges, conflictSet, 2);
+
+      expect(plan.assignments).toEqual([{ submission_id: 'a', judge_id: 'j2' }]);
+      expect(plan.shortfalls).toEqual([{ submission_id: 'a', missing: 1 }]);
+    });
+  });
+
+  describe('saveAssignments', () => {
+    it('should pass on the locked error from the database', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: { error: 'locked' }, error: null });
+
+      const assignments = [{ submission_id: 'a', judge_id: 'j1' }];
+
+      expect(await saveAssignments(assignments)).toEqual({ success: false, error: 'locked' });
+      expect(callRpc).toHaveBeenCalledWith('save_judge_assignments', { p_assignments: assignments });
+    });
+  });
+});
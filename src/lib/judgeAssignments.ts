@@ -0,0 +1,302 @@
+/**
+ * Judge assignments
+ * Gives each project JUDGES_PER_PROJECT independent judges while spreading the
+ * workload evenly. A judge is never assigned a team they have a conflict of interest
+ * with: conflicts are either declared to the organizers and stored in judge_conflicts
+ * (same company, mentored the team, ...) or detected automatically when a team member
+ * registered with an email at the judge's company domain. Judges whose tracks match a
+ * project are preferred as long as that keeps the workload within one project of the
+ * others. The plan is built here as a draft that admins can adjust and save; once
+ * lock_judge_assignments runs, judges see their projects and the draft can no longer
+ * change.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { logger } from "./logger";
+import { sanitizeInput } from "./security";
+import { getSubmissions } from "./submissions";
+import { callRpc } from "./supabaseRpc";
+import { getTeamOverview } from "./teams";
+
+export type ConflictReason = Database["public"]["Enums"]["conflict_reason"];
+
+export type JudgeConflict = Database["public"]["Tables"]["judge_conflicts"]["Row"];
+
+/** An account with the judge role and its profile */
+export interface Judge {
+  user_id: string;
+  email: string;
+  display_name: string;
+  company: string | null;
+  /** Email domain of the judge's employer, used to detect conflicts */
+  company_domain: string | null;
+  tracks: string[];
+}
+
+export type JudgeProfileInput = Pick<Judge, "display_name" | "company" | "company_domain" | "tracks">;
+
+export interface AssignableProject {
+  id: string;
+  title: string;
+  team_id: string;
+  team_name: string;
+  track: string;
+  member_emails: string[];
+}
+
+export interface Assignment {
+  submission_id: string;
+  judge_id: string;
+}
+
+export interface AssignmentShortfall {
+  submission_id: string;
+  /** Judges still needed to reach the target */
+  missing: number;
+}
+
+export interface AssignmentPlan {
+  assignments: Assignment[];
+  shortfalls: AssignmentShortfall[];
+}
+
+export interface DetectedConflict {
+  judge_id: string;
+  team_id: string;
+  reason: ConflictReason;
+}
+
+export interface AssignmentData {
+  judges: Judge[];
+  conflicts: JudgeConflict[];
+  projects: AssignableProject[];
+  assignments: Assignment[];
+  lockedAt: string | null;
+}
+
+export type AssignmentError = "locked" | "conflict" | "failed";
+
+export interface AssignmentResult {
+  success: boolean;
+  error?: AssignmentError;
+}
+
+export const JUDGES_PER_PROJECT = 3;
+export const JUDGES_PER_PROJECT_MIN = 1;
+export const JUDGES_PER_PROJECT_MAX = 5;
+
+export const CONFLICT_REASONS: ConflictReason[] = ["company", "mentored", "other"];
+
+const JUDGE_NAME_MAX_LENGTH = 80;
+const COMPANY_MAX_LENGTH = 80;
+
+export const getConflictKey = (judgeId: string, teamId: string): string => `${judgeId}:${teamId}`;
+
+/**
+ * Lowercased domain of an email address, or null if there is none
+ */
+export const getEmailDomain = (email: string): string | null => {
+  const at = email.lastIndexOf("@");
+  const domain = at >= 0 ? email.slice(at + 1).trim().toLowerCase() : "";
+  return domain || null;
+};
+
+/**
+ * Normalize a company domain typed by an admin ("@Acme.co.ke" or "https://acme.co.ke/")
+ */
+export const normalizeCompanyDomain = (input: string): string | null => {
+  const domain = input
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/^@/, "")
+    .replace(/^www\./, "")
+    .replace(/\/.*$/, "");
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain) ? domain : null;
+};
+
+/**
+ * Teams with a member whose email is at a judge's company domain (or a subdomain of it)
+ */
+export const findCompanyConflicts = (judges: Judge[], projects: AssignableProject[]): DetectedConflict[] =>
+  judges.flatMap((judge) => {
+    const companyDomain = judge.company_domain;
+    if (!companyDomain) {
+      return [];
+    }
+
+    return projects
+      .filter((project) =>
+        project.member_emails.some((email) => {
+          const domain = getEmailDomain(email);
+          return !!domain && (domain === companyDomain || domain.endsWith(`.${companyDomain}`));
+        })
+      )
+      .map((project) => ({ judge_id: judge.user_id, team_id: project.team_id, reason: "company" as const }));
+  });
+
+/**
+ * Every judge-team pair that must not be assigned
+ */
+export const getConflictSet = (conflicts: Array<Pick<JudgeConflict, "judge_id" | "team_id">>): Set<string> =>
+  new Set(conflicts.map((conflict) => getConflictKey(conflict.judge_id, conflict.team_id)));
+
+/**
+ * Number of projects per judge
+ */
+export const getWorkloads = (assignments: Assignment[], judges: Pick<Judge, "user_id">[]): Map<string, number> => {
+  const workloads = new Map(judges.map((judge) => [judge.user_id, 0]));
+  assignments.forEach(({ judge_id }) => {
+    workloads.set(judge_id, (workloads.get(judge_id) ?? 0) + 1);
+  });
+  return workloads;
+};
+
+/**
+ * Assign judgesPerProject judges to each project
+ * Projects with the fewest eligible judges are filled first so they are not left short.
+ * Each pick goes to the judge with the lowest load, where a judge outside the project's
+ * track counts as carrying one extra project. Projects that run out of eligible judges
+ * are reported as shortfalls.
+ */
+export const planAssignments = (
+  projects: AssignableProject[],
+  judges: Judge[],
+  conflictSet: Set<string>,
+  judgesPerProject: number = JUDGES_PER_PROJECT
+): AssignmentPlan => {
+  const load = new Map(judges.map((judge) => [judge.user_id, 0]));
+  const eligibleFor = (project: AssignableProject) =>
+    judges.filter((judge) => !conflictSet.has(getConflictKey(judge.user_id, project.team_id)));
+
+  const ordered = [...projects].sort(
+    (a, b) => eligibleFor(a).length - eligibleFor(b).length || a.id.localeCompare(b.id)
+  );
+
+  const assignments: Assignment[] = [];
+  const shortfalls: AssignmentShortfall[] = [];
+
+  ordered.forEach((project) => {
+    const effectiveLoad = (judge: Judge) =>
+      (load.get(judge.user_id) ?? 0) + (judge.tracks.includes(project.track) ? 0 : 1);
+
+    const chosen = eligibleFor(project)
+      .sort((a, b) => effectiveLoad(a) - effectiveLoad(b) || a.user_id.localeCompare(b.user_id))
+      .slice(0, judgesPerProject);
+
+    chosen.forEach((judge) => {
+      load.set(judge.user_id, (load.get(judge.user_id) ?? 0) + 1);
+      assignments.push({ submission_id: project.id, judge_id: judge.user_id });
+    });
+
+    if (chosen.length < judgesPerProject) {
+      shortfalls.push({ submission_id: project.id, missing: judgesPerProject - chosen.length });
+    }
+  });
+
+  return { assignments, shortfalls };
+};
+
+/**
+ * Judges, conflicts, projects and the current assignments for the admin tab (admin only)
+ */
+export async function getAssignmentData(): Promise<AssignmentData> {
+  const [judgesResult, conflictsResult, assignmentsResult, submissions, overview] = await Promise.all([
+    callRpc<Judge[]>("get_judges", {}),
+    supabase.from("judge_conflicts").select("*").order("created_at", { ascending: true }),
+    supabase.from("judge_assignments").select("submission_id, judge_id, locked_at"),
+    getSubmissions(),
+    getTeamOverview(),
+  ]);
+
+  if (judgesResult.error) throw judgesResult.error;
+  if (conflictsResult.error) throw conflictsResult.error;
+  if (assignmentsResult.error) throw assignmentsResult.error;
+
+  const teams = new Map(overview.teams.map((team) => [team.id, team]));
+  const assignmentRows = assignmentsResult.data ?? [];
+
+  return {
+    judges: judgesResult.data ?? [],
+    conflicts: conflictsResult.data ?? [],
+    projects: submissions.map((submission) => ({
+      id: submission.id,
+      title: submission.title,
+      team_id: submission.team_id,
+      team_name: submission.team_name,
+      track: submission.track,
+      member_emails: (teams.get(submission.team_id)?.members ?? [])
+        .map((member) => member.email)
+        .filter((email): email is string => !!email),
+    })),
+    assignments: assignmentRows.map(({ submission_id, judge_id }) => ({ submission_id, judge_id })),
+    lockedAt: assignmentRows.find((row) => row.locked_at)?.locked_at ?? null,
+  };
+}
+
+/**
+ * Create or update a judge's profile (admin only)
+ */
+export async function saveJudgeProfile(userId: string, input: JudgeProfileInput): Promise<void> {
+  const { error } = await supabase.from("judge_profiles").upsert({
+    user_id: userId,
+    display_name: sanitizeInput(input.display_name, JUDGE_NAME_MAX_LENGTH),
+    company: input.company?.trim() ? sanitizeInput(input.company, COMPANY_MAX_LENGTH) : null,
+    company_domain: input.company_domain ? normalizeCompanyDomain(input.company_domain) : null,
+    tracks: input.tracks,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Record a conflict a judge declared (admin only)
+ */
+export async function addConflict(judgeId: string, teamId: string, reason: ConflictReason): Promise<void> {
+  const { error } = await supabase.from("judge_conflicts").insert({ judge_id: judgeId, team_id: teamId, reason });
+
+  if (error) throw error;
+}
+
+export async function removeConflict(id: string): Promise<void> {
+  const { error } = await supabase.from("judge_conflicts").delete().eq("id", id);
+
+  if (error) throw error;
+}
+
+/**
+ * Replace the draft assignments (admin only)
+ * The database rejects the draft once assignments are locked or if it pairs a judge
+ * with a team they declared a conflict with.
+ */
+export async function saveAssignments(assignments: Assignment[]): Promise<AssignmentResult> {
+  const { data, error } = await callRpc<{ error?: AssignmentError }>("save_judge_assignments", {
+    p_assignments: assignments,
+  });
+
+  if (error) {
+    logger.error("Failed to save judge assignments", error);
+    return { success: false, error: "failed" };
+  }
+  if (data?.error) {
+    return { success: false, error: data.error };
+  }
+  return { success: true };
+}
+
+/**
+ * Lock the saved assignments so judges can start scoring (admin only)
+ */
+export async function lockAssignments(): Promise<AssignmentResult> {
+  const { data, error } = await callRpc<{ error?: AssignmentError }>("lock_judge_assignments", {});
+
+  if (error) {
+    logger.error("Failed to lock judge assignments", error);
+    return { success: false, error: "failed" };
+  }
+  if (data?.error) {
+    return { success: false, error: data.error };
+  }
+  return { success: true };
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildLeaderboard,
+  getWeightedScore,
+  isScorecardComplete,
+  normalizeByJudge,
+  saveScorecard,
+  validateCriterion,
+  type JudgingCriterion,
+} from './judging';
+import { callRpc } from './supabaseRpc';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+vi.mock('./supabaseRpc', () => ({
+  callRpc: vi.fn(),
+}));
+
+vi.mock('./logger', () => ({
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+const criterion = (id: string, weight: number, max_score = 10): JudgingCriterion => ({
+  id,
+  name: id,
+  description: null,
+  weight,
+  max_score,
+  sort_order: 0,
+  created_at: '2026-02-01T10:00:00Z',
+});
+
+const criteria = [criterion('impact', 3), criterion('execution', 1, 5)];
+
+const card = (judge_id: string, submission_id: string, impact: number, execution: number) => ({
+  judge_id,
+  submission_id,
+  scores: { impact, execution },
+});
+
+const projects = ['a', 'b', 'c'].map((id) => ({
+  id,
+  title: id.toUpperCase(),
+  team_name: `Team ${id}`,
+  track: id === 'c' ? 'healthtech' : 'fintech',
+}));
+
+describe('judging', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('isScorecardComplete', () => {
+    it('should require a whole-number score in range for every criterion', () => {
+      expect(isScorecardComplete({ impact: 7, execution: 3 }, criteria)).toBe(true);
+      expect(isScorecardComplete({ impact: 7 }, criteria)).toBe(false);
+      expect(isScorecardComplete({ impact: 7, execution: 6 }, criteria)).toBe(false);
+      expect(isScorecardComplete({ impact: 7.5, execution: 3 }, criteria)).toBe(false);
+      expect(isScorecardComplete({}, [])).toBe(false);
+    });
+  });
+
+  describe('getWeightedScore', () => {
+    it('should weight each criterion relative to its maximum', () => {
+      // (3 * 10/10 + 1 * 0/5) / 4 = 75%
+      expect(getWeightedScore({ impact: 10, execution: 0 }, criteria)).toBe(75);
+      expect(getWeightedScore({ impact: 5, execution: 5 }, criteria)).toBe(62.5);
+    });
+  });
+
+  describe('normalizeByJudge', () => {
+    it('should cancel out a harsh judge', () => {
+      const normalized = normalizeByJudge([
+        { judge_id: 'kind', score: 90 },
+        { judge_id: 'kind', score: 70 },
+        { judge_id: 'harsh', score: 40 },
+        { judge_id: 'harsh', score: 20 },
+      ]);
+
+      expect(normalized.map((entry) => entry.z)).toEqual([1, -1, 1, -1]);
+    });
+
+    it('should give judges who cannot tell projects apart a neutral score', () => {
+      const normalized = normalizeByJudge([
+        { judge_id: 'single', score: 80 },
+        { judge_id: 'flat', score: 60 },
+        { judge_id: 'flat', score: 60 },
+      ]);
+
+      expect(normalized.map((entry) => entry.z)).toEqual([0, 0, 0]);
+    });
+  });
+
+  describe('buildLeaderboard', () => {
+    it('should rank by normalized score overall and per track', () => {
+      const leaderboard = buildLeaderboard(
+        projects,
+        [
+          // The harsh judge prefers c, the generous judge prefers a; both rank b last
+          card('harsh', 'a', 4, 2),
+          card('harsh', 'b', 2, 1),
+          card('harsh', 'c', 6, 3),
+          card('kind', 'a', 10, 5),
+          card('kind', 'b', 6, 3),
+          card('kind', 'c', 9, 4),
+        ],
+        criteria
+      );
+
+      expect(leaderboard.map((entry) => [entry.id, entry.overall_rank, entry.track_rank])).toEqual([
+        ['c', 1, 1],
+        ['a', 2, 1],
+        ['b', 3, 2],
+      ]);
+      expect(leaderboard[0].judge_count).toBe(2);
+    });
+
+    it('should leave out incomplete scorecards and unscored projects', () => {
+      const leaderboard = buildLeaderboard(
+        projects,
+        [card('j1', 'a', 8, 4), card('j1', 'b', 6, 3), { judge_id: 'j1', submission_id: 'c', scores: { impact: 9 } }],
+        criteria
+      );
+
+      expect(leaderboard.map((entry) => entry.id)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('validateCriterion', () => {
+    it('should check the name, weight and maximum score', () => {
+      const valid = { name: 'Impact', description: '', weight: 3, max_score: 10 };
+
+      expect(validateCriterion(valid)).toBeUndefined();
+      expect(validateCriterion({ ...valid, name: '  ' })).toBe('adminJudging.errors.nameRequired');
+      expect(validateCriterion({ ...valid, weight: 0 })).toBe('adminJudging.errors.weightRange');
+      expect(validateCriterion({ ...valid, max_score: 11 })).toBe('adminJudging.errors.maxScoreRange');
+    });
+  });
+
+  describe('saveScorecard', () => {
+    it('should send an empty comment as null', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: { scorecard: { submission_id: 'a' } }, error: null });
+
+      const result = await saveScorecard('a', { impact: 8, execution: 4 }, '  ');
+
+      expect(callRpc).toHaveBeenCalledWith('save_scorecard', {
+        p_submission_id: 'a',
+        p_scores: { impact: 8, execution: 4 },
+        p_comment: null,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should pass on the published error from the database', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: { error: 'published' }, error: null });
+
+      expect(await saveScorecard('a', { impact: 8, execution: 4 }, '')).toEqual({ success: false, error: 'published' });
+    });
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * Judging
+ * Judges (the judge role in user_roles) score the projects assigned to them in
+ * judge_assignments against the weighted rubric in judging_criteria; get_my_judging
+ * only returns assignments once admins have locked them (see judgeAssignments.ts).
+ * Each scorecard becomes a 0-100 weighted score, and because some judges mark
+ * harder than others every judge's scores are turned into z-scores against that
+ * judge's own mean and spread before they are averaged per project. Raw scorecards
+ * are admin-only, so the leaderboard is built here in the admin dashboard. Publishing
+ * stores the ranks in judging_results, which the public gallery reads, and from then
+ * on save_scorecard rejects changes until the results are unpublished.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { logger } from "./logger";
+import { sanitizeInput } from "./security";
+import { getSubmissions } from "./submissions";
+import { callRpc } from "./supabaseRpc";
+
+export type JudgingCriterion = Database["public"]["Tables"]["judging_criteria"]["Row"];
+
+export interface CriterionInput {
+  name: string;
+  description: string;
+  weight: number;
+  max_score: number;
+}
+
+/** Score per criterion id */
+export type CriterionScores = Record<string, number>;
+
+export interface Scorecard {
+  judge_id: string;
+  submission_id: string;
+  scores: CriterionScores;
+  comment: string | null;
+  updated_at: string;
+}
+
+export interface AssignedProject {
+  id: string;
+  title: string;
+  description: string;
+  track: string;
+  repository_url: string;
+  demo_video_url: string;
+  team_name: string;
+  scorecard: Scorecard | null;
+}
+
+export interface MyJudging {
+  criteria: JudgingCriterion[];
+  projects: AssignedProject[];
+  /** Scores are frozen once results are published */
+  published: boolean;
+}
+
+export type ScorecardError = "notAssigned" | "published" | "invalid" | "failed";
+
+export interface ScorecardResult {
+  success: boolean;
+  error?: ScorecardError;
+  scorecard?: Scorecard;
+}
+
+export interface JudgedProject {
+  id: string;
+  title: string;
+  team_name: string;
+  track: string;
+}
+
+export interface LeaderboardEntry extends JudgedProject {
+  /** Mean of the judges' z-scores */
+  score: number;
+  /** Mean weighted score out of 100, before normalization */
+  raw_score: number;
+  judge_count: number;
+  overall_rank: number;
+  track_rank: number;
+}
+
+export interface JudgingOverview {
+  criteria: JudgingCriterion[];
+  leaderboard: LeaderboardEntry[];
+  projectCount: number;
+  assignmentCount: number;
+  scorecardCount: number;
+  publishedAt: string | null;
+}
+
+export const JUDGE_PATH = "/judge";
+
+export const CRITERION_NAME_MAX_LENGTH = 60;
+export const CRITERION_DESCRIPTION_MAX_LENGTH = 240;
+export const CRITERION_WEIGHT_MIN = 1;
+export const CRITERION_WEIGHT_MAX = 10;
+export const CRITERION_MAX_SCORE_MIN = 2;
+export const CRITERION_MAX_SCORE_MAX = 10;
+export const SCORECARD_COMMENT_MAX_LENGTH = 1000;
+
+/**
+ * Whether every criterion has a whole-number score between 1 and its maximum
+ */
+export const isScorecardComplete = (scores: CriterionScores, criteria: JudgingCriterion[]): boolean =>
+  criteria.length > 0 &&
+  criteria.every((criterion) => {
+    const score = scores[criterion.id];
+    return Number.isInteger(score) && score >= 1 && score <= criterion.max_score;
+  });
+
+/**
+ * A scorecard as a weighted score out of 100
+ */
+export const getWeightedScore = (scores: CriterionScores, criteria: JudgingCriterion[]): number => {
+  const totalWeight = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  if (totalWeight === 0) {
+    return 0;
+  }
+
+  const weighted = criteria.reduce(
+    (sum, criterion) => sum + criterion.weight * ((scores[criterion.id] ?? 0) / criterion.max_score),
+    0
+  );
+  return (weighted / totalWeight) * 100;
+};
+
+/**
+ * Convert each judge's scores to z-scores against that judge's own mean and spread
+ * A judge with a single scorecard, or who gave every project the same score, cannot
+ * tell projects apart, so their scores become 0 and do not move the ranking.
+ */
+export const normalizeByJudge = <T extends { judge_id: string; score: number }>(
+  entries: T[]
+): Array<T & { z: number }> => {
+  const byJudge = new Map<string, number[]>();
+  entries.forEach(({ judge_id, score }) => {
+    byJudge.set(judge_id, [...(byJudge.get(judge_id) ?? []), score]);
+  });
+
+  const stats = new Map<string, { mean: number; sd: number }>();
+  byJudge.forEach((scores, judgeId) => {
+    const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    const variance = scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / scores.length;
+    stats.set(judgeId, { mean, sd: Math.sqrt(variance) });
+  });
+
+  return entries.map((entry) => {
+    const { mean, sd } = stats.get(entry.judge_id) ?? { mean: entry.score, sd: 0 };
+    return { ...entry, z: sd > 0 ? (entry.score - mean) / sd : 0 };
+  });
+};
+
+/**
+ * Rank projects by their mean normalized score, overall and within each track
+ * Only complete scorecards count; projects without one are left off. Ties are
+ * broken by the raw score, then by title.
+ */
+export const buildLeaderboard = (
+  projects: JudgedProject[],
+  scorecards: Pick<Scorecard, "judge_id" | "submission_id" | "scores">[],
+  criteria: JudgingCriterion[]
+): LeaderboardEntry[] => {
+  const projectIds = new Set(projects.map((project) => project.id));
+  const normalized = normalizeByJudge(
+    scorecards
+      .filter((card) => projectIds.has(card.submission_id) && isScorecardComplete(card.scores, criteria))
+      .map((card) => ({
+        judge_id: card.judge_id,
+        submission_id: card.submission_id,
+        score: getWeightedScore(card.scores, criteria),
+      }))
+  );
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  const ranked = projects
+    .map((project) => {
+      const cards = normalized.filter((card) => card.submission_id === project.id);
+      if (cards.length === 0) {
+        return null;
+      }
+      return {
+        ...project,
+        score: mean(cards.map((card) => card.z)),
+        raw_score: mean(cards.map((card) => card.score)),
+        judge_count: cards.length,
+      };
+    })
+    .filter((entry): entry is NonNullable<typeof entry> => entry !== null)
+    .sort((a, b) => b.score - a.score || b.raw_score - a.raw_score || a.title.localeCompare(b.title));
+
+  const trackCounts = new Map<string, number>();
+  return ranked.map((entry, index) => {
+    const trackRank = (trackCounts.get(entry.track) ?? 0) + 1;
+    trackCounts.set(entry.track, trackRank);
+    return { ...entry, overall_rank: index + 1, track_rank: trackRank };
+  });
+};
+
+/**
+ * Validate a rubric criterion, returning a translation key for the first problem
+ */
+export const validateCriterion = (input: CriterionInput): string | undefined => {
+  const name = input.name.trim();
+  if (!name || name.length > CRITERION_NAME_MAX_LENGTH) {
+    return "adminJudging.errors.nameRequired";
+  }
+  if (input.description.trim().length > CRITERION_DESCRIPTION_MAX_LENGTH) {
+    return "adminJudging.errors.descriptionTooLong";
+  }
+  if (!Number.isInteger(input.weight) || input.weight < CRITERION_WEIGHT_MIN || input.weight > CRITERION_WEIGHT_MAX) {
+    return "adminJudging.errors.weightRange";
+  }
+  if (
+    !Number.isInteger(input.max_score) ||
+    input.max_score < CRITERION_MAX_SCORE_MIN ||
+    input.max_score > CRITERION_MAX_SCORE_MAX
+  ) {
+    return "adminJudging.errors.maxScoreRange";
+  }
+  return undefined;
+};
+
+/**
+ * The signed-in judge's rubric and assigned projects with their scorecards
+ */
+export async function getMyJudging(): Promise<MyJudging> {
+  const { data, error } = await callRpc<MyJudging>("get_my_judging", {});
+
+  if (error) {
+    logger.error("Failed to load judging assignments", error);
+    throw error;
+  }
+
+  return {
+    criteria: data?.criteria ?? [],
+    projects: data?.projects ?? [],
+    published: data?.published ?? false,
+  };
+}
+
+/**
+ * Save the judge's scorecard for an assigned project
+ */
+export async function saveScorecard(
+  submissionId: string,
+  scores: CriterionScores,
+  comment: string
+): Promise<ScorecardResult> {
+  const trimmed = comment.trim();
+  const { data, error } = await callRpc<{ scorecard?: Scorecard; error?: ScorecardError }>("save_scorecard", {
+    p_submission_id: submissionId,
+    p_scores: scores,
+    p_comment: trimmed ? sanitizeInput(trimmed, SCORECARD_COMMENT_MAX_LENGTH) : null,
+  });
+
+  if (error || !data) {
+    logger.error("Failed to save scorecard", error ?? new Error("No scorecard returned"), { submissionId });
+    return { success: false, error: "failed" };
+  }
+  if (data.error || !data.scorecard) {
+    return { success: false, error: data.error ?? "failed" };
+  }
+
+  return { success: true, scorecard: data.scorecard };
+}
+
+/**
+ * Rubric, progress and leaderboard for the admin Judging tab (admin only)
+ */
+export async function getJudgingOverview(): Promise<JudgingOverview> {
+  const [criteriaResult, scorecardsResult, assignmentsResult, resultsResult, submissions] = await Promise.all([
+    supabase.from("judging_criteria").select("*").order("sort_order", { ascending: true }),
+    supabase.from("judge_scorecards").select("judge_id, submission_id, scores"),
+    supabase.from("judge_assignments").select("id", { count: "exact", head: true }),
+    supabase.from("judging_results").select("published_at").limit(1),
+    getSubmissions(),
+  ]);
+
+  if (criteriaResult.error) throw criteriaResult.error;
+  if (scorecardsResult.error) throw scorecardsResult.error;
+  if (assignmentsResult.error) throw assignmentsResult.error;
+  if (resultsResult.error) throw resultsResult.error;
+
+  const criteria = criteriaResult.data ?? [];
+  const scorecards = (scorecardsResult.data ?? []).map((card) => ({
+    ...card,
+    scores: (card.scores ?? {}) as CriterionScores,
+  }));
+  const projects = submissions.map(({ id, title, team_name, track }) => ({ id, title, team_name, track }));
+
+  return {
+    criteria,
+    leaderboard: buildLeaderboard(projects, scorecards, criteria),
+    projectCount: projects.length,
+    assignmentCount: assignmentsResult.count ?? 0,
+    scorecardCount: scorecards.filter((card) => isScorecardComplete(card.scores, criteria)).length,
+    publishedAt: resultsResult.data?.[0]?.published_at ?? null,
+  };
+}
+
+/**
+ * Add a rubric criterion, or update one when an id is given (admin only)
+ */
+export async function saveCriterion(input: CriterionInput, id?: string, sortOrder?: number): Promise<void> {
+  const values = {
+    name: sanitizeInput(input.name, CRITERION_NAME_MAX_LENGTH),
+    description: input.description.trim() ? sanitizeInput(input.description, CRITERION_DESCRIPTION_MAX_LENGTH) : null,
+    weight: input.weight,
+    max_score: input.max_score,
+  };
+
+  const { error } = id
+    ? await supabase.from("judging_criteria").update(values).eq("id", id)
+    : await supabase.from("judging_criteria").insert({ ...values, sort_order: sortOrder ?? 0 });
+
+  if (error) throw error;
+}
+
+/**
+ * Remove a rubric criterion (admin only)
+ * Scorecards missing a criterion no longer count, so this only makes sense before judging starts
+ */
+export async function deleteCriterion(id: string): Promise<void> {
+  const { error } = await supabase.from("judging_criteria").delete().eq("id", id);
+
+  if (error) throw error;
+}
+
+/**
+ * Publish the leaderboard to the gallery and freeze scoring (admin only)
+ */
+export async function publishResults(leaderboard: LeaderboardEntry[]): Promise<boolean> {
+  const results = leaderboard.map(({ id, overall_rank, track_rank, score }) => ({
+    submission_id: id,
+    overall_rank,
+    track_rank,
+    score,
+  }));
+  const { error } = await callRpc("publish_judging_results", { p_results: results });
+
+  if (error) {
+    logger.error("Failed to publish judging results", error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Take the results down again so scores can be corrected (admin only)
+ */
+export async function unpublishResults(): Promise<boolean> {
+  const { error } = await callRpc("unpublish_judging_results", {});
+
+  if (error) {
+    logger.error("Failed to unpublish judging results", error);
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { buildLogisticsReport, getLogisticsRegistrations, type LogisticsRegistration } from './logistics';
+import type { CustomQuestion } from './customQuestions';
+import { supabase } from '@/integrations/supabase/client';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+const questions: CustomQuestion[] = [
+  {
+    id: 'dietary',
+    type: 'multiselect',
+    labelKey: 'q.dietary',
+    options: [
+      { value: 'vegan', labelKey: 'q.dietary.vegan' },
+      { value: 'halal', labelKey: 'q.dietary.halal' },
+    ],
+  },
+  { id: 'dietaryNotes', type: 'textarea', labelKey: 'q.dietaryNotes' },
+  {
+    id: 'accessibility',
+    type: 'multiselect',
+    labelKey: 'q.accessibility',
+    adminOnly: true,
+    options: [{ value: 'stepFree', labelKey: 'q.accessibility.stepFree' }],
+  },
+  {
+    id: 'tshirtSize',
+    type: 'select',
+    labelKey: 'q.tshirtSize',
+    options: [
+      { value: 's', labelKey: 'q.tshirtSize.s' },
+      { value: 'm', labelKey: 'q.tshirtSize.m' },
+    ],
+  },
+];
+
+const categories = [
+  { id: 'dietary', questionId: 'dietary', notesQuestionId: 'dietaryNotes' },
+  { id: 'accessibility', questionId: 'accessibility' },
+  { id: 'tshirt', questionId: 'tshirtSize' },
+];
+
+const registration = (id: string, fullName: string, answers: LogisticsRegistration['custom_answers']): LogisticsRegistration => ({
+  id,
+  full_name: fullName,
+  email: `${id}@example.com`,
+  custom_answers: answers,
+});
+
+const registrations = [
+  registration('1', 'Wanjiru', { dietary: ['vegan', 'halal'], tshirtSize: 'm', accessibility: ['stepFree'] }),
+  registration('2', 'Amani', { dietaryNotes: 'No peanuts', tshirtSize: 'm' }),
+  registration('3', 'Baraka', { dietary: ['halal', 'unknown'], tshirtSize: 's' }),
+  registration('4', 'Chege', null),
+];
+
+describe('buildLogisticsReport', () => {
+  it('counts answers per option in configured order', () => {
+    const report = buildLogisticsReport(registrations, categories, questions);
+
+    expect(report.total).toBe(4);
+    expect(report.categories.map((c) => c.category.id)).toEqual(['dietary', 'accessibility', 'tshirt']);
+    expect(report.categories[0].counts.map((c) => [c.value, c.count])).toEqual([
+      ['vegan', 1],
+      ['halal', 2],
+    ]);
+    expect(report.categories[2].counts.map((c) => [c.value, c.count])).toEqual([
+      ['s', 1],
+      ['m', 2],
+    ]);
+  });
+
+  it('lists everyone with an answer or notes, sorted by name', () => {
+    const [dietary] = buildLogisticsReport(registrations, categories, questions).categories;
+
+    expect(dietary.entries).toEqual([
+      { registrationId: '2', fullName: 'Amani', email: '2@example.com', values: [], notes: 'No peanuts' },
+      { registrationId: '3', fullName: 'Baraka', email: '3@example.com', values: ['halal'], notes: '' },
+      { registrationId: '1', fullName: 'Wanjiru', email: '1@example.com', values: ['vegan', 'halal'], notes: '' },
+    ]);
+  });
+
+  it('skips categories whose question is not configured', () => {
+    const report = buildLogisticsReport(registrations, [{ id: 'parking', questionId: 'parking' }], questions);
+
+    expect(report.categories).toEqual([]);
+  });
+});
+
+describe('getLogisticsRegistrations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('fetches confirmed registrations', async () => {
+    const range = vi.fn().mockResolvedValue({ data: registrations.slice(0, 2), error: null });
+    const order = vi.fn().mockReturnValue({ range });
+    const eq = vi.fn().mockReturnValue({ order });
+    const select = vi.fn().mockReturnValue({ eq });
+    vi.mocked(supabase.from).mockReturnValue({ select } as never);
+
+    await expect(getLogisticsRegistrations()).resolves.toEqual(registrations.slice(0, 2));
+    expect(eq).toHaveBeenCalledWith('status', 'confirmed');
+    expect(range).toHaveBeenCalledWith(0, 999);
+  });
+});
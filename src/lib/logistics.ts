@@ -0,0 +1,133 @@
+/**
+ * Logistics reports for catering, accessibility and swag planning
+ * Aggregates logistics answers from custom_answers across confirmed registrations.
+ * The report is admin only, so categories backed by admin-only questions are included.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { CustomAnswers, CustomQuestion } from "./customQuestions";
+
+export interface LogisticsCategory {
+  id: string;
+  /** Choice question whose answers are counted */
+  questionId: string;
+  /** Optional free-text question listed alongside the choices */
+  notesQuestionId?: string;
+}
+
+export interface LogisticsRegistration {
+  id: string;
+  full_name: string;
+  email: string;
+  custom_answers: CustomAnswers | null;
+}
+
+export interface LogisticsCount {
+  value: string;
+  labelKey: string;
+  count: number;
+}
+
+export interface LogisticsEntry {
+  registrationId: string;
+  fullName: string;
+  email: string;
+  values: string[];
+  notes: string;
+}
+
+export interface LogisticsCategoryReport {
+  category: LogisticsCategory;
+  question: CustomQuestion;
+  counts: LogisticsCount[];
+  entries: LogisticsEntry[];
+}
+
+export interface LogisticsReport {
+  total: number;
+  categories: LogisticsCategoryReport[];
+}
+
+const toValues = (value: CustomAnswers[string] | undefined): string[] =>
+  Array.isArray(value) ? value : value ? [value] : [];
+
+/**
+ * Count answers per option and list everyone who gave one
+ * Options keep their configured order and unanswered options count as zero
+ */
+export const buildLogisticsReport = (
+  registrations: LogisticsRegistration[],
+  categories: LogisticsCategory[],
+  questions: CustomQuestion[]
+): LogisticsReport => {
+  const reports: LogisticsCategoryReport[] = [];
+
+  for (const category of categories) {
+    const question = questions.find((q) => q.id === category.questionId);
+    const notesQuestion = questions.find((q) => q.id === category.notesQuestionId);
+    if (!question) continue;
+
+    const counts = new Map((question.options ?? []).map((o) => [o.value, 0]));
+    const entries: LogisticsEntry[] = [];
+
+    for (const registration of registrations) {
+      const answers = registration.custom_answers ?? {};
+      const values = toValues(answers[question.id]).filter((v) => counts.has(v));
+      const notes = notesQuestion && typeof answers[notesQuestion.id] === "string" ? (answers[notesQuestion.id] as string) : "";
+
+      for (const value of values) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+
+      if (values.length > 0 || notes) {
+        entries.push({
+          registrationId: registration.id,
+          fullName: registration.full_name,
+          email: registration.email,
+          values,
+          notes,
+        });
+      }
+    }
+
+    reports.push({
+      category,
+      question,
+      counts: (question.options ?? []).map((o) => ({ value: o.value, labelKey: o.labelKey, count: counts.get(o.value) ?? 0 })),
+      entries: entries.sort((a, b) => a.fullName.localeCompare(b.fullName)),
+    });
+  }
+
+  return { total: registrations.length, categories: reports };
+};
+
+/**
+ * Fetch every confirmed registration's answers for the logistics report (admin only)
+ */
+export async function getLogisticsRegistrations(): Promise<LogisticsRegistration[]> {
+  const all: LogisticsRegistration[] = [];
+  const limit = 1000;
+  let offset = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    const { data, error } = await supabase
+      .from("registrations")
+      .select("id, full_name, email, custom_answers")
+      .eq("status", "confirmed")
+      .order("created_at", { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (error) throw error;
+
+    if (data && data.length > 0) {
+      all.push(...data.map((r) => ({ ...r, custom_answers: r.custom_answers as CustomAnswers | null })));
+      offset += limit;
+      hasMore = data.length === limit;
+    } else {
+      hasMore = false;
+    }
+  }
+
+  return all;
+}
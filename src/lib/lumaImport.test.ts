@@ -0,0 +1,257 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildImportPlan,
+  commitImportPlan,
+  mapLumaRows,
+  parseCsv,
+  type ExistingRegistration,
+  type ImportPlan,
+} from './lumaImport';
+import { callRpc } from './supabaseRpc';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+vi.mock('./supabaseRpc', () => ({
+  callRpc: vi.fn(),
+}));
+
+vi.mock('./logger', () => ({
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+describe('lumaImport', () => {
+  describe('parseCsv', () => {
+    it('should parse quoted cells with commas and escaped quotes', () => {
+      const rows = parseCsv('name,email\n"Doe, Jane","jane@example.com"\n"Say ""hi""",x@example.com');
+
+      expect(rows).toEqual([
+        ['name', 'email'],
+        ['Doe, Jane', 'jane@example.com'],
+        ['Say "hi"', 'x@example.com'],
+      ]);
+    });
+
+    it('should handle CRLF line endings, a BOM and blank lines', () => {
+      const rows = parseCsv('\uFEFFname,email\r\n\r\nJane,jane@example.com\r\n');
+
+      expect(rows).toEqual([
+        ['name', 'email'],
+        ['Jane', 'jane@example.com'],
+      ]);
+    });
+  });
+
+  describe('mapLumaRows', () => {
+    it('should map Luma columns onto registration fields', () => {
+      const { rows, invalid } = mapLumaRows([
+        ['first_name', 'last_name', 'Email', 'created_at', 'What is your LinkedIn profile?'],
+        ['Jane', 'Doe', ' Jane@Example.com ', '2025-01-10T08:00:00Z', 'linkedin.com/in/janedoe'],
+      ]);
+
+      expect(invalid).toEqual([]);
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toMatchObject({
+        line: 2,
+        fullName: 'Jane Doe',
+        email: 'jane@example.com',
+        createdAt: '2025-01-10T08:00:00.000Z',
+      });
+      expect(rows[0].linkedinUrl).toContain('linkedin.com/in/janedoe');
+    });
+
+    it('should report invalid rows with their line numbers', () => {
+      const { rows, invalid } = mapLumaRows([
+        ['name', 'email'],
+        ['No Email', ''],
+        ['Bad Email', 'not-an-email'],
+        ['', 'anon@example.com'],
+      ]);
+
+      expect(rows).toEqual([]);
+      expect(invalid).toEqual([
+        { line: 2, reason: 'missingEmail' },
+        { line: 3, reason: 'invalidEmail' },
+        { line: 4, reason: 'missingName' },
+      ]);
+    });
+
+    it('should map approval statuses and skip guests who were not approved', () => {
+      const { rows, invalid } = mapLumaRows([
+        ['name', 'email', 'approval_status'],
+        ['Approved', 'a@example.com', 'approved'],
+        ['Waitlisted', 'w@example.com', 'waitlist'],
+        ['Pending', 'p@example.com', 'pending_approval'],
+        ['Declined', 'd@example.com', 'declined'],
+        ['Invited', 'i@example.com', 'invited'],
+      ]);
+
+      expect(rows.map((r) => [r.email, r.status])).toEqual([
+        ['a@example.com', 'confirmed'],
+        ['w@example.com', 'waitlisted'],
+        ['p@example.com', 'waitlisted'],
+      ]);
+      expect(invalid).toEqual([
+        { line: 5, reason: 'notApproved' },
+        { line: 6, reason: 'notApproved' },
+      ]);
+    });
+
+    it('should normalize phone numbers to E.164 and report ones that cannot be parsed', () => {
+      const { rows, invalid } = mapLumaRows([
+        ['name', 'email', 'phone_number'],
+        ['Jane', 'jane@example.com', '+254 712 345 678'],
+        ['Wanjiru', 'wanjiru@example.com', '0712-345-679'],
+        ['Otieno', 'otieno@example.com', '254712345680'],
+        ['Amina', 'amina@example.com', ''],
+        ['John', 'john@example.com', 'n/a'],
+      ]);
+
+      expect(rows.map((r) => r.whatsappNumber)).toEqual(['+254712345678', '+254712345679', '+254712345680', null]);
+      expect(rows[0].status).toBe('confirmed');
+      expect(invalid).toEqual([{ line: 6, reason: 'invalidPhone' }]);
+    });
+  });
+
+  describe('buildImportPlan', () => {
+    const row = (line: number, email: string, fullName: string, linkedinUrl: string | null = null) => ({
+      line,
+      email,
+      fullName,
+      linkedinUrl,
+      whatsappNumber: null,
+      status: 'confirmed' as const,
+      createdAt: null,
+    });
+
+    const existing: ExistingRegistration[] = [
+      { id: 'reg-1', full_name: 'Jane Doe', email: 'Jane@Example.com', linkedin_url: null, whatsapp_number: null },
+      {
+        id: 'reg-2',
+        full_name: 'John Smith',
+        email: 'john@example.com',
+        linkedin_url: 'https://linkedin.com/in/john',
+        whatsapp_number: '+254712345678',
+      },
+    ];
+
+    it('should classify new, updated and unchanged rows', () => {
+      const plan = buildImportPlan(
+        [
+          row(2, 'new@example.com', 'New Person'),
+          row(3, 'jane@example.com', 'jane  doe', 'https://linkedin.com/in/jane'),
+          row(4, 'john@example.com', 'John Smith', 'https://LinkedIn.com/in/john'),
+        ],
+        existing
+      );
+
+      expect(plan.new.map((r) => r.email)).toEqual(['new@example.com']);
+      expect(plan.updated).toHaveLength(1);
+      expect(plan.updated[0].existing.id).toBe('reg-1');
+      expect(plan.updated[0].changes).toEqual({ linkedin_url: 'https://linkedin.com/in/jane' });
+      expect(plan.unchanged.map((r) => r.email)).toEqual(['john@example.com']);
+      expect(plan.conflicting).toEqual([]);
+    });
+
+    it('should report differing values as conflicts instead of overwriting', () => {
+      const plan = buildImportPlan(
+        [row(2, 'john@example.com', 'Johnny Smith', 'https://linkedin.com/in/johnny')],
+        existing
+      );
+
+      expect(plan.updated).toEqual([]);
+      expect(plan.conflicting).toHaveLength(1);
+      expect(plan.conflicting[0].reason).toBe('fieldMismatch');
+      expect(plan.conflicting[0].fields).toEqual(['full_name', 'linkedin_url']);
+    });
+
+    it('should flag repeated emails within the file', () => {
+      const plan = buildImportPlan(
+        [row(2, 'new@example.com', 'New Person'), row(3, 'new@example.com', 'New Person')],
+        existing
+      );
+
+      expect(plan.new).toHaveLength(1);
+      expect(plan.conflicting).toHaveLength(1);
+      expect(plan.conflicting[0]).toMatchObject({ reason: 'duplicateInFile', existing: null });
+    });
+
+    it('should pass invalid rows through', () => {
+      const invalid = [{ line: 5, reason: 'missingEmail' as const }];
+      const plan = buildImportPlan([], existing, invalid);
+
+      expect(plan.invalid).toBe(invalid);
+    });
+
+    it('should fill in missing phone numbers and flag differing ones', () => {
+      const plan = buildImportPlan(
+        [
+          { ...row(2, 'jane@example.com', 'Jane Doe'), whatsappNumber: '+254700000001' },
+          { ...row(3, 'john@example.com', 'John Smith'), whatsappNumber: '+254700000002' },
+        ],
+        existing
+      );
+
+      expect(plan.updated[0].changes).toEqual({ whatsapp_number: '+254700000001' });
+      expect(plan.conflicting[0].fields).toEqual(['whatsapp_number']);
+    });
+  });
+
+  describe('commitImportPlan', () => {
+    it('should import rows one at a time through the database and report each failure', async () => {
+      vi.mocked(callRpc)
+        .mockResolvedValueOnce({ data: { id: 'a', status: 'waitlisted' }, error: null })
+        .mockResolvedValueOnce({ data: null, error: new Error('duplicate key value') })
+        .mockResolvedValueOnce({ data: { id: 'c', status: 'confirmed' }, error: null });
+
+      const newRow = (line: number, email: string, status: 'confirmed' | 'waitlisted') => ({
+        line,
+        email,
+        fullName: 'Guest',
+        linkedinUrl: null,
+        whatsappNumber: null,
+        status,
+        createdAt: null,
+      });
+      const plan: ImportPlan = {
+        new: [
+          newRow(2, 'a@example.com', 'waitlisted'),
+          newRow(3, 'b@example.com', 'confirmed'),
+          newRow(4, 'c@example.com', 'confirmed'),
+        ],
+        updated: [],
+        conflicting: [],
+        unchanged: [],
+        invalid: [],
+      };
+
+      const result = await commitImportPlan(plan);
+
+      expect(callRpc).toHaveBeenCalledTimes(3);
+      expect(callRpc).toHaveBeenCalledWith('import_registration', {
+        p_full_name: 'Guest',
+        p_email: 'a@example.com',
+        p_linkedin_url: null,
+        p_whatsapp_number: null,
+        p_waitlisted: true,
+        p_created_at: null,
+      });
+      expect(callRpc).toHaveBeenCalledWith(
+        'import_registration',
+        expect.objectContaining({ p_email: 'c@example.com', p_waitlisted: false })
+      );
+      expect(result).toEqual({
+        inserted: 2,
+        waitlisted: 1,
+        updated: 0,
+        failed: 1,
+        failures: [{ line: 3, email: 'b@example.com', message: 'duplicate key value' }],
+      });
+    });
+  });
+});
@@ -0,0 +1,401 @@
+/**
+ * Luma attendee import utilities
+ * Parses a Luma CSV export, maps it onto registrations fields and reconciles it
+ * against existing rows by normalized email before anything is written.
+ * Approved guests are imported like sign-ups, confirmed while spots remain and
+ * waitlisted after that; waitlisted and pending guests always join the waitlist, and
+ * declined or merely invited guests are skipped.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { DEFAULT_COUNTRY_CODE } from "./constants";
+import { logger } from "./logger";
+import {
+  isValidEmail,
+  isValidWhatsAppNumber,
+  normalizeWhatsAppNumber,
+  sanitizeInput,
+  validateAndNormalizeLinkedIn,
+} from "./security";
+import { callRpc } from "./supabaseRpc";
+
+type RegistrationStatus = Database["public"]["Enums"]["registration_status"];
+
+export interface LumaImportRow {
+  line: number;
+  fullName: string;
+  email: string;
+  linkedinUrl: string | null;
+  whatsappNumber: string | null;
+  status: RegistrationStatus;
+  createdAt: string | null;
+}
+
+export interface ExistingRegistration {
+  id: string;
+  full_name: string;
+  email: string;
+  linkedin_url: string | null;
+  whatsapp_number: string | null;
+}
+
+export type ImportField = "full_name" | "linkedin_url" | "whatsapp_number";
+
+export interface ImportUpdate {
+  row: LumaImportRow;
+  existing: ExistingRegistration;
+  changes: Partial<Record<ImportField, string>>;
+}
+
+export interface ImportConflict {
+  row: LumaImportRow;
+  existing: ExistingRegistration | null;
+  fields: ImportField[];
+  reason: "fieldMismatch" | "duplicateInFile";
+}
+
+export interface ImportInvalidRow {
+  line: number;
+  reason: "missingEmail" | "invalidEmail" | "missingName" | "notApproved" | "invalidPhone";
+}
+
+export interface ImportPlan {
+  new: LumaImportRow[];
+  updated: ImportUpdate[];
+  conflicting: ImportConflict[];
+  unchanged: LumaImportRow[];
+  invalid: ImportInvalidRow[];
+}
+
+export interface ImportFailure {
+  line: number;
+  email: string;
+  message: string;
+}
+
+export interface ImportCommitResult {
+  inserted: number;
+  /** Inserted rows the database put on the waitlist */
+  waitlisted: number;
+  updated: number;
+  failed: number;
+  /** One entry per row that could not be written */
+  failures: ImportFailure[];
+}
+
+// Header aliases seen across Luma export versions
+const COLUMN_ALIASES = {
+  name: ["name", "full_name", "full name"],
+  firstName: ["first_name", "first name"],
+  lastName: ["last_name", "last name"],
+  email: ["email", "email address", "email_address"],
+  createdAt: ["created_at", "registered_at", "registration date", "created at"],
+  phone: ["phone_number", "phone number", "phone"],
+  approvalStatus: ["approval_status", "approval status"],
+};
+
+// Luma approval statuses that become registrations; anything else is skipped
+const APPROVAL_STATUSES: Record<string, RegistrationStatus> = {
+  approved: "confirmed",
+  waitlist: "waitlisted",
+  pending_approval: "waitlisted",
+};
+
+/**
+ * Parse CSV text into rows of cells
+ * Handles quoted cells, escaped quotes, embedded newlines, CRLF and a UTF-8 BOM
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((c) => c.trim()));
+};
+
+/**
+ * Normalize an email for matching (trimmed, lowercase)
+ */
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+const normalizeName = (name: string): string => name.trim().replace(/\s+/g, " ").toLowerCase();
+
+const findColumn = (headers: string[], aliases: string[]): number =>
+  headers.findIndex((h) => aliases.includes(h));
+
+/**
+ * Map a parsed Luma export onto registration fields
+ * Custom registration questions mentioning LinkedIn are picked up as the LinkedIn column.
+ * Phone numbers are stored in E.164 form like registrations, with local numbers
+ * starting with 0 read as Kenyan; rows whose phone cannot be parsed are reported.
+ */
+export const mapLumaRows = (
+  rows: string[][]
+): { rows: LumaImportRow[]; invalid: ImportInvalidRow[] } => {
+  if (rows.length === 0) {
+    return { rows: [], invalid: [] };
+  }
+
+  const headers = rows[0].map((h) => h.trim().toLowerCase());
+  const columns = {
+    name: findColumn(headers, COLUMN_ALIASES.name),
+    firstName: findColumn(headers, COLUMN_ALIASES.firstName),
+    lastName: findColumn(headers, COLUMN_ALIASES.lastName),
+    email: findColumn(headers, COLUMN_ALIASES.email),
+    createdAt: findColumn(headers, COLUMN_ALIASES.createdAt),
+    phone: findColumn(headers, COLUMN_ALIASES.phone),
+    approvalStatus: findColumn(headers, COLUMN_ALIASES.approvalStatus),
+    linkedIn: headers.findIndex((h) => h.includes("linkedin")),
+  };
+
+  const cellAt = (cells: string[], index: number): string =>
+    index >= 0 ? (cells[index] ?? "").trim() : "";
+
+  const mapped: LumaImportRow[] = [];
+  const invalid: ImportInvalidRow[] = [];
+
+  rows.slice(1).forEach((cells, index) => {
+    // Line numbers are 1-based and include the header row
+    const line = index + 2;
+    const email = normalizeEmail(cellAt(cells, columns.email));
+    const fullName =
+      cellAt(cells, columns.name) ||
+      [cellAt(cells, columns.firstName), cellAt(cells, columns.lastName)].filter(Boolean).join(" ");
+
+    if (!email) {
+      invalid.push({ line, reason: "missingEmail" });
+      return;
+    }
+    if (!isValidEmail(email)) {
+      invalid.push({ line, reason: "invalidEmail" });
+      return;
+    }
+    if (!fullName) {
+      invalid.push({ line, reason: "missingName" });
+      return;
+    }
+
+    // Exports without an approval column predate approvals and only list attendees
+    const approval = cellAt(cells, columns.approvalStatus).toLowerCase();
+    const status = columns.approvalStatus >= 0 ? APPROVAL_STATUSES[approval] : "confirmed";
+    if (!status) {
+      invalid.push({ line, reason: "notApproved" });
+      return;
+    }
+
+    const phone = cellAt(cells, columns.phone);
+    const whatsappNumber = phone ? normalizeWhatsAppNumber(phone, DEFAULT_COUNTRY_CODE) : null;
+    if (phone && !(whatsappNumber && isValidWhatsAppNumber(whatsappNumber))) {
+      invalid.push({ line, reason: "invalidPhone" });
+      return;
+    }
+
+    const linkedIn = cellAt(cells, columns.linkedIn);
+    const createdAt = cellAt(cells, columns.createdAt);
+    const parsedDate = createdAt ? new Date(createdAt) : null;
+
+    mapped.push({
+      line,
+      fullName: sanitizeInput(fullName, 100),
+      email,
+      linkedinUrl: linkedIn ? validateAndNormalizeLinkedIn(linkedIn) : null,
+      whatsappNumber,
+      status,
+      createdAt: parsedDate && !isNaN(parsedDate.getTime()) ? parsedDate.toISOString() : null,
+    });
+  });
+
+  return { rows: mapped, invalid };
+};
+
+/**
+ * Reconcile imported rows against existing registrations
+ * Empty existing fields are filled in; differing non-empty fields are reported as conflicts
+ */
+export const buildImportPlan = (
+  rows: LumaImportRow[],
+  existing: ExistingRegistration[],
+  invalid: ImportInvalidRow[] = []
+): ImportPlan => {
+  const plan: ImportPlan = { new: [], updated: [], conflicting: [], unchanged: [], invalid };
+  const byEmail = new Map(existing.map((r) => [normalizeEmail(r.email), r]));
+  const seen = new Set<string>();
+
+  for (const row of rows) {
+    const match = byEmail.get(row.email) ?? null;
+
+    if (seen.has(row.email)) {
+      plan.conflicting.push({ row, existing: match, fields: [], reason: "duplicateInFile" });
+      continue;
+    }
+    seen.add(row.email);
+
+    if (!match) {
+      plan.new.push(row);
+      continue;
+    }
+
+    const changes: Partial<Record<ImportField, string>> = {};
+    const conflicts: ImportField[] = [];
+
+    if (!match.full_name.trim()) {
+      changes.full_name = row.fullName;
+    } else if (normalizeName(match.full_name) !== normalizeName(row.fullName)) {
+      conflicts.push("full_name");
+    }
+
+    if (row.linkedinUrl) {
+      if (!match.linkedin_url) {
+        changes.linkedin_url = row.linkedinUrl;
+      } else if (match.linkedin_url.toLowerCase() !== row.linkedinUrl.toLowerCase()) {
+        conflicts.push("linkedin_url");
+      }
+    }
+
+    if (row.whatsappNumber) {
+      if (!match.whatsapp_number) {
+        changes.whatsapp_number = row.whatsappNumber;
+      } else if (match.whatsapp_number.replace(/\D/g, "") !== row.whatsappNumber.replace(/\D/g, "")) {
+        conflicts.push("whatsapp_number");
+      }
+    }
+
+    if (conflicts.length > 0) {
+      plan.conflicting.push({ row, existing: match, fields: conflicts, reason: "fieldMismatch" });
+    } else if (Object.keys(changes).length > 0) {
+      plan.updated.push({ row, existing: match, changes });
+    } else {
+      plan.unchanged.push(row);
+    }
+  }
+
+  return plan;
+};
+
+/**
+ * Fetch the fields needed for reconciliation from every registration
+ */
+export async function getExistingRegistrations(): Promise<ExistingRegistration[]> {
+  const all: ExistingRegistration[] = [];
+  const limit = 1000;
+  let offset = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    const { data, error } = await supabase
+      .from("registrations")
+      .select("id, full_name, email, linkedin_url, whatsapp_number")
+      .order("created_at", { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (error) throw error;
+
+    if (data && data.length > 0) {
+      all.push(...data);
+      offset += limit;
+      hasMore = data.length === limit;
+    } else {
+      hasMore = false;
+    }
+  }
+
+  return all;
+}
+
+/**
+ * Write new and updated rows from a reviewed plan
+ * Rows are written one at a time so a row that fails (for example an email registered
+ * since the dry run) is reported on its own without holding back the rest.
+ * New rows go through import_registration, which makes the same capacity decision as
+ * a sign-up and assigns waitlist positions in the database.
+ * Conflicting, unchanged and invalid rows are never written
+ */
+export async function commitImportPlan(plan: ImportPlan): Promise<ImportCommitResult> {
+  const result: ImportCommitResult = { inserted: 0, waitlisted: 0, updated: 0, failed: 0, failures: [] };
+
+  const fail = (row: LumaImportRow, message: string) => {
+    result.failed += 1;
+    result.failures.push({ line: row.line, email: row.email, message });
+  };
+
+  for (const row of plan.new) {
+    const { data, error } = await callRpc<{ id: string; status: RegistrationStatus }>("import_registration", {
+      p_full_name: row.fullName,
+      p_email: row.email,
+      p_linkedin_url: row.linkedinUrl,
+      p_whatsapp_number: row.whatsappNumber,
+      p_waitlisted: row.status === "waitlisted",
+      p_created_at: row.createdAt,
+    });
+
+    if (error) {
+      logger.error("Luma import insert failed", error, { line: row.line });
+      fail(row, error.message);
+    } else {
+      result.inserted += 1;
+      if (data?.status === "waitlisted") {
+        result.waitlisted += 1;
+      }
+    }
+  }
+
+  for (const update of plan.updated) {
+    const { error } = await supabase
+      .from("registrations")
+      .update(update.changes)
+      .eq("id", update.existing.id);
+
+    if (error) {
+      logger.error("Luma import update failed", new Error(error.message), { id: update.existing.id });
+      fail(update.row, error.message);
+    } else {
+      result.updated += 1;
+    }
+  }
+
+  return result;
+}
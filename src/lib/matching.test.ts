@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  saveMatchingProfile,
+  scoreTeammate,
+  suggestSkillsFromText,
+  suggestTeammates,
+  validateMatchingProfile,
+  type MatchingProfile,
+  type MatchingSkill,
+} from './matching';
+import { callRpc } from './supabaseRpc';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {},
+}));
+
+vi.mock('./supabaseRpc', () => ({
+  callRpc: vi.fn(),
+}));
+
+vi.mock('./logger', () => ({
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+const skills: MatchingSkill[] = [
+  { id: 'design', role: 'design', keywords: ['figma', 'ui/ux'] },
+  { id: 'frontend', role: 'frontend', keywords: ['react'] },
+  { id: 'mobile', role: 'frontend', keywords: ['flutter'] },
+  { id: 'backend', role: 'backend', keywords: ['django', 'node.js'] },
+  { id: 'ml', role: 'data', keywords: ['machine learning', 'pytorch'] },
+];
+
+const profile = (id: string, overrides: Partial<MatchingProfile> = {}): MatchingProfile => ({
+  registration_id: id,
+  first_name: id,
+  skills: [],
+  tracks: [],
+  experience: null,
+  bio: null,
+  updated_at: '2026-01-10T10:00:00Z',
+  ...overrides,
+});
+
+describe('matching', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('suggestSkillsFromText', () => {
+    it('should find skills from resume keywords', () => {
+      const text = 'Built dashboards in React and trained PyTorch models. Designed screens in Figma.';
+      expect(suggestSkillsFromText(text, skills)).toEqual(['design', 'frontend', 'ml']);
+    });
+
+    it('should match whole words and phrases only', () => {
+      expect(suggestSkillsFromText('Reactive programming and node.js services', skills)).toEqual(['backend']);
+    });
+
+    it('should handle missing text', () => {
+      expect(suggestSkillsFromText(null, skills)).toEqual([]);
+    });
+  });
+
+  describe('scoreTeammate', () => {
+    it('should reward roles the participant lacks and shared tracks', () => {
+      const me = { skills: ['backend'], tracks: ['fintech', 'agritech'] };
+      const suggestion = scoreTeammate(me, profile('amina', { skills: ['design', 'ml'], tracks: ['fintech'] }), skills);
+
+      expect(suggestion.newRoles).toEqual(['design', 'data']);
+      expect(suggestion.sharedTracks).toEqual(['fintech']);
+      expect(suggestion.score).toBe(8);
+    });
+
+    it('should treat skills with the same role as overlapping', () => {
+      const suggestion = scoreTeammate({ skills: ['frontend'], tracks: [] }, profile('otieno', { skills: ['mobile'] }), skills);
+
+      expect(suggestion.newRoles).toEqual([]);
+      expect(suggestion.score).toBe(0);
+    });
+  });
+
+  describe('suggestTeammates', () => {
+    it('should rank complementary candidates first and drop the rest', () => {
+      const me = profile('me', { skills: ['backend'], tracks: ['fintech'] });
+      const candidates = [
+        me,
+        profile('same', { skills: ['backend'], tracks: ['healthtech'] }),
+        profile('track', { skills: ['backend'], tracks: ['fintech'] }),
+        profile('designer', { skills: ['design'], tracks: ['fintech'] }),
+        profile('full', { skills: ['design', 'frontend', 'ml'], tracks: ['climate'] }),
+      ];
+
+      const ranked = suggestTeammates(me, candidates, skills).map((s) => s.profile.registration_id);
+
+      expect(ranked).toEqual(['full', 'designer', 'track']);
+    });
+
+    it('should respect the limit', () => {
+      const me = profile('me', { skills: ['backend'] });
+      const candidates = ['a', 'b', 'c'].map((id) => profile(id, { skills: ['design'] }));
+
+      expect(suggestTeammates(me, candidates, skills, 2)).toHaveLength(2);
+    });
+  });
+
+  describe('validateMatchingProfile', () => {
+    it('should require skills and tracks', () => {
+      expect(validateMatchingProfile({ skills: [], tracks: ['fintech'], bio: '' })).toBe('matching.errors.skillsRequired');
+      expect(validateMatchingProfile({ skills: ['ml'], tracks: [], bio: '' })).toBe('matching.errors.tracksRequired');
+      expect(validateMatchingProfile({ skills: ['ml'], tracks: ['fintech'], bio: '' })).toBeUndefined();
+    });
+
+    it('should limit the bio length', () => {
+      expect(validateMatchingProfile({ skills: ['ml'], tracks: ['fintech'], bio: 'x'.repeat(281) })).toBe(
+        'matching.errors.bioTooLong'
+      );
+    });
+  });
+
+  describe('saveMatchingProfile', () => {
+    it('should send an empty bio as null', async () => {
+      const saved = profile('me', { skills: ['ml'], tracks: ['fintech'] });
+      vi.mocked(callRpc).mockResolvedValue({ data: saved, error: null });
+
+      const result = await saveMatchingProfile({ skills: ['ml'], tracks: ['fintech'], bio: '   ' });
+
+      expect(callRpc).toHaveBeenCalledWith('save_matching_profile', {
+        p_skills: ['ml'],
+        p_tracks: ['fintech'],
+        p_bio: null,
+      });
+      expect(result).toEqual(saved);
+    });
+
+    it('should return null when saving fails', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: null, error: new Error('Not listed') });
+
+      expect(await saveMatchingProfile({ skills: ['ml'], tracks: ['fintech'], bio: '' })).toBeNull();
+    });
+  });
+});
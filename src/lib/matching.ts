@@ -0,0 +1,256 @@
+/**
+ * Skill-based teammate matching
+ * Confirmed participants without a team can list their skills and the tracks they
+ * want to hack on. Listing is opt-in and can be withdrawn at any time; joining a
+ * team hides the listing. Skills are suggested from the participant's resume text
+ * and their track from the registration answer.
+ *
+ * Candidates only ever expose a first name, skills, tracks, experience and a short
+ * bio. Either side can ask to connect; contact details are returned by
+ * get_my_connections only once the other side accepts, and the database functions
+ * enforce this rather than the client.
+ */
+
+import type { Database } from "@/integrations/supabase/types";
+import { logger } from "./logger";
+import { sanitizeInput } from "./security";
+import { callRpc } from "./supabaseRpc";
+
+export type MatchingRole = "design" | "frontend" | "backend" | "data" | "hardware" | "product";
+
+export interface MatchingSkill {
+  id: string;
+  /** Skills with the same role overlap; teams want a spread of roles */
+  role: MatchingRole;
+  /** Lowercase phrases that suggest the skill when found in resume text */
+  keywords: string[];
+}
+
+export interface MatchingProfile {
+  registration_id: string;
+  first_name: string;
+  skills: string[];
+  tracks: string[];
+  experience: string | null;
+  bio: string | null;
+  updated_at: string;
+}
+
+export interface MatchingContext {
+  profile: MatchingProfile | null;
+  /** Track chosen at registration */
+  registration_track: string | null;
+  resume_text: string | null;
+  has_team: boolean;
+}
+
+export type ConnectionStatus = Database["public"]["Enums"]["connection_status"];
+
+export interface ConnectionContact {
+  full_name: string;
+  email: string;
+  linkedin_url: string | null;
+  whatsapp_number: string | null;
+}
+
+export interface MatchConnection {
+  id: string;
+  direction: "sent" | "received";
+  status: ConnectionStatus;
+  created_at: string;
+  profile: MatchingProfile;
+  /** Only present once the connection is accepted */
+  contact: ConnectionContact | null;
+}
+
+export interface TeammateSuggestion {
+  profile: MatchingProfile;
+  score: number;
+  newRoles: MatchingRole[];
+  sharedTracks: string[];
+}
+
+export interface MatchingProfileInput {
+  skills: string[];
+  tracks: string[];
+  bio: string;
+}
+
+export const MATCHING_PATH = "/me/matching";
+
+export const MATCHING_BIO_MAX_LENGTH = 280;
+export const MAX_MATCHING_SUGGESTIONS = 12;
+
+// Bringing a missing role matters more than sharing a track
+const NEW_ROLE_WEIGHT = 3;
+const SHARED_TRACK_WEIGHT = 2;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Skills whose keywords appear in a block of text, in the order they are defined
+ */
+export const suggestSkillsFromText = (text: string | null, skills: MatchingSkill[]): string[] => {
+  if (!text) return [];
+
+  const lower = text.toLowerCase();
+  return skills
+    .filter((skill) =>
+      skill.keywords.some((keyword) => new RegExp(`(^|[^a-z0-9])${escapeRegExp(keyword)}($|[^a-z0-9])`).test(lower))
+    )
+    .map((skill) => skill.id);
+};
+
+export const getRoles = (skillIds: string[], skills: MatchingSkill[]): MatchingRole[] => {
+  const roles = new Set<MatchingRole>();
+  skillIds.forEach((id) => {
+    const skill = skills.find((s) => s.id === id);
+    if (skill) roles.add(skill.role);
+  });
+  return [...roles];
+};
+
+/**
+ * Score how well a candidate complements the participant
+ * Points for each role the candidate would add and each track both want
+ */
+export const scoreTeammate = (
+  me: Pick<MatchingProfile, "skills" | "tracks">,
+  candidate: MatchingProfile,
+  skills: MatchingSkill[]
+): TeammateSuggestion => {
+  const myRoles = new Set(getRoles(me.skills, skills));
+  const newRoles = getRoles(candidate.skills, skills).filter((role) => !myRoles.has(role));
+  const sharedTracks = candidate.tracks.filter((track) => me.tracks.includes(track));
+
+  return {
+    profile: candidate,
+    score: newRoles.length * NEW_ROLE_WEIGHT + sharedTracks.length * SHARED_TRACK_WEIGHT,
+    newRoles,
+    sharedTracks,
+  };
+};
+
+/**
+ * Best complementary candidates first; candidates who add nothing are left out
+ */
+export const suggestTeammates = (
+  me: Pick<MatchingProfile, "registration_id" | "skills" | "tracks">,
+  candidates: MatchingProfile[],
+  skills: MatchingSkill[],
+  limit: number = MAX_MATCHING_SUGGESTIONS
+): TeammateSuggestion[] =>
+  candidates
+    .filter((candidate) => candidate.registration_id !== me.registration_id)
+    .map((candidate) => scoreTeammate(me, candidate, skills))
+    .filter((suggestion) => suggestion.score > 0)
+    .sort((a, b) => b.score - a.score || b.profile.updated_at.localeCompare(a.profile.updated_at))
+    .slice(0, limit);
+
+/**
+ * Validate a matching profile, returning a translation key for the first problem
+ */
+export const validateMatchingProfile = (input: MatchingProfileInput): string | undefined => {
+  if (input.skills.length === 0) return "matching.errors.skillsRequired";
+  if (input.tracks.length === 0) return "matching.errors.tracksRequired";
+  if (input.bio.trim().length > MATCHING_BIO_MAX_LENGTH) return "matching.errors.bioTooLong";
+  return undefined;
+};
+
+/**
+ * The signed-in participant's listing plus what is needed to prefill it
+ */
+export async function getMatchingContext(): Promise<MatchingContext> {
+  const { data, error } = await callRpc<MatchingContext>("get_my_matching_context", {});
+
+  if (error || !data) {
+    logger.error("Failed to load matching context", error ?? new Error("No matching context returned"));
+    throw error ?? new Error("No matching context returned");
+  }
+
+  return data;
+}
+
+/**
+ * List the signed-in participant for matching, or update their listing
+ */
+export async function saveMatchingProfile(input: MatchingProfileInput): Promise<MatchingProfile | null> {
+  const { data, error } = await callRpc<MatchingProfile>("save_matching_profile", {
+    p_skills: input.skills,
+    p_tracks: input.tracks,
+    p_bio: sanitizeInput(input.bio, MATCHING_BIO_MAX_LENGTH) || null,
+  });
+
+  if (error || !data) {
+    logger.error("Failed to save matching profile", error ?? new Error("No matching profile returned"));
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Stop being listed; pending requests are withdrawn, accepted connections are kept
+ */
+export async function removeMatchingProfile(): Promise<boolean> {
+  const { error } = await callRpc("remove_matching_profile", {});
+
+  if (error) {
+    logger.error("Failed to remove matching profile", error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Other listed participants without a team, without contact details
+ */
+export async function getMatchingCandidates(): Promise<MatchingProfile[]> {
+  const { data, error } = await callRpc<MatchingProfile[]>("get_matching_candidates", {});
+
+  if (error) throw error;
+
+  return data ?? [];
+}
+
+export async function getMyConnections(): Promise<MatchConnection[]> {
+  const { data, error } = await callRpc<MatchConnection[]>("get_my_connections", {});
+
+  if (error) throw error;
+
+  return data ?? [];
+}
+
+/**
+ * Ask to connect with a candidate; if they already asked, this accepts their request
+ */
+export async function requestConnection(registrationId: string): Promise<MatchConnection | null> {
+  const { data, error } = await callRpc<MatchConnection>("request_connection", {
+    p_registration_id: registrationId,
+  });
+
+  if (error || !data) {
+    logger.error("Failed to request connection", error ?? new Error("No connection returned"), { registrationId });
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Accept or decline a request received from another participant
+ */
+export async function respondToConnection(connectionId: string, accept: boolean): Promise<MatchConnection | null> {
+  const { data, error } = await callRpc<MatchConnection>("respond_to_connection", {
+    p_connection_id: connectionId,
+    p_accept: accept,
+  });
+
+  if (error || !data) {
+    logger.error("Failed to respond to connection", error ?? new Error("No connection returned"), { connectionId });
+    return null;
+  }
+
+  return data;
+}
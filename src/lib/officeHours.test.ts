@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  bookSession,
+  getAvailableStarts,
+  getUtilizationStatus,
+  groupByDay,
+  validateSlot,
+} from './officeHours';
+import { callRpc } from './supabaseRpc';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+vi.mock('./supabaseRpc', () => ({
+  callRpc: vi.fn(),
+}));
+
+vi.mock('./logger', () => ({
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+const schedule = {
+  team_lock_at: '2026-02-21T09:00:00+03:00',
+  submission_deadline: '2026-02-22T16:00:00+03:00',
+  event_ends_at: '2026-02-22T20:00:00+03:00',
+  team_max_size: 4,
+  team_min_size: 2,
+};
+
+const range = (start: string, end: string) => ({
+  starts_at: new Date(`2026-02-21T${start}:00+03:00`).toISOString(),
+  ends_at: new Date(`2026-02-21T${end}:00+03:00`).toISOString(),
+});
+
+const utilization = (available: number, booked: number) => ({
+  mentor_id: 'mentor-1',
+  display_name: 'Wanjiru',
+  available_minutes: available,
+  booked_minutes: booked,
+  sessions: 0,
+  cancelled: 0,
+});
+
+describe('officeHours', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('validateSlot', () => {
+    it('should accept an aligned slot during the hackathon', () => {
+      expect(validateSlot(range('10:00', '11:30'), schedule)).toBeUndefined();
+    });
+
+    it('should reject slots that are out of order, outside the hackathon or misaligned', () => {
+      expect(validateSlot(range('11:00', '10:00'), schedule)).toBe('mentor.errors.slotOrder');
+      expect(validateSlot(range('07:00', '08:00'), schedule)).toBe('mentor.errors.slotOutsideHackathon');
+      expect(validateSlot(range('10:10', '11:10'), schedule)).toBe('mentor.errors.slotNotAligned');
+    });
+
+    it('should enforce the slot length limits', () => {
+      expect(validateSlot(range('10:00', '10:15'), schedule)).toBe('mentor.errors.slotTooShort');
+      expect(validateSlot(range('10:00', '14:15'), schedule)).toBe('mentor.errors.slotTooLong');
+    });
+
+    it('should reject slots overlapping existing ones', () => {
+      expect(validateSlot(range('10:00', '11:00'), schedule, [range('10:30', '12:00')])).toBe('mentor.errors.slotOverlap');
+      expect(validateSlot(range('10:00', '11:00'), schedule, [range('11:00', '12:00')])).toBeUndefined();
+    });
+  });
+
+  describe('getAvailableStarts', () => {
+    const slot = range('10:00', '11:00');
+    const before = new Date('2026-02-21T09:00:00+03:00');
+
+    it('should offer quarter-hour starts that fit the session length', () => {
+      expect(getAvailableStarts(slot, [], 15, before)).toHaveLength(4);
+      expect(getAvailableStarts(slot, [], 30, before)).toEqual([
+        range('10:00', '10:30').starts_at,
+        range('10:15', '10:45').starts_at,
+        range('10:30', '11:00').starts_at,
+      ]);
+    });
+
+    it('should skip busy and past times', () => {
+      const busy = [range('10:15', '10:30')];
+
+      expect(getAvailableStarts(slot, busy, 15, before)).toEqual([
+        range('10:00', '10:15').starts_at,
+        range('10:30', '10:45').starts_at,
+        range('10:45', '11:00').starts_at,
+      ]);
+      expect(getAvailableStarts(slot, busy, 30, new Date('2026-02-21T10:20:00+03:00'))).toEqual([
+        range('10:30', '11:00').starts_at,
+      ]);
+    });
+  });
+
+  describe('groupByDay', () => {
+    it('should group items chronologically by day', () => {
+      const a = { starts_at: '2026-02-21T15:00:00+03:00' };
+      const b = { starts_at: '2026-02-22T10:00:00+03:00' };
+      const c = { starts_at: '2026-02-21T11:00:00+03:00' };
+
+      expect(groupByDay([a, b, c]).map((day) => day.length)).toEqual([2, 1]);
+    });
+  });
+
+  describe('getUtilizationStatus', () => {
+    it('should classify mentors by the share of time booked', () => {
+      expect(getUtilizationStatus(utilization(0, 0))).toBe('noAvailability');
+      expect(getUtilizationStatus(utilization(120, 120))).toBe('overbooked');
+      expect(getUtilizationStatus(utilization(120, 60))).toBe('balanced');
+      expect(getUtilizationStatus(utilization(120, 15))).toBe('idle');
+    });
+  });
+
+  describe('bookSession', () => {
+    it('should pass through booking errors from the database', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: { error: 'unavailable' }, error: null });
+
+      expect(await bookSession('slot-1', '2026-02-21T07:00:00.000Z', 30, '  ')).toEqual({
+        success: false,
+        error: 'unavailable',
+      });
+      expect(callRpc).toHaveBeenCalledWith('book_mentor_session', {
+        p_slot_id: 'slot-1',
+        p_starts_at: '2026-02-21T07:00:00.000Z',
+        p_duration_minutes: 30,
+        p_topic: null,
+      });
+    });
+
+    it('should report transport errors as failed', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: null, error: new Error('network') });
+
+      expect(await bookSession('slot-1', '2026-02-21T07:00:00.000Z', 15, 'Pitch')).toEqual({
+        success: false,
+        error: 'failed',
+      });
+    });
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * Mentor office hours
+ * Accounts with the mentor role sign in on the admin login page like judges, keep a
+ * profile (name, role, expertise) and publish availability slots during the hackathon,
+ * between the schedule's team_lock_at (hacking starts) and submission_deadline (see
+ * eventSchedule). Team members book 15- or 30-minute sessions inside a slot from the
+ * office hours page.
+ *
+ * book_mentor_session is the source of truth: bookings carry an exclusion constraint on
+ * the mentor's time range, so two teams can never hold overlapping sessions with the
+ * same mentor, and it refuses a session that overlaps another of the team's own
+ * bookings. Availability computed here only decides which start times to offer.
+ * Cancelled bookings are kept (with cancelled_at) for the admin utilization report, and
+ * the database refuses to delete a slot that still has active bookings.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { EventSchedule } from "./eventSchedule";
+import { logger } from "./logger";
+import { sanitizeInput } from "./security";
+import { callRpc } from "./supabaseRpc";
+
+export type MentorProfile = Database["public"]["Tables"]["mentor_profiles"]["Row"];
+export type MentorSlot = Database["public"]["Tables"]["mentor_slots"]["Row"];
+export type MentorBooking = Database["public"]["Tables"]["mentor_bookings"]["Row"];
+
+export type MentorProfileInput = Pick<MentorProfile, "display_name" | "title" | "company" | "bio" | "expertise">;
+
+export type SessionDuration = 15 | 30;
+
+export interface TimeRange {
+  starts_at: string;
+  ends_at: string;
+}
+
+/** A mentor as teams see them: profile, upcoming slots and the times already taken */
+export interface OfficeHoursMentor extends Pick<MentorProfile, "user_id" | "display_name" | "title" | "company" | "bio" | "expertise"> {
+  slots: MentorSlot[];
+  busy: TimeRange[];
+}
+
+export interface TeamBooking extends MentorBooking {
+  mentor_name: string;
+}
+
+export interface OfficeHours {
+  mentors: OfficeHoursMentor[];
+  /** The signed-in participant's team, or null (browsing only) */
+  team_id: string | null;
+  /** Active bookings of the participant's team */
+  bookings: TeamBooking[];
+}
+
+export interface AgendaBooking extends MentorBooking {
+  team_name: string;
+}
+
+export interface MentorAgenda {
+  profile: MentorProfile | null;
+  slots: MentorSlot[];
+  bookings: AgendaBooking[];
+}
+
+export type BookingError = "noTeam" | "unavailable" | "teamBusy" | "invalid" | "failed";
+
+export interface BookingResult {
+  success: boolean;
+  error?: BookingError;
+  booking?: MentorBooking;
+}
+
+export interface MentorUtilization {
+  mentor_id: string;
+  display_name: string;
+  available_minutes: number;
+  booked_minutes: number;
+  sessions: number;
+  cancelled: number;
+}
+
+export type UtilizationStatus = "overbooked" | "balanced" | "idle" | "noAvailability";
+
+export const OFFICE_HOURS_PATH = "/office-hours";
+export const MENTOR_PATH = "/mentor";
+
+export const SESSION_DURATIONS: SessionDuration[] = [15, 30];
+
+/** Topics mentors declare expertise in */
+export const MENTOR_TOPICS = ["frontend", "backend", "supabase", "mobile", "ml", "design", "pitch", "business"];
+
+/** Sessions start on quarter hours */
+export const SESSION_STEP_MINUTES = 15;
+export const SLOT_MIN_MINUTES = 30;
+export const SLOT_MAX_MINUTES = 240;
+
+/** At or above this share of available time booked, teams struggle to get a session */
+export const OVERBOOKED_THRESHOLD = 0.9;
+/** At or below this share, the mentor is mostly waiting */
+export const IDLE_THRESHOLD = 0.2;
+
+const MINUTE_MS = 60 * 1000;
+const MENTOR_NAME_MAX_LENGTH = 80;
+const MENTOR_FIELD_MAX_LENGTH = 80;
+const MENTOR_BIO_MAX_LENGTH = 500;
+const TOPIC_MAX_LENGTH = 200;
+
+const overlaps = (a: TimeRange, b: TimeRange): boolean =>
+  new Date(a.starts_at) < new Date(b.ends_at) && new Date(b.starts_at) < new Date(a.ends_at);
+
+const getMinutes = (range: TimeRange): number =>
+  (new Date(range.ends_at).getTime() - new Date(range.starts_at).getTime()) / MINUTE_MS;
+
+/**
+ * Validate a new availability slot, returning a translation key for the first problem
+ */
+export const validateSlot = (
+  slot: TimeRange,
+  schedule: EventSchedule,
+  existing: TimeRange[] = []
+): string | undefined => {
+  const start = new Date(slot.starts_at);
+  const end = new Date(slot.ends_at);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || end <= start) {
+    return "mentor.errors.slotOrder";
+  }
+  if (start < new Date(schedule.team_lock_at) || end > new Date(schedule.submission_deadline)) {
+    return "mentor.errors.slotOutsideHackathon";
+  }
+  if (start.getMinutes() % SESSION_STEP_MINUTES !== 0 || end.getMinutes() % SESSION_STEP_MINUTES !== 0) {
+    return "mentor.errors.slotNotAligned";
+  }
+
+  const minutes = getMinutes(slot);
+  if (minutes < SLOT_MIN_MINUTES) {
+    return "mentor.errors.slotTooShort";
+  }
+  if (minutes > SLOT_MAX_MINUTES) {
+    return "mentor.errors.slotTooLong";
+  }
+  if (existing.some((other) => overlaps(slot, other))) {
+    return "mentor.errors.slotOverlap";
+  }
+  return undefined;
+};
+
+/**
+ * Start times for a session of the given length that fit in the slot, have not passed
+ * and do not overlap any busy time (the mentor's bookings and the team's own)
+ */
+export const getAvailableStarts = (
+  slot: TimeRange,
+  busy: TimeRange[],
+  duration: SessionDuration,
+  now: Date = new Date()
+): string[] => {
+  const starts: string[] = [];
+  const end = new Date(slot.ends_at).getTime();
+
+  for (
+    let time = new Date(slot.starts_at).getTime();
+    time + duration * MINUTE_MS <= end;
+    time += SESSION_STEP_MINUTES * MINUTE_MS
+  ) {
+    const session = {
+      starts_at: new Date(time).toISOString(),
+      ends_at: new Date(time + duration * MINUTE_MS).toISOString(),
+    };
+    if (time > now.getTime() && !busy.some((range) => overlaps(session, range))) {
+      starts.push(session.starts_at);
+    }
+  }
+
+  return starts;
+};
+
+/**
+ * Items in chronological order, grouped by calendar day
+ */
+export const groupByDay = <T extends { starts_at: string }>(items: T[]): T[][] => {
+  const days = new Map<string, T[]>();
+  [...items]
+    .sort((a, b) => a.starts_at.localeCompare(b.starts_at))
+    .forEach((item) => {
+      const day = new Date(item.starts_at).toDateString();
+      days.set(day, [...(days.get(day) ?? []), item]);
+    });
+  return Array.from(days.values());
+};
+
+/**
+ * Share of the mentor's published time that is booked
+ */
+export const getUtilizationRate = (entry: MentorUtilization): number =>
+  entry.available_minutes > 0 ? entry.booked_minutes / entry.available_minutes : 0;
+
+export const getUtilizationStatus = (entry: MentorUtilization): UtilizationStatus => {
+  if (entry.available_minutes === 0) {
+    return "noAvailability";
+  }
+
+  const rate = getUtilizationRate(entry);
+  if (rate >= OVERBOOKED_THRESHOLD) {
+    return "overbooked";
+  }
+  return rate <= IDLE_THRESHOLD ? "idle" : "balanced";
+};
+
+/**
+ * Mentors with their slots, plus the signed-in participant's team bookings
+ */
+export async function getOfficeHours(): Promise<OfficeHours> {
+  const { data, error } = await callRpc<OfficeHours>("get_office_hours", {});
+
+  if (error) {
+    logger.error("Failed to load office hours", error);
+    throw error;
+  }
+
+  return {
+    mentors: data?.mentors ?? [],
+    team_id: data?.team_id ?? null,
+    bookings: data?.bookings ?? [],
+  };
+}
+
+/**
+ * Book a session for the signed-in participant's team
+ */
+export async function bookSession(
+  slotId: string,
+  startsAt: string,
+  duration: SessionDuration,
+  topic: string
+): Promise<BookingResult> {
+  const { data, error } = await callRpc<{ booking?: MentorBooking; error?: BookingError }>("book_mentor_session", {
+    p_slot_id: slotId,
+    p_starts_at: startsAt,
+    p_duration_minutes: duration,
+    p_topic: topic.trim() ? sanitizeInput(topic, TOPIC_MAX_LENGTH) : null,
+  });
+
+  if (error) {
+    logger.error("Failed to book mentor session", error, { slotId, startsAt });
+    return { success: false, error: "failed" };
+  }
+  if (data?.error || !data?.booking) {
+    return { success: false, error: data?.error ?? "failed" };
+  }
+  return { success: true, booking: data.booking };
+}
+
+/**
+ * Cancel a booking; either the team or the mentor can cancel
+ */
+export async function cancelBooking(bookingId: string): Promise<boolean> {
+  const { data, error } = await callRpc<{ error?: string }>("cancel_mentor_booking", { p_booking_id: bookingId });
+
+  if (error || data?.error) {
+    logger.error("Failed to cancel mentor booking", error ?? new Error(data?.error), { bookingId });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * The signed-in mentor's profile, slots and bookings
+ */
+export async function getMyMentorAgenda(): Promise<MentorAgenda> {
+  const { data, error } = await callRpc<MentorAgenda>("get_my_mentor_agenda", {});
+
+  if (error) {
+    logger.error("Failed to load mentor agenda", error);
+    throw error;
+  }
+
+  return {
+    profile: data?.profile ?? null,
+    slots: data?.slots ?? [],
+    bookings: data?.bookings ?? [],
+  };
+}
+
+/**
+ * Create or update the signed-in mentor's profile
+ */
+export async function saveMentorProfile(userId: string, input: MentorProfileInput): Promise<void> {
+  const optional = (value: string | null, maxLength: number) =>
+    value?.trim() ? sanitizeInput(value, maxLength) : null;
+
+  const { error } = await supabase.from("mentor_profiles").upsert({
+    user_id: userId,
+    display_name: sanitizeInput(input.display_name, MENTOR_NAME_MAX_LENGTH),
+    title: optional(input.title, MENTOR_FIELD_MAX_LENGTH),
+    company: optional(input.company, MENTOR_FIELD_MAX_LENGTH),
+    bio: optional(input.bio, MENTOR_BIO_MAX_LENGTH),
+    expertise: input.expertise.filter((topic) => MENTOR_TOPICS.includes(topic)),
+  });
+
+  if (error) throw error;
+}
+
+export async function addSlot(mentorId: string, slot: TimeRange): Promise<MentorSlot> {
+  const { data, error } = await supabase
+    .from("mentor_slots")
+    .insert({ mentor_id: mentorId, starts_at: slot.starts_at, ends_at: slot.ends_at })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data;
+}
+
+export async function removeSlot(id: string): Promise<void> {
+  const { error } = await supabase.from("mentor_slots").delete().eq("id", id);
+
+  if (error) throw error;
+}
+
+/**
+ * Published and booked time per mentor (admin only)
+ */
+export async function getMentorUtilization(): Promise<MentorUtilization[]> {
+  const { data, error } = await callRpc<MentorUtilization[]>("get_mentor_utilization", {});
+
+  if (error) throw error;
+
+  return data ?? [];
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  confirmDataErasure,
+  exportMyData,
+  getMyResumeUrl,
+  replaceMyResume,
+  requestDataErasure,
+  sendMagicLink,
+  updateMyLinkedIn,
+  withdrawMyRegistration,
+} from './participantPortal';
+import { supabase } from '@/integrations/supabase/client';
+import { callRpc } from './supabaseRpc';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    auth: {
+      signInWithOtp: vi.fn(),
+    },
+    functions: {
+      invoke: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('./supabaseRpc', () => ({
+  callRpc: vi.fn(),
+}));
+
+vi.mock('./logger', () => ({
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+const encode = (value: unknown) =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const makeToken = (rid: string, exp: number) => `${encode({ rid, exp })}.c2lnbmF0dXJl`;
+
+describe('participantPortal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('sendMagicLink', () => {
+    it('should send a normalized email with a redirect to the portal', async () => {
+      vi.mocked(supabase.auth.signInWithOtp).mockResolvedValue({ data: {}, error: null } as never);
+
+      const sent = await sendMagicLink(' Jane@Example.com ', 'https://jengahacks.com');
+
+      expect(sent).toBe(true);
+      expect(supabase.auth.signInWithOtp).toHaveBeenCalledWith({
+        email: 'jane@example.com',
+        options: { emailRedirectTo: 'https://jengahacks.com/me', shouldCreateUser: true },
+      });
+    });
+
+    it('should report failures', async () => {
+      vi.mocked(supabase.auth.signInWithOtp).mockResolvedValue({
+        data: {},
+        error: { message: 'rate limited' },
+      } as never);
+
+      expect(await sendMagicLink('jane@example.com')).toBe(false);
+    });
+  });
+
+  describe('updateMyLinkedIn', () => {
+    it('should normalize the profile before saving', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: { id: 'reg-1' }, error: null });
+
+      const result = await updateMyLinkedIn('linkedin.com/in/janedoe');
+
+      expect(result.success).toBe(true);
+      expect(callRpc).toHaveBeenCalledWith('update_my_registration', {
+        p_linkedin_url: expect.stringContaining('linkedin.com/in/janedoe'),
+      });
+    });
+
+    it('should reject invalid profiles without calling the server', async () => {
+      const result = await updateMyLinkedIn('https://example.com/janedoe');
+
+      expect(result).toEqual({ success: false, error: 'invalidLinkedIn' });
+      expect(callRpc).not.toHaveBeenCalled();
+    });
+
+    it('should clear the profile when empty', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: { id: 'reg-1' }, error: null });
+
+      await updateMyLinkedIn('  ');
+
+      expect(callRpc).toHaveBeenCalledWith('update_my_registration', { p_linkedin_url: null });
+    });
+  });
+
+  it('should save the new resume path', async () => {
+    vi.mocked(callRpc).mockResolvedValue({ data: null, error: new Error('denied') });
+
+    const result = await replaceMyResume('123-abc.pdf');
+
+    expect(callRpc).toHaveBeenCalledWith('update_my_registration', { p_resume_path: '123-abc.pdf' });
+    expect(result).toEqual({ success: false, error: 'failed' });
+  });
+
+  it('should withdraw the signed-in registration', async () => {
+    vi.mocked(callRpc).mockResolvedValue({ data: { promoted_registration_id: null }, error: null });
+
+    expect(await withdrawMyRegistration()).toBe(true);
+    expect(callRpc).toHaveBeenCalledWith('withdraw_my_registration', {});
+  });
+
+  it('should return null when the export fails', async () => {
+    vi.mocked(callRpc).mockResolvedValue({ data: null, error: new Error('denied') });
+
+    expect(await exportMyData()).toBeNull();
+  });
+
+  describe('data subject rights', () => {
+    it('should get a signed URL for the participant resume', async () => {
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: { url: 'https://signed' }, error: null });
+
+      expect(await getMyResumeUrl()).toBe('https://signed');
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('get-my-resume-url', { body: {} });
+    });
+
+    it('should request an erasure confirmation email', async () => {
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: null, error: new Error('rate limited') });
+
+      expect(await requestDataErasure()).toBe(false);
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('request-data-erasure', { body: {} });
+    });
+
+    it('should check erasure links before calling the server', async () => {
+      expect(await confirmDataErasure('garbage')).toBe('invalid');
+      expect(await confirmDataErasure(makeToken('reg-1', 1000))).toBe('expired');
+      expect(supabase.functions.invoke).not.toHaveBeenCalled();
+    });
+
+    it('should erase with a valid link', async () => {
+      const token = makeToken('reg-1', Math.floor(Date.now() / 1000) + 3600);
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: { status: 'erased' }, error: null });
+
+      expect(await confirmDataErasure(token)).toBe('erased');
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('erase-my-data', { body: { token } });
+    });
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Participant self-service portal utilities
+ * Participants sign in with a magic link sent to the email they registered with.
+ * Every read and write goes through database functions that resolve the caller's
+ * registration from the authenticated email, so a session can only ever reach
+ * its own row. This is independent of the staff role checks in useRoleAuth.
+ *
+ * Participants can also exercise their rights under Kenya's Data Protection Act:
+ * exporting everything held about them, and erasing it. Erasure is confirmed from
+ * a signed link emailed to the registered address (same token format as email
+ * verification). The erase-my-data Edge Function then deletes the registration row,
+ * its drafts and the resume in the resumes bucket, replaces rate-limit identifiers
+ * that match the participant with a one-way hash, and writes a data_erasures audit
+ * record that holds no personal data.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { decodeVerificationToken, isVerificationTokenExpired } from "./emailVerification";
+import { logger } from "./logger";
+import { validateAndNormalizeLinkedIn } from "./security";
+import { callRpc } from "./supabaseRpc";
+import type { RateLimitViolation } from "./rateLimitTracking";
+import type { RegistrationStatus } from "./waitlist";
+
+export const PORTAL_PATH = "/me";
+
+export interface ParticipantRegistration {
+  id: string;
+  full_name: string;
+  email: string;
+  linkedin_url: string | null;
+  resume_path: string | null;
+  created_at: string;
+  status: RegistrationStatus;
+  waitlist_position: number | null;
+  verified_at: string | null;
+}
+
+export interface MyDataExport {
+  exported_at: string;
+  registration: Record<string, unknown> | null;
+  rate_limit_violations: RateLimitViolation[];
+  [section: string]: unknown;
+}
+
+export type ErasureStatus = "erased" | "alreadyErased" | "expired" | "invalid" | "failed";
+
+export interface PortalUpdateResult {
+  success: boolean;
+  error?: "invalidLinkedIn" | "failed";
+  registration?: ParticipantRegistration;
+}
+
+/**
+ * Email a sign-in link that returns to the portal (or another page, e.g. for voting)
+ * Any address gets a link, so the form cannot be used to probe who has registered;
+ * a session whose email has no registration simply finds nothing
+ */
+export async function sendMagicLink(
+  email: string,
+  origin: string = window.location.origin,
+  path: string = PORTAL_PATH
+): Promise<boolean> {
+  const { error } = await supabase.auth.signInWithOtp({
+    email: email.trim().toLowerCase(),
+    options: {
+      emailRedirectTo: `${origin}${path}`,
+      shouldCreateUser: true,
+    },
+  });
+
+  if (error) {
+    logger.error("Failed to send magic link", new Error(error.message));
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Get the signed-in participant's registration
+ * Returns null when the session's email has no registration
+ */
+export async function getMyRegistration(): Promise<ParticipantRegistration | null> {
+  const { data, error } = await callRpc<ParticipantRegistration | null>("get_my_registration", {});
+
+  if (error) {
+    logger.error("Failed to load participant registration", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Update the LinkedIn profile, normalized the same way as at registration
+ * An empty value clears it; the database still requires a LinkedIn profile or a resume
+ */
+export async function updateMyLinkedIn(linkedIn: string): Promise<PortalUpdateResult> {
+  const trimmed = linkedIn.trim();
+  const normalized = trimmed ? validateAndNormalizeLinkedIn(trimmed) : null;
+
+  if (trimmed && !normalized) {
+    return { success: false, error: "invalidLinkedIn" };
+  }
+
+  return updateMyRegistration({ p_linkedin_url: normalized });
+}
+
+/**
+ * Point the registration at a newly uploaded resume
+ * The database removes the previous file from storage
+ */
+export async function replaceMyResume(resumePath: string): Promise<PortalUpdateResult> {
+  return updateMyRegistration({ p_resume_path: resumePath });
+}
+
+async function updateMyRegistration(args: Record<string, unknown>): Promise<PortalUpdateResult> {
+  const { data, error } = await callRpc<ParticipantRegistration>("update_my_registration", args);
+
+  if (error || !data) {
+    logger.error("Failed to update participant registration", error ?? new Error("No registration returned"));
+    return { success: false, error: "failed" };
+  }
+
+  return { success: true, registration: data };
+}
+
+/**
+ * Withdraw the signed-in participant; frees the spot for the next waitlisted person
+ */
+export async function withdrawMyRegistration(): Promise<boolean> {
+  const { error } = await callRpc("withdraw_my_registration", {});
+
+  if (error) {
+    logger.error("Failed to withdraw participant registration", error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Export everything stored about the signed-in participant as JSON
+ * Covers the registration row and every rate-limit violation recorded against their
+ * email; the resume file itself is downloaded separately via getMyResumeUrl
+ */
+export async function exportMyData(): Promise<MyDataExport | null> {
+  const { data, error } = await callRpc<MyDataExport>("export_my_data", {});
+
+  if (error || !data) {
+    logger.error("Failed to export participant data", error ?? new Error("No export returned"));
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Short-lived signed URL for the signed-in participant's own resume
+ */
+export async function getMyResumeUrl(): Promise<string | null> {
+  const { data, error } = await supabase.functions.invoke("get-my-resume-url", { body: {} });
+
+  if (error) {
+    logger.error("Failed to get participant resume URL", new Error(error.message));
+    return null;
+  }
+
+  return (data as { url?: string } | null)?.url ?? null;
+}
+
+/**
+ * Email the signed-in participant a link to confirm erasing their data
+ */
+export async function requestDataErasure(): Promise<boolean> {
+  const { error } = await supabase.functions.invoke("request-data-erasure", { body: {} });
+
+  if (error) {
+    logger.error("Failed to request data erasure", new Error(error.message));
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Erase the participant's data from the token in an erasure confirmation link
+ */
+export async function confirmDataErasure(token: string): Promise<ErasureStatus> {
+  const payload = decodeVerificationToken(token);
+  if (!payload) {
+    return "invalid";
+  }
+  if (isVerificationTokenExpired(payload)) {
+    return "expired";
+  }
+
+  const { data, error } = await supabase.functions.invoke("erase-my-data", { body: { token } });
+
+  if (error) {
+    logger.error("Failed to erase participant data", new Error(error.message), {
+      registrationId: payload.registrationId,
+    });
+    return "failed";
+  }
+
+  return (data as { status?: ErasureStatus } | null)?.status ?? "failed";
+}
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import { countPdfPages, inspectPdf } from './pdfInspection';
+
+const encoder = new TextEncoder();
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const deflate = async (text: string): Promise<Uint8Array> => {
+  const compressor = new CompressionStream('deflate');
+  const writer = compressor.writable.getWriter();
+  writer.write(encoder.encode(text));
+  writer.close();
+  return new Uint8Array(await new Response(compressor.readable).arrayBuffer());
+};
+
+/**
+ * zlib data in a single stored (uncompressed) block, so the text appears verbatim
+ */
+const deflateStored = (text: string): Uint8Array => {
+  const data = encoder.encode(text);
+  let a = 1;
+  let b = 0;
+  for (const byte of data) {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  }
+  const length = data.length;
+  return concatBytes([
+    new Uint8Array([0x78, 0x01, 0x01, length & 0xff, length >> 8, ~length & 0xff, (~length >> 8) & 0xff]),
+    data,
+    new Uint8Array([b >> 8, b & 0xff, a >> 8, a & 0xff]),
+  ]);
+};
+
+/**
+ * Build a PDF 1.5 file the way pdfLaTeX writes it: every object except the object
+ * stream itself is packed into a compressed /ObjStm
+ */
+const buildCompressedPdf = async (
+  pages: number,
+  catalogExtras = '',
+  streamData?: Uint8Array,
+  compress: (text: string) => Promise<Uint8Array> | Uint8Array = deflate
+): Promise<Uint8Array> => {
+  const kids = Array.from({ length: pages }, (_, i) => `${i + 3} 0 R`).join(' ');
+  const objects = [
+    `<< /Type /Catalog /Pages 2 0 R ${catalogExtras}>>`,
+    `<< /Type /Pages /Kids [${kids}] /Count ${pages} >>`,
+    ...Array.from({ length: pages }, () => '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] >>'),
+  ];
+
+  let body = '';
+  const offsets: string[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(`${i + 1} ${body.length}`);
+    body += `${object}\n`;
+  });
+  const header = `${offsets.join(' ')}\n`;
+  const data = streamData ?? (await compress(header + body));
+  const streamNumber = objects.length + 1;
+
+  return concatBytes([
+    encoder.encode(
+      '%PDF-1.5\n' +
+        `${streamNumber} 0 obj\n<< /Type /ObjStm /N ${objects.length} /First ${header.length} ` +
+        `/Filter /FlateDecode /Length ${data.length} >>\nstream\n`
+    ),
+    data,
+    encoder.encode('\nendstream\nendobj\nstartxref\n123\n%%EOF\n'),
+  ]);
+};
+
+/**
+ * Build a minimal PDF with the given page count and extra catalog entries
+ */
+const buildPdf = (pages: number, catalogExtras = '', trailerExtras = ''): Uint8Array => {
+  const kids = Array.from({ length: pages }, (_, i) => `${i + 3} 0 R`).join(' ');
+  const pageObjects = Array.from(
+    { length: pages },
+    (_, i) => `${i + 3} 0 obj\n<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] >>\nendobj\n`
+  ).join('');
+
+  return encoder.encode(
+    '%PDF-1.7\n' +
+      `1 0 obj\n<< /Type /Catalog /Pages 2 0 R ${catalogExtras}>>\nendobj\n` +
+      `2 0 obj\n<< /Type /Pages /Kids [${kids}] /Count ${pages} >>\nendobj\n` +
+      pageObjects +
+      'xref\n0 1\n0000000000 65535 f \n' +
+      `trailer\n<< /Size ${pages + 3} /Root 1 0 R ${trailerExtras}>>\n` +
+      'startxref\n123\n%%EOF\n'
+  );
+};
+
+describe('pdfInspection', () => {
+  it('should accept a well-formed PDF', async () => {
+    expect(await inspectPdf(buildPdf(2))).toEqual({ valid: true, pageCount: 2 });
+  });
+
+  it('should reject files without the PDF header', async () => {
+    const result = await inspectPdf(encoder.encode('<html><body>not a pdf</body></html>'));
+    expect(result.reason).toBe('notPdf');
+  });
+
+  it('should reject truncated PDFs', async () => {
+    const bytes = buildPdf(1);
+    const result = await inspectPdf(bytes.subarray(0, bytes.length - 30));
+    expect(result.reason).toBe('malformed');
+  });
+
+  it('should reject PDFs over the page limit', async () => {
+    const result = await inspectPdf(buildPdf(6), 5);
+    expect(result).toEqual({ valid: false, reason: 'tooManyPages', pageCount: 6 });
+  });
+
+  it('should reject encrypted PDFs', async () => {
+    const result = await inspectPdf(buildPdf(1, '', '/Encrypt 9 0 R '));
+    expect(result.reason).toBe('encrypted');
+  });
+
+  it('should reject PDFs with embedded JavaScript', async () => {
+    const result = await inspectPdf(buildPdf(1, '/OpenAction << /S /JavaScript /JS (app.alert(1)) >> '));
+    expect(result.reason).toBe('javascript');
+  });
+
+  it('should see through hex-escaped names', async () => {
+    const result = await inspectPdf(buildPdf(1, '/OpenAction << /S /J#61vaScript >> '));
+    expect(result.reason).toBe('javascript');
+  });
+
+  describe('compressed object streams', () => {
+    it('should accept a PDF whose pages are in an object stream', async () => {
+      expect(await inspectPdf(await buildCompressedPdf(2))).toEqual({ valid: true, pageCount: 2 });
+    });
+
+    it('should find JavaScript inside an object stream', async () => {
+      const bytes = await buildCompressedPdf(1, '/OpenAction << /S /JavaScript /JS (app.alert(1)) >> ');
+      expect((await inspectPdf(bytes)).reason).toBe('javascript');
+    });
+
+    it('should enforce the page limit on compressed pages', async () => {
+      expect(await inspectPdf(await buildCompressedPdf(6), 5)).toEqual({
+        valid: false,
+        reason: 'tooManyPages',
+        pageCount: 6,
+      });
+    });
+
+    it('should read the data up to /Length even if it contains "endstream"', async () => {
+      const bytes = await buildCompressedPdf(1, '/Title (endstream) ', undefined, deflateStored);
+      expect((await inspectPdf(bytes)).valid).toBe(true);
+    });
+
+    it('should reject object streams that cannot be decoded', async () => {
+      const bytes = await buildCompressedPdf(1, '', encoder.encode('not deflate data'));
+      expect((await inspectPdf(bytes)).reason).toBe('malformed');
+    });
+  });
+
+  describe('countPdfPages', () => {
+    it('should not count the page tree root as a page', () => {
+      expect(countPdfPages('<< /Type /Pages /Count 0 >> << /Type /Page >>')).toBe(1);
+    });
+
+    it('should fall back to the page tree count for compressed page objects', () => {
+      expect(countPdfPages('<< /Type /Pages /Kids [3 0 R] /Count 12 >>')).toBe(12);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Content-based PDF inspection for resume uploads
+ * The file extension and MIME type come from the filename, so they say nothing
+ * about what was actually uploaded. This module looks at the bytes instead.
+ * It only relies on web-standard APIs (DecompressionStream) so the resume Edge
+ * Function runs the same checks server-side before a file is accepted into storage.
+ *
+ * Since PDF 1.5 most objects, including every page and any /JavaScript action, can be
+ * packed into compressed object streams (pdfLaTeX does this by default). Object streams
+ * are inflated and scanned together with the raw file; one that cannot be decoded is
+ * treated as malformed rather than skipped, so nothing can hide inside it.
+ */
+
+import { MAX_PDF_PAGES } from "./constants";
+
+export type PdfRejectionReason = "notPdf" | "malformed" | "tooManyPages" | "encrypted" | "javascript";
+
+export interface PdfInspectionResult {
+  valid: boolean;
+  reason?: PdfRejectionReason;
+  pageCount: number;
+}
+
+// The header may be preceded by junk bytes; readers accept it within the first 1KB
+const HEADER_SEARCH_BYTES = 1024;
+const TRAILER_SEARCH_BYTES = 2048;
+// Upper bound on inflated object stream data, so a small file cannot expand without limit
+const MAX_INFLATED_BYTES = 20 * 1024 * 1024;
+
+interface ObjectStream {
+  dictionary: string;
+  data: Uint8Array;
+}
+
+/**
+ * Decode bytes one-to-one into a string so PDF tokens can be matched with regexes
+ */
+const toBinaryString = (bytes: Uint8Array): string => {
+  let result = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    result += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return result;
+};
+
+/**
+ * Expand `#xx` escapes in name objects so `/J#61vaScript` cannot hide `/JavaScript`
+ */
+const decodeNameEscapes = (content: string): string =>
+  content.replace(/\/[^\s/<>[\]()]*#[0-9a-fA-F]{2}[^\s/<>[\]()]*/g, (name) =>
+    name.replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+  );
+
+/**
+ * Locate object streams (/Type /ObjStm) and slice out their raw data
+ * A direct /Length gives the exact end, since compressed data may itself contain the
+ * bytes "endstream"; indirect lengths (/Length 12 0 R) fall back to searching for it
+ */
+const findObjectStreams = (content: string, bytes: Uint8Array): ObjectStream[] => {
+  const streams: ObjectStream[] = [];
+
+  for (const match of content.matchAll(/>>\s*stream(\r\n|\n|\r)/g)) {
+    const streamStart = match.index ?? 0;
+    const objStart = content.lastIndexOf(" obj", streamStart);
+    const dictionary = content.slice(objStart < 0 ? 0 : objStart, streamStart + 2);
+    if (!/\/Type\s*\/ObjStm(?![a-zA-Z])/.test(dictionary)) {
+      continue;
+    }
+
+    const dataStart = streamStart + match[0].length;
+    const length = dictionary.match(/\/Length\s+(\d+)(?=[\s/>])(?!\s+\d+\s+R)/)?.[1];
+    if (length !== undefined && dataStart + Number(length) <= bytes.length) {
+      streams.push({ dictionary, data: bytes.subarray(dataStart, dataStart + Number(length)) });
+      continue;
+    }
+
+    const dataEnd = content.indexOf("endstream", dataStart);
+    if (dataEnd < 0) {
+      continue;
+    }
+
+    // The end-of-line marker before endstream is not part of the data
+    let end = dataEnd;
+    if (content[end - 1] === "\n") end--;
+    if (content[end - 1] === "\r") end--;
+    streams.push({ dictionary, data: bytes.subarray(dataStart, end) });
+  }
+
+  return streams;
+};
+
+/**
+ * Inflate FlateDecode data, giving up (null) on corrupt data or once the limit is passed
+ */
+const inflate = async (data: Uint8Array, limit: number): Promise<Uint8Array | null> => {
+  const decompressor = new DecompressionStream("deflate");
+  const writer = decompressor.writable.getWriter();
+  writer.write(data.slice()).catch(() => undefined);
+  writer.close().catch(() => undefined);
+
+  const reader = decompressor.readable.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      total += value.length;
+      if (total > limit) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(value);
+    }
+  } catch {
+    return null;
+  }
+
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+};
+
+/**
+ * Decoded contents of every object stream, or null if any cannot be decoded
+ * Only FlateDecode is supported; it is the only filter writers use for object streams
+ */
+const inflateObjectStreams = async (content: string, bytes: Uint8Array): Promise<string | null> => {
+  let decoded = "";
+  let budget = MAX_INFLATED_BYTES;
+
+  for (const stream of findObjectStreams(content, bytes)) {
+    const filters = stream.dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/[A-Za-z0-9]+)/)?.[1] ?? "";
+    const names = filters.match(/\/[A-Za-z0-9]+/g) ?? [];
+    if (names.length !== 1 || names[0] !== "/FlateDecode") {
+      return null;
+    }
+
+    const inflated = await inflate(stream.data, budget);
+    if (!inflated) {
+      return null;
+    }
+    budget -= inflated.length;
+    decoded += "\n" + toBinaryString(inflated);
+  }
+
+  return decoded;
+};
+
+/**
+ * Count pages from page objects, falling back to the largest /Count of a page tree
+ * when page objects are packed into compressed object streams
+ */
+export const countPdfPages = (content: string): number => {
+  const pageObjects = content.match(/\/Type\s*\/Page(?![a-zA-Z])/g)?.length ?? 0;
+  const treeCounts = Array.from(content.matchAll(/\/Type\s*\/Pages\b[^>]*?\/Count\s+(\d+)|\/Count\s+(\d+)[^>]*?\/Type\s*\/Pages\b/g))
+    .map((match) => parseInt(match[1] ?? match[2], 10))
+    .filter((count) => !isNaN(count));
+
+  return Math.max(pageObjects, ...treeCounts, 0);
+};
+
+/**
+ * Inspect raw file bytes
+ * Checks run from cheapest to most expensive and stop at the first rejection
+ */
+export const inspectPdf = async (
+  bytes: Uint8Array,
+  maxPages: number = MAX_PDF_PAGES
+): Promise<PdfInspectionResult> => {
+  const header = toBinaryString(bytes.subarray(0, HEADER_SEARCH_BYTES));
+  if (!header.includes("%PDF-")) {
+    return { valid: false, reason: "notPdf", pageCount: 0 };
+  }
+
+  const raw = toBinaryString(bytes);
+  const trailer = raw.slice(-TRAILER_SEARCH_BYTES);
+
+  const hasEof = trailer.includes("%%EOF");
+  const hasXref = /startxref\s+\d+/.test(trailer);
+  const hasObjects = /\d+\s+\d+\s+obj\b/.test(raw) && raw.includes("endobj");
+  if (!hasEof || !hasXref || !hasObjects) {
+    return { valid: false, reason: "malformed", pageCount: 0 };
+  }
+
+  const objectStreams = await inflateObjectStreams(raw, bytes);
+  if (objectStreams === null) {
+    return { valid: false, reason: "malformed", pageCount: 0 };
+  }
+  const content = decodeNameEscapes(raw + objectStreams);
+
+  if (/\/Encrypt(?![a-zA-Z])/.test(content)) {
+    return { valid: false, reason: "encrypted", pageCount: 0 };
+  }
+
+  if (/\/(JavaScript|JS)(?![a-zA-Z])/.test(content)) {
+    return { valid: false, reason: "javascript", pageCount: 0 };
+  }
+
+  const pageCount = countPdfPages(content);
+  if (pageCount === 0) {
+    return { valid: false, reason: "malformed", pageCount };
+  }
+  if (pageCount > maxPages) {
+    return { valid: false, reason: "tooManyPages", pageCount };
+  }
+
+  return { valid: true, pageCount };
+};
+
+/**
+ * Read a File and inspect its contents
+ */
+export async function inspectPdfFile(file: File, maxPages: number = MAX_PDF_PAGES): Promise<PdfInspectionResult> {
+  const buffer = await file.arrayBuffer();
+  return inspectPdf(new Uint8Array(buffer), maxPages);
+}
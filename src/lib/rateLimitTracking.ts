@@ -10,7 +10,7 @@ import { callRpc } from "./supabaseRpc";
 
 export interface RateLimitViolation {
   id: string;
-  violation_type: "email" | "ip" | "client";
+  violation_type: "email" | "ip" | "client" | "phone";
   identifier: string;
   attempt_count: number;
   limit_threshold: number;
@@ -140,6 +140,8 @@ export const formatViolationType = (type: string): string => {
       return "IP Address";
     case "client":
       return "Client-Side";
+    case "phone":
+      return "Phone Number";
     default:
       return type;
   }
@@ -158,6 +160,11 @@ export const formatIdentifier = (identifier: string, type: string): string => {
     return identifier;
   }
 
+  if (type === "phone") {
+    // Show the country code and last 3 digits
+    return identifier.length > 7 ? `${identifier.substring(0, 4)}***${identifier.slice(-3)}` : identifier;
+  }
+
   if (type === "ip") {
     // Mask last octet for IPv4
     const parts = identifier.split(".");
@@ -311,7 +318,7 @@ export interface BlockedIdentifier {
  */
 export async function isIdentifierBlocked(
   identifier: string,
-  violationType: "email" | "ip" | "client"
+  violationType: "email" | "ip" | "client" | "phone"
 ): Promise<boolean> {
   try {
     const { data, error } = await callRpc<boolean>("is_identifier_blocked", {
@@ -339,7 +346,7 @@ export async function isIdentifierBlocked(
  */
 export async function blockIdentifier(
   identifier: string,
-  violationType: "email" | "ip" | "client",
+  violationType: "email" | "ip" | "client" | "phone",
   violationCount: number,
   reason: string,
   blockedBy: string = "system",
@@ -383,7 +390,7 @@ export async function blockIdentifier(
  */
 export async function unblockIdentifier(
   identifier: string,
-  violationType: "email" | "ip" | "client",
+  violationType: "email" | "ip" | "client" | "phone",
   unblockedBy: string = "system"
 ): Promise<boolean> {
   try {
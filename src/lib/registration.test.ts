@@ -0,0 +1,294 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  EMPTY_REGISTRATION,
+  findFirstInvalidStep,
+  getRegistrationSteps,
+  REGISTRATION_STEPS,
+  submitRegistration,
+  validateRegistration,
+  validateRegistrationStep,
+} from './registration';
+import { REGISTRATION_QUESTIONS } from '@/content/registrationQuestions';
+import { supabase } from '@/integrations/supabase/client';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+vi.mock('./logger', () => ({
+  logger: {
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const t = (key: string) => key;
+
+const ADULT_DOB = '1998-04-12';
+const MINOR_DOB = `${new Date().getFullYear() - 15}-01-01`;
+
+const mockInsert = (result: { data: unknown; error: unknown }) => {
+  const single = vi.fn().mockResolvedValue(result);
+  const select = vi.fn(() => ({ single }));
+  const insert = vi.fn(() => ({ select }));
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  vi.mocked(supabase.from).mockReturnValue({ insert } as any);
+  return insert;
+};
+
+describe('registration', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('validateRegistrationStep', () => {
+    it('should require name, email and date of birth on the personal step', () => {
+      const errors = validateRegistrationStep('personal', EMPTY_REGISTRATION, false, t);
+
+      expect(errors.fullName).toBe('registration.errors.fullNameRequired');
+      expect(errors.email).toBe('registration.errors.emailRequired');
+      expect(errors.dateOfBirth).toBe('registration.errors.dateOfBirthRequired');
+    });
+
+    it('should reject a date of birth in the future', () => {
+      const errors = validateRegistrationStep(
+        'personal',
+        { ...EMPTY_REGISTRATION, dateOfBirth: `${new Date().getFullYear() + 1}-01-01` },
+        false,
+        t
+      );
+      expect(errors.dateOfBirth).toBe('registration.errors.dateOfBirthInvalid');
+    });
+
+    it('should pass a valid personal step', () => {
+      const errors = validateRegistrationStep(
+        'personal',
+        { ...EMPTY_REGISTRATION, fullName: 'Jane Wanjiku', email: 'jane@example.com', dateOfBirth: ADULT_DOB },
+        false,
+        t
+      );
+
+      expect(errors).toEqual({});
+    });
+
+    it('should require a LinkedIn profile or resume on the profile step', () => {
+      const errors = validateRegistrationStep('profile', EMPTY_REGISTRATION, false, t);
+      expect(errors.linkedIn).toBe('registration.errors.linkedinOrResumeRequired');
+    });
+
+    it('should accept a resume without a LinkedIn profile', () => {
+      const errors = validateRegistrationStep('profile', EMPTY_REGISTRATION, true, t);
+      expect(errors).toEqual({});
+    });
+
+    it('should reject an invalid LinkedIn profile', () => {
+      const errors = validateRegistrationStep(
+        'profile',
+        { ...EMPTY_REGISTRATION, linkedIn: 'https://example.com/jane' },
+        true,
+        t
+      );
+      expect(errors.linkedIn).toBe('registration.errors.linkedinInvalid');
+    });
+  });
+
+  describe('WhatsApp number', () => {
+    it('should be optional', () => {
+      const errors = validateRegistrationStep('profile', { ...EMPTY_REGISTRATION, whatsapp: '  ' }, true, t);
+      expect(errors).toEqual({});
+    });
+
+    it('should be validated when provided', () => {
+      const errors = validateRegistrationStep('profile', { ...EMPTY_REGISTRATION, whatsapp: '0712345678' }, true, t);
+      expect(errors.whatsapp).toBe('registration.errors.whatsappInvalid');
+    });
+  });
+
+  describe('validateRegistration', () => {
+    it('should collect errors from every step', () => {
+      const errors = validateRegistration(EMPTY_REGISTRATION, false, t);
+      const requiredAnswers = REGISTRATION_QUESTIONS.filter((q) => q.required).map((q) => `answers.${q.id}`);
+      expect(Object.keys(errors).sort()).toEqual([...requiredAnswers, 'dateOfBirth', 'email', 'fullName', 'linkedIn'].sort());
+    });
+  });
+
+  describe('custom questions', () => {
+    const completeAnswers = {
+      track: 'fintech',
+      experience: 'beginner',
+      teamStatus: 'solo',
+      tshirtSize: 'm',
+      dietary: ['vegan'],
+    };
+
+    it('should add a questions step before review', () => {
+      expect(REGISTRATION_STEPS.map((s) => s.id)).toEqual(['personal', 'guardian', 'profile', 'questions', 'review']);
+    });
+
+    it('should require answers to required questions', () => {
+      const errors = validateRegistrationStep('questions', EMPTY_REGISTRATION, false, t);
+      expect(errors['answers.track']).toBe('registration.errors.answerRequired');
+      expect(errors['answers.dietary']).toBeUndefined();
+    });
+
+    it('should pass a complete questions step', () => {
+      const errors = validateRegistrationStep('questions', { ...EMPTY_REGISTRATION, answers: completeAnswers }, false, t);
+      expect(errors).toEqual({});
+    });
+
+    it('should send people back to the questions step for answer errors', () => {
+      const adult = { ...EMPTY_REGISTRATION, dateOfBirth: ADULT_DOB };
+      expect(findFirstInvalidStep({ 'answers.track': 'required' }, adult)).toBe(2);
+      expect(findFirstInvalidStep({ email: 'invalid', 'answers.track': 'required' }, adult)).toBe(0);
+      expect(findFirstInvalidStep({}, adult)).toBe(-1);
+    });
+
+    it('should store sanitized answers as JSON', async () => {
+      const insert = mockInsert({ data: { id: 'reg-3', status: 'confirmed', waitlist_position: null }, error: null });
+
+      await submitRegistration(
+        {
+          ...EMPTY_REGISTRATION,
+          fullName: 'Jane Wanjiku',
+          email: 'jane@example.com',
+          answers: { ...completeAnswers, unknown: 'x', tshirtSize: 'xxxl', dietaryNotes: '  no onions  ' },
+        },
+        null
+      );
+
+      expect(insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          custom_answers: {
+            track: 'fintech',
+            experience: 'beginner',
+            teamStatus: 'solo',
+            dietary: ['vegan'],
+            dietaryNotes: 'no onions',
+          },
+        })
+      );
+    });
+  });
+
+  describe('guardian consent', () => {
+    const minor = {
+      ...EMPTY_REGISTRATION,
+      fullName: 'Baraka Otieno',
+      email: 'baraka@example.com',
+      dateOfBirth: MINOR_DOB,
+    };
+
+    it('should only show the guardian step to minors', () => {
+      expect(getRegistrationSteps(minor).map((s) => s.id)).toContain('guardian');
+      expect(getRegistrationSteps({ ...minor, dateOfBirth: ADULT_DOB }).map((s) => s.id)).not.toContain('guardian');
+    });
+
+    it('should require guardian details from minors', () => {
+      const errors = validateRegistration(minor, true, t);
+      expect(errors.guardianName).toBe('registration.errors.guardianNameRequired');
+      expect(errors.guardianEmail).toBe('registration.errors.guardianEmailRequired');
+      expect(findFirstInvalidStep(errors, minor)).toBe(1);
+    });
+
+    it('should not accept the participant email for the guardian', () => {
+      const errors = validateRegistrationStep(
+        'guardian',
+        { ...minor, guardianName: 'Grace Otieno', guardianEmail: 'Baraka@Example.com' },
+        false,
+        t
+      );
+      expect(errors.guardianEmail).toBe('registration.errors.guardianEmailSameAsParticipant');
+    });
+
+    it('should store guardian details for minors only', async () => {
+      const insert = mockInsert({
+        data: { id: 'reg-4', status: 'confirmed', waitlist_position: null, consent_status: 'pending' },
+        error: null,
+      });
+
+      const result = await submitRegistration(
+        { ...minor, guardianName: 'Grace Otieno', guardianEmail: 'Grace@Example.com' },
+        null
+      );
+
+      expect(result.consentStatus).toBe('pending');
+      expect(insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          date_of_birth: MINOR_DOB,
+          guardian_name: 'Grace Otieno',
+          guardian_email: 'grace@example.com',
+        })
+      );
+    });
+  });
+
+  describe('submitRegistration', () => {
+    it('should insert a normalized registration', async () => {
+      const insert = mockInsert({
+        data: { id: 'reg-1', status: 'confirmed', waitlist_position: null },
+        error: null,
+      });
+
+      const result = await submitRegistration(
+        { ...EMPTY_REGISTRATION, fullName: 'Jane Wanjiku', email: 'Jane@Example.com', dateOfBirth: ADULT_DOB, linkedIn: 'janew', whatsapp: '+254 712 345 678' },
+        'resume.pdf'
+      );
+
+      expect(result).toEqual({
+        success: true,
+        registrationId: 'reg-1',
+        status: 'confirmed',
+        waitlistPosition: null,
+      });
+      expect(supabase.from).toHaveBeenCalledWith('registrations');
+      expect(insert).toHaveBeenCalledWith({
+        full_name: 'Jane Wanjiku',
+        email: 'jane@example.com',
+        linkedin_url: 'https://linkedin.com/in/janew',
+        resume_path: 'resume.pdf',
+        whatsapp_number: '+254712345678',
+        date_of_birth: ADULT_DOB,
+        guardian_name: null,
+        guardian_email: null,
+        custom_answers: {},
+      });
+    });
+
+    it('should return the waitlist position when over capacity', async () => {
+      mockInsert({ data: { id: 'reg-2', status: 'waitlisted', waitlist_position: 3 }, error: null });
+
+      const result = await submitRegistration(
+        { ...EMPTY_REGISTRATION, fullName: 'Jane Wanjiku', email: 'jane@example.com', dateOfBirth: ADULT_DOB },
+        null
+      );
+
+      expect(result.status).toBe('waitlisted');
+      expect(result.waitlistPosition).toBe(3);
+    });
+
+    it('should report duplicate emails', async () => {
+      mockInsert({ data: null, error: { code: '23505', message: 'duplicate key' } });
+
+      const result = await submitRegistration(
+        { ...EMPTY_REGISTRATION, fullName: 'Jane Wanjiku', email: 'jane@example.com', dateOfBirth: ADULT_DOB },
+        null
+      );
+
+      expect(result).toEqual({ success: false, registrationId: null, error: 'duplicate' });
+    });
+
+    it('should report other failures', async () => {
+      mockInsert({ data: null, error: { code: '42501', message: 'permission denied' } });
+
+      const result = await submitRegistration(
+        { ...EMPTY_REGISTRATION, fullName: 'Jane Wanjiku', email: 'jane@example.com', dateOfBirth: ADULT_DOB },
+        null
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('failed');
+    });
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Registration form model and submission helpers
+ * Drives the multi-step registration flow and writes to the registrations table
+ * The edition's custom questions get their own step when any are configured, and
+ * participants under 18 get a guardian step for consent
+ */
+
+import { REGISTRATION_QUESTIONS } from "@/content/registrationQuestions";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  sanitizeCustomAnswers,
+  validateCustomAnswers,
+  type CustomAnswerErrorKey,
+  type CustomAnswers,
+} from "./customQuestions";
+import { requiresGuardianConsent, type ConsentStatus } from "./guardianConsent";
+import { logger } from "./logger";
+import { normalizeWhatsAppNumber, sanitizeInput, validateAndNormalizeLinkedIn } from "./security";
+import { validateField } from "./validation";
+import type { RegistrationStatus } from "./waitlist";
+
+export interface RegistrationFormData {
+  fullName: string;
+  email: string;
+  dateOfBirth: string;
+  guardianName: string;
+  guardianEmail: string;
+  linkedIn: string;
+  whatsapp: string;
+  answers: CustomAnswers;
+}
+
+export type RegistrationField = Exclude<keyof RegistrationFormData, "answers">;
+
+export type RegistrationStepId = "personal" | "guardian" | "profile" | "questions" | "review";
+
+type Translate = (key: string, params?: Record<string, string | number>) => string;
+
+export interface RegistrationStep {
+  id: RegistrationStepId;
+  fields: RegistrationField[];
+  /** Only shown to participants who need guardian consent */
+  minorsOnly?: boolean;
+}
+
+/**
+ * Ordered steps of the registration flow and the fields each one owns
+ */
+export const REGISTRATION_STEPS: RegistrationStep[] = [
+  { id: "personal", fields: ["fullName", "email", "dateOfBirth"] },
+  { id: "guardian", fields: ["guardianName", "guardianEmail"], minorsOnly: true },
+  { id: "profile", fields: ["linkedIn", "whatsapp"] },
+  ...(REGISTRATION_QUESTIONS.length > 0 ? [{ id: "questions" as const, fields: [] }] : []),
+  { id: "review", fields: [] },
+];
+
+/**
+ * Steps that apply to this participant, skipping the guardian step for adults
+ */
+export const getRegistrationSteps = (data: RegistrationFormData): RegistrationStep[] =>
+  REGISTRATION_STEPS.filter((s) => !s.minorsOnly || requiresGuardianConsent(data.dateOfBirth));
+
+export type RegistrationErrors = Partial<
+  Record<RegistrationField | CustomAnswerErrorKey | "resume" | "captcha" | "form", string>
+>;
+
+export const EMPTY_REGISTRATION: RegistrationFormData = {
+  fullName: "",
+  email: "",
+  dateOfBirth: "",
+  guardianName: "",
+  guardianEmail: "",
+  linkedIn: "",
+  whatsapp: "",
+  answers: {},
+};
+
+// Fields that are only validated when filled in
+const OPTIONAL_FIELDS: RegistrationField[] = ["linkedIn", "whatsapp"];
+
+/**
+ * Validate a single field, leaving empty optional fields alone
+ */
+export const validateRegistrationField = (
+  field: RegistrationField,
+  value: string,
+  t: Translate
+): string | undefined => {
+  if (OPTIONAL_FIELDS.includes(field) && !value.trim()) {
+    return undefined;
+  }
+  return validateField(field, value, t);
+};
+
+/**
+ * Validate the fields owned by a single step
+ * The profile step additionally requires either a LinkedIn profile or a resume
+ */
+export const validateRegistrationStep = (
+  stepId: RegistrationStepId,
+  data: RegistrationFormData,
+  hasResume: boolean,
+  t: Translate
+): RegistrationErrors => {
+  const step = REGISTRATION_STEPS.find((s) => s.id === stepId);
+  const errors: RegistrationErrors = {};
+
+  if (!step) {
+    return errors;
+  }
+
+  for (const field of step.fields) {
+    const error = validateRegistrationField(field, data[field], t);
+    if (error) {
+      errors[field] = error;
+    }
+  }
+
+  if (stepId === "profile" && !errors.linkedIn && !data.linkedIn.trim() && !hasResume) {
+    errors.linkedIn = t("registration.errors.linkedinOrResumeRequired");
+  }
+
+  if (
+    stepId === "guardian" &&
+    !errors.guardianEmail &&
+    data.guardianEmail.trim().toLowerCase() === data.email.trim().toLowerCase()
+  ) {
+    errors.guardianEmail = t("registration.errors.guardianEmailSameAsParticipant");
+  }
+
+  if (stepId === "questions") {
+    Object.assign(errors, validateCustomAnswers(REGISTRATION_QUESTIONS, data.answers, t));
+  }
+
+  return errors;
+};
+
+/**
+ * Index of the first step with an error among this participant's steps, or -1
+ */
+export const findFirstInvalidStep = (errors: RegistrationErrors, data: RegistrationFormData): number =>
+  getRegistrationSteps(data).findIndex(
+    (s) =>
+      s.fields.some((f) => errors[f]) ||
+      (s.id === "questions" && Object.keys(errors).some((key) => key.startsWith("answers.")))
+  );
+
+/**
+ * Validate every step that applies to this participant, up to and including review
+ */
+export const validateRegistration = (
+  data: RegistrationFormData,
+  hasResume: boolean,
+  t: Translate
+): RegistrationErrors => {
+  return getRegistrationSteps(data).reduce<RegistrationErrors>(
+    (errors, step) => ({ ...errors, ...validateRegistrationStep(step.id, data, hasResume, t) }),
+    {}
+  );
+};
+
+export interface RegistrationSubmitResult {
+  success: boolean;
+  registrationId: string | null;
+  status?: RegistrationStatus;
+  waitlistPosition?: number | null;
+  consentStatus?: ConsentStatus;
+  error?: "duplicate" | "failed";
+}
+
+// Postgres unique_violation, raised by the unique index on registrations.email
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Insert a registration row
+ * Inputs are sanitized, the LinkedIn profile normalized and the WhatsApp number
+ * stored in E.164 form before writing. Custom answers are stored as JSON.
+ * Guardian details are only kept for minors. The database decides whether the
+ * row is confirmed or waitlisted and whether it is pending guardian consent.
+ */
+export async function submitRegistration(
+  data: RegistrationFormData,
+  resumePath: string | null
+): Promise<RegistrationSubmitResult> {
+  const isMinor = requiresGuardianConsent(data.dateOfBirth);
+
+  try {
+    const { data: row, error } = await supabase
+      .from("registrations")
+      .insert({
+        full_name: sanitizeInput(data.fullName, 100),
+        email: sanitizeInput(data.email, 254).toLowerCase(),
+        linkedin_url: data.linkedIn.trim() ? validateAndNormalizeLinkedIn(data.linkedIn) : null,
+        resume_path: resumePath,
+        whatsapp_number: data.whatsapp.trim() ? normalizeWhatsAppNumber(data.whatsapp) : null,
+        date_of_birth: data.dateOfBirth.trim() || null,
+        guardian_name: isMinor ? sanitizeInput(data.guardianName, 100) : null,
+        guardian_email: isMinor ? sanitizeInput(data.guardianEmail, 254).toLowerCase() : null,
+        custom_answers: sanitizeCustomAnswers(REGISTRATION_QUESTIONS, data.answers),
+      })
+      .select("id, status, waitlist_position, consent_status")
+      .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        return { success: false, registrationId: null, error: "duplicate" };
+      }
+      throw error;
+    }
+
+    return {
+      success: true,
+      registrationId: row?.id ?? null,
+      status: row?.status,
+      waitlistPosition: row?.waitlist_position ?? null,
+      consentStatus: row?.consent_status,
+    };
+  } catch (error) {
+    logger.error(
+      "Registration insert failed",
+      error instanceof Error ? error : new Error(String(error))
+    );
+    return { success: false, registrationId: null, error: "failed" };
+  }
+}
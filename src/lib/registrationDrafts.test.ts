@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildDraftResumeUrl,
+  computeStepDropOff,
+  getDraftToken,
+  getRegistrationFunnel,
+  loadRegistrationDraft,
+  saveRegistrationDraft,
+} from './registrationDrafts';
+import { callRpc } from './supabaseRpc';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+vi.mock('./supabaseRpc', () => ({
+  callRpc: vi.fn(),
+}));
+
+vi.mock('./logger', () => ({
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+describe('registrationDrafts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  describe('getDraftToken', () => {
+    it('should prefer the token from the resume link', () => {
+      localStorage.setItem('registration_draft_token', 'stored');
+      expect(getDraftToken('?draft=from-link')).toBe('from-link');
+    });
+
+    it('should fall back to the token stored on this device', () => {
+      localStorage.setItem('registration_draft_token', 'stored');
+      expect(getDraftToken('')).toBe('stored');
+    });
+  });
+
+  it('should build a resume link to the registration page', () => {
+    expect(buildDraftResumeUrl('abc 123', 'https://example.com')).toBe(
+      'https://example.com/register?draft=abc%20123'
+    );
+  });
+
+  describe('saveRegistrationDraft', () => {
+    const data = {
+      fullName: 'Jane Doe',
+      email: 'jane@example.com',
+      dateOfBirth: '1998-04-12',
+      guardianName: '',
+      guardianEmail: '',
+      linkedIn: '',
+      whatsapp: '',
+      answers: {},
+    };
+
+    it('should save the step and remember the token', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: { resume_token: 'tok-1' }, error: null });
+
+      const token = await saveRegistrationDraft(null, 'profile', data);
+
+      expect(callRpc).toHaveBeenCalledWith('save_registration_draft', {
+        p_resume_token: null,
+        p_step: 'profile',
+        p_data: data,
+      });
+      expect(token).toBe('tok-1');
+      expect(localStorage.getItem('registration_draft_token')).toBe('tok-1');
+    });
+
+    it('should return null when saving fails', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: null, error: new Error('failed') });
+
+      expect(await saveRegistrationDraft('tok-1', 'review', data)).toBeNull();
+    });
+  });
+
+  describe('loadRegistrationDraft', () => {
+    it('should fill missing fields and fall back to the first step', async () => {
+      vi.mocked(callRpc).mockResolvedValue({
+        data: { data: { email: 'jane@example.com' }, last_step: 'unknown' },
+        error: null,
+      });
+
+      const draft = await loadRegistrationDraft('tok-1');
+
+      expect(draft).toEqual({
+        data: {
+          fullName: '',
+          email: 'jane@example.com',
+          dateOfBirth: '',
+          guardianName: '',
+          guardianEmail: '',
+          linkedIn: '',
+          whatsapp: '',
+          answers: {},
+        },
+        stepId: 'personal',
+      });
+    });
+
+    it('should return null for unknown drafts', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: null, error: null });
+
+      expect(await loadRegistrationDraft('missing')).toBeNull();
+    });
+  });
+
+  describe('computeStepDropOff', () => {
+    it('should compute drop-off relative to the previous step', () => {
+      const steps = computeStepDropOff([
+        { step: 'personal', reached: 100 },
+        { step: 'profile', reached: 60 },
+        { step: 'completed', reached: 45 },
+      ]);
+
+      expect(steps).toEqual([
+        { step: 'personal', reached: 100, dropOff: 0, dropOffRate: 0 },
+        { step: 'profile', reached: 60, dropOff: 40, dropOffRate: 40 },
+        { step: 'completed', reached: 45, dropOff: 15, dropOffRate: 25 },
+      ]);
+    });
+  });
+
+  describe('getRegistrationFunnel', () => {
+    it('should order steps and append completions', async () => {
+      vi.mocked(callRpc).mockResolvedValue({
+        data: {
+          started: 10,
+          completed: 4,
+          abandoned: 5,
+          steps: [
+            { step: 'review', reached: 5 },
+            { step: 'personal', reached: 10 },
+          ],
+        },
+        error: null,
+      });
+
+      const funnel = await getRegistrationFunnel();
+
+      expect(funnel.abandoned).toBe(5);
+      expect(funnel.steps.map((s) => [s.step, s.reached])).toEqual([
+        ['personal', 10],
+        ['profile', 0],
+        ['questions', 0],
+        ['review', 5],
+        ['completed', 4],
+      ]);
+    });
+
+    it('should return an empty funnel on error', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: null, error: new Error('forbidden') });
+
+      expect(await getRegistrationFunnel()).toEqual({ started: 0, completed: 0, abandoned: 0, steps: [] });
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Registration draft utilities
+ * Partially completed registrations are autosaved per step under an unguessable
+ * resume token so applicants can continue later from a link. Drafts are only
+ * reachable through database functions keyed by that token; the database also
+ * decides when an idle draft counts as abandoned for the admin funnel.
+ */
+
+import { logger } from "./logger";
+import { safeLocalStorage } from "./polyfills";
+import { REGISTRATION_STEPS, type RegistrationFormData, type RegistrationStepId } from "./registration";
+import { callRpc } from "./supabaseRpc";
+
+const DRAFT_TOKEN_KEY = "registration_draft_token";
+const DRAFT_QUERY_PARAM = "draft";
+
+export interface RegistrationDraft {
+  data: RegistrationFormData;
+  stepId: RegistrationStepId;
+}
+
+export interface StepFunnelEntry {
+  step: RegistrationStepId | "completed";
+  reached: number;
+  dropOff: number;
+  dropOffRate: number;
+}
+
+export interface RegistrationFunnel {
+  started: number;
+  completed: number;
+  abandoned: number;
+  steps: StepFunnelEntry[];
+}
+
+/**
+ * Resume token remembered on this device, if any
+ */
+export const getStoredDraftToken = (): string | null => safeLocalStorage.getItem(DRAFT_TOKEN_KEY);
+
+export const clearStoredDraftToken = (): void => {
+  safeLocalStorage.removeItem(DRAFT_TOKEN_KEY);
+};
+
+/**
+ * Resume token from a `?draft=` query string, falling back to the stored one
+ */
+export const getDraftToken = (search: string): string | null => {
+  const fromUrl = new URLSearchParams(search).get(DRAFT_QUERY_PARAM);
+  return fromUrl?.trim() || getStoredDraftToken();
+};
+
+/**
+ * Shareable link that reopens the registration form at the saved step
+ */
+export const buildDraftResumeUrl = (token: string, origin: string = window.location.origin): string =>
+  `${origin}/register?${DRAFT_QUERY_PARAM}=${encodeURIComponent(token)}`;
+
+/**
+ * Save the form state reached so far
+ * Creates the draft when no token is given; the database keeps the furthest step reached
+ */
+export async function saveRegistrationDraft(
+  token: string | null,
+  stepId: RegistrationStepId,
+  data: RegistrationFormData
+): Promise<string | null> {
+  const { data: result, error } = await callRpc<{ resume_token: string }>("save_registration_draft", {
+    p_resume_token: token,
+    p_step: stepId,
+    p_data: data,
+  });
+
+  if (error || !result?.resume_token) {
+    logger.error("Failed to save registration draft", error ?? new Error("No resume token returned"), { stepId });
+    return null;
+  }
+
+  safeLocalStorage.setItem(DRAFT_TOKEN_KEY, result.resume_token);
+  return result.resume_token;
+}
+
+/**
+ * Load a draft by resume token
+ * Returns null for unknown or already completed drafts
+ */
+export async function loadRegistrationDraft(token: string): Promise<RegistrationDraft | null> {
+  const { data, error } = await callRpc<{ data: Partial<RegistrationFormData>; last_step: string } | null>(
+    "get_registration_draft",
+    { p_resume_token: token }
+  );
+
+  if (error) {
+    logger.error("Failed to load registration draft", error);
+    return null;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  const step = REGISTRATION_STEPS.find((s) => s.id === data.last_step) ?? REGISTRATION_STEPS[0];
+
+  return {
+    data: {
+      fullName: data.data?.fullName ?? "",
+      email: data.data?.email ?? "",
+      dateOfBirth: data.data?.dateOfBirth ?? "",
+      guardianName: data.data?.guardianName ?? "",
+      guardianEmail: data.data?.guardianEmail ?? "",
+      linkedIn: data.data?.linkedIn ?? "",
+      whatsapp: data.data?.whatsapp ?? "",
+      answers: data.data?.answers ?? {},
+    },
+    stepId: step.id,
+  };
+}
+
+/**
+ * Link a draft to the registration it produced so it no longer counts as incomplete
+ */
+export async function completeRegistrationDraft(token: string, registrationId: string): Promise<boolean> {
+  const { error } = await callRpc("complete_registration_draft", {
+    p_resume_token: token,
+    p_registration_id: registrationId,
+  });
+
+  if (error) {
+    logger.error("Failed to complete registration draft", error, { registrationId });
+    return false;
+  }
+
+  clearStoredDraftToken();
+  return true;
+}
+
+/**
+ * Derive per-step drop-off from the number of drafts that reached each step
+ * Counts are in funnel order, ending with completed registrations
+ */
+export const computeStepDropOff = (
+  counts: Array<{ step: StepFunnelEntry["step"]; reached: number }>
+): StepFunnelEntry[] =>
+  counts.map((entry, index) => {
+    const previous = index > 0 ? counts[index - 1].reached : entry.reached;
+    const dropOff = Math.max(0, previous - entry.reached);
+    return {
+      ...entry,
+      dropOff,
+      dropOffRate: previous > 0 ? Math.round((dropOff / previous) * 100) : 0,
+    };
+  });
+
+/**
+ * Get the registration funnel (admin only)
+ */
+export async function getRegistrationFunnel(): Promise<RegistrationFunnel> {
+  const { data, error } = await callRpc<{
+    started: number;
+    completed: number;
+    abandoned: number;
+    steps: Array<{ step: string; reached: number }>;
+  }>("get_registration_funnel", {});
+
+  if (error || !data) {
+    logger.error("Failed to get registration funnel", error ?? new Error("No funnel data returned"));
+    return { started: 0, completed: 0, abandoned: 0, steps: [] };
+  }
+
+  const reachedByStep = new Map((data.steps || []).map((s) => [s.step, s.reached]));
+  const counts = [
+    // The guardian step is skipped by adults, so it would read as a drop-off
+    ...REGISTRATION_STEPS.filter((s) => !s.minorsOnly).map((s) => ({ step: s.id, reached: reachedByStep.get(s.id) ?? 0 })),
+    { step: "completed" as const, reached: data.completed },
+  ];
+
+  return {
+    started: data.started,
+    completed: data.completed,
+    abandoned: data.abandoned,
+    steps: computeStepDropOff(counts),
+  };
+}
@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  computeRetryDelay,
+  encodeUploadMetadata,
+  getStoredUpload,
+  getUploadFingerprint,
+  UPLOAD_CHUNK_SIZE,
+  uploadResumable,
+} from './resumableUpload';
+import { MAX_FILE_SIZE } from './constants';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    auth: {
+      getSession: vi.fn().mockResolvedValue({ data: { session: null } }),
+    },
+  },
+}));
+
+vi.mock('./logger', () => ({
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+const UPLOAD_URL = 'https://storage.example.com/upload/resumable/abc';
+
+/**
+ * Minimal XMLHttpRequest stand-in that answers PATCH requests from a queue
+ */
+const patchResponses: Array<{ status: number; offset?: number }> = [];
+const patchOffsets: string[] = [];
+
+class FakeXhr {
+  status = 0;
+  upload: { onprogress: ((event: { loaded: number }) => void) | null } = { onprogress: null };
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onabort: (() => void) | null = null;
+  ontimeout: (() => void) | null = null;
+  private headers: Record<string, string> = {};
+  private responseOffset: string | null = null;
+
+  open() {}
+  setRequestHeader(key: string, value: string) {
+    this.headers[key] = value;
+  }
+  getResponseHeader(key: string) {
+    return key === 'upload-offset' ? this.responseOffset : null;
+  }
+  abort() {
+    this.onabort?.();
+  }
+  send(chunk: Blob) {
+    patchOffsets.push(this.headers['upload-offset']);
+    const next = patchResponses.shift() ?? { status: 204, offset: Number(this.headers['upload-offset']) + chunk.size };
+    queueMicrotask(() => {
+      if (next.status === 0) {
+        this.onerror?.();
+        return;
+      }
+      this.upload.onprogress?.({ loaded: chunk.size });
+      this.status = next.status;
+      this.responseOffset = next.offset === undefined ? null : String(next.offset);
+      this.onload?.();
+    });
+  }
+}
+
+const makeFile = (size = 10) => new File(['x'.repeat(size)], 'cv.pdf', { type: 'application/pdf', lastModified: 1 });
+
+describe('resumableUpload', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    patchResponses.length = 0;
+    patchOffsets.length = 0;
+    vi.stubGlobal('XMLHttpRequest', FakeXhr);
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should back off exponentially up to a cap', () => {
+    expect([0, 1, 2, 3, 4, 10].map(computeRetryDelay)).toEqual([1000, 2000, 4000, 8000, 16000, 16000]);
+  });
+
+  it('should encode tus metadata as base64 pairs', () => {
+    expect(encodeUploadMetadata({ bucketName: 'resumes', objectName: 'cv.pdf' })).toBe(
+      'bucketName cmVzdW1lcw==,objectName Y3YucGRm'
+    );
+  });
+
+  it('should upload a new file and report progress', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 201, headers: { location: UPLOAD_URL } }));
+    vi.stubGlobal('fetch', fetchMock);
+    const onProgress = vi.fn();
+
+    const result = await uploadResumable({ bucket: 'resumes', file: makeFile(), objectName: 'new.pdf', onProgress });
+
+    expect(result).toEqual({ status: 'completed', objectName: 'new.pdf' });
+    expect(fetchMock.mock.calls[0][1].method).toBe('POST');
+    expect(patchOffsets).toEqual(['0']);
+    expect(onProgress).toHaveBeenLastCalledWith(100);
+    expect(getStoredUpload(getUploadFingerprint('resumes', makeFile()))).toBeNull();
+  });
+
+  it('should continue a stored upload from the server offset', async () => {
+    const file = makeFile();
+    localStorage.setItem(
+      `resumable_upload:${getUploadFingerprint('resumes', file)}`,
+      JSON.stringify({ uploadUrl: UPLOAD_URL, objectName: 'earlier.pdf', createdAt: Date.now() })
+    );
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 200, headers: { 'upload-offset': '4' } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await uploadResumable({ bucket: 'resumes', file, objectName: 'new.pdf' });
+
+    expect(result).toEqual({ status: 'completed', objectName: 'earlier.pdf' });
+    expect(fetchMock.mock.calls[0][1].method).toBe('HEAD');
+    expect(patchOffsets).toEqual(['4']);
+  });
+
+  it('should resume mid-file in chunks smaller than the largest resume', async () => {
+    expect(UPLOAD_CHUNK_SIZE).toBeLessThan(MAX_FILE_SIZE);
+
+    const file = makeFile(3 * UPLOAD_CHUNK_SIZE);
+    const resumeAt = UPLOAD_CHUNK_SIZE + 100;
+    localStorage.setItem(
+      `resumable_upload:${getUploadFingerprint('resumes', file)}`,
+      JSON.stringify({ uploadUrl: UPLOAD_URL, objectName: 'earlier.pdf', createdAt: Date.now() })
+    );
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(new Response(null, { status: 200, headers: { 'upload-offset': String(resumeAt) } }))
+    );
+    const onProgress = vi.fn();
+
+    const result = await uploadResumable({ bucket: 'resumes', file, objectName: 'new.pdf', onProgress });
+
+    expect(result).toEqual({ status: 'completed', objectName: 'earlier.pdf' });
+    expect(patchOffsets).toEqual([String(resumeAt), String(resumeAt + UPLOAD_CHUNK_SIZE)]);
+    expect(onProgress).toHaveBeenNthCalledWith(1, 33);
+    expect(onProgress).toHaveBeenLastCalledWith(100);
+  });
+
+  it('should retry a failed chunk after backing off', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn()
+        .mockResolvedValueOnce(new Response(null, { status: 201, headers: { location: UPLOAD_URL } }))
+        .mockResolvedValue(new Response(null, { status: 200, headers: { 'upload-offset': '0' } }))
+    );
+    patchResponses.push({ status: 0 });
+
+    const pending = uploadResumable({ bucket: 'resumes', file: makeFile(), objectName: 'new.pdf' });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(await pending).toEqual({ status: 'completed', objectName: 'new.pdf' });
+    expect(patchOffsets).toEqual(['0', '0']);
+  });
+
+  it('should give up after the retry limit', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(null, { status: 503 })));
+
+    const pending = uploadResumable({ bucket: 'resumes', file: makeFile(), objectName: 'new.pdf' });
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect((await pending).status).toBe('failed');
+  });
+
+  it('should stop when cancelled', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(null, { status: 503 })));
+    const controller = new AbortController();
+
+    const pending = uploadResumable({
+      bucket: 'resumes',
+      file: makeFile(),
+      objectName: 'new.pdf',
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    expect(await pending).toEqual({ status: 'cancelled', objectName: 'new.pdf' });
+  });
+
+  it('should terminate the upload on the server when cancelled', async () => {
+    const file = makeFile();
+    const fingerprint = getUploadFingerprint('resumes', file);
+    localStorage.setItem(
+      `resumable_upload:${fingerprint}`,
+      JSON.stringify({ uploadUrl: UPLOAD_URL, objectName: 'earlier.pdf', createdAt: Date.now() })
+    );
+    const fetchMock = vi.fn().mockImplementation((_url: string, init: RequestInit) =>
+      Promise.resolve(
+        init.method === 'DELETE'
+          ? new Response(null, { status: 204 })
+          : new Response(null, { status: 200, headers: { 'upload-offset': '4' } })
+      )
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const controller = new AbortController();
+
+    const pending = uploadResumable({ bucket: 'resumes', file, objectName: 'new.pdf', signal: controller.signal });
+    controller.abort();
+
+    expect(await pending).toEqual({ status: 'cancelled', objectName: 'earlier.pdf' });
+    expect(fetchMock).toHaveBeenLastCalledWith(UPLOAD_URL, expect.objectContaining({ method: 'DELETE' }));
+    expect(getStoredUpload(fingerprint)).toBeNull();
+  });
+
+  it('should ignore expired stored uploads', () => {
+    localStorage.setItem(
+      'resumable_upload:key',
+      JSON.stringify({ uploadUrl: UPLOAD_URL, objectName: 'old.pdf', createdAt: 0 })
+    );
+
+    expect(getStoredUpload('key', 25 * 60 * 60 * 1000)).toBeNull();
+    expect(localStorage.getItem('resumable_upload:key')).toBeNull();
+  });
+});
@@ -0,0 +1,354 @@
+/**
+ * Resumable uploads to Supabase Storage
+ * Speaks the tus protocol against the Storage resumable endpoint so large files
+ * survive flaky mobile connections: each chunk is retried with backoff, progress
+ * is reported per byte, and the upload URL is remembered per file so an upload
+ * interrupted by a page reload continues from the last acknowledged offset once
+ * the same file is selected again. Cancelling terminates the upload on the server
+ * (tus DELETE) so the partial object is not kept.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { logger } from "./logger";
+import { safeLocalStorage } from "./polyfills";
+
+const TUS_VERSION = "1.0.0";
+const STORED_UPLOAD_PREFIX = "resumable_upload:";
+
+// Small enough that a resume (MAX_FILE_SIZE is 5MB) spans several chunks, so a
+// dropped connection only costs the chunk in flight
+export const UPLOAD_CHUNK_SIZE = 1024 * 1024;
+export const MAX_UPLOAD_RETRIES = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 16000;
+// Storage keeps unfinished uploads for 24 hours
+const STORED_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type ResumableUploadStatus = "completed" | "cancelled" | "failed";
+
+export interface ResumableUploadResult {
+  status: ResumableUploadStatus;
+  objectName: string;
+  error?: string;
+}
+
+export interface ResumableUploadOptions {
+  bucket: string;
+  file: File;
+  /** Object name for a new upload; a stored upload of the same file keeps its own */
+  objectName: string;
+  onProgress?: (percent: number) => void;
+  signal?: AbortSignal;
+}
+
+interface StoredUpload {
+  uploadUrl: string;
+  objectName: string;
+  createdAt: number;
+}
+
+interface ChunkResponse {
+  status: number;
+  offset: number | null;
+}
+
+interface CreateResponse {
+  status: number;
+  location: string | null;
+}
+
+/**
+ * Identify a file across page reloads
+ */
+export const getUploadFingerprint = (bucket: string, file: File): string =>
+  [bucket, file.name, file.size, file.type, file.lastModified].join(":");
+
+/**
+ * Exponential backoff: 1s, 2s, 4s, ... capped at 16s
+ */
+export const computeRetryDelay = (attempt: number): number =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+
+/**
+ * Encode tus Upload-Metadata as comma-separated `key base64(value)` pairs
+ */
+export const encodeUploadMetadata = (metadata: Record<string, string>): string =>
+  Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(String.fromCharCode(...new TextEncoder().encode(value)))}`)
+    .join(",");
+
+/**
+ * Network failures, server errors, offset conflicts and locks are worth retrying
+ */
+const isRetryableStatus = (status: number): boolean =>
+  status === 0 || status === 409 || status === 423 || status === 429 || status >= 500;
+
+export const getStoredUpload = (fingerprint: string, now: number = Date.now()): StoredUpload | null => {
+  const raw = safeLocalStorage.getItem(STORED_UPLOAD_PREFIX + fingerprint);
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    const stored = JSON.parse(raw) as StoredUpload;
+    if (!stored.uploadUrl || !stored.objectName || now - stored.createdAt > STORED_UPLOAD_TTL_MS) {
+      clearStoredUpload(fingerprint);
+      return null;
+    }
+    return stored;
+  } catch {
+    clearStoredUpload(fingerprint);
+    return null;
+  }
+};
+
+const storeUpload = (fingerprint: string, upload: StoredUpload): void => {
+  safeLocalStorage.setItem(STORED_UPLOAD_PREFIX + fingerprint, JSON.stringify(upload));
+};
+
+export const clearStoredUpload = (fingerprint: string): void => {
+  safeLocalStorage.removeItem(STORED_UPLOAD_PREFIX + fingerprint);
+};
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+
+const parseOffset = (value: string | null): number | null => {
+  if (value === null) return null;
+  const offset = parseInt(value, 10);
+  return isNaN(offset) ? null : offset;
+};
+
+async function getRequestHeaders(): Promise<Record<string, string>> {
+  const apiKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY as string;
+  const { data: { session } } = await supabase.auth.getSession();
+
+  return {
+    apikey: apiKey,
+    authorization: `Bearer ${session?.access_token ?? apiKey}`,
+    "tus-resumable": TUS_VERSION,
+  };
+}
+
+/**
+ * Register a new upload; network failures are reported as status 0 so they can be retried
+ */
+async function createUpload(
+  bucket: string,
+  file: File,
+  objectName: string,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<CreateResponse> {
+  const endpoint = `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`;
+  try {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        ...headers,
+        "upload-length": String(file.size),
+        "upload-metadata": encodeUploadMetadata({
+          bucketName: bucket,
+          objectName,
+          contentType: file.type || "application/octet-stream",
+          cacheControl: "3600",
+        }),
+        "x-upsert": "false",
+      },
+      signal,
+    });
+    return { status: response.status, location: response.headers.get("location") };
+  } catch {
+    return { status: 0, location: null };
+  }
+}
+
+/**
+ * Ask the server how many bytes it already has
+ */
+async function getUploadOffset(uploadUrl: string, headers: Record<string, string>, signal?: AbortSignal): Promise<ChunkResponse> {
+  try {
+    const response = await fetch(uploadUrl, { method: "HEAD", headers, signal });
+    return { status: response.status, offset: parseOffset(response.headers.get("upload-offset")) };
+  } catch {
+    return { status: 0, offset: null };
+  }
+}
+
+/**
+ * Terminate an upload so Storage discards the bytes received so far
+ * Best effort: an upload that cannot be terminated expires with the others
+ */
+async function terminateUpload(uploadUrl: string, headers: Record<string, string>): Promise<void> {
+  try {
+    const response = await fetch(uploadUrl, { method: "DELETE", headers });
+    if (response.status !== 204 && response.status !== 404 && response.status !== 410) {
+      logger.error("Failed to terminate resumable upload", new Error(`Unexpected status ${response.status}`));
+    }
+  } catch (error) {
+    logger.error(
+      "Failed to terminate resumable upload",
+      error instanceof Error ? error : new Error(String(error))
+    );
+  }
+}
+
+/**
+ * PATCH one chunk; XMLHttpRequest because fetch cannot report upload progress
+ */
+function sendChunk(
+  uploadUrl: string,
+  headers: Record<string, string>,
+  offset: number,
+  chunk: Blob,
+  onChunkProgress: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<ChunkResponse> {
+  return new Promise((resolve) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PATCH", uploadUrl);
+    Object.entries(headers).forEach(([key, value]) => xhr.setRequestHeader(key, value));
+    xhr.setRequestHeader("upload-offset", String(offset));
+    xhr.setRequestHeader("content-type", "application/offset+octet-stream");
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    xhr.upload.onprogress = (event) => onChunkProgress(event.loaded);
+    xhr.onload = () => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve({ status: xhr.status, offset: parseOffset(xhr.getResponseHeader("upload-offset")) });
+    };
+    xhr.onerror = xhr.onabort = xhr.ontimeout = () => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve({ status: 0, offset: null });
+    };
+
+    xhr.send(chunk);
+  });
+}
+
+/**
+ * Upload a file, resuming a stored upload of the same file when there is one
+ * Never throws: cancellation and exhausted retries are reported in the result
+ */
+export async function uploadResumable(options: ResumableUploadOptions): Promise<ResumableUploadResult> {
+  const { bucket, file, onProgress, signal } = options;
+  const fingerprint = getUploadFingerprint(bucket, file);
+  const stored = getStoredUpload(fingerprint);
+  const objectName = stored?.objectName ?? options.objectName;
+
+  const reportProgress = (bytes: number) =>
+    onProgress?.(file.size > 0 ? Math.min(100, Math.round((bytes / file.size) * 100)) : 100);
+
+  let uploadUrl = stored?.uploadUrl ?? null;
+  let offset: number | null = null;
+  let attempt = 0;
+  let headers: Record<string, string> | null = null;
+
+  const cancelled = async (): Promise<ResumableUploadResult> => {
+    clearStoredUpload(fingerprint);
+    if (uploadUrl && headers) {
+      await terminateUpload(uploadUrl, headers);
+    }
+    return { status: "cancelled", objectName };
+  };
+
+  // Wait before the next attempt; false once retries are exhausted
+  const retry = async (status: number): Promise<boolean> => {
+    if (!isRetryableStatus(status) || attempt >= MAX_UPLOAD_RETRIES) {
+      logger.error("Resumable upload failed", new Error(`Unexpected status ${status}`), { objectName, attempt });
+      return false;
+    }
+    await wait(computeRetryDelay(attempt++), signal);
+    return true;
+  };
+  const failed = (): ResumableUploadResult => ({ status: "failed", objectName, error: "Upload failed" });
+
+  try {
+    headers = await getRequestHeaders();
+
+    while (true) {
+      if (signal?.aborted) {
+        return cancelled();
+      }
+
+      if (!uploadUrl) {
+        const created = await createUpload(bucket, file, objectName, headers, signal);
+        if (created.status !== 201 || !created.location) {
+          if (signal?.aborted) return cancelled();
+          if (await retry(created.status)) continue;
+          return failed();
+        }
+        uploadUrl = created.location;
+        storeUpload(fingerprint, { uploadUrl, objectName, createdAt: Date.now() });
+        offset = 0;
+      }
+
+      if (offset === null) {
+        const head = await getUploadOffset(uploadUrl, headers, signal);
+        if (head.status === 404 || head.status === 410) {
+          // Expired or unknown upload; start over under the same object name
+          clearStoredUpload(fingerprint);
+          uploadUrl = null;
+          continue;
+        }
+        if (head.offset === null) {
+          if (signal?.aborted) return cancelled();
+          if (await retry(head.status)) continue;
+          return failed();
+        }
+        offset = head.offset;
+      }
+
+      reportProgress(offset);
+      if (offset >= file.size) {
+        clearStoredUpload(fingerprint);
+        return { status: "completed", objectName };
+      }
+
+      const chunkStart: number = offset;
+      const chunk = file.slice(chunkStart, chunkStart + UPLOAD_CHUNK_SIZE);
+      const response = await sendChunk(
+        uploadUrl,
+        headers,
+        chunkStart,
+        chunk,
+        (loaded) => reportProgress(chunkStart + loaded),
+        signal
+      );
+
+      if (response.status === 204 && response.offset !== null) {
+        offset = response.offset;
+        attempt = 0;
+        continue;
+      }
+
+      if (signal?.aborted) {
+        return cancelled();
+      }
+
+      // Re-read the offset after the delay; the server may have kept part of the chunk
+      if (!(await retry(response.status))) {
+        return failed();
+      }
+      offset = null;
+    }
+  } catch (error) {
+    if (signal?.aborted) {
+      return cancelled();
+    }
+    logger.error("Resumable upload error", error instanceof Error ? error : new Error(String(error)), { objectName });
+    return failed();
+  }
+}
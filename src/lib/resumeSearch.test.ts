@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  indexResume,
+  parseSnippet,
+  reindexMissingResumes,
+  searchResumesForSponsors,
+  SNIPPET_HIGHLIGHT_END as END,
+  SNIPPET_HIGHLIGHT_START as START,
+  type SponsorCandidate,
+} from './resumeSearch';
+import type { ConsentStatus } from './guardianConsent';
+import { supabase } from '@/integrations/supabase/client';
+import { callRpc } from './supabaseRpc';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    functions: {
+      invoke: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('./supabaseRpc', () => ({
+  callRpc: vi.fn(),
+}));
+
+vi.mock('./logger', () => ({
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const candidate = (id: string, consent_status: ConsentStatus): SponsorCandidate => ({
+  id,
+  full_name: `Participant ${id}`,
+  linkedin_url: null,
+  resume_snippet: null,
+  rank: 1,
+  consent_status,
+});
+
+describe('resumeSearch', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('parseSnippet', () => {
+    it('should split highlighted terms from surrounding text', () => {
+      expect(parseSnippet(`Built ${START}Flutter${END} apps with ${START}M-Pesa${END} payments`)).toEqual([
+        { text: 'Built ', highlighted: false },
+        { text: 'Flutter', highlighted: true },
+        { text: ' apps with ', highlighted: false },
+        { text: 'M-Pesa', highlighted: true },
+        { text: ' payments', highlighted: false },
+      ]);
+    });
+
+    it('should not highlight past an unbalanced delimiter', () => {
+      expect(parseSnippet(`knows ${START}Dart`)).toEqual([{ text: 'knows Dart', highlighted: false }]);
+    });
+
+    it('should return no segments for an empty snippet', () => {
+      expect(parseSnippet(null)).toEqual([]);
+      expect(parseSnippet('')).toEqual([]);
+    });
+
+    it('should keep markup as plain text', () => {
+      expect(parseSnippet('<b>bold</b>')).toEqual([{ text: '<b>bold</b>', highlighted: false }]);
+    });
+  });
+
+  describe('indexResume', () => {
+    it('should request indexing for the uploaded file', async () => {
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: { indexed: 1 }, error: null });
+
+      expect(await indexResume('123-cv.pdf')).toBe(true);
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('index-resume', {
+        body: { resume_path: '123-cv.pdf' },
+      });
+    });
+
+    it('should report failures', async () => {
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: null, error: new Error('boom') });
+
+      expect(await indexResume('123-cv.pdf')).toBe(false);
+    });
+  });
+
+  describe('reindexMissingResumes', () => {
+    it('should return the number of indexed resumes', async () => {
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: { indexed: 7 }, error: null });
+
+      expect(await reindexMissingResumes()).toBe(7);
+    });
+
+    it('should return null on failure', async () => {
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: null, error: new Error('forbidden') });
+
+      expect(await reindexMissingResumes()).toBeNull();
+    });
+  });
+
+  describe('searchResumesForSponsors', () => {
+    it('should not query the database for a blank search', async () => {
+      expect(await searchResumesForSponsors('   ')).toEqual({ candidates: [], nextOffset: null });
+      expect(callRpc).not.toHaveBeenCalled();
+    });
+
+    it('should page through the sponsor search', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: [], error: null });
+
+      await searchResumesForSponsors(' flutter ', 25);
+
+      expect(callRpc).toHaveBeenCalledWith('search_sponsor_resumes', {
+        p_search: 'flutter',
+        p_limit: 25,
+        p_offset: 25,
+      });
+    });
+
+    it('should drop registrations without guardian consent if the database returns them', async () => {
+      const adult = candidate('adult', 'not_required');
+      const consentedMinor = candidate('minor', 'granted');
+      vi.mocked(callRpc).mockResolvedValue({
+        data: [adult, consentedMinor, candidate('pending-minor', 'pending')],
+        error: null,
+      });
+
+      expect(await searchResumesForSponsors('react', 0, 3)).toEqual({
+        candidates: [adult, consentedMinor],
+        nextOffset: 3,
+      });
+    });
+
+    it('should stop paging once a short page comes back', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: [candidate('adult', 'not_required')], error: null });
+
+      expect((await searchResumesForSponsors('react', 50)).nextOffset).toBeNull();
+    });
+
+    it('should throw when the search fails', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: null, error: new Error('permission denied') });
+
+      await expect(searchResumesForSponsors('react')).rejects.toThrow('permission denied');
+    });
+  });
+});
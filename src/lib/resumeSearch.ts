@@ -0,0 +1,164 @@
+/**
+ * Resume full-text search utilities
+ * Text is extracted from uploaded resumes by the index-resume Edge Function and
+ * stored in resume_texts, keyed by storage path. The full-text registration search
+ * matches against that text and returns a snippet around the best match, so admins
+ * and sponsors can find participants by skills such as "Flutter" or "M-Pesa API".
+ *
+ * Sponsors (the sponsor role, signed in on the admin login page) search from the
+ * sponsor page through search_sponsor_resumes. It returns only names, LinkedIn
+ * profiles and snippets (never contact details) of confirmed registrations, and its
+ * WHERE clause leaves out minors whose guardian has not granted consent, so the
+ * server enforces sponsor shareability. Rows are also checked with
+ * isSponsorShareable, and any that fail are dropped and logged.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { isSponsorShareable, type ConsentStatus } from "./guardianConsent";
+import { logger } from "./logger";
+import { callRpc } from "./supabaseRpc";
+
+export const SPONSOR_PATH = "/sponsor";
+
+export const SPONSOR_SEARCH_PAGE_SIZE = 25;
+
+/** A participant as sponsors see them */
+export interface SponsorCandidate {
+  id: string;
+  full_name: string;
+  linkedin_url: string | null;
+  resume_snippet: string | null;
+  rank: number;
+  consent_status: ConsentStatus;
+}
+
+/** One page of sponsor search results */
+export interface SponsorSearchPage {
+  candidates: SponsorCandidate[];
+  /** Offset of the next page, or null when the search is exhausted */
+  nextOffset: number | null;
+}
+
+/**
+ * Delimiters the search function passes to ts_headline around matched terms
+ * Private-use characters never occur in extracted text, so snippets can be split
+ * into highlighted segments without rendering any markup from the database.
+ */
+export const SNIPPET_HIGHLIGHT_START = "\uE000";
+export const SNIPPET_HIGHLIGHT_END = "\uE001";
+
+export interface SnippetSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Split a search snippet into plain and highlighted segments
+ * Unbalanced delimiters are dropped rather than highlighting the rest of the snippet
+ */
+export const parseSnippet = (snippet: string | null | undefined): SnippetSegment[] => {
+  if (!snippet) {
+    return [];
+  }
+
+  const segments: SnippetSegment[] = [];
+  let rest = snippet;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(SNIPPET_HIGHLIGHT_START);
+    const end = start === -1 ? -1 : rest.indexOf(SNIPPET_HIGHLIGHT_END, start);
+
+    if (start === -1 || end === -1) {
+      segments.push({ text: stripDelimiters(rest), highlighted: false });
+      break;
+    }
+
+    if (start > 0) {
+      segments.push({ text: stripDelimiters(rest.slice(0, start)), highlighted: false });
+    }
+    segments.push({
+      text: stripDelimiters(rest.slice(start + SNIPPET_HIGHLIGHT_START.length, end)),
+      highlighted: true,
+    });
+    rest = rest.slice(end + SNIPPET_HIGHLIGHT_END.length);
+  }
+
+  return segments.filter((segment) => segment.text.length > 0);
+};
+
+const stripDelimiters = (text: string): string =>
+  text.split(SNIPPET_HIGHLIGHT_START).join("").split(SNIPPET_HIGHLIGHT_END).join("");
+
+/**
+ * Ask the server to extract and index the text of an uploaded resume
+ * Indexing is best-effort: a failure only means the resume is missing from search
+ */
+export async function indexResume(resumePath: string): Promise<boolean> {
+  const { error } = await supabase.functions.invoke("index-resume", {
+    body: { resume_path: resumePath },
+  });
+
+  if (error) {
+    logger.error("Failed to index resume", new Error(error.message), { resumePath });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Re-extract text for every stored resume that has not been indexed yet (admin only)
+ * Returns the number of resumes indexed, or null on failure
+ */
+export async function reindexMissingResumes(): Promise<number | null> {
+  const { data, error } = await supabase.functions.invoke("index-resume", {
+    body: { missing_only: true },
+  });
+
+  if (error) {
+    logger.error("Failed to reindex resumes", new Error(error.message));
+    return null;
+  }
+
+  return (data as { indexed?: number } | null)?.indexed ?? 0;
+}
+
+/**
+ * Search resume text as a sponsor, best matches first
+ * Rows that are not sponsor-shareable are dropped, so a page may hold fewer than
+ * `limit` candidates; page on with nextOffset rather than the candidate count.
+ */
+export async function searchResumesForSponsors(
+  query: string,
+  offset: number = 0,
+  limit: number = SPONSOR_SEARCH_PAGE_SIZE
+): Promise<SponsorSearchPage> {
+  const search = query.trim();
+  if (!search) {
+    return { candidates: [], nextOffset: null };
+  }
+
+  const { data, error } = await callRpc<SponsorCandidate[]>("search_sponsor_resumes", {
+    p_search: search,
+    p_limit: limit,
+    p_offset: offset,
+  });
+
+  if (error) {
+    logger.error("Failed to search resumes for sponsors", error);
+    throw error;
+  }
+
+  const rows = data ?? [];
+  const candidates = rows.filter(isSponsorShareable);
+  if (candidates.length < rows.length) {
+    logger.warn("Sponsor search returned registrations that are not sponsor-shareable", {
+      dropped: rows.length - candidates.length,
+    });
+  }
+
+  return {
+    candidates,
+    nextOffset: rows.length === limit ? offset + rows.length : null,
+  };
+}
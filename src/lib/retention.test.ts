@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  RETENTION_ACTIONS,
+  getRetentionCutoff,
+  getRetentionRuns,
+  runRetention,
+  validateRetentionPolicy,
+} from './retention';
+import { supabase } from '@/integrations/supabase/client';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(),
+    functions: {
+      invoke: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('./logger', () => ({
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+describe('retention', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('validateRetentionPolicy', () => {
+    it('should accept a supported action and period', () => {
+      expect(validateRetentionPolicy({ target: 'registrations', action: 'anonymize', retain_days: 730 })).toBeUndefined();
+      expect(validateRetentionPolicy({ target: 'resumes', action: 'delete', retain_days: 365 })).toBeUndefined();
+    });
+
+    it('should reject actions a target does not support', () => {
+      expect(validateRetentionPolicy({ target: 'resumes', action: 'anonymize', retain_days: 365 })).toBe(
+        'adminRetention.errors.invalidAction'
+      );
+    });
+
+    it('should reject fractional and excessive periods', () => {
+      expect(validateRetentionPolicy({ target: 'query_cache', action: 'delete', retain_days: 1.5 })).toBe(
+        'adminRetention.errors.invalidDays'
+      );
+      expect(validateRetentionPolicy({ target: 'query_cache', action: 'delete', retain_days: 5000 })).toBe(
+        'adminRetention.errors.invalidDays'
+      );
+    });
+
+    it('should keep participant data for at least 30 days', () => {
+      expect(validateRetentionPolicy({ target: 'registrations', action: 'delete', retain_days: 7 })).toBe(
+        'adminRetention.errors.tooShort'
+      );
+      expect(validateRetentionPolicy({ target: 'rate_limit_violations', action: 'delete', retain_days: 7 })).toBeUndefined();
+    });
+
+    it('should let drafts go sooner than registrations', () => {
+      expect(validateRetentionPolicy({ target: 'registration_drafts', action: 'delete', retain_days: 7 })).toBeUndefined();
+      expect(validateRetentionPolicy({ target: 'registration_drafts', action: 'delete', retain_days: 3 })).toBe(
+        'adminRetention.errors.tooShort'
+      );
+      expect(validateRetentionPolicy({ target: 'registration_drafts', action: 'anonymize', retain_days: 30 })).toBe(
+        'adminRetention.errors.invalidAction'
+      );
+    });
+
+    it('should default registrations to anonymizing', () => {
+      expect(RETENTION_ACTIONS.registrations[0]).toBe('anonymize');
+    });
+  });
+
+  describe('getRetentionCutoff', () => {
+    const eventEndsAt = '2026-02-22T17:00:00Z';
+
+    it('should subtract the retention period from now for creation-anchored policies', () => {
+      const now = new Date('2026-10-01T00:00:00Z');
+      expect(getRetentionCutoff({ anchor: 'created_at', retain_days: 30 }, eventEndsAt, now)?.toISOString()).toBe(
+        '2026-09-01T00:00:00.000Z'
+      );
+    });
+
+    it('should affect records from before the event once the period after it has passed', () => {
+      const policy = { anchor: 'event_end' as const, retain_days: 365 };
+
+      expect(getRetentionCutoff(policy, eventEndsAt, new Date('2027-02-22T16:59:00Z'))).toBeNull();
+      expect(getRetentionCutoff(policy, eventEndsAt, new Date('2027-02-22T17:00:00Z'))?.toISOString()).toBe(
+        '2026-02-22T17:00:00.000Z'
+      );
+    });
+  });
+
+  describe('runRetention', () => {
+    it('should ask the Edge Function for a dry run', async () => {
+      const run = { id: 'run-1', ran_at: '2026-10-01T00:00:00Z', dry_run: true, triggered_by: 'admin', report: [] };
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: run, error: null } as never);
+
+      const result = await runRetention(true);
+
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('apply-retention', { body: { dry_run: true } });
+      expect(result).toEqual(run);
+    });
+
+    it('should return null when the run fails', async () => {
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({
+        data: null,
+        error: { message: 'Forbidden' },
+      } as never);
+
+      expect(await runRetention(false)).toBeNull();
+    });
+  });
+
+  describe('getRetentionRuns', () => {
+    it('should treat a missing report as empty', async () => {
+      const limit = vi.fn().mockResolvedValue({
+        data: [{ id: 'run-1', ran_at: '2026-10-01T00:00:00Z', dry_run: false, triggered_by: 'schedule', report: null }],
+        error: null,
+      });
+      vi.mocked(supabase.from).mockReturnValue({
+        select: () => ({ order: () => ({ limit }) }),
+      } as never);
+
+      const runs = await getRetentionRuns(5);
+
+      expect(supabase.from).toHaveBeenCalledWith('retention_runs');
+      expect(limit).toHaveBeenCalledWith(5);
+      expect(runs[0].report).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Data retention policies
+ * Admins configure how long each kind of data is kept in retention_policies. The
+ * apply-retention Edge Function runs nightly on a schedule and on demand from the
+ * admin Retention tab, either as a dry run that only counts what would be affected or
+ * for real. Every run is recorded in retention_runs with a per-policy report.
+ *
+ * Each policy counts its period either from when a record was created or from the
+ * event's end in the schedule ("delete resumes 12 months after the event"); the
+ * Edge Function computes cutoffs the same way as getRetentionCutoff. Resumes are
+ * deleted from the resumes bucket along with their extracted text; anonymized
+ * registrations keep their status and answers to choice questions for statistics but
+ * lose everything that identifies the participant. Registration drafts hold partial
+ * personal data (date of birth, guardian email) and are deleted after 30 days by
+ * default, taking their rows out of the registration funnel.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { logger } from "./logger";
+
+export type RetentionTarget = Database["public"]["Enums"]["retention_target"];
+export type RetentionAction = Database["public"]["Enums"]["retention_action"];
+export type RetentionAnchor = Database["public"]["Enums"]["retention_anchor"];
+
+export const RETENTION_ANCHORS: RetentionAnchor[] = ["event_end", "created_at"];
+
+export type RetentionPolicy = Database["public"]["Tables"]["retention_policies"]["Row"];
+
+export interface RetentionReportEntry {
+  policy_id: string;
+  target: RetentionTarget;
+  action: RetentionAction;
+  cutoff: string;
+  affected: number;
+}
+
+export interface RetentionRun {
+  id: string;
+  ran_at: string;
+  dry_run: boolean;
+  triggered_by: "schedule" | "admin";
+  report: RetentionReportEntry[];
+}
+
+/** Actions each kind of data supports, the first being the default */
+export const RETENTION_ACTIONS: Record<RetentionTarget, RetentionAction[]> = {
+  resumes: ["delete"],
+  registrations: ["anonymize", "delete"],
+  registration_drafts: ["delete"],
+  rate_limit_violations: ["delete"],
+  query_cache: ["delete"],
+};
+
+// Shorter periods would remove data for the edition still being run
+const MIN_RETAIN_DAYS: Record<RetentionTarget, number> = {
+  resumes: 30,
+  registrations: 30,
+  registration_drafts: 7,
+  rate_limit_violations: 1,
+  query_cache: 1,
+};
+
+const MAX_RETAIN_DAYS = 3650;
+
+/**
+ * Validate a policy change, returning a translation key for the first problem
+ */
+export const validateRetentionPolicy = (
+  policy: Pick<RetentionPolicy, "target" | "action" | "retain_days">
+): string | undefined => {
+  if (!RETENTION_ACTIONS[policy.target]?.includes(policy.action)) {
+    return "adminRetention.errors.invalidAction";
+  }
+  if (!Number.isInteger(policy.retain_days) || policy.retain_days > MAX_RETAIN_DAYS) {
+    return "adminRetention.errors.invalidDays";
+  }
+  if (policy.retain_days < MIN_RETAIN_DAYS[policy.target]) {
+    return "adminRetention.errors.tooShort";
+  }
+  return undefined;
+};
+
+/**
+ * Records created before the cutoff are affected by a policy
+ * Event-anchored policies affect everything created before the event ended once the
+ * period has passed, and nothing before then (null)
+ */
+export const getRetentionCutoff = (
+  policy: Pick<RetentionPolicy, "anchor" | "retain_days">,
+  eventEndsAt: string,
+  now: Date = new Date()
+): Date | null => {
+  const periodMs = policy.retain_days * 24 * 60 * 60 * 1000;
+  if (policy.anchor === "created_at") {
+    return new Date(now.getTime() - periodMs);
+  }
+
+  const eventEnd = new Date(eventEndsAt);
+  return now.getTime() >= eventEnd.getTime() + periodMs ? eventEnd : null;
+};
+
+/**
+ * Get every retention policy (admin only)
+ */
+export async function getRetentionPolicies(): Promise<RetentionPolicy[]> {
+  const { data, error } = await supabase
+    .from("retention_policies")
+    .select("*")
+    .order("target", { ascending: true });
+
+  if (error) throw error;
+
+  return data ?? [];
+}
+
+/**
+ * Change how long a kind of data is kept, what it is counted from, what happens to it,
+ * or pause the policy (admin only)
+ */
+export async function updateRetentionPolicy(
+  id: string,
+  changes: Partial<Pick<RetentionPolicy, "action" | "anchor" | "retain_days" | "enabled">>
+): Promise<RetentionPolicy | null> {
+  const { data, error } = await supabase
+    .from("retention_policies")
+    .update(changes)
+    .eq("id", id)
+    .select("*")
+    .single();
+
+  if (error) {
+    logger.error("Failed to update retention policy", error, { policyId: id });
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Apply the enabled policies now, or only report what they would affect (admin only)
+ */
+export async function runRetention(dryRun: boolean): Promise<RetentionRun | null> {
+  const { data, error } = await supabase.functions.invoke("apply-retention", {
+    body: { dry_run: dryRun },
+  });
+
+  if (error) {
+    logger.error("Failed to run retention policies", new Error(error.message), { dryRun });
+    return null;
+  }
+
+  return (data as RetentionRun | null) ?? null;
+}
+
+/**
+ * Most recent retention runs, scheduled and manual (admin only)
+ */
+export async function getRetentionRuns(limit: number = 10): Promise<RetentionRun[]> {
+  const { data, error } = await supabase
+    .from("retention_runs")
+    .select("*")
+    .order("ran_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data ?? []).map((run) => ({
+    ...run,
+    triggered_by: run.triggered_by as RetentionRun["triggered_by"],
+    report: (run.report as unknown as RetentionReportEntry[] | null) ?? [],
+  }));
+}
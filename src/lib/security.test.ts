@@ -9,6 +9,8 @@ import {
   isValidFullName,
   isValidWhatsAppNumber,
   normalizeWhatsAppNumber,
+  calculateAge,
+  isValidDateOfBirth,
 } from "./security";
 
 describe("security utilities", () => {
@@ -226,6 +228,11 @@ describe("security utilities", () => {
       expect(normalizeWhatsAppNumber("0712345678")).toBe("+712345678");
     });
 
+    it("should replace a leading zero with the default country code", () => {
+      expect(normalizeWhatsAppNumber("0712 345 678", "254")).toBe("+254712345678");
+      expect(normalizeWhatsAppNumber("254712345678", "254")).toBe("+254712345678");
+    });
+
     it("should preserve + prefix if present", () => {
       expect(normalizeWhatsAppNumber("+254712345678")).toBe("+254712345678");
     });
@@ -240,5 +247,35 @@ describe("security utilities", () => {
       expect(normalizeWhatsAppNumber("   ")).toBeNull();
     });
   });
-});
 
+  describe("calculateAge", () => {
+    const today = new Date(2026, 5, 15);
+
+    it("should count whole years", () => {
+      expect(calculateAge("2008-06-15", today)).toBe(18);
+      expect(calculateAge("2008-06-16", today)).toBe(17);
+      expect(calculateAge("2008-07-01", today)).toBe(17);
+    });
+
+    it("should return null for malformed or impossible dates", () => {
+      expect(calculateAge("15/06/2008", today)).toBeNull();
+      expect(calculateAge("2008-02-30", today)).toBeNull();
+      expect(calculateAge("", today)).toBeNull();
+    });
+  });
+
+  describe("isValidDateOfBirth", () => {
+    const today = new Date(2026, 5, 15);
+
+    it("should accept past dates", () => {
+      expect(isValidDateOfBirth("2010-01-01", today)).toBe(true);
+      expect(isValidDateOfBirth("2026-06-15", today)).toBe(true);
+    });
+
+    it("should reject future and implausibly old dates", () => {
+      expect(isValidDateOfBirth("2026-06-16", today)).toBe(false);
+      expect(isValidDateOfBirth("1890-01-01", today)).toBe(false);
+      expect(isValidDateOfBirth("not a date", today)).toBe(false);
+    });
+  });
+});
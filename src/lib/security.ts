@@ -202,8 +202,9 @@ export const isValidWhatsAppNumber = (phone: string): boolean => {
 /**
  * Normalize WhatsApp number to international format
  * Adds + prefix if missing and ensures proper formatting
+ * A leading 0 is replaced by defaultCountryCode when given, and dropped otherwise
  */
-export const normalizeWhatsAppNumber = (phone: string): string | null => {
+export const normalizeWhatsAppNumber = (phone: string, defaultCountryCode?: string): string | null => {
   if (!phone || phone.trim().length === 0) {
     return null;
   }
@@ -213,10 +214,43 @@ export const normalizeWhatsAppNumber = (phone: string): string | null => {
   // If it doesn't start with +, add it
   if (!cleaned.startsWith('+')) {
     // If it starts with 0, remove it (common in some countries)
-    const withoutLeadingZero = cleaned.startsWith('0') ? cleaned.substring(1) : cleaned;
-    return `+${withoutLeadingZero}`;
+    if (cleaned.startsWith('0')) {
+      return `+${defaultCountryCode ?? ''}${cleaned.substring(1)}`;
+    }
+    return `+${cleaned}`;
   }
 
   return cleaned;
 };
 
+/**
+ * Age in whole years on a given day from a YYYY-MM-DD date of birth
+ * Returns null when the date is malformed or does not exist (e.g. 2010-02-30)
+ */
+export const calculateAge = (dateOfBirth: string, now: Date = new Date()): number | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateOfBirth.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  const hadBirthday =
+    now.getMonth() + 1 > month || (now.getMonth() + 1 === month && now.getDate() >= day);
+  return now.getFullYear() - year - (hadBirthday ? 0 : 1);
+};
+
+const toIsoDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Validate a date of birth: a real date, not in the future and at most 120 years ago
+ */
+export const isValidDateOfBirth = (dateOfBirth: string, now: Date = new Date()): boolean => {
+  const age = calculateAge(dateOfBirth, now);
+  return age !== null && age <= 120 && dateOfBirth.trim() <= toIsoDate(now);
+};
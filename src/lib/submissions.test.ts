@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  canEditSubmission,
+  getMySubmission,
+  isPastDeadline,
+  saveSubmission,
+  validateSubmission,
+  type SubmissionInput,
+} from './submissions';
+import { callRpc } from './supabaseRpc';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+vi.mock('./supabaseRpc', () => ({
+  callRpc: vi.fn(),
+}));
+
+vi.mock('./logger', () => ({
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+const t = (key: string) => key;
+
+const validInput: SubmissionInput = {
+  title: 'Shamba Sense',
+  description: 'Soil moisture alerts for smallholder farmers over SMS.',
+  track: 'agritech',
+  repositoryUrl: 'github.com/team/shamba-sense',
+  demoVideoUrl: 'https://youtu.be/abc123',
+};
+
+const deadline = '2026-02-22T16:00:00+03:00';
+const before = new Date('2026-02-22T12:00:00Z');
+const after = new Date('2026-02-22T14:00:00Z');
+
+describe('submissions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('validateSubmission', () => {
+    it('should accept a complete submission', () => {
+      expect(validateSubmission(validInput, ['agritech'], t)).toEqual({});
+    });
+
+    it('should report each invalid field', () => {
+      const errors = validateSubmission(
+        { title: 'X', description: 'Too short', track: 'space', repositoryUrl: '', demoVideoUrl: 'javascript:alert(1)' },
+        ['agritech'],
+        t
+      );
+
+      expect(errors).toEqual({
+        title: 'submission.errors.titleRequired',
+        description: 'submission.errors.descriptionTooShort',
+        track: 'submission.errors.trackRequired',
+        repositoryUrl: 'submission.errors.urlRequired',
+        demoVideoUrl: 'submission.errors.urlInvalid',
+      });
+    });
+  });
+
+  describe('deadline', () => {
+    it('should compare against the deadline', () => {
+      expect(isPastDeadline(deadline, before)).toBe(false);
+      expect(isPastDeadline(deadline, after)).toBe(true);
+    });
+
+    it('should only allow new submissions after the deadline', () => {
+      expect(canEditSubmission(null, deadline, after)).toBe(true);
+      expect(canEditSubmission({ is_late: false }, deadline, before)).toBe(true);
+      expect(canEditSubmission({ is_late: false }, deadline, after)).toBe(false);
+      expect(canEditSubmission({ is_late: true }, deadline, after)).toBe(false);
+    });
+  });
+
+  describe('getMySubmission', () => {
+    it('should fall back to the scheduled deadline', async () => {
+      vi.mocked(callRpc)
+        .mockResolvedValueOnce({ data: { team_id: null, team_name: null, submission: null }, error: null })
+        .mockResolvedValueOnce({ data: { team_lock_at: deadline, submission_deadline: deadline }, error: null });
+
+      const result = await getMySubmission();
+
+      expect(callRpc).toHaveBeenLastCalledWith('get_event_schedule', {});
+      expect(result.deadline).toBe(deadline);
+      expect(result.team_id).toBeNull();
+    });
+  });
+
+  describe('saveSubmission', () => {
+    it('should send sanitized URLs', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: { submission: { id: 'sub-1', is_late: false } }, error: null });
+
+      const result = await saveSubmission(validInput);
+
+      expect(callRpc).toHaveBeenCalledWith('save_submission', expect.objectContaining({
+        p_repository_url: 'https://github.com/team/shamba-sense',
+        p_demo_video_url: 'https://youtu.be/abc123',
+      }));
+      expect(result.success).toBe(true);
+    });
+
+    it('should not call the database with an invalid URL', async () => {
+      const result = await saveSubmission({ ...validInput, repositoryUrl: 'not a url' });
+
+      expect(result).toEqual({ success: false, error: 'invalid' });
+      expect(callRpc).not.toHaveBeenCalled();
+    });
+
+    it('should pass on the deadline error from the database', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: { error: 'deadlinePassed' }, error: null });
+
+      expect(await saveSubmission(validInput)).toEqual({ success: false, error: 'deadlinePassed' });
+    });
+  });
+});
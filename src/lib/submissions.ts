@@ -0,0 +1,180 @@
+/**
+ * Project submissions
+ * Each team submits one project from the participant portal, and any member can
+ * edit it. The save_submission database function is the source of truth for the
+ * deadline (the schedule's submission_deadline, when hacking ends): before it,
+ * members can edit freely; after it, a team that never submitted can still do so
+ * but the submission is stored with is_late set, and existing submissions can no
+ * longer be changed. Late submissions are flagged for admins rather than rejected.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { getEventSchedule } from "./eventSchedule";
+import { logger } from "./logger";
+import { sanitizeInput, validateAndSanitizeUrl } from "./security";
+import { callRpc } from "./supabaseRpc";
+
+export type ProjectSubmission = Database["public"]["Tables"]["project_submissions"]["Row"];
+
+export interface SubmissionInput {
+  title: string;
+  description: string;
+  track: string;
+  repositoryUrl: string;
+  demoVideoUrl: string;
+}
+
+export type SubmissionField = keyof SubmissionInput;
+
+export interface MySubmission {
+  team_id: string | null;
+  team_name: string | null;
+  submission: ProjectSubmission | null;
+  /** Deadline as enforced by the database */
+  deadline: string;
+}
+
+export type SubmissionError = "noTeam" | "deadlinePassed" | "invalid" | "failed";
+
+export interface SubmissionResult {
+  success: boolean;
+  error?: SubmissionError;
+  submission?: ProjectSubmission;
+}
+
+export interface AdminSubmission extends ProjectSubmission {
+  team_name: string;
+}
+
+export const SUBMISSION_TITLE_MAX_LENGTH = 80;
+export const SUBMISSION_DESCRIPTION_MIN_LENGTH = 20;
+export const SUBMISSION_DESCRIPTION_MAX_LENGTH = 2000;
+
+/**
+ * Whether the submission deadline has passed
+ */
+export const isPastDeadline = (deadline: string, now: Date = new Date()): boolean =>
+  now >= new Date(deadline);
+
+/**
+ * Whether a team can still change what it submitted
+ * Mirrors save_submission: late submissions and anything after the deadline are final
+ */
+export const canEditSubmission = (
+  submission: Pick<ProjectSubmission, "is_late"> | null,
+  deadline: string,
+  now: Date = new Date()
+): boolean => (submission ? !submission.is_late && !isPastDeadline(deadline, now) : true);
+
+/**
+ * Validate a submission, returning a translated message per invalid field
+ */
+export const validateSubmission = (
+  input: SubmissionInput,
+  tracks: string[],
+  t: (key: string, params?: Record<string, string | number>) => string
+): Partial<Record<SubmissionField, string>> => {
+  const errors: Partial<Record<SubmissionField, string>> = {};
+
+  const title = input.title.trim();
+  if (title.length < 3) {
+    errors.title = t("submission.errors.titleRequired");
+  } else if (title.length > SUBMISSION_TITLE_MAX_LENGTH) {
+    errors.title = t("submission.errors.tooLong", { max: SUBMISSION_TITLE_MAX_LENGTH });
+  }
+
+  const description = input.description.trim();
+  if (description.length < SUBMISSION_DESCRIPTION_MIN_LENGTH) {
+    errors.description = t("submission.errors.descriptionTooShort", { min: SUBMISSION_DESCRIPTION_MIN_LENGTH });
+  } else if (description.length > SUBMISSION_DESCRIPTION_MAX_LENGTH) {
+    errors.description = t("submission.errors.tooLong", { max: SUBMISSION_DESCRIPTION_MAX_LENGTH });
+  }
+
+  if (!tracks.includes(input.track)) {
+    errors.track = t("submission.errors.trackRequired");
+  }
+
+  if (!input.repositoryUrl.trim()) {
+    errors.repositoryUrl = t("submission.errors.urlRequired");
+  } else if (!validateAndSanitizeUrl(input.repositoryUrl)) {
+    errors.repositoryUrl = t("submission.errors.urlInvalid");
+  }
+
+  if (!input.demoVideoUrl.trim()) {
+    errors.demoVideoUrl = t("submission.errors.urlRequired");
+  } else if (!validateAndSanitizeUrl(input.demoVideoUrl)) {
+    errors.demoVideoUrl = t("submission.errors.urlInvalid");
+  }
+
+  return errors;
+};
+
+/**
+ * The signed-in participant's team and its submission, if any
+ */
+export async function getMySubmission(): Promise<MySubmission> {
+  const { data, error } = await callRpc<MySubmission>("get_my_submission", {});
+
+  if (error) {
+    logger.error("Failed to load submission", error);
+    throw error;
+  }
+
+  return {
+    team_id: data?.team_id ?? null,
+    team_name: data?.team_name ?? null,
+    submission: data?.submission ?? null,
+    deadline: data?.deadline ?? (await getEventSchedule()).submission_deadline,
+  };
+}
+
+/**
+ * Create or update the team's submission
+ * Input must already pass validateSubmission; URLs are stored in sanitized form
+ */
+export async function saveSubmission(input: SubmissionInput): Promise<SubmissionResult> {
+  const repositoryUrl = validateAndSanitizeUrl(input.repositoryUrl);
+  const demoVideoUrl = validateAndSanitizeUrl(input.demoVideoUrl);
+  if (!repositoryUrl || !demoVideoUrl) {
+    return { success: false, error: "invalid" };
+  }
+
+  const { data, error } = await callRpc<{ submission?: ProjectSubmission; error?: SubmissionError }>(
+    "save_submission",
+    {
+      p_title: sanitizeInput(input.title, SUBMISSION_TITLE_MAX_LENGTH),
+      p_description: sanitizeInput(input.description, SUBMISSION_DESCRIPTION_MAX_LENGTH),
+      p_track: input.track,
+      p_repository_url: repositoryUrl,
+      p_demo_video_url: demoVideoUrl,
+    }
+  );
+
+  if (error || !data) {
+    logger.error("Failed to save submission", error ?? new Error("No submission returned"));
+    return { success: false, error: "failed" };
+  }
+  if (data.error || !data.submission) {
+    return { success: false, error: data.error ?? "failed" };
+  }
+
+  return { success: true, submission: data.submission };
+}
+
+/**
+ * Every submission with its team name, latest first (admin only)
+ */
+export async function getSubmissions(): Promise<AdminSubmission[]> {
+  const { data, error } = await supabase
+    .from("project_submissions")
+    .select("*, teams(name)")
+    .order("submitted_at", { ascending: false });
+
+  if (error) throw error;
+
+  return (data ?? []).map(({ teams, ...submission }) => ({
+    ...submission,
+    team_name: teams?.name ?? "",
+  }));
+}
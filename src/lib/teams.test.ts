@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createTeam,
+  getOpenSpots,
+  getTeamInviteLink,
+  isTeamIncomplete,
+  isTeamsLocked,
+  joinTeam,
+  normalizeInviteCode,
+  validateTeamName,
+  type TeamMember,
+} from './teams';
+import { callRpc } from './supabaseRpc';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {},
+}));
+
+vi.mock('./supabaseRpc', () => ({
+  callRpc: vi.fn(),
+}));
+
+vi.mock('./logger', () => ({
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+const members = (count: number): TeamMember[] =>
+  Array.from({ length: count }, (_, index) => ({
+    registration_id: `reg-${index}`,
+    full_name: `Member ${index}`,
+    joined_at: '2026-01-10T10:00:00Z',
+    is_creator: index === 0,
+  }));
+
+describe('teams', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('validateTeamName', () => {
+    it('should accept ordinary names', () => {
+      expect(validateTeamName('Nairobi Ninjas')).toBeUndefined();
+      expect(validateTeamName("Code & Chai")).toBeUndefined();
+      expect(validateTeamName('Timu ya Kesho 2')).toBeUndefined();
+    });
+
+    it('should reject names that are too short, too long or use other characters', () => {
+      expect(validateTeamName('A')).toBe('nameInvalid');
+      expect(validateTeamName('x'.repeat(41))).toBe('nameInvalid');
+      expect(validateTeamName('Team #1')).toBe('nameInvalid');
+      expect(validateTeamName('Team 🚀')).toBe('nameInvalid');
+    });
+
+    it('should reject names that impersonate organizers', () => {
+      expect(validateTeamName('JengaHacks Official')).toBe('nameRejected');
+      expect(validateTeamName('The Admins')).toBe('nameRejected');
+      expect(validateTeamName('Jenga Hacks Staff')).toBe('nameRejected');
+    });
+
+    it('should not reject names that only contain a blocked term across or inside words', () => {
+      expect(validateTeamName('Dash It')).toBeUndefined();
+      expect(validateTeamName('Cash It Out')).toBeUndefined();
+      expect(validateTeamName('Fresh Italian')).toBeUndefined();
+      expect(validateTeamName('Stafford Devs')).toBeUndefined();
+      expect(validateTeamName('Scunthorpe United')).toBeUndefined();
+      expect(validateTeamName('Push It Real Good')).toBeUndefined();
+    });
+
+    it('should see through common letter swaps', () => {
+      expect(validateTeamName('Sh1t Happens')).toBe('nameRejected');
+      expect(validateTeamName('4dm1n Crew')).toBe('nameRejected');
+      expect(validateTeamName('Sh 1t Show')).toBe('nameRejected');
+    });
+  });
+
+  describe('normalizeInviteCode', () => {
+    it('should accept a code in any case with separators', () => {
+      expect(normalizeInviteCode(' k7p-2qx ')).toBe('K7P2QX');
+    });
+
+    it('should extract the code from an invite link', () => {
+      expect(normalizeInviteCode('https://jengahacks.com/me?team=K7P2QX')).toBe('K7P2QX');
+    });
+
+    it('should reject codes with ambiguous characters or the wrong length', () => {
+      expect(normalizeInviteCode('K7P2Q0')).toBeNull();
+      expect(normalizeInviteCode('K7P2Q')).toBeNull();
+      expect(normalizeInviteCode('')).toBeNull();
+    });
+
+    it('should round-trip invite links', () => {
+      expect(normalizeInviteCode(getTeamInviteLink('K7P2QX', 'https://jengahacks.com'))).toBe('K7P2QX');
+    });
+  });
+
+  describe('team size', () => {
+    it('should count open spots up to the maximum', () => {
+      expect(getOpenSpots({ members: members(1) }, 4)).toBe(3);
+      expect(getOpenSpots({ members: members(5) }, 4)).toBe(0);
+      expect(getOpenSpots({ members: members(4) }, 5)).toBe(1);
+    });
+
+    it('should flag teams below the minimum as incomplete', () => {
+      expect(isTeamIncomplete({ members: members(1) }, 2)).toBe(true);
+      expect(isTeamIncomplete({ members: members(2) }, 2)).toBe(false);
+      expect(isTeamIncomplete({ members: members(2) }, 3)).toBe(true);
+    });
+  });
+
+  describe('isTeamsLocked', () => {
+    it('should lock from the cutoff onwards', () => {
+      const lockAt = '2026-02-21T09:00:00+03:00';
+      const cutoff = new Date(lockAt);
+      expect(isTeamsLocked(lockAt, new Date(cutoff.getTime() - 1))).toBe(false);
+      expect(isTeamsLocked(lockAt, cutoff)).toBe(true);
+    });
+  });
+
+  describe('createTeam', () => {
+    it('should not call the database for a rejected name', async () => {
+      const result = await createTeam('Official Team');
+
+      expect(result).toEqual({ success: false, error: 'nameRejected' });
+      expect(callRpc).not.toHaveBeenCalled();
+    });
+
+    it('should send the normalized name', async () => {
+      const team = { id: 'team-1', name: 'Code & Chai', invite_code: 'K7P2QX', created_at: '', members: members(1) };
+      vi.mocked(callRpc).mockResolvedValue({ data: { team }, error: null });
+
+      const result = await createTeam('  Code   &  Chai ');
+
+      expect(callRpc).toHaveBeenCalledWith('create_team', { p_name: 'Code & Chai' });
+      expect(result).toEqual({ success: true, team });
+    });
+  });
+
+  describe('joinTeam', () => {
+    it('should pass on errors reported by the database', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: { error: 'teamFull' }, error: null });
+
+      const result = await joinTeam('k7p2qx');
+
+      expect(callRpc).toHaveBeenCalledWith('join_team', { p_invite_code: 'K7P2QX' });
+      expect(result).toEqual({ success: false, error: 'teamFull' });
+    });
+
+    it('should report failures when the call errors', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: null, error: new Error('Network error') });
+
+      expect(await joinTeam('K7P2QX')).toEqual({ success: false, error: 'failed' });
+    });
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Hackathon teams
+ * Confirmed participants create a team from the portal and share its invite code or
+ * link; anyone holding it can join until the team reaches the schedule's
+ * team_max_size. Team changes go through database functions that resolve the
+ * caller's registration from the authenticated email (as in participantPortal) and
+ * enforce the size limits, the lock at the schedule's team_lock_at (see
+ * eventSchedule) and the same name rules as validateTeamName. Names are checked here
+ * first so participants see the problem before submitting.
+ *
+ * Admins see every team and the confirmed participants without one, and can rename
+ * teams whose names slip past moderation.
+ */
+
+import { logger } from "./logger";
+import { PORTAL_PATH } from "./participantPortal";
+import { safeSessionStorage } from "./polyfills";
+import { sanitizeInput } from "./security";
+import { callRpc } from "./supabaseRpc";
+
+export const TEAM_NAME_MIN_LENGTH = 2;
+export const TEAM_NAME_MAX_LENGTH = 40;
+
+export interface TeamMember {
+  registration_id: string;
+  full_name: string;
+  email?: string;
+  joined_at: string;
+  is_creator: boolean;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  invite_code: string;
+  created_at: string;
+  members: TeamMember[];
+}
+
+export interface SoloParticipant {
+  id: string;
+  full_name: string;
+  email: string;
+  created_at: string;
+}
+
+export interface TeamOverview {
+  teams: Team[];
+  solo: SoloParticipant[];
+}
+
+export type TeamError =
+  | "nameInvalid"
+  | "nameRejected"
+  | "nameTaken"
+  | "invalidCode"
+  | "teamFull"
+  | "alreadyInTeam"
+  | "notConfirmed"
+  | "locked"
+  | "failed";
+
+export interface TeamResult {
+  success: boolean;
+  error?: TeamError;
+  team?: Team | null;
+}
+
+// Invite codes avoid characters that are easily confused (0/O, 1/I)
+const INVITE_CODE_PATTERN = /^[A-HJ-NP-Z2-9]{6}$/;
+
+const PENDING_INVITE_KEY = "jengahacks_pending_team_invite";
+
+// Names that impersonate organizers or are offensive; matched word by word after undoing
+// common letter swaps, so "Scunthorpe" or "Cash It Out" are not caught by accident
+const BLOCKED_NAME_TERMS = [
+  "admin",
+  "jengahacks",
+  "judge",
+  "moderator",
+  "official",
+  "organiser",
+  "organizer",
+  "staff",
+  "asshole",
+  "bastard",
+  "bitch",
+  "cunt",
+  "fuck",
+  "nazi",
+  "shit",
+  "wanker",
+];
+
+// Endings a blocked term may carry and still count as the same word ("Admins", "Judged")
+const BLOCKED_TERM_SUFFIXES = ["", "s", "es", "er", "ers", "ed", "ing", "y"];
+
+const LOOKALIKES: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "@": "a",
+  $: "s",
+};
+
+/**
+ * Trim a team name and collapse repeated whitespace
+ */
+export const normalizeTeamName = (name: string): string =>
+  sanitizeInput(name, TEAM_NAME_MAX_LENGTH * 2).replace(/\s+/g, " ");
+
+/**
+ * Check a team name before it is sent to the database
+ * Returns the error for the first rule the name breaks
+ */
+export const validateTeamName = (name: string): TeamError | undefined => {
+  const normalized = normalizeTeamName(name);
+  if (
+    normalized.length < TEAM_NAME_MIN_LENGTH ||
+    normalized.length > TEAM_NAME_MAX_LENGTH ||
+    !/^[\p{L}\p{N}\s'&.-]+$/u.test(normalized)
+  ) {
+    return "nameInvalid";
+  }
+
+  const words = normalized
+    .toLowerCase()
+    .replace(/[013457@$]/g, (char) => LOOKALIKES[char])
+    .split(/[^a-z]+/)
+    .filter(Boolean);
+  // Adjacent pairs catch a term split in two, such as "Jenga Hacks" or "Sh it"
+  const candidates = [...words, ...words.slice(1).map((word, index) => words[index] + word)];
+  const isBlocked = (word: string) =>
+    BLOCKED_NAME_TERMS.some(
+      (term) => word.startsWith(term) && BLOCKED_TERM_SUFFIXES.includes(word.slice(term.length))
+    );
+  if (candidates.some(isBlocked)) {
+    return "nameRejected";
+  }
+
+  return undefined;
+};
+
+/**
+ * Extract an invite code from a code or an invite link
+ * Returns null when no valid code is found
+ */
+export const normalizeInviteCode = (input: string): string | null => {
+  const trimmed = input.trim();
+  const fromLink = /[?&]team=([^&#]+)/i.exec(trimmed)?.[1];
+  const code = (fromLink ?? trimmed).replace(/[\s-]/g, "").toUpperCase();
+  return INVITE_CODE_PATTERN.test(code) ? code : null;
+};
+
+/**
+ * Link that opens the portal with the invite code filled in
+ */
+export const getTeamInviteLink = (inviteCode: string, origin: string = window.location.origin): string =>
+  `${origin}${PORTAL_PATH}?team=${encodeURIComponent(inviteCode)}`;
+
+/**
+ * Whether teams can no longer be created, joined or left
+ */
+export const isTeamsLocked = (lockAt: string, now: Date = new Date()): boolean => now >= new Date(lockAt);
+
+export const getOpenSpots = (team: Pick<Team, "members">, maxSize: number): number =>
+  Math.max(0, maxSize - team.members.length);
+
+export const isTeamIncomplete = (team: Pick<Team, "members">, minSize: number): boolean =>
+  team.members.length < minSize;
+
+/**
+ * Remember an invite code across the magic-link sign-in, which always returns to the portal root
+ */
+export const savePendingInvite = (inviteCode: string): void => {
+  safeSessionStorage.setItem(PENDING_INVITE_KEY, inviteCode);
+};
+
+export const takePendingInvite = (): string | null => {
+  const inviteCode = safeSessionStorage.getItem(PENDING_INVITE_KEY);
+  if (inviteCode) {
+    safeSessionStorage.removeItem(PENDING_INVITE_KEY);
+  }
+  return inviteCode;
+};
+
+const toTeamResult = (
+  data: { team?: Team | null; error?: TeamError } | null,
+  error: Error | null,
+  message: string
+): TeamResult => {
+  if (error || !data) {
+    logger.error(message, error ?? new Error("No team response"));
+    return { success: false, error: "failed" };
+  }
+  if (data.error) {
+    return { success: false, error: data.error };
+  }
+  return { success: true, team: data.team ?? null };
+};
+
+/**
+ * Get the signed-in participant's team, or null when they have none
+ */
+export async function getMyTeam(): Promise<Team | null> {
+  const { data, error } = await callRpc<Team | null>("get_my_team", {});
+
+  if (error) {
+    logger.error("Failed to load participant team", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Create a team with the signed-in participant as its first member
+ */
+export async function createTeam(name: string): Promise<TeamResult> {
+  const nameError = validateTeamName(name);
+  if (nameError) {
+    return { success: false, error: nameError };
+  }
+
+  const { data, error } = await callRpc<{ team?: Team; error?: TeamError }>("create_team", {
+    p_name: normalizeTeamName(name),
+  });
+  return toTeamResult(data, error, "Failed to create team");
+}
+
+/**
+ * Join the team behind an invite code or link
+ */
+export async function joinTeam(invite: string): Promise<TeamResult> {
+  const inviteCode = normalizeInviteCode(invite);
+  if (!inviteCode) {
+    return { success: false, error: "invalidCode" };
+  }
+
+  const { data, error } = await callRpc<{ team?: Team; error?: TeamError }>("join_team", {
+    p_invite_code: inviteCode,
+  });
+  return toTeamResult(data, error, "Failed to join team");
+}
+
+/**
+ * Leave the current team; the database removes a team once its last member leaves
+ */
+export async function leaveTeam(): Promise<TeamResult> {
+  const { data, error } = await callRpc<{ error?: TeamError }>("leave_team", {});
+  return toTeamResult(data, error, "Failed to leave team");
+}
+
+/**
+ * Every team with member contact details, and confirmed participants without a team (admin only)
+ */
+export async function getTeamOverview(): Promise<TeamOverview> {
+  const { data, error } = await callRpc<TeamOverview>("get_team_overview", {});
+
+  if (error) throw error;
+
+  return {
+    teams: data?.teams ?? [],
+    solo: data?.solo ?? [],
+  };
+}
+
+/**
+ * Replace a team's name (admin only); the lock does not apply to admins
+ */
+export async function renameTeam(teamId: string, name: string): Promise<TeamResult> {
+  const nameError = validateTeamName(name);
+  if (nameError) {
+    return { success: false, error: nameError };
+  }
+
+  const { data, error } = await callRpc<{ team?: Team; error?: TeamError }>("rename_team", {
+    p_team_id: teamId,
+    p_name: normalizeTeamName(name),
+  });
+  return toTeamResult(data, error, "Failed to rename team");
+}
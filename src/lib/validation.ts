@@ -3,6 +3,8 @@ import {
     isValidPdfMimeType,
     isValidFullName,
     isValidWhatsAppNumber,
+    isValidEmail,
+    isValidDateOfBirth,
     validateAndSanitizeUrl,
     validateAndNormalizeLinkedIn
 } from "./security";
@@ -53,7 +55,34 @@ export const validateField = (name: string, value: string, t: (key: string) => s
             if (!trimmedValue) {
                 return t("registration.errors.emailRequired");
             }
-            if (!trimmedValue.includes("@")) {
+            if (!isValidEmail(trimmedValue)) {
+                return t("registration.errors.emailInvalid");
+            }
+            return undefined;
+
+        case "dateOfBirth":
+            if (!trimmedValue) {
+                return t("registration.errors.dateOfBirthRequired");
+            }
+            if (!isValidDateOfBirth(trimmedValue)) {
+                return t("registration.errors.dateOfBirthInvalid");
+            }
+            return undefined;
+
+        case "guardianName":
+            if (!trimmedValue) {
+                return t("registration.errors.guardianNameRequired");
+            }
+            if (!isValidFullName(trimmedValue)) {
+                return t("registration.errors.fullNameInvalid");
+            }
+            return undefined;
+
+        case "guardianEmail":
+            if (!trimmedValue) {
+                return t("registration.errors.guardianEmailRequired");
+            }
+            if (!isValidEmail(trimmedValue)) {
                 return t("registration.errors.emailInvalid");
             }
             return undefined;
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildSuspiciousVotesCSV,
+  castVote,
+  getVoter,
+  getVotingWindowState,
+  normalizeVoterPhone,
+  sendVoterCode,
+  sortTally,
+} from './voting';
+import { supabase } from '@/integrations/supabase/client';
+import { trackClientRateLimitViolation } from './rateLimitTracking';
+import { callRpc } from './supabaseRpc';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    auth: {
+      signInWithOtp: vi.fn(),
+      verifyOtp: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('./supabaseRpc', () => ({
+  callRpc: vi.fn(),
+}));
+
+vi.mock('./rateLimitTracking', () => ({
+  trackClientRateLimitViolation: vi.fn(),
+}));
+
+vi.mock('./participantPortal', () => ({
+  sendMagicLink: vi.fn(),
+}));
+
+vi.mock('./logger', () => ({
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+describe('voting', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getVotingWindowState', () => {
+    const opensAt = '2026-02-22T17:00:00+03:00';
+    const closesAt = '2026-02-22T19:30:00+03:00';
+
+    it('should be open from the opening time until the closing time', () => {
+      expect(getVotingWindowState(opensAt, closesAt, new Date('2026-02-22T16:59:59+03:00'))).toBe('upcoming');
+      expect(getVotingWindowState(opensAt, closesAt, new Date('2026-02-22T17:00:00+03:00'))).toBe('open');
+      expect(getVotingWindowState(opensAt, closesAt, new Date('2026-02-22T19:30:00+03:00'))).toBe('closed');
+    });
+  });
+
+  describe('normalizeVoterPhone', () => {
+    it('should treat a leading zero as a Kenyan number', () => {
+      expect(normalizeVoterPhone('0712 345 678')).toBe('+254712345678');
+      expect(normalizeVoterPhone('254712345678')).toBe('+254712345678');
+      expect(normalizeVoterPhone('+44 20 7946 0958')).toBe('+442079460958');
+      expect(normalizeVoterPhone('12ab')).toBeNull();
+    });
+  });
+
+  describe('getVoter', () => {
+    it('should prefer the verified phone over the email', () => {
+      expect(getVoter({ phone: '254712345678', email: '' })).toEqual({ method: 'phone', identifier: '+254712345678' });
+      expect(getVoter({ email: 'Jane@Example.com' })).toEqual({ method: 'attendee', identifier: 'jane@example.com' });
+      expect(getVoter(null)).toBeNull();
+    });
+  });
+
+  describe('sendVoterCode', () => {
+    it('should not text blocked numbers', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: true, error: null });
+
+      expect(await sendVoterCode('0712345678')).toEqual({ success: false, error: 'blocked' });
+      expect(callRpc).toHaveBeenCalledWith('is_identifier_blocked', {
+        p_identifier: '+254712345678',
+        p_violation_type: 'phone',
+      });
+      expect(supabase.auth.signInWithOtp).not.toHaveBeenCalled();
+    });
+
+    it('should not text anyone when the block check fails', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: null, error: new Error('timeout') });
+
+      expect(await sendVoterCode('0712345678')).toEqual({ success: false, error: 'failed' });
+      expect(supabase.auth.signInWithOtp).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('castVote', () => {
+    it('should leave blocked voters and violation records to the database', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: { error: 'blocked' }, error: null });
+
+      expect(await castVote('project-1')).toEqual({ success: false, error: 'blocked', retryAfter: undefined });
+      expect(callRpc).toHaveBeenCalledTimes(1);
+      expect(callRpc).toHaveBeenCalledWith('cast_vote', expect.objectContaining({ p_submission_id: 'project-1' }));
+      expect(trackClientRateLimitViolation).not.toHaveBeenCalled();
+    });
+
+    it('should pass on when the voter may try again', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: { error: 'rateLimited', retry_after: 30 }, error: null });
+
+      expect(await castVote('project-1')).toEqual({ success: false, error: 'rateLimited', retryAfter: 30 });
+    });
+  });
+
+  describe('sortTally', () => {
+    it('should order by votes, then title', () => {
+      const entry = (title: string, votes: number) => ({
+        submission_id: title,
+        title,
+        team_name: 'Team',
+        track: 'fintech',
+        votes,
+        flagged: 0,
+      });
+
+      expect(sortTally([entry('B', 3), entry('C', 5), entry('A', 3)]).map((e) => e.title)).toEqual(['C', 'A', 'B']);
+    });
+  });
+
+  describe('buildSuspiciousVotesCSV', () => {
+    it('should quote every cell and join flags', () => {
+      const csv = buildSuspiciousVotesCSV([
+        {
+          id: 'v1',
+          submission_id: 'project-1',
+          project_title: 'Shamba "Smart"',
+          method: 'phone',
+          voter: '+254712345678',
+          ip_hash: 'abc',
+          user_agent: null,
+          flag_reasons: ['sharedIp', 'newPhone'],
+          discarded_at: null,
+          created_at: '2026-02-22T17:05:00Z',
+        },
+      ]);
+
+      const [header, row] = csv.split('\n');
+      expect(header.startsWith('Vote ID,Project')).toBe(true);
+      expect(row).toBe(
+        '"v1","Shamba ""Smart""","phone","+254712345678","abc","","sharedIp; newPhone","","2026-02-22T17:05:00Z"'
+      );
+    });
+  });
+});
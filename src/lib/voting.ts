@@ -0,0 +1,336 @@
+/**
+ * People's Choice voting
+ * While voting is open (the window in event_schedule, returned by get_voting_status
+ * and enforced by cast_vote) the audience votes for one project in the gallery. A
+ * voter is either a verified attendee, signed in with a magic link to the email they
+ * registered and verified, or anyone who confirms a phone number with an SMS code.
+ * cast_vote resolves the voter from the session, so each registration and each phone
+ * number gets exactly one vote, and a vote cannot be changed.
+ *
+ * Votes go through the same defences as registrations. cast_vote refuses blocked
+ * identifiers and records every rejected attempt (blocked, already voted, rate
+ * limited) in rate_limit_violations in the same transaction, so repeat offenders show
+ * up in the Rate Limits tab and can be auto-blocked. Identifiers are also checked
+ * before a sign-in link or SMS code is sent; that check fails closed. SMS rate limits
+ * hit in Supabase Auth are only reported to monitoring. cast_vote throttles by IP and
+ * flags votes that look organized (many votes from one IP, a burst of votes for one
+ * project, a phone that signed up minutes earlier). Flagged votes still count until
+ * an admin discards them, and can be exported for audit.
+ */
+
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { DEFAULT_COUNTRY_CODE } from "./constants";
+import { logger } from "./logger";
+import { sendMagicLink } from "./participantPortal";
+import { trackClientRateLimitViolation } from "./rateLimitTracking";
+import { isValidWhatsAppNumber } from "./security";
+import { callRpc } from "./supabaseRpc";
+
+export type VoteMethod = Database["public"]["Enums"]["vote_method"];
+
+export type VotingWindowState = "upcoming" | "open" | "closed";
+
+/** The signed-in voter, as cast_vote resolves them from the session */
+export interface Voter {
+  method: VoteMethod;
+  identifier: string;
+}
+
+export interface VotingStatus {
+  /** Window as enforced by the database */
+  opens_at: string;
+  closes_at: string;
+  /** False when the session's email has no verified registration */
+  eligible: boolean;
+  /** Submission the voter voted for, if any */
+  vote: string | null;
+}
+
+export type VoteError = "notOpen" | "notEligible" | "alreadyVoted" | "blocked" | "rateLimited" | "failed";
+
+export interface VoteResult {
+  success: boolean;
+  error?: VoteError;
+  /** Seconds until the voter may try again when rate limited */
+  retryAfter?: number;
+}
+
+export type VoterSignInError = "invalidPhone" | "invalidCode" | "blocked" | "rateLimited" | "failed";
+
+export interface VoterSignInResult {
+  success: boolean;
+  error?: VoterSignInError;
+}
+
+export type VoteFlagReason = "sharedIp" | "burst" | "newPhone" | "priorViolations";
+
+export interface VoteTallyEntry {
+  submission_id: string;
+  title: string;
+  team_name: string;
+  track: string;
+  /** Counted votes, excluding discarded ones */
+  votes: number;
+  /** Counted votes that were flagged as suspicious */
+  flagged: number;
+}
+
+export interface SuspiciousVote {
+  id: string;
+  submission_id: string;
+  project_title: string;
+  method: VoteMethod;
+  /** Registered email or phone number */
+  voter: string;
+  ip_hash: string | null;
+  user_agent: string | null;
+  flag_reasons: VoteFlagReason[];
+  discarded_at: string | null;
+  created_at: string;
+}
+
+const VOTER_CODE_LENGTH = 6;
+
+/**
+ * Whether voting has not started, is open or is over
+ */
+export const getVotingWindowState = (
+  opensAt: string,
+  closesAt: string,
+  now: Date = new Date()
+): VotingWindowState => {
+  if (now < new Date(opensAt)) {
+    return "upcoming";
+  }
+  return now < new Date(closesAt) ? "open" : "closed";
+};
+
+/**
+ * Normalize a phone number to E.164, treating a leading 0 as a Kenyan number
+ * Returns null for anything that is not a plausible phone number
+ */
+export const normalizeVoterPhone = (input: string): string | null => {
+  const cleaned = input.trim().replace(/[\s\-()]/g, "");
+  const international = cleaned.startsWith("0") ? `+${DEFAULT_COUNTRY_CODE}${cleaned.substring(1)}` : cleaned;
+
+  if (!isValidWhatsAppNumber(international)) {
+    return null;
+  }
+  return international.startsWith("+") ? international : `+${international}`;
+};
+
+/**
+ * The voter behind a session: phone sign-ins vote by phone, email sign-ins as attendees
+ * Supabase stores phone numbers without the leading +
+ */
+export const getVoter = (user: Pick<User, "email" | "phone"> | null): Voter | null => {
+  if (user?.phone) {
+    return { method: "phone", identifier: `+${user.phone.replace(/^\+/, "")}` };
+  }
+  if (user?.email) {
+    return { method: "attendee", identifier: user.email.toLowerCase() };
+  }
+  return null;
+};
+
+/**
+ * Whether an identifier may sign in to vote
+ * Fails closed: when the check itself fails the voter is told to try again
+ */
+async function checkVoterBlocked(
+  identifier: string,
+  violationType: "email" | "phone"
+): Promise<VoterSignInError | null> {
+  const { data, error } = await callRpc<boolean>("is_identifier_blocked", {
+    p_identifier: identifier,
+    p_violation_type: violationType,
+  });
+
+  if (error) {
+    logger.error("Failed to check if voter is blocked", error, { violationType });
+    return "failed";
+  }
+
+  return data ? "blocked" : null;
+}
+
+/**
+ * Projects by counted votes, then by title
+ */
+export const sortTally = (tally: VoteTallyEntry[]): VoteTallyEntry[] =>
+  [...tally].sort((a, b) => b.votes - a.votes || a.title.localeCompare(b.title));
+
+/**
+ * Share of all counted votes, as a whole percentage
+ */
+export const getVoteShare = (votes: number, total: number): number =>
+  total > 0 ? Math.round((votes / total) * 100) : 0;
+
+/**
+ * Email an attendee a sign-in link that returns to the page they are voting from
+ */
+export async function sendVoterLink(email: string, returnPath: string): Promise<VoterSignInResult> {
+  const normalized = email.trim().toLowerCase();
+
+  const blocked = await checkVoterBlocked(normalized, "email");
+  if (blocked) {
+    return { success: false, error: blocked };
+  }
+
+  return (await sendMagicLink(normalized, window.location.origin, returnPath))
+    ? { success: true }
+    : { success: false, error: "failed" };
+}
+
+/**
+ * Text a one-time code to a phone number
+ */
+export async function sendVoterCode(phone: string): Promise<VoterSignInResult> {
+  const normalized = normalizeVoterPhone(phone);
+  if (!normalized) {
+    return { success: false, error: "invalidPhone" };
+  }
+
+  const blocked = await checkVoterBlocked(normalized, "phone");
+  if (blocked) {
+    return { success: false, error: blocked };
+  }
+
+  const { error } = await supabase.auth.signInWithOtp({ phone: normalized });
+
+  if (error) {
+    if (error.status === 429) {
+      trackClientRateLimitViolation(`vote-code:${normalized}`, 1);
+      return { success: false, error: "rateLimited" };
+    }
+    logger.error("Failed to send voter code", new Error(error.message));
+    return { success: false, error: "failed" };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Confirm the code texted by sendVoterCode, signing the voter in
+ */
+export async function verifyVoterCode(phone: string, code: string): Promise<VoterSignInResult> {
+  const normalized = normalizeVoterPhone(phone);
+  const token = code.replace(/\s/g, "");
+  if (!normalized) {
+    return { success: false, error: "invalidPhone" };
+  }
+  if (!new RegExp(`^\\d{${VOTER_CODE_LENGTH}}$`).test(token)) {
+    return { success: false, error: "invalidCode" };
+  }
+
+  const { error } = await supabase.auth.verifyOtp({ phone: normalized, token, type: "sms" });
+
+  if (error) {
+    return { success: false, error: "invalidCode" };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Voting window, eligibility and current vote for the signed-in voter
+ */
+export async function getVotingStatus(): Promise<VotingStatus> {
+  const { data, error } = await callRpc<VotingStatus>("get_voting_status", {});
+
+  if (error || !data) {
+    const failure = error ?? new Error("No voting status returned");
+    logger.error("Failed to load voting status", failure);
+    throw failure;
+  }
+
+  return data;
+}
+
+/**
+ * Vote for a project as the signed-in voter
+ * cast_vote resolves the voter from the session and records rejected attempts itself
+ */
+export async function castVote(submissionId: string): Promise<VoteResult> {
+  const { data, error } = await callRpc<{ error?: VoteError; retry_after?: number }>("cast_vote", {
+    p_submission_id: submissionId,
+    p_user_agent: typeof navigator !== "undefined" ? navigator.userAgent : null,
+  });
+
+  if (error) {
+    logger.error("Failed to cast vote", error, { submissionId });
+    return { success: false, error: "failed" };
+  }
+  if (data?.error) {
+    return { success: false, error: data.error, retryAfter: data.retry_after };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Live vote counts per project (admin only)
+ */
+export async function getVoteTally(): Promise<VoteTallyEntry[]> {
+  const { data, error } = await callRpc<VoteTallyEntry[]>("get_vote_tally", {});
+
+  if (error) throw error;
+
+  return sortTally(data ?? []);
+}
+
+/**
+ * Flagged votes, newest first, including discarded ones (admin only)
+ */
+export async function getSuspiciousVotes(limit: number = 1000): Promise<SuspiciousVote[]> {
+  const { data, error } = await callRpc<SuspiciousVote[]>("get_suspicious_votes", { p_limit: limit });
+
+  if (error) throw error;
+
+  return data ?? [];
+}
+
+/**
+ * Stop counting a vote; the row is kept for the audit trail (admin only)
+ */
+export async function discardVote(id: string): Promise<void> {
+  const { error } = await callRpc("discard_vote", { p_id: id });
+
+  if (error) throw error;
+}
+
+/**
+ * Suspicious votes as CSV for the audit export
+ */
+export const buildSuspiciousVotesCSV = (votes: SuspiciousVote[]): string => {
+  const headers = [
+    "Vote ID",
+    "Project",
+    "Method",
+    "Voter",
+    "IP Hash",
+    "User Agent",
+    "Flags",
+    "Discarded At",
+    "Cast At",
+  ];
+
+  const rows = votes.map((vote) => [
+    vote.id,
+    vote.project_title,
+    vote.method,
+    vote.voter,
+    vote.ip_hash || "",
+    vote.user_agent || "",
+    vote.flag_reasons.join("; "),
+    vote.discarded_at || "",
+    vote.created_at,
+  ]);
+
+  return [
+    headers.join(","),
+    ...rows.map((row) => row.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(",")),
+  ].join("\n");
+};
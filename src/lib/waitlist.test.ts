@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getWaitlistStatus, withdrawRegistration } from './waitlist';
+import { callRpc } from './supabaseRpc';
+import { REGISTRATION_LIMIT } from './constants';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+vi.mock('./supabaseRpc', () => ({
+  callRpc: vi.fn(),
+}));
+
+vi.mock('./logger', () => ({
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+describe('waitlist', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getWaitlistStatus', () => {
+    it('should compute remaining spots', async () => {
+      vi.mocked(callRpc).mockResolvedValue({
+        data: { capacity: 200, confirmed: 180, waitlisted: 0 },
+        error: null,
+      });
+
+      const status = await getWaitlistStatus();
+
+      expect(callRpc).toHaveBeenCalledWith('get_waitlist_status', {});
+      expect(status.spotsRemaining).toBe(20);
+    });
+
+    it('should never report negative remaining spots', async () => {
+      vi.mocked(callRpc).mockResolvedValue({
+        data: { capacity: 200, confirmed: 205, waitlisted: 12 },
+        error: null,
+      });
+
+      const status = await getWaitlistStatus();
+      expect(status.spotsRemaining).toBe(0);
+    });
+
+    it('should fall back to the configured limit on error', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: null, error: new Error('RPC failed') });
+
+      const status = await getWaitlistStatus();
+
+      expect(status.capacity).toBe(REGISTRATION_LIMIT);
+      expect(status.spotsRemaining).toBe(REGISTRATION_LIMIT);
+    });
+  });
+
+  describe('withdrawRegistration', () => {
+    it('should return the promoted registration', async () => {
+      vi.mocked(callRpc).mockResolvedValue({
+        data: { promoted_registration_id: 'reg-201' },
+        error: null,
+      });
+
+      const result = await withdrawRegistration('reg-1');
+
+      expect(callRpc).toHaveBeenCalledWith('withdraw_registration', { p_registration_id: 'reg-1' });
+      expect(result).toEqual({ success: true, promotedRegistrationId: 'reg-201' });
+    });
+
+    it('should report failure', async () => {
+      vi.mocked(callRpc).mockResolvedValue({ data: null, error: new Error('not found') });
+
+      const result = await withdrawRegistration('missing');
+      expect(result).toEqual({ success: false, promotedRegistrationId: null });
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Waitlist utilities
+ * Registrations past the capacity are stored as waitlisted with a queue position.
+ * Capacity checks and promotions run in the database so concurrent sign-ups
+ * cannot overshoot the limit; these helpers only read state and trigger withdrawals.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { REGISTRATION_LIMIT } from "./constants";
+import { logger } from "./logger";
+import { callRpc } from "./supabaseRpc";
+
+export type RegistrationStatus = "confirmed" | "waitlisted" | "withdrawn";
+
+export interface WaitlistStatus {
+  capacity: number;
+  confirmed: number;
+  waitlisted: number;
+  spotsRemaining: number;
+}
+
+export interface WaitlistEntry {
+  id: string;
+  full_name: string;
+  email: string;
+  waitlist_position: number;
+  created_at: string;
+}
+
+export interface WaitlistPromotion {
+  id: string;
+  registration_id: string;
+  full_name: string;
+  email: string;
+  from_position: number;
+  promoted_at: string;
+  vacated_by: string | null;
+}
+
+export interface WithdrawalResult {
+  success: boolean;
+  promotedRegistrationId: string | null;
+}
+
+/**
+ * Get current capacity usage
+ * Safe to call anonymously: the database function only returns counts
+ */
+export async function getWaitlistStatus(): Promise<WaitlistStatus> {
+  try {
+    const { data, error } = await callRpc<{ capacity: number; confirmed: number; waitlisted: number }>(
+      "get_waitlist_status",
+      {}
+    );
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      throw new Error("No waitlist status returned");
+    }
+
+    return {
+      ...data,
+      spotsRemaining: Math.max(0, data.capacity - data.confirmed),
+    };
+  } catch (error) {
+    logger.error(
+      "Failed to get waitlist status",
+      error instanceof Error ? error : new Error(String(error))
+    );
+    return {
+      capacity: REGISTRATION_LIMIT,
+      confirmed: 0,
+      waitlisted: 0,
+      spotsRemaining: REGISTRATION_LIMIT,
+    };
+  }
+}
+
+/**
+ * Get waitlisted registrations in queue order (admin only)
+ */
+export async function getWaitlist(): Promise<WaitlistEntry[]> {
+  try {
+    const { data, error } = await supabase
+      .from("registrations")
+      .select("id, full_name, email, waitlist_position, created_at")
+      .eq("status", "waitlisted")
+      .order("waitlist_position", { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []) as WaitlistEntry[];
+  } catch (error) {
+    logger.error(
+      "Failed to get waitlist",
+      error instanceof Error ? error : new Error(String(error))
+    );
+    return [];
+  }
+}
+
+/**
+ * Get recent automatic promotions, newest first (admin only)
+ */
+export async function getPromotionHistory(limit: number = 50): Promise<WaitlistPromotion[]> {
+  try {
+    const { data, error } = await supabase
+      .from("waitlist_promotions")
+      .select("id, registration_id, from_position, promoted_at, vacated_by, registrations!waitlist_promotions_registration_id_fkey(full_name, email)")
+      .order("promoted_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).map(({ registrations, ...promotion }) => ({
+      ...promotion,
+      full_name: registrations?.full_name ?? "",
+      email: registrations?.email ?? "",
+    }));
+  } catch (error) {
+    logger.error(
+      "Failed to get promotion history",
+      error instanceof Error ? error : new Error(String(error)),
+      { limit }
+    );
+    return [];
+  }
+}
+
+/**
+ * Withdraw a registration
+ * Withdrawing a confirmed registration promotes the head of the waitlist
+ */
+export async function withdrawRegistration(registrationId: string): Promise<WithdrawalResult> {
+  try {
+    const { data, error } = await callRpc<{ promoted_registration_id: string | null }>(
+      "withdraw_registration",
+      { p_registration_id: registrationId }
+    );
+
+    if (error) {
+      throw error;
+    }
+
+    return {
+      success: true,
+      promotedRegistrationId: data?.promoted_registration_id ?? null,
+    };
+  } catch (error) {
+    logger.error(
+      "Failed to withdraw registration",
+      error instanceof Error ? error : new Error(String(error)),
+      { registrationId }
+    );
+    return { success: false, promotedRegistrationId: null };
+  }
+}
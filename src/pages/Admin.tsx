@@ -1,20 +1,37 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { createObjectURL, revokeObjectURL, safeSessionStorage } from "@/lib/polyfills";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Download, Users, Phone, FileText, Calendar } from "lucide-react";
 import RegistrationsTable from "@/components/admin/RegistrationsTable";
+import AnswerFilters from "@/components/admin/AnswerFilters";
 import AnalyticsDashboard from "@/components/admin/AnalyticsDashboard";
+import JudgingPanel from "@/components/admin/JudgingPanel";
+import JudgeAssignmentsPanel from "@/components/admin/JudgeAssignmentsPanel";
+import VotingPanel from "@/components/admin/VotingPanel";
+import OfficeHoursPanel from "@/components/admin/OfficeHoursPanel";
+import HelpQueuePanel from "@/components/admin/HelpQueuePanel";
+import LogisticsPanel from "@/components/admin/LogisticsPanel";
 import RateLimitViolations from "@/components/admin/RateLimitViolations";
+import RetentionPanel from "@/components/admin/RetentionPanel";
+import SubmissionsPanel from "@/components/admin/SubmissionsPanel";
+import TeamsPanel from "@/components/admin/TeamsPanel";
+import WaitlistPanel from "@/components/admin/WaitlistPanel";
+import LumaImport from "@/components/admin/LumaImport";
 import { toast } from "sonner";
 import { useTranslation } from "@/hooks/useTranslation";
 import { formatDateTimeShort } from "@/lib/i18n";
 import { logger } from "@/lib/logger";
-import { useAdminAuth } from "@/hooks/useAdminAuth";
+import { useRoleAuth } from "@/hooks/useRoleAuth";
 import { getRegistrationStats } from "@/lib/dbQueries";
+import { VERIFICATION_FILTERS, type VerificationFilter } from "@/lib/emailVerification";
+import { getRegistrationFunnel, type StepFunnelEntry } from "@/lib/registrationDrafts";
+import { buildAnswerFilter, formatCustomAnswer, type CustomAnswers } from "@/lib/customQuestions";
+import { REGISTRATION_QUESTIONS } from "@/content/registrationQuestions";
 
 interface RegistrationStats {
   total: number;
@@ -27,12 +44,16 @@ interface RegistrationStats {
   dailyTrends?: Array<{ date: string; count: number }>;
   hourlyDistribution?: Array<{ hour: number; count: number }>;
   incompleteCount: number;
+  stepFunnel?: StepFunnelEntry[];
 }
 
 const Admin = () => {
   const navigate = useNavigate();
   const { t } = useTranslation();
-  const { user, isAdmin, isLoading: authLoading, signOut } = useAdminAuth();
+  const { user, hasRole: isAdmin, isLoading: authLoading, signOut } = useRoleAuth("admin");
+  const [verificationFilter, setVerificationFilter] = useState<VerificationFilter>("all");
+  const [answerSelections, setAnswerSelections] = useState<Record<string, string>>({});
+  const answerFilter = useMemo(() => buildAnswerFilter(REGISTRATION_QUESTIONS, answerSelections), [answerSelections]);
   const [stats, setStats] = useState<RegistrationStats>({
     total: 0,
     withLinkedIn: 0,
@@ -44,36 +65,38 @@ const Admin = () => {
     dailyTrends: [],
     hourlyDistribution: [],
     incompleteCount: 0,
+    stepFunnel: [],
   });
 
   useEffect(() => {
     checkAuth();
     loadStats();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [verificationFilter]);
 
   const checkAuth = async () => {
-    // Auth is handled by useAdminAuth hook
+    // Auth is handled by useRoleAuth hook
     // This function is kept for compatibility but doesn't need to do anything
-    // as useAdminAuth already handles authentication
+    // as useRoleAuth already handles authentication
   };
 
   const loadStats = async () => {
     try {
       // Use optimized database function for stats
-      const stats = await getRegistrationStats();
+      const [stats, funnel] = await Promise.all([getRegistrationStats(verificationFilter), getRegistrationFunnel()]);
 
       const calculatedStats: RegistrationStats = {
         total: stats.total,
         withLinkedIn: stats.withLinkedIn,
-        withWhatsApp: 0, // whatsapp_number column doesn't exist in current schema
+        withWhatsApp: stats.withWhatsApp,
         withResume: stats.withResume,
         today: stats.today,
         thisWeek: stats.thisWeek,
         thisMonth: stats.thisMonth,
         dailyTrends: stats.dailyTrends || [],
         hourlyDistribution: stats.hourlyDistribution || [],
-        incompleteCount: 0,
+        incompleteCount: funnel.abandoned,
+        stepFunnel: funnel.steps,
       };
 
       setStats(calculatedStats);
@@ -93,12 +116,24 @@ const Admin = () => {
       let hasMore = true;
 
       while (hasMore) {
-        const { data: registrations, error } = await supabase
+        let query = supabase
           .from("registrations")
-          .select("id, full_name, email, linkedin_url, resume_path, created_at")
+          .select("id, full_name, email, whatsapp_number, linkedin_url, resume_path, created_at, verified_at, custom_answers")
           .order("created_at", { ascending: false })
           .range(offset, offset + limit - 1);
 
+        if (verificationFilter === "verified") {
+          query = query.not("verified_at", "is", null);
+        } else if (verificationFilter === "unverified") {
+          query = query.is("verified_at", null);
+        }
+
+        if (answerFilter) {
+          query = query.contains("custom_answers", answerFilter);
+        }
+
+        const { data: registrations, error } = await query;
+
         if (error) throw error;
 
         if (registrations && registrations.length > 0) {
@@ -122,22 +157,28 @@ const Admin = () => {
         "ID",
         t("registration.fullName"),
         t("registration.email"),
+        t("registration.whatsapp"),
         t("registration.linkedin"),
         t("adminTable.resume"),
         t("adminTable.date"),
+        t("adminTable.verifiedAt"),
+        ...REGISTRATION_QUESTIONS.map((q) => t(q.labelKey)),
       ];
       const rows = registrations.map((r) => [
         r.id,
         r.full_name,
         r.email,
+        r.whatsapp_number || "",
         r.linkedin_url || "",
         r.resume_path ? t("common.yes") : t("common.no"),
         formatDateTimeShort(r.created_at),
+        r.verified_at ? formatDateTimeShort(r.verified_at) : "",
+        ...REGISTRATION_QUESTIONS.map((q) => formatCustomAnswer(q, (r.custom_answers as CustomAnswers | null)?.[q.id], t)),
       ]);
 
       const csvContent = [
         headers.join(","),
-        ...rows.map((row) => row.map((cell) => `"${cell}"`).join(",")),
+        ...rows.map((row) => row.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(",")),
       ].join("\n");
 
       // Download CSV
@@ -179,7 +220,7 @@ const Admin = () => {
 
   return (
     <div className="min-h-screen bg-background">
-      <header className="border-b border-border bg-card" role="banner">
+      <header className="border-b border-border bg-card print:hidden" role="banner">
         <div className="container mx-auto px-4 py-4">
           <div className="flex items-center justify-between">
             <div>
@@ -189,6 +230,21 @@ const Admin = () => {
               </p>
             </div>
             <nav className="flex gap-2" aria-label="Admin actions">
+              <Select
+                value={verificationFilter}
+                onValueChange={(value) => setVerificationFilter(value as VerificationFilter)}
+              >
+                <SelectTrigger className="w-[180px]" aria-label={t("admin.verificationFilter")}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VERIFICATION_FILTERS.map((filter) => (
+                    <SelectItem key={filter} value={filter}>
+                      {t(`admin.verificationFilters.${filter}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Button onClick={exportToCSV} variant="outline" aria-label="Export registrations to CSV">
                 <Download className="mr-2 h-4 w-4" aria-hidden="true" />
                 {t("admin.exportCSV")}
@@ -207,7 +263,7 @@ const Admin = () => {
 
       <main className="container mx-auto px-4 py-8" role="main" aria-label="Admin dashboard">
         {/* Stats Cards */}
-        <section className="mb-8 grid gap-4 md:grid-cols-2 lg:grid-cols-4" aria-label="Registration statistics">
+        <section className="mb-8 grid gap-4 md:grid-cols-2 lg:grid-cols-4 print:hidden" aria-label="Registration statistics">
           <Card role="article" aria-label={`Total registrations: ${stats.total}`}>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">{t("admin.totalRegistrations")}</CardTitle>
@@ -266,23 +322,79 @@ const Admin = () => {
         {/* Main Content Tabs */}
         <section aria-label="Admin dashboard content">
           <Tabs defaultValue="registrations" className="space-y-4">
-            <TabsList role="tablist" aria-label="Dashboard sections">
+            <TabsList className="print:hidden" role="tablist" aria-label="Dashboard sections">
               <TabsTrigger value="registrations" role="tab" aria-controls="registrations-panel">{t("admin.registrations")}</TabsTrigger>
+              <TabsTrigger value="teams" role="tab" aria-controls="teams-panel">{t("admin.teams")}</TabsTrigger>
+              <TabsTrigger value="submissions" role="tab" aria-controls="submissions-panel">{t("admin.submissions")}</TabsTrigger>
+              <TabsTrigger value="judging" role="tab" aria-controls="judging-panel">{t("admin.judging")}</TabsTrigger>
+              <TabsTrigger value="judgeAssignments" role="tab" aria-controls="judgeAssignments-panel">{t("admin.judgeAssignments")}</TabsTrigger>
+              <TabsTrigger value="voting" role="tab" aria-controls="voting-panel">{t("admin.voting")}</TabsTrigger>
+              <TabsTrigger value="officeHours" role="tab" aria-controls="officeHours-panel">{t("admin.officeHours")}</TabsTrigger>
+              <TabsTrigger value="helpQueue" role="tab" aria-controls="helpQueue-panel">{t("admin.helpQueue")}</TabsTrigger>
+              <TabsTrigger value="waitlist" role="tab" aria-controls="waitlist-panel">{t("admin.waitlist")}</TabsTrigger>
               <TabsTrigger value="analytics" role="tab" aria-controls="analytics-panel">{t("admin.analytics")}</TabsTrigger>
+              <TabsTrigger value="logistics" role="tab" aria-controls="logistics-panel">{t("admin.logistics")}</TabsTrigger>
               <TabsTrigger value="rateLimits" role="tab" aria-controls="rateLimits-panel">{t("admin.rateLimits")}</TabsTrigger>
+              <TabsTrigger value="retention" role="tab" aria-controls="retention-panel">{t("admin.retention")}</TabsTrigger>
+              <TabsTrigger value="import" role="tab" aria-controls="import-panel">{t("admin.import")}</TabsTrigger>
             </TabsList>
 
             <TabsContent value="registrations" className="space-y-4" id="registrations-panel" role="tabpanel" aria-labelledby="registrations-tab">
-              <RegistrationsTable onRefresh={loadStats} />
+              <AnswerFilters questions={REGISTRATION_QUESTIONS} value={answerSelections} onChange={setAnswerSelections} />
+              <RegistrationsTable onRefresh={loadStats} answerFilter={answerFilter} />
+            </TabsContent>
+
+            <TabsContent value="teams" className="space-y-4" id="teams-panel" role="tabpanel" aria-labelledby="teams-tab">
+              <TeamsPanel />
+            </TabsContent>
+
+            <TabsContent value="submissions" className="space-y-4" id="submissions-panel" role="tabpanel" aria-labelledby="submissions-tab">
+              <SubmissionsPanel />
+            </TabsContent>
+
+            <TabsContent value="judging" className="space-y-4" id="judging-panel" role="tabpanel" aria-labelledby="judging-tab">
+              <JudgingPanel />
+            </TabsContent>
+
+            <TabsContent value="judgeAssignments" className="space-y-4" id="judgeAssignments-panel" role="tabpanel" aria-labelledby="judgeAssignments-tab">
+              <JudgeAssignmentsPanel />
+            </TabsContent>
+
+            <TabsContent value="voting" className="space-y-4" id="voting-panel" role="tabpanel" aria-labelledby="voting-tab">
+              <VotingPanel />
+            </TabsContent>
+
+            <TabsContent value="officeHours" className="space-y-4" id="officeHours-panel" role="tabpanel" aria-labelledby="officeHours-tab">
+              <OfficeHoursPanel />
+            </TabsContent>
+
+            <TabsContent value="helpQueue" className="space-y-4" id="helpQueue-panel" role="tabpanel" aria-labelledby="helpQueue-tab">
+              <HelpQueuePanel />
+            </TabsContent>
+
+            <TabsContent value="waitlist" className="space-y-4" id="waitlist-panel" role="tabpanel" aria-labelledby="waitlist-tab">
+              <WaitlistPanel />
             </TabsContent>
 
             <TabsContent value="analytics" className="space-y-4" id="analytics-panel" role="tabpanel" aria-labelledby="analytics-tab">
               <AnalyticsDashboard stats={stats} />
             </TabsContent>
 
+            <TabsContent value="logistics" className="space-y-4" id="logistics-panel" role="tabpanel" aria-labelledby="logistics-tab">
+              <LogisticsPanel />
+            </TabsContent>
+
             <TabsContent value="rateLimits" className="space-y-4" id="rateLimits-panel" role="tabpanel" aria-labelledby="rateLimits-tab">
               <RateLimitViolations />
             </TabsContent>
+
+            <TabsContent value="retention" className="space-y-4" id="retention-panel" role="tabpanel" aria-labelledby="retention-tab">
+              <RetentionPanel />
+            </TabsContent>
+
+            <TabsContent value="import" className="space-y-4" id="import-panel" role="tabpanel" aria-labelledby="import-tab">
+              <LumaImport onImported={loadStats} />
+            </TabsContent>
           </Tabs>
         </section>
       </main>
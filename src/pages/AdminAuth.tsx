@@ -8,14 +8,31 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { toast } from "sonner";
 import { useTranslation } from "@/hooks/useTranslation";
 import { logger } from "@/lib/logger";
+import { JUDGE_PATH } from "@/lib/judging";
+import { MENTOR_PATH } from "@/lib/officeHours";
+import { SPONSOR_PATH } from "@/lib/resumeSearch";
+import type { Database } from "@/integrations/supabase/types";
 import { z } from "zod";
 import { Lock, Mail, ArrowLeft, Eye, EyeOff } from "lucide-react";
 
+type AppRole = Database["public"]["Enums"]["app_role"];
+
 const loginSchema = z.object({
   email: z.string().email("Invalid email address"),
   password: z.string().min(6, "Password must be at least 6 characters"),
 });
 
+// Judges and mentors sign in here too, but only get access to their own page
+const STAFF_ROLES: AppRole[] = ["admin", "judge", "mentor", "sponsor"];
+
+const getHomePath = (roles: { role: AppRole }[] | null): string | null => {
+  if (roles?.some(({ role }) => role === "admin")) return "/admin";
+  if (roles?.some(({ role }) => role === "judge")) return JUDGE_PATH;
+  if (roles?.some(({ role }) => role === "mentor")) return MENTOR_PATH;
+  if (roles?.some(({ role }) => role === "sponsor")) return SPONSOR_PATH;
+  return null;
+};
+
 const AdminAuth = () => {
   const navigate = useNavigate();
   const { t } = useTranslation();
@@ -36,10 +53,11 @@ const AdminAuth = () => {
             .from("user_roles")
             .select("role")
             .eq("user_id", session.user.id)
-            .eq("role", "admin");
+            .in("role", STAFF_ROLES);
 
-          if (roles && roles.length > 0) {
-            navigate("/admin");
+          const homePath = getHomePath(roles);
+          if (homePath) {
+            navigate(homePath);
             return;
           }
         }
@@ -60,10 +78,11 @@ const AdminAuth = () => {
           .from("user_roles")
           .select("role")
           .eq("user_id", session.user.id)
-          .eq("role", "admin");
+          .in("role", STAFF_ROLES);
 
-        if (roles && roles.length > 0) {
-          navigate("/admin");
+        const homePath = getHomePath(roles);
+        if (homePath) {
+          navigate(homePath);
         } else {
           toast.error(t("adminAuth.errors.accessDenied"));
           await supabase.auth.signOut();
@@ -146,7 +165,7 @@ const AdminAuth = () => {
           .from("user_roles")
           .select("role")
           .eq("user_id", data.user.id)
-          .eq("role", "admin");
+          .in("role", STAFF_ROLES);
 
         if (rolesError) {
           logger.error("Error checking admin role", rolesError);
@@ -155,14 +174,15 @@ const AdminAuth = () => {
           return;
         }
 
-        if (!roles || roles.length === 0) {
+        const homePath = getHomePath(roles);
+        if (!homePath) {
           toast.error(t("adminAuth.errors.accessDenied"));
           await supabase.auth.signOut();
           return;
         }
 
         toast.success(t("adminAuth.success.welcome"));
-        navigate("/admin");
+        navigate(homePath);
       }
     } catch (error) {
       logger.error("Login error", error instanceof Error ? error : new Error(String(error)));
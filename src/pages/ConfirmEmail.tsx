@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { AlertCircle, CheckCircle, Loader2, Mail } from "lucide-react";
+import Navbar from "@/components/Navbar";
+import SEO from "@/components/SEO";
+import SkipLink from "@/components/SkipLink";
+import { Button } from "@/components/ui/button";
+import { useTranslation } from "@/hooks/useTranslation";
+import { confirmEmail, sendVerificationEmail, type ConfirmEmailResult } from "@/lib/emailVerification";
+
+const ConfirmEmail = () => {
+  const { t } = useTranslation();
+  const { token = "" } = useParams<{ token: string }>();
+  const [result, setResult] = useState<ConfirmEmailResult | null>(null);
+  const [resendState, setResendState] = useState<"idle" | "sending" | "sent" | "failed">("idle");
+
+  useEffect(() => {
+    let cancelled = false;
+    confirmEmail(token).then((confirmation) => {
+      if (!cancelled) setResult(confirmation);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handleResend = async () => {
+    if (!result?.registrationId) return;
+    setResendState("sending");
+    const sent = await sendVerificationEmail(result.registrationId);
+    setResendState(sent ? "sent" : "failed");
+  };
+
+  const isSuccess = result?.status === "verified" || result?.status === "alreadyVerified";
+
+  return (
+    <>
+      <SEO
+        title="Confirm your email | JengaHacks 2026"
+        description="Confirm your email address to complete your JengaHacks 2026 registration."
+        url="https://jengahacks.com/register"
+      />
+      <SkipLink />
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <main id="main-content" tabIndex={-1} className="pt-16 sm:pt-20">
+          <section className="py-16 sm:py-20 md:py-24" aria-labelledby="confirm-heading">
+            <div className="container mx-auto px-4 sm:px-6">
+              <div className="max-w-xl mx-auto bg-card border border-border rounded-xl p-5 sm:p-8 text-center space-y-4" role="status" aria-live="polite">
+                {!result ? (
+                  <>
+                    <Loader2 className="w-12 h-12 text-primary mx-auto animate-spin" aria-hidden="true" />
+                    <h1 id="confirm-heading" className="text-xl font-semibold">{t("emailVerification.confirming")}</h1>
+                  </>
+                ) : isSuccess ? (
+                  <>
+                    <CheckCircle className="w-12 h-12 text-primary mx-auto animate-success-pulse" aria-hidden="true" />
+                    <h1 id="confirm-heading" className="text-xl font-semibold">
+                      {t(`emailVerification.${result.status}Title`)}
+                    </h1>
+                    <p className="text-muted-foreground">{t(`emailVerification.${result.status}Message`)}</p>
+                    <Button asChild variant="outline">
+                      <Link to="/">{t("emailVerification.backHome")}</Link>
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <AlertCircle className="w-12 h-12 text-destructive mx-auto" aria-hidden="true" />
+                    <h1 id="confirm-heading" className="text-xl font-semibold">
+                      {t(`emailVerification.${result.status}Title`)}
+                    </h1>
+                    <p className="text-muted-foreground">{t(`emailVerification.${result.status}Message`)}</p>
+                    {result.registrationId && result.status !== "invalid" && (
+                      <div className="space-y-2">
+                        <Button
+                          onClick={handleResend}
+                          disabled={resendState === "sending" || resendState === "sent"}
+                        >
+                          {resendState === "sending" ? (
+                            <Loader2 className="mr-2 w-4 h-4 animate-spin" aria-hidden="true" />
+                          ) : (
+                            <Mail className="mr-2 w-4 h-4" aria-hidden="true" />
+                          )}
+                          {t("emailVerification.resend")}
+                        </Button>
+                        {resendState === "sent" && (
+                          <p className="text-sm text-muted-foreground">{t("emailVerification.resent")}</p>
+                        )}
+                        {resendState === "failed" && (
+                          <p className="text-sm text-destructive" role="alert">{t("emailVerification.resendFailed")}</p>
+                        )}
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          </section>
+        </main>
+        <footer className="border-t border-border py-6 sm:py-8" role="contentinfo">
+          <div className="container mx-auto px-4 sm:px-6 text-center text-muted-foreground">
+            <p className="text-xs sm:text-sm">{t("footer.copyright", { year: new Date().getFullYear() })}</p>
+          </div>
+        </footer>
+      </div>
+    </>
+  );
+};
+
+export default ConfirmEmail;
@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { AlertCircle, CheckCircle, Eraser, Loader2 } from "lucide-react";
+import Navbar from "@/components/Navbar";
+import SEO from "@/components/SEO";
+import SkipLink from "@/components/SkipLink";
+import { Button } from "@/components/ui/button";
+import { useTranslation } from "@/hooks/useTranslation";
+import { confirmDataErasure, type ErasureStatus } from "@/lib/participantPortal";
+
+const ConfirmErasure = () => {
+  const { t } = useTranslation();
+  const { token = "" } = useParams<{ token: string }>();
+  const [status, setStatus] = useState<ErasureStatus | null>(null);
+  const [isErasing, setIsErasing] = useState(false);
+
+  // Erasure is irreversible, so it waits for an explicit click rather than running on load
+  const handleErase = async () => {
+    setIsErasing(true);
+    setStatus(await confirmDataErasure(token));
+    setIsErasing(false);
+  };
+
+  const isSuccess = status === "erased" || status === "alreadyErased";
+
+  return (
+    <>
+      <SEO
+        title="Erase your data | JengaHacks 2026"
+        description="Confirm that you want your JengaHacks 2026 registration data erased."
+        url="https://jengahacks.com/me"
+      />
+      <SkipLink />
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <main id="main-content" tabIndex={-1} className="pt-16 sm:pt-20">
+          <section className="py-16 sm:py-20 md:py-24" aria-labelledby="erase-heading">
+            <div className="container mx-auto px-4 sm:px-6">
+              <div className="max-w-xl mx-auto bg-card border border-border rounded-xl p-5 sm:p-8 text-center space-y-4" role="status" aria-live="polite">
+                {!status ? (
+                  <>
+                    <Eraser className="w-12 h-12 text-destructive mx-auto" aria-hidden="true" />
+                    <h1 id="erase-heading" className="text-xl font-semibold">{t("dataErasure.confirmTitle")}</h1>
+                    <p className="text-muted-foreground">{t("dataErasure.confirmMessage")}</p>
+                    <Button variant="destructive" onClick={handleErase} disabled={isErasing}>
+                      {isErasing && <Loader2 className="mr-2 w-4 h-4 animate-spin" aria-hidden="true" />}
+                      {t("dataErasure.confirm")}
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    {isSuccess ? (
+                      <CheckCircle className="w-12 h-12 text-primary mx-auto" aria-hidden="true" />
+                    ) : (
+                      <AlertCircle className="w-12 h-12 text-destructive mx-auto" aria-hidden="true" />
+                    )}
+                    <h1 id="erase-heading" className="text-xl font-semibold">{t(`dataErasure.${status}Title`)}</h1>
+                    <p className="text-muted-foreground">{t(`dataErasure.${status}Message`)}</p>
+                    <Button asChild variant="outline">
+                      <Link to={isSuccess ? "/" : "/me"}>
+                        {isSuccess ? t("dataErasure.backHome") : t("dataErasure.backToPortal")}
+                      </Link>
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          </section>
+        </main>
+        <footer className="border-t border-border py-6 sm:py-8" role="contentinfo">
+          <div className="container mx-auto px-4 sm:px-6 text-center text-muted-foreground">
+            <p className="text-xs sm:text-sm">{t("footer.copyright", { year: new Date().getFullYear() })}</p>
+          </div>
+        </footer>
+      </div>
+    </>
+  );
+};
+
+export default ConfirmErasure;
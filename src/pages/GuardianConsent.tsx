@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { AlertCircle, CheckCircle, Loader2, ShieldCheck, XCircle } from "lucide-react";
+import Navbar from "@/components/Navbar";
+import SEO from "@/components/SEO";
+import SkipLink from "@/components/SkipLink";
+import { Button } from "@/components/ui/button";
+import { useTranslation } from "@/hooks/useTranslation";
+import {
+  getConsentRequest,
+  respondToConsent,
+  type ConsentDecision,
+  type ConsentRequest,
+} from "@/lib/guardianConsent";
+
+const GuardianConsent = () => {
+  const { t } = useTranslation();
+  const { token = "" } = useParams<{ token: string }>();
+  const [request, setRequest] = useState<ConsentRequest | null>(null);
+  const [submitting, setSubmitting] = useState<ConsentDecision | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getConsentRequest(token).then((consent) => {
+      if (!cancelled) setRequest(consent);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handleDecision = async (decision: ConsentDecision) => {
+    setSubmitting(decision);
+    const response = await respondToConsent(token, decision);
+    setRequest((current) => ({ ...response, participantName: response.participantName ?? current?.participantName ?? null }));
+    setSubmitting(null);
+  };
+
+  const name = request?.participantName ?? t("guardianConsent.theParticipant");
+
+  return (
+    <>
+      <SEO
+        title="Guardian consent | JengaHacks 2026"
+        description="Give consent for a participant under 18 to take part in JengaHacks 2026."
+        url="https://jengahacks.com/register"
+      />
+      <SkipLink />
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <main id="main-content" tabIndex={-1} className="pt-16 sm:pt-20">
+          <section className="py-16 sm:py-20 md:py-24" aria-labelledby="consent-heading">
+            <div className="container mx-auto px-4 sm:px-6">
+              <div className="max-w-xl mx-auto bg-card border border-border rounded-xl p-5 sm:p-8 text-center space-y-4" role="status" aria-live="polite">
+                {!request ? (
+                  <>
+                    <Loader2 className="w-12 h-12 text-primary mx-auto animate-spin" aria-hidden="true" />
+                    <h1 id="consent-heading" className="text-xl font-semibold">{t("guardianConsent.loading")}</h1>
+                  </>
+                ) : request.status === "pending" ? (
+                  <>
+                    <ShieldCheck className="w-12 h-12 text-primary mx-auto" aria-hidden="true" />
+                    <h1 id="consent-heading" className="text-xl font-semibold">
+                      {t("guardianConsent.pendingTitle", { name })}
+                    </h1>
+                    <p className="text-muted-foreground">{t("guardianConsent.pendingMessage", { name })}</p>
+                    <div className="flex flex-col sm:flex-row justify-center gap-3">
+                      <Button onClick={() => handleDecision("granted")} disabled={submitting !== null}>
+                        {submitting === "granted" && <Loader2 className="mr-2 w-4 h-4 animate-spin" aria-hidden="true" />}
+                        {t("guardianConsent.grant")}
+                      </Button>
+                      <Button variant="outline" onClick={() => handleDecision("declined")} disabled={submitting !== null}>
+                        {submitting === "declined" && <Loader2 className="mr-2 w-4 h-4 animate-spin" aria-hidden="true" />}
+                        {t("guardianConsent.decline")}
+                      </Button>
+                    </div>
+                  </>
+                ) : request.status === "granted" || request.status === "declined" ? (
+                  <>
+                    {request.status === "granted" ? (
+                      <CheckCircle className="w-12 h-12 text-primary mx-auto animate-success-pulse" aria-hidden="true" />
+                    ) : (
+                      <XCircle className="w-12 h-12 text-muted-foreground mx-auto" aria-hidden="true" />
+                    )}
+                    <h1 id="consent-heading" className="text-xl font-semibold">
+                      {t(`guardianConsent.${request.status}Title`)}
+                    </h1>
+                    <p className="text-muted-foreground">{t(`guardianConsent.${request.status}Message`, { name })}</p>
+                    <Button asChild variant="outline">
+                      <Link to="/">{t("guardianConsent.backHome")}</Link>
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <AlertCircle className="w-12 h-12 text-destructive mx-auto" aria-hidden="true" />
+                    <h1 id="consent-heading" className="text-xl font-semibold">
+                      {t(`guardianConsent.${request.status}Title`)}
+                    </h1>
+                    <p className="text-muted-foreground">{t(`guardianConsent.${request.status}Message`)}</p>
+                  </>
+                )}
+              </div>
+            </div>
+          </section>
+        </main>
+        <footer className="border-t border-border py-6 sm:py-8" role="contentinfo">
+          <div className="container mx-auto px-4 sm:px-6 text-center text-muted-foreground">
+            <p className="text-xs sm:text-sm">{t("footer.copyright", { year: new Date().getFullYear() })}</p>
+          </div>
+        </footer>
+      </div>
+    </>
+  );
+};
+
+export default GuardianConsent;
@@ -11,6 +11,7 @@ import { useLocation } from "react-router-dom";
 const About = lazy(() => import("@/components/About"));
 const Sponsors = lazy(() => import("@/components/Sponsors"));
 const Prizes = lazy(() => import("@/components/Prizes"));
+const Registration = lazy(() => import("@/components/Registration"));
 
 
 const Schedule = lazy(() => import("@/components/Schedule"));
@@ -57,6 +58,9 @@ const Index = () => {
             <ScrollReveal direction="up" delay={400}>
               <Schedule />
             </ScrollReveal>
+            <ScrollReveal direction="up" delay={400}>
+              <Registration />
+            </ScrollReveal>
           </Suspense>
         </main>
         <Suspense fallback={null}>
@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { CheckCircle2, ExternalLink, Gavel, Loader2, Lock, LogOut } from "lucide-react";
+import { toast } from "sonner";
+import SEO from "@/components/SEO";
+import SkipLink from "@/components/SkipLink";
+import ScorecardForm from "@/components/ScorecardForm";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useRoleAuth } from "@/hooks/useRoleAuth";
+import { useTranslation } from "@/hooks/useTranslation";
+import { getMyJudging, isScorecardComplete, type MyJudging, type Scorecard } from "@/lib/judging";
+
+const Judge = () => {
+  const { t } = useTranslation();
+  const { user, hasRole: isJudge, isLoading: authLoading, signOut } = useRoleAuth("judge");
+  const [judging, setJudging] = useState<MyJudging | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadJudging = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setJudging(await getMyJudging());
+    } catch (error) {
+      toast.error(t("judge.failedLoad"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (isJudge) {
+      loadJudging();
+    }
+  }, [isJudge, loadJudging]);
+
+  const handleSaved = (saved: Scorecard) => {
+    setJudging((previous) =>
+      previous
+        ? {
+            ...previous,
+            projects: previous.projects.map((project) =>
+              project.id === saved.submission_id ? { ...project, scorecard: saved } : project
+            ),
+          }
+        : previous
+    );
+  };
+
+  const renderContent = () => {
+    if (authLoading || (isJudge && isLoading)) {
+      return (
+        <div className="flex items-center justify-center py-12" role="status" aria-live="polite">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" aria-hidden="true" />
+          <span className="sr-only">{t("judge.loading")}</span>
+        </div>
+      );
+    }
+
+    if (!isJudge || !judging) {
+      return (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("judge.signInTitle")}</CardTitle>
+            <CardDescription>{t("judge.signInDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild>
+              <Link to="/admin/login">{t("judge.signIn")}</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    const scoredCount = judging.projects.filter(
+      (project) => project.scorecard && isScorecardComplete(project.scorecard.scores, judging.criteria)
+    ).length;
+
+    return (
+      <>
+        {judging.published && (
+          <Card className="border-primary/40">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Lock className="w-4 h-4" aria-hidden="true" />
+                {t("judge.publishedTitle")}
+              </CardTitle>
+              <CardDescription>{t("judge.publishedDescription")}</CardDescription>
+            </CardHeader>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("judge.rubric")}</CardTitle>
+            <CardDescription>{t("judge.rubricDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {judging.criteria.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t("judge.noRubric")}</p>
+            ) : (
+              <ul className="space-y-2">
+                {judging.criteria.map((criterion) => (
+                  <li key={criterion.id} className="text-sm">
+                    <span className="font-medium">{criterion.name}</span>{" "}
+                    <span className="text-muted-foreground">
+                      {t("judge.criterionSummary", { weight: criterion.weight, max: criterion.max_score })}
+                    </span>
+                    {criterion.description && <p className="text-muted-foreground">{criterion.description}</p>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <p className="text-sm text-muted-foreground" aria-live="polite">
+          {t("judge.progress", { scored: scoredCount, total: judging.projects.length })}
+        </p>
+
+        {judging.projects.length === 0 ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("judge.noAssignmentsTitle")}</CardTitle>
+              <CardDescription>{t("judge.noAssignmentsDescription")}</CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          judging.projects.map((project) => {
+            const isScored = !!project.scorecard && isScorecardComplete(project.scorecard.scores, judging.criteria);
+            return (
+              <Card key={project.id}>
+                <CardHeader>
+                  <CardTitle className="flex items-start justify-between gap-2">
+                    <span>{project.title}</span>
+                    {isScored && (
+                      <Badge className="gap-1 shrink-0">
+                        <CheckCircle2 className="w-3 h-3" aria-hidden="true" />
+                        {t("judge.scored")}
+                      </Badge>
+                    )}
+                  </CardTitle>
+                  <CardDescription>
+                    {t("gallery.byTeam", { team: project.team_name })} ·{" "}
+                    {t(`customQuestions.track.options.${project.track}`)}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-sm whitespace-pre-line">{project.description}</p>
+                  <div className="flex flex-wrap gap-2">
+                    <Button asChild size="sm" variant="outline">
+                      <a href={project.repository_url} target="_blank" rel="noopener noreferrer">
+                        <ExternalLink className="mr-2 w-4 h-4" aria-hidden="true" />
+                        {t("gallery.repository")}
+                      </a>
+                    </Button>
+                    <Button asChild size="sm" variant="outline">
+                      <a href={project.demo_video_url} target="_blank" rel="noopener noreferrer">
+                        <ExternalLink className="mr-2 w-4 h-4" aria-hidden="true" />
+                        {t("gallery.demo")}
+                      </a>
+                    </Button>
+                  </div>
+                  {judging.criteria.length > 0 && (
+                    <ScorecardForm
+                      submissionId={project.id}
+                      criteria={judging.criteria}
+                      scorecard={project.scorecard}
+                      disabled={judging.published}
+                      onSaved={handleSaved}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </>
+    );
+  };
+
+  return (
+    <>
+      <SEO title="Judging | JengaHacks 2026" />
+      <SkipLink />
+      <div className="min-h-screen bg-background">
+        <header className="border-b border-border bg-card" role="banner">
+          <div className="container mx-auto px-4 py-4 flex items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold flex items-center gap-2">
+                <Gavel className="w-6 h-6" aria-hidden="true" />
+                {t("judge.title")}
+              </h1>
+              {user?.email && (
+                <p className="text-sm text-muted-foreground">{t("judge.signedInAs", { email: user.email })}</p>
+              )}
+            </div>
+            {isJudge && (
+              <Button onClick={signOut} variant="outline">
+                <LogOut className="mr-2 w-4 h-4" aria-hidden="true" />
+                {t("judge.signOut")}
+              </Button>
+            )}
+          </div>
+        </header>
+        <main id="main-content" tabIndex={-1} className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+          {renderContent()}
+        </main>
+      </div>
+    </>
+  );
+};
+
+export default Judge;
@@ -1,10 +1,13 @@
-import { Award, Users, Briefcase, Linkedin, Twitter, Globe } from "lucide-react";
+import { Link } from "react-router-dom";
+import { Award, Users, Briefcase, Linkedin, Twitter, Globe, CalendarClock } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import SEO from "@/components/SEO";
 import Navbar from "@/components/Navbar";
 import { useTranslation } from "@/hooks/useTranslation";
 import ScrollReveal from "@/components/ScrollReveal";
+import { OFFICE_HOURS_PATH } from "@/lib/officeHours";
 import { cn } from "@/lib/utils";
 
 interface Person {
@@ -169,6 +172,12 @@ const JudgesMentors = () => {
                   <p className="text-base sm:text-lg md:text-xl text-muted-foreground mb-6 sm:mb-8 px-4">
                     {t("judgesMentors.subtitle")}
                   </p>
+                  <Button variant="hero" size="lg" asChild>
+                    <Link to={OFFICE_HOURS_PATH}>
+                      <CalendarClock className="w-5 h-5 mr-2" aria-hidden="true" />
+                      {t("judgesMentors.bookOfficeHours")}
+                    </Link>
+                  </Button>
                 </header>
               </ScrollReveal>
             </div>
@@ -0,0 +1,490 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, Check, Handshake, Linkedin, Loader2, Mail, MessageCircle, Sparkles, UserMinus, X } from "lucide-react";
+import { toast } from "sonner";
+import Navbar from "@/components/Navbar";
+import SEO from "@/components/SEO";
+import SkipLink from "@/components/SkipLink";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { MATCHING_SKILLS } from "@/content/matchingSkills";
+import { TRACK_OPTIONS } from "@/content/registrationQuestions";
+import { useParticipantAuth } from "@/hooks/useParticipantAuth";
+import { useTranslation } from "@/hooks/useTranslation";
+import {
+  MATCHING_BIO_MAX_LENGTH,
+  getMatchingCandidates,
+  getMatchingContext,
+  getMyConnections,
+  removeMatchingProfile,
+  requestConnection,
+  respondToConnection,
+  saveMatchingProfile,
+  suggestSkillsFromText,
+  suggestTeammates,
+  validateMatchingProfile,
+  type MatchConnection,
+  type MatchingContext,
+  type MatchingProfile,
+} from "@/lib/matching";
+import { PORTAL_PATH } from "@/lib/participantPortal";
+
+const Matching = () => {
+  const { t } = useTranslation();
+  const { user, isLoading: authLoading } = useParticipantAuth();
+  const [context, setContext] = useState<MatchingContext | null>(null);
+  const [candidates, setCandidates] = useState<MatchingProfile[]>([]);
+  const [connections, setConnections] = useState<MatchConnection[]>([]);
+  const [skills, setSkills] = useState<string[]>([]);
+  const [tracks, setTracks] = useState<string[]>([]);
+  const [bio, setBio] = useState("");
+  const [formError, setFormError] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [current, others, mine] = await Promise.all([
+        getMatchingContext(),
+        getMatchingCandidates(),
+        getMyConnections(),
+      ]);
+      setContext(current);
+      setCandidates(others);
+      setConnections(mine);
+      setSkills(current.profile?.skills ?? suggestSkillsFromText(current.resume_text, MATCHING_SKILLS));
+      setTracks(current.profile?.tracks ?? (current.registration_track ? [current.registration_track] : []));
+      setBio(current.profile?.bio ?? "");
+    } catch (error) {
+      toast.error(t("matching.failedLoad"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (user) {
+      loadData();
+    }
+  }, [user, loadData]);
+
+  const resumeSkills = useMemo(
+    () => suggestSkillsFromText(context?.resume_text ?? null, MATCHING_SKILLS),
+    [context?.resume_text]
+  );
+
+  const profile = context?.profile ?? null;
+  const suggestions = useMemo(
+    () => (profile ? suggestTeammates(profile, candidates, MATCHING_SKILLS) : []),
+    [profile, candidates]
+  );
+
+  const connectionsByProfile = useMemo(
+    () => new Map(connections.map((connection) => [connection.profile.registration_id, connection])),
+    [connections]
+  );
+
+  const toggle = (values: string[], value: string, checked: boolean) =>
+    checked ? [...values, value] : values.filter((v) => v !== value);
+
+  const upsertConnection = (connection: MatchConnection) => {
+    setConnections((current) => [connection, ...current.filter((c) => c.id !== connection.id)]);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const error = validateMatchingProfile({ skills, tracks, bio });
+    setFormError(error ? t(error, { max: MATCHING_BIO_MAX_LENGTH }) : undefined);
+    if (error) return;
+
+    setBusyId("profile");
+    const saved = await saveMatchingProfile({ skills, tracks, bio });
+    setBusyId(null);
+
+    if (saved) {
+      setContext((current) => (current ? { ...current, profile: saved } : current));
+      toast.success(t("matching.saved"));
+    } else {
+      toast.error(t("matching.failedSave"));
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!window.confirm(t("matching.confirmRemove"))) {
+      return;
+    }
+
+    setBusyId("profile");
+    const removed = await removeMatchingProfile();
+    setBusyId(null);
+
+    if (removed) {
+      setContext((current) => (current ? { ...current, profile: null } : current));
+      toast.success(t("matching.removed"));
+    } else {
+      toast.error(t("matching.failedSave"));
+    }
+  };
+
+  const handleConnect = async (registrationId: string) => {
+    setBusyId(registrationId);
+    const connection = await requestConnection(registrationId);
+    setBusyId(null);
+
+    if (connection) {
+      upsertConnection(connection);
+      toast.success(t(connection.status === "accepted" ? "matching.connected" : "matching.requestSent"));
+    } else {
+      toast.error(t("matching.failedConnect"));
+    }
+  };
+
+  const handleRespond = async (connectionId: string, accept: boolean) => {
+    setBusyId(connectionId);
+    const connection = await respondToConnection(connectionId, accept);
+    setBusyId(null);
+
+    if (connection) {
+      upsertConnection(connection);
+      toast.success(t(accept ? "matching.connected" : "matching.declined"));
+    } else {
+      toast.error(t("matching.failedConnect"));
+    }
+  };
+
+  const renderSkillBadges = (candidate: MatchingProfile, highlighted: string[] = []) => (
+    <div className="flex flex-wrap gap-1">
+      {candidate.skills.map((skill) => {
+        const role = MATCHING_SKILLS.find((s) => s.id === skill)?.role;
+        return (
+          <Badge key={skill} variant={role && highlighted.includes(role) ? "default" : "secondary"}>
+            {t(`matching.skills.${skill}`)}
+          </Badge>
+        );
+      })}
+    </div>
+  );
+
+  const renderConnectAction = (candidate: MatchingProfile) => {
+    const connection = connectionsByProfile.get(candidate.registration_id);
+
+    if (connection?.status === "accepted") {
+      return <Badge variant="outline">{t("matching.statuses.accepted")}</Badge>;
+    }
+    if (connection?.status === "pending" && connection.direction === "sent") {
+      return <Badge variant="outline">{t("matching.statuses.pendingSent")}</Badge>;
+    }
+    if (connection?.status === "declined") {
+      return null;
+    }
+
+    return (
+      <Button size="sm" onClick={() => handleConnect(candidate.registration_id)} disabled={busyId !== null}>
+        {busyId === candidate.registration_id ? (
+          <Loader2 className="mr-2 w-4 h-4 animate-spin" aria-hidden="true" />
+        ) : (
+          <Handshake className="mr-2 w-4 h-4" aria-hidden="true" />
+        )}
+        {connection?.direction === "received" ? t("matching.accept") : t("matching.connect")}
+      </Button>
+    );
+  };
+
+  const renderProfileForm = () => (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("matching.profileTitle")}</CardTitle>
+        <CardDescription>{t("matching.profileDescription")}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSave} noValidate className="space-y-6">
+          <fieldset className="space-y-3">
+            <legend className="text-sm font-medium">{t("matching.skillsLabel")}</legend>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {MATCHING_SKILLS.map((skill) => (
+                <div key={skill.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`skill-${skill.id}`}
+                    checked={skills.includes(skill.id)}
+                    onCheckedChange={(checked) => setSkills((current) => toggle(current, skill.id, checked === true))}
+                  />
+                  <Label htmlFor={`skill-${skill.id}`} className="font-normal">
+                    {t(`matching.skills.${skill.id}`)}
+                  </Label>
+                  {resumeSkills.includes(skill.id) && (
+                    <Badge variant="outline" className="text-xs" title={t("matching.fromResumeHint")}>
+                      <Sparkles className="mr-1 w-3 h-3" aria-hidden="true" />
+                      {t("matching.fromResume")}
+                    </Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset className="space-y-3">
+            <legend className="text-sm font-medium">{t("matching.tracksLabel")}</legend>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {TRACK_OPTIONS.map((option) => (
+                <div key={option.value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`track-${option.value}`}
+                    checked={tracks.includes(option.value)}
+                    onCheckedChange={(checked) => setTracks((current) => toggle(current, option.value, checked === true))}
+                  />
+                  <Label htmlFor={`track-${option.value}`} className="font-normal">
+                    {t(option.labelKey)}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </fieldset>
+
+          <div className="space-y-2">
+            <Label htmlFor="matching-bio">{t("matching.bioLabel")}</Label>
+            <Textarea
+              id="matching-bio"
+              value={bio}
+              maxLength={MATCHING_BIO_MAX_LENGTH}
+              placeholder={t("matching.bioPlaceholder")}
+              onChange={(e) => setBio(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">{t("matching.bioHint")}</p>
+          </div>
+
+          {formError && (
+            <p className="text-sm text-destructive" role="alert">
+              {formError}
+            </p>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <Button type="submit" disabled={busyId !== null}>
+              {busyId === "profile" && <Loader2 className="mr-2 w-4 h-4 animate-spin" aria-hidden="true" />}
+              {profile ? t("matching.updateListing") : t("matching.listMe")}
+            </Button>
+            {profile && (
+              <Button type="button" variant="outline" onClick={handleRemove} disabled={busyId !== null}>
+                <UserMinus className="mr-2 w-4 h-4" aria-hidden="true" />
+                {t("matching.stopListing")}
+              </Button>
+            )}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+
+  const renderSuggestions = () => (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("matching.suggestionsTitle")}</CardTitle>
+        <CardDescription>{t("matching.suggestionsDescription")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {suggestions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("matching.noSuggestions")}</p>
+        ) : (
+          suggestions.map(({ profile: candidate, newRoles, sharedTracks }) => (
+            <div key={candidate.registration_id} className="border border-border rounded-lg p-4 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="font-semibold">{candidate.first_name}</p>
+                  {candidate.experience && (
+                    <p className="text-xs text-muted-foreground">
+                      {t(`customQuestions.experience.options.${candidate.experience}`)}
+                    </p>
+                  )}
+                </div>
+                {renderConnectAction(candidate)}
+              </div>
+              {renderSkillBadges(candidate, newRoles)}
+              {newRoles.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {t("matching.addsRoles", { roles: newRoles.map((role) => t(`matching.roles.${role}`)).join(", ") })}
+                </p>
+              )}
+              {sharedTracks.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {t("matching.sharedTracks", {
+                    tracks: sharedTracks.map((track) => t(`customQuestions.track.options.${track}`)).join(", "),
+                  })}
+                </p>
+              )}
+              {candidate.bio && <p className="text-sm">{candidate.bio}</p>}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  const renderConnections = () => {
+    const received = connections.filter((c) => c.direction === "received" && c.status === "pending");
+    const accepted = connections.filter((c) => c.status === "accepted");
+
+    if (received.length === 0 && accepted.length === 0) {
+      return null;
+    }
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("matching.connectionsTitle")}</CardTitle>
+          <CardDescription>{t("matching.connectionsDescription")}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {received.map((connection) => (
+            <div key={connection.id} className="border border-border rounded-lg p-4 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <p className="font-semibold">{t("matching.wantsToConnect", { name: connection.profile.first_name })}</p>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => handleRespond(connection.id, true)} disabled={busyId !== null}>
+                    <Check className="mr-1 w-4 h-4" aria-hidden="true" />
+                    {t("matching.accept")}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleRespond(connection.id, false)}
+                    disabled={busyId !== null}
+                  >
+                    <X className="mr-1 w-4 h-4" aria-hidden="true" />
+                    {t("matching.decline")}
+                  </Button>
+                </div>
+              </div>
+              {renderSkillBadges(connection.profile)}
+              {connection.profile.bio && <p className="text-sm">{connection.profile.bio}</p>}
+            </div>
+          ))}
+
+          {accepted.map((connection) => (
+            <div key={connection.id} className="border border-border rounded-lg p-4 space-y-2">
+              <p className="font-semibold">{connection.contact?.full_name ?? connection.profile.first_name}</p>
+              {connection.contact && (
+                <div className="flex flex-wrap gap-2">
+                  <Button asChild size="sm" variant="outline">
+                    <a href={`mailto:${connection.contact.email}`}>
+                      <Mail className="mr-2 w-4 h-4" aria-hidden="true" />
+                      {connection.contact.email}
+                    </a>
+                  </Button>
+                  {connection.contact.whatsapp_number && (
+                    <Button asChild size="sm" variant="outline">
+                      <a
+                        href={`https://wa.me/${connection.contact.whatsapp_number.replace(/\D/g, "")}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        <MessageCircle className="mr-2 w-4 h-4" aria-hidden="true" />
+                        {connection.contact.whatsapp_number}
+                      </a>
+                    </Button>
+                  )}
+                  {connection.contact.linkedin_url && (
+                    <Button asChild size="sm" variant="outline">
+                      <a href={connection.contact.linkedin_url} target="_blank" rel="noopener noreferrer">
+                        <Linkedin className="mr-2 w-4 h-4" aria-hidden="true" />
+                        {t("matching.linkedin")}
+                      </a>
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderContent = () => {
+    if (authLoading || isLoading) {
+      return (
+        <div className="flex items-center justify-center py-12" role="status" aria-live="polite">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" aria-hidden="true" />
+          <span className="sr-only">{t("matching.loading")}</span>
+        </div>
+      );
+    }
+
+    if (!user || !context) {
+      return (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("matching.signInTitle")}</CardTitle>
+            <CardDescription>{t("matching.signInDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild>
+              <Link to={PORTAL_PATH}>{t("matching.goToPortal")}</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    if (context.has_team) {
+      return (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("matching.hasTeamTitle")}</CardTitle>
+            <CardDescription>{t("matching.hasTeamDescription")}</CardDescription>
+          </CardHeader>
+        </Card>
+      );
+    }
+
+    return (
+      <>
+        {renderConnections()}
+        {renderProfileForm()}
+        {profile && renderSuggestions()}
+      </>
+    );
+  };
+
+  return (
+    <>
+      <SEO
+        title="Find Teammates | JengaHacks 2026"
+        description="Find teammates with complementary skills for JengaHacks 2026."
+        url="https://jengahacks.com/me/matching"
+      />
+      <SkipLink />
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <main id="main-content" tabIndex={-1} className="pt-16 sm:pt-20">
+          <section className="py-12 sm:py-16" aria-labelledby="matching-heading">
+            <div className="container mx-auto px-4 sm:px-6 max-w-2xl space-y-6">
+              <header className="space-y-2">
+                <Button asChild variant="ghost" size="sm" className="-ml-3">
+                  <Link to={PORTAL_PATH}>
+                    <ArrowLeft className="mr-2 w-4 h-4" aria-hidden="true" />
+                    {t("matching.backToPortal")}
+                  </Link>
+                </Button>
+                <h1 id="matching-heading" className="text-2xl sm:text-3xl font-bold">{t("matching.title")}</h1>
+                <p className="text-muted-foreground">{t("matching.description")}</p>
+              </header>
+              {renderContent()}
+            </div>
+          </section>
+        </main>
+        <footer className="border-t border-border py-6 sm:py-8" role="contentinfo">
+          <div className="container mx-auto px-4 sm:px-6 text-center text-muted-foreground">
+            <p className="text-xs sm:text-sm">{t("footer.copyright", { year: new Date().getFullYear() })}</p>
+          </div>
+        </footer>
+      </div>
+    </>
+  );
+};
+
+export default Matching;
@@ -0,0 +1,478 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Download, Eraser, Loader2, LogOut, Mail, Save, Upload, UserX } from "lucide-react";
+import { toast } from "sonner";
+import Navbar from "@/components/Navbar";
+import SEO from "@/components/SEO";
+import SkipLink from "@/components/SkipLink";
+import SubmissionCard from "@/components/SubmissionCard";
+import TeamCard from "@/components/TeamCard";
+import { FileUploadField } from "@/components/FileUploadField";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useFileUpload } from "@/hooks/useFileUpload";
+import { useParticipantAuth } from "@/hooks/useParticipantAuth";
+import { useTranslation } from "@/hooks/useTranslation";
+import { formatDateTimeShort } from "@/lib/i18n";
+import { logger } from "@/lib/logger";
+import {
+  exportMyData,
+  getMyRegistration,
+  getMyResumeUrl,
+  replaceMyResume,
+  requestDataErasure,
+  sendMagicLink,
+  updateMyLinkedIn,
+  withdrawMyRegistration,
+  type ParticipantRegistration,
+} from "@/lib/participantPortal";
+import { createObjectURL, revokeObjectURL } from "@/lib/polyfills";
+import { isValidEmail } from "@/lib/security";
+import { savePendingInvite } from "@/lib/teams";
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = createObjectURL(blob);
+  if (!url) {
+    throw new Error("Failed to create download URL");
+  }
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  revokeObjectURL(url);
+};
+
+const Me = () => {
+  const { t } = useTranslation();
+  const { user, isLoading: authLoading, signOut } = useParticipantAuth();
+  const [searchParams] = useSearchParams();
+  const {
+    fileInputRef,
+    validateFile,
+    inspectFile,
+    uploadFile,
+    cancelUpload,
+    uploadProgress,
+    resetFileInput,
+  } = useFileUpload();
+
+  const [email, setEmail] = useState("");
+  const [linkSent, setLinkSent] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [registration, setRegistration] = useState<ParticipantRegistration | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [linkedIn, setLinkedIn] = useState("");
+  const [linkedInError, setLinkedInError] = useState<string | undefined>();
+  const [resume, setResume] = useState<File | null>(null);
+  const [resumeError, setResumeError] = useState<string | undefined>();
+  const [busyAction, setBusyAction] = useState<"linkedIn" | "resume" | "withdraw" | "export" | "erase" | null>(null);
+
+  const loadRegistration = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const current = await getMyRegistration();
+      setRegistration(current);
+      setLinkedIn(current?.linkedin_url ?? "");
+    } catch (error) {
+      toast.error(t("portal.failedLoad"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (user) {
+      loadRegistration();
+    } else {
+      setRegistration(null);
+    }
+  }, [user, loadRegistration]);
+
+  const handleSendLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidEmail(email.trim())) {
+      toast.error(t("registration.errors.emailInvalid"));
+      return;
+    }
+
+    // The sign-in link returns to the portal without the team invite in the URL
+    const teamInvite = searchParams.get("team");
+    if (teamInvite) {
+      savePendingInvite(teamInvite);
+    }
+
+    setIsSending(true);
+    const sent = await sendMagicLink(email);
+    setIsSending(false);
+
+    if (sent) {
+      setLinkSent(true);
+    } else {
+      toast.error(t("portal.failedSendLink"));
+    }
+  };
+
+  const handleSaveLinkedIn = async () => {
+    setLinkedInError(undefined);
+    setBusyAction("linkedIn");
+    const result = await updateMyLinkedIn(linkedIn);
+    setBusyAction(null);
+
+    if (result.success && result.registration) {
+      setRegistration(result.registration);
+      setLinkedIn(result.registration.linkedin_url ?? "");
+      toast.success(t("portal.linkedinSaved"));
+    } else if (result.error === "invalidLinkedIn") {
+      setLinkedInError(t("registration.errors.linkedinInvalid"));
+    } else {
+      toast.error(t("portal.failedSave"));
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] ?? null;
+    setResumeError(undefined);
+    if (!file) {
+      setResume(null);
+      return;
+    }
+
+    const error = validateFile(file) ?? (await inspectFile(file));
+    if (error) {
+      setResume(null);
+      setResumeError(error);
+      resetFileInput();
+      return;
+    }
+    setResume(file);
+  };
+
+  const handleReplaceResume = async () => {
+    if (!resume) return;
+
+    setBusyAction("resume");
+    try {
+      const upload = await uploadFile(resume);
+      if (upload.cancelled) {
+        setResume(null);
+        resetFileInput();
+        return;
+      }
+      if (!upload.success || !upload.resumePath) {
+        setResumeError(upload.error || t("registration.errors.uploadFailed"));
+        return;
+      }
+
+      const result = await replaceMyResume(upload.resumePath);
+      if (result.success && result.registration) {
+        setRegistration(result.registration);
+        setResume(null);
+        resetFileInput();
+        toast.success(t("portal.resumeReplaced"));
+      } else {
+        toast.error(t("portal.failedSave"));
+      }
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!window.confirm(t("portal.confirmWithdraw"))) {
+      return;
+    }
+
+    setBusyAction("withdraw");
+    const withdrawn = await withdrawMyRegistration();
+    setBusyAction(null);
+
+    if (withdrawn) {
+      toast.success(t("portal.withdrawn"));
+      loadRegistration();
+    } else {
+      toast.error(t("portal.failedWithdraw"));
+    }
+  };
+
+  const handleExport = async () => {
+    setBusyAction("export");
+    try {
+      const data = await exportMyData();
+      if (!data) {
+        toast.error(t("portal.failedExport"));
+        return;
+      }
+
+      const date = new Date().toISOString().split("T")[0];
+      downloadBlob(
+        new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }),
+        `jengahacks-my-data-${date}.json`
+      );
+
+      // The resume file is part of the export but lives in storage, not the database
+      if (registration?.resume_path) {
+        const resumeUrl = await getMyResumeUrl();
+        const response = resumeUrl ? await fetch(resumeUrl) : null;
+        if (!response?.ok) {
+          toast.error(t("portal.failedExportResume"));
+          return;
+        }
+        downloadBlob(await response.blob(), `jengahacks-my-resume-${date}.pdf`);
+      }
+    } catch (error) {
+      logger.error("Participant export error", error instanceof Error ? error : new Error(String(error)));
+      toast.error(t("portal.failedExport"));
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleRequestErasure = async () => {
+    if (!window.confirm(t("portal.confirmErase"))) {
+      return;
+    }
+
+    setBusyAction("erase");
+    const requested = await requestDataErasure();
+    setBusyAction(null);
+
+    if (requested) {
+      toast.success(t("portal.eraseRequested"));
+    } else {
+      toast.error(t("portal.failedErase"));
+    }
+  };
+
+  const renderSignIn = () => (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("portal.signInTitle")}</CardTitle>
+        <CardDescription>{t("portal.signInDescription")}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {linkSent ? (
+          <p className="text-muted-foreground" role="status">
+            {t("portal.linkSent", { email: email.trim() })}
+          </p>
+        ) : (
+          <form onSubmit={handleSendLink} noValidate className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="portal-email">{t("registration.email")}</Label>
+              <Input
+                id="portal-email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                placeholder={t("registration.emailPlaceholder")}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+            <Button type="submit" disabled={isSending || !email.trim()}>
+              {isSending ? (
+                <Loader2 className="mr-2 w-4 h-4 animate-spin" aria-hidden="true" />
+              ) : (
+                <Mail className="mr-2 w-4 h-4" aria-hidden="true" />
+              )}
+              {t("portal.sendLink")}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  const renderRegistration = (current: ParticipantRegistration) => {
+    const isWithdrawn = current.status === "withdrawn";
+
+    return (
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between gap-2">
+              <span>{current.full_name}</span>
+              <Badge variant={isWithdrawn ? "outline" : "default"}>
+                {t(`adminTable.statuses.${current.status}`)}
+                {current.status === "waitlisted" && current.waitlist_position !== null && (
+                  <span className="ml-1">#{current.waitlist_position}</span>
+                )}
+              </Badge>
+            </CardTitle>
+            <CardDescription>
+              {current.email} · {t("portal.registeredOn", { date: formatDateTimeShort(current.created_at) })}
+            </CardDescription>
+          </CardHeader>
+          {!current.verified_at && (
+            <CardContent>
+              <p className="text-sm text-muted-foreground">{t("portal.unverifiedNotice")}</p>
+            </CardContent>
+          )}
+        </Card>
+
+        {!isWithdrawn && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("portal.profileTitle")}</CardTitle>
+              <CardDescription>{t("registration.linkedinOrResumeHint")}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="portal-linkedin">{t("registration.linkedin")}</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="portal-linkedin"
+                    value={linkedIn}
+                    placeholder={t("registration.linkedinPlaceholder")}
+                    onChange={(e) => {
+                      setLinkedIn(e.target.value);
+                      setLinkedInError(undefined);
+                    }}
+                    aria-invalid={!!linkedInError}
+                    aria-describedby={linkedInError ? "portal-linkedin-error" : undefined}
+                  />
+                  <Button onClick={handleSaveLinkedIn} disabled={busyAction !== null} variant="outline">
+                    <Save className="mr-2 w-4 h-4" aria-hidden="true" />
+                    {t("portal.save")}
+                  </Button>
+                </div>
+                {linkedInError && (
+                  <p id="portal-linkedin-error" className="text-sm text-destructive" role="alert">
+                    {linkedInError}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  {current.resume_path ? t("portal.resumeOnFile") : t("portal.noResume")}
+                </p>
+                <FileUploadField
+                  fileInputRef={fileInputRef}
+                  file={resume}
+                  error={resumeError}
+                  hasResume={!!resume}
+                  onChange={handleFileChange}
+                  uploadProgress={uploadProgress}
+                  onCancelUpload={cancelUpload}
+                />
+                <Button onClick={handleReplaceResume} disabled={!resume || busyAction !== null} variant="outline">
+                  {busyAction === "resume" ? (
+                    <Loader2 className="mr-2 w-4 h-4 animate-spin" aria-hidden="true" />
+                  ) : (
+                    <Upload className="mr-2 w-4 h-4" aria-hidden="true" />
+                  )}
+                  {current.resume_path ? t("portal.replaceResume") : t("portal.uploadResume")}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {!isWithdrawn && <TeamCard status={current.status} />}
+
+        {current.status === "confirmed" && <SubmissionCard />}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("portal.yourData")}</CardTitle>
+            <CardDescription>{t("portal.yourDataDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            <Button onClick={handleExport} disabled={busyAction !== null} variant="outline">
+              <Download className="mr-2 w-4 h-4" aria-hidden="true" />
+              {t("portal.downloadData")}
+            </Button>
+            {!isWithdrawn && (
+              <Button onClick={handleWithdraw} disabled={busyAction !== null} variant="destructive">
+                <UserX className="mr-2 w-4 h-4" aria-hidden="true" />
+                {t("portal.withdraw")}
+              </Button>
+            )}
+            <Button onClick={handleRequestErasure} disabled={busyAction !== null} variant="destructive">
+              {busyAction === "erase" ? (
+                <Loader2 className="mr-2 w-4 h-4 animate-spin" aria-hidden="true" />
+              ) : (
+                <Eraser className="mr-2 w-4 h-4" aria-hidden="true" />
+              )}
+              {t("portal.eraseData")}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  };
+
+  const renderContent = () => {
+    if (authLoading || isLoading) {
+      return (
+        <div className="flex items-center justify-center py-12" role="status" aria-live="polite">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" aria-hidden="true" />
+          <span className="sr-only">{t("portal.loading")}</span>
+        </div>
+      );
+    }
+
+    if (!user) {
+      return renderSignIn();
+    }
+
+    if (!registration) {
+      return (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("portal.noRegistrationTitle")}</CardTitle>
+            <CardDescription>{t("portal.noRegistrationMessage", { email: user.email ?? "" })}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild>
+              <Link to="/register">{t("portal.registerNow")}</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    return renderRegistration(registration);
+  };
+
+  return (
+    <>
+      <SEO
+        title="My Registration | JengaHacks 2026"
+        description="Manage your JengaHacks 2026 registration."
+        url="https://jengahacks.com/me"
+      />
+      <SkipLink />
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <main id="main-content" tabIndex={-1} className="pt-16 sm:pt-20">
+          <section className="py-12 sm:py-16" aria-labelledby="portal-heading">
+            <div className="container mx-auto px-4 sm:px-6 max-w-2xl space-y-6">
+              <header className="flex items-center justify-between gap-4">
+                <h1 id="portal-heading" className="text-2xl sm:text-3xl font-bold">{t("portal.title")}</h1>
+                {user && (
+                  <Button onClick={signOut} variant="outline" size="sm">
+                    <LogOut className="mr-2 w-4 h-4" aria-hidden="true" />
+                    {t("portal.signOut")}
+                  </Button>
+                )}
+              </header>
+              {renderContent()}
+            </div>
+          </section>
+        </main>
+        <footer className="border-t border-border py-6 sm:py-8" role="contentinfo">
+          <div className="container mx-auto px-4 sm:px-6 text-center text-muted-foreground">
+            <p className="text-xs sm:text-sm">{t("footer.copyright", { year: new Date().getFullYear() })}</p>
+          </div>
+        </footer>
+      </div>
+    </>
+  );
+};
+
+export default Me;
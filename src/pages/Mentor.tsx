@@ -0,0 +1,420 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { CalendarClock, Loader2, LogOut, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import MentorHelpQueue from "@/components/MentorHelpQueue";
+import SEO from "@/components/SEO";
+import SkipLink from "@/components/SkipLink";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useEventSchedule } from "@/hooks/useEventSchedule";
+import { useRoleAuth } from "@/hooks/useRoleAuth";
+import { useTranslation } from "@/hooks/useTranslation";
+import { formatDate, formatDateTimeShort, formatTime } from "@/lib/i18n";
+import { logger } from "@/lib/logger";
+import {
+  MENTOR_TOPICS,
+  SLOT_MAX_MINUTES,
+  SLOT_MIN_MINUTES,
+  addSlot,
+  cancelBooking,
+  getMyMentorAgenda,
+  groupByDay,
+  removeSlot,
+  saveMentorProfile,
+  validateSlot,
+  type MentorAgenda,
+  type MentorProfileInput,
+} from "@/lib/officeHours";
+
+const EMPTY_PROFILE: MentorProfileInput = { display_name: "", title: "", company: "", bio: "", expertise: [] };
+
+const Mentor = () => {
+  const { t } = useTranslation();
+  const schedule = useEventSchedule();
+  const { user, hasRole: isMentor, isLoading: authLoading, signOut } = useRoleAuth("mentor");
+  const [agenda, setAgenda] = useState<MentorAgenda | null>(null);
+  const [profile, setProfile] = useState<MentorProfileInput>(EMPTY_PROFILE);
+  const [slotStart, setSlotStart] = useState("");
+  const [slotEnd, setSlotEnd] = useState("");
+  const [slotError, setSlotError] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadAgenda = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const loaded = await getMyMentorAgenda();
+      setAgenda(loaded);
+      setProfile(
+        loaded.profile
+          ? {
+              display_name: loaded.profile.display_name,
+              title: loaded.profile.title ?? "",
+              company: loaded.profile.company ?? "",
+              bio: loaded.profile.bio ?? "",
+              expertise: loaded.profile.expertise,
+            }
+          : EMPTY_PROFILE
+      );
+    } catch (error) {
+      toast.error(t("mentor.failedLoad"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (isMentor) {
+      loadAgenda();
+    }
+  }, [isMentor, loadAgenda]);
+
+  const handleSaveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    if (!profile.display_name.trim()) {
+      toast.error(t("mentor.errors.nameRequired"));
+      return;
+    }
+
+    setBusyId("profile");
+    try {
+      await saveMentorProfile(user.id, profile);
+      toast.success(t("mentor.profileSaved"));
+    } catch (error) {
+      logger.error("Error saving mentor profile", error instanceof Error ? error : new Error(String(error)));
+      toast.error(t("mentor.failedSave"));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleAddSlot = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !agenda || !schedule) return;
+
+    const slot = {
+      starts_at: slotStart ? new Date(slotStart).toISOString() : "",
+      ends_at: slotEnd ? new Date(slotEnd).toISOString() : "",
+    };
+    const error = validateSlot(slot, schedule, agenda.slots);
+    setSlotError(error ? t(error, { min: SLOT_MIN_MINUTES, max: SLOT_MAX_MINUTES }) : undefined);
+    if (error) return;
+
+    setBusyId("slot");
+    try {
+      const created = await addSlot(user.id, slot);
+      setAgenda((current) => (current ? { ...current, slots: [...current.slots, created] } : current));
+      setSlotStart("");
+      setSlotEnd("");
+      toast.success(t("mentor.slotAdded"));
+    } catch (error) {
+      logger.error("Error adding mentor slot", error instanceof Error ? error : new Error(String(error)));
+      toast.error(t("mentor.failedSave"));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRemoveSlot = async (id: string) => {
+    setBusyId(id);
+    try {
+      await removeSlot(id);
+      setAgenda((current) => (current ? { ...current, slots: current.slots.filter((slot) => slot.id !== id) } : current));
+    } catch (error) {
+      logger.error("Error removing mentor slot", error instanceof Error ? error : new Error(String(error)), {
+        slotId: id,
+      });
+      toast.error(t("mentor.failedRemoveSlot"));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCancelBooking = async (id: string) => {
+    if (!window.confirm(t("mentor.confirmCancel"))) {
+      return;
+    }
+
+    setBusyId(id);
+    const cancelled = await cancelBooking(id);
+    setBusyId(null);
+
+    if (cancelled) {
+      toast.success(t("mentor.bookingCancelled"));
+      loadAgenda();
+    } else {
+      toast.error(t("mentor.failedSave"));
+    }
+  };
+
+  const renderProfile = () => (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("mentor.profileTitle")}</CardTitle>
+        <CardDescription>{t("mentor.profileDescription")}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSaveProfile} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="mentor-name">{t("mentor.name")}</Label>
+              <Input
+                id="mentor-name"
+                value={profile.display_name}
+                onChange={(e) => setProfile({ ...profile, display_name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="mentor-title">{t("mentor.jobTitle")}</Label>
+              <Input
+                id="mentor-title"
+                value={profile.title ?? ""}
+                onChange={(e) => setProfile({ ...profile, title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="mentor-company">{t("mentor.company")}</Label>
+              <Input
+                id="mentor-company"
+                value={profile.company ?? ""}
+                onChange={(e) => setProfile({ ...profile, company: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mentor-bio">{t("mentor.bio")}</Label>
+            <Textarea
+              id="mentor-bio"
+              rows={3}
+              value={profile.bio ?? ""}
+              onChange={(e) => setProfile({ ...profile, bio: e.target.value })}
+            />
+          </div>
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium">{t("mentor.expertise")}</legend>
+            <div className="flex flex-wrap gap-2">
+              {MENTOR_TOPICS.map((topic) => {
+                const selected = profile.expertise.includes(topic);
+                return (
+                  <Button
+                    key={topic}
+                    type="button"
+                    size="sm"
+                    variant={selected ? "default" : "outline"}
+                    aria-pressed={selected}
+                    onClick={() =>
+                      setProfile({
+                        ...profile,
+                        expertise: selected
+                          ? profile.expertise.filter((value) => value !== topic)
+                          : [...profile.expertise, topic],
+                      })
+                    }
+                  >
+                    {t(`officeHours.topics.${topic}`)}
+                  </Button>
+                );
+              })}
+            </div>
+          </fieldset>
+          <Button type="submit" disabled={busyId === "profile"}>
+            {busyId === "profile" && <Loader2 className="mr-2 w-4 h-4 animate-spin" aria-hidden="true" />}
+            {t("mentor.saveProfile")}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+
+  const renderSlots = (current: MentorAgenda) => (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("mentor.slotsTitle")}</CardTitle>
+        <CardDescription>{t("mentor.slotsDescription", { min: SLOT_MIN_MINUTES, max: SLOT_MAX_MINUTES })}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {current.slots.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("mentor.noSlots")}</p>
+        ) : (
+          <ul className="space-y-2">
+            {[...current.slots]
+              .sort((a, b) => a.starts_at.localeCompare(b.starts_at))
+              .map((slot) => {
+                const booked = current.bookings.filter((booking) => booking.slot_id === slot.id).length;
+                return (
+                  <li key={slot.id} className="flex items-center justify-between gap-4 text-sm">
+                    <span>
+                      {formatDateTimeShort(slot.starts_at)} – {formatTime(slot.ends_at)}
+                    </span>
+                    <span className="flex items-center gap-2">
+                      <Badge variant={booked > 0 ? "default" : "secondary"}>
+                        {t("mentor.sessionsBooked", { count: booked })}
+                      </Badge>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleRemoveSlot(slot.id)}
+                        disabled={booked > 0 || busyId === slot.id}
+                        aria-label={t("mentor.removeSlot")}
+                      >
+                        <Trash2 className="w-4 h-4" aria-hidden="true" />
+                      </Button>
+                    </span>
+                  </li>
+                );
+              })}
+          </ul>
+        )}
+        <form onSubmit={handleAddSlot} noValidate className="grid gap-2 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="slot-start">{t("mentor.slotStart")}</Label>
+            <Input
+              id="slot-start"
+              type="datetime-local"
+              step={900}
+              value={slotStart}
+              onChange={(e) => setSlotStart(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="slot-end">{t("mentor.slotEnd")}</Label>
+            <Input
+              id="slot-end"
+              type="datetime-local"
+              step={900}
+              value={slotEnd}
+              onChange={(e) => setSlotEnd(e.target.value)}
+            />
+          </div>
+          <Button type="submit" disabled={busyId === "slot" || !slotStart || !slotEnd}>
+            <Plus className="mr-2 w-4 h-4" aria-hidden="true" />
+            {t("mentor.addSlot")}
+          </Button>
+        </form>
+        {slotError && (
+          <p className="text-sm text-destructive" role="alert">
+            {slotError}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  const renderAgenda = (current: MentorAgenda) => (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("mentor.agendaTitle")}</CardTitle>
+        <CardDescription>{t("mentor.agendaDescription")}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {current.bookings.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("mentor.noBookings")}</p>
+        ) : (
+          <div className="space-y-6">
+            {groupByDay(current.bookings).map((day) => (
+              <section key={day[0].starts_at} aria-label={formatDate(day[0].starts_at)}>
+                <h3 className="text-sm font-semibold mb-2">{formatDate(day[0].starts_at)}</h3>
+                <ul className="space-y-3">
+                  {day.map((booking) => (
+                    <li key={booking.id} className="flex items-start justify-between gap-4">
+                      <div>
+                        <p className="font-medium">
+                          {formatTime(booking.starts_at)} – {formatTime(booking.ends_at)} · {booking.team_name}
+                        </p>
+                        {booking.topic && <p className="text-sm text-muted-foreground">{booking.topic}</p>}
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleCancelBooking(booking.id)}
+                        disabled={busyId === booking.id}
+                        aria-label={t("mentor.cancelBooking")}
+                      >
+                        <X className="w-4 h-4" aria-hidden="true" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  const renderContent = () => {
+    if (authLoading || (isMentor && isLoading)) {
+      return (
+        <div className="flex items-center justify-center py-12" role="status" aria-live="polite">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" aria-hidden="true" />
+          <span className="sr-only">{t("mentor.loading")}</span>
+        </div>
+      );
+    }
+
+    if (!isMentor || !agenda) {
+      return (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("mentor.signInTitle")}</CardTitle>
+            <CardDescription>{t("mentor.signInDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild>
+              <Link to="/admin/login">{t("mentor.signIn")}</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    return (
+      <>
+        {user && <MentorHelpQueue mentorId={user.id} expertise={agenda.profile?.expertise ?? []} />}
+        {renderAgenda(agenda)}
+        {renderSlots(agenda)}
+        {renderProfile()}
+      </>
+    );
+  };
+
+  return (
+    <>
+      <SEO title="Mentoring | JengaHacks 2026" />
+      <SkipLink />
+      <div className="min-h-screen bg-background">
+        <header className="border-b border-border bg-card" role="banner">
+          <div className="container mx-auto px-4 py-4 flex items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold flex items-center gap-2">
+                <CalendarClock className="w-6 h-6" aria-hidden="true" />
+                {t("mentor.title")}
+              </h1>
+              {user?.email && (
+                <p className="text-sm text-muted-foreground">{t("judge.signedInAs", { email: user.email })}</p>
+              )}
+            </div>
+            {isMentor && (
+              <Button onClick={signOut} variant="outline">
+                <LogOut className="mr-2 w-4 h-4" aria-hidden="true" />
+                {t("judge.signOut")}
+              </Button>
+            )}
+          </div>
+        </header>
+        <main id="main-content" tabIndex={-1} className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+          {renderContent()}
+        </main>
+      </div>
+    </>
+  );
+};
+
+export default Mentor;
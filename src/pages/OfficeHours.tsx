@@ -0,0 +1,337 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, CalendarClock, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+import HelpRequestCard from "@/components/HelpRequestCard";
+import Navbar from "@/components/Navbar";
+import SEO from "@/components/SEO";
+import SkipLink from "@/components/SkipLink";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useParticipantAuth } from "@/hooks/useParticipantAuth";
+import { useTranslation } from "@/hooks/useTranslation";
+import { formatDateTimeShort, formatTime } from "@/lib/i18n";
+import {
+  SESSION_DURATIONS,
+  bookSession,
+  cancelBooking,
+  getAvailableStarts,
+  getOfficeHours,
+  type OfficeHours as OfficeHoursData,
+  type OfficeHoursMentor,
+  type SessionDuration,
+} from "@/lib/officeHours";
+import { PORTAL_PATH } from "@/lib/participantPortal";
+
+interface SelectedStart {
+  mentorId: string;
+  slotId: string;
+  startsAt: string;
+}
+
+const OfficeHours = () => {
+  const { t } = useTranslation();
+  const { user, isLoading: authLoading } = useParticipantAuth();
+  const [data, setData] = useState<OfficeHoursData | null>(null);
+  const [duration, setDuration] = useState<SessionDuration>(30);
+  const [selected, setSelected] = useState<SelectedStart | null>(null);
+  const [topic, setTopic] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setData(await getOfficeHours());
+    } catch (error) {
+      toast.error(t("officeHours.failedLoad"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (!authLoading) {
+      loadData();
+    }
+  }, [authLoading, user?.id, loadData]);
+
+  const handleBook = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+
+    setBusyId("book");
+    const result = await bookSession(selected.slotId, selected.startsAt, duration, topic);
+    setBusyId(null);
+
+    if (result.success) {
+      toast.success(t("officeHours.booked"));
+      setSelected(null);
+      setTopic("");
+    } else {
+      toast.error(t(`officeHours.errors.${result.error ?? "failed"}`));
+    }
+    loadData();
+  };
+
+  const handleCancel = async (bookingId: string) => {
+    if (!window.confirm(t("officeHours.confirmCancel"))) {
+      return;
+    }
+
+    setBusyId(bookingId);
+    const cancelled = await cancelBooking(bookingId);
+    setBusyId(null);
+
+    if (cancelled) {
+      toast.success(t("officeHours.cancelled"));
+      loadData();
+    } else {
+      toast.error(t("officeHours.errors.failed"));
+    }
+  };
+
+  const renderTeamBookings = (current: OfficeHoursData) => (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("officeHours.teamSessions")}</CardTitle>
+        <CardDescription>{t("officeHours.teamSessionsDescription")}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {current.bookings.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("officeHours.noTeamSessions")}</p>
+        ) : (
+          <ul className="space-y-3">
+            {current.bookings.map((booking) => (
+              <li key={booking.id} className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="font-medium">{booking.mentor_name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {formatDateTimeShort(booking.starts_at)} – {formatTime(booking.ends_at)}
+                  </p>
+                  {booking.topic && <p className="text-sm">{booking.topic}</p>}
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleCancel(booking.id)}
+                  disabled={busyId === booking.id}
+                  aria-label={t("officeHours.cancel")}
+                >
+                  <X className="w-4 h-4" aria-hidden="true" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  const renderMentor = (mentor: OfficeHoursMentor, current: OfficeHoursData) => {
+    const busy = [...mentor.busy, ...current.bookings];
+    const canBook = !!current.team_id;
+
+    return (
+      <Card key={mentor.user_id}>
+        <CardHeader>
+          <CardTitle>{mentor.display_name}</CardTitle>
+          <CardDescription>{[mentor.title, mentor.company].filter(Boolean).join(" · ")}</CardDescription>
+          {mentor.expertise.length > 0 && (
+            <div className="flex flex-wrap gap-1 pt-2">
+              {mentor.expertise.map((topic) => (
+                <Badge key={topic} variant="secondary">
+                  {t(`officeHours.topics.${topic}`)}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {mentor.bio && <p className="text-sm text-muted-foreground">{mentor.bio}</p>}
+          {mentor.slots.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t("officeHours.noSlots")}</p>
+          ) : (
+            mentor.slots.map((slot) => {
+              const starts = getAvailableStarts(slot, busy, duration);
+              return (
+                <div key={slot.id} className="space-y-2">
+                  <p className="text-sm font-medium">
+                    {formatDateTimeShort(slot.starts_at)} – {formatTime(slot.ends_at)}
+                  </p>
+                  {starts.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">{t("officeHours.fullyBooked")}</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2" role="group" aria-label={t("officeHours.startTimes")}>
+                      {starts.map((startsAt) => {
+                        const isSelected = selected?.slotId === slot.id && selected.startsAt === startsAt;
+                        return (
+                          <Button
+                            key={startsAt}
+                            type="button"
+                            size="sm"
+                            variant={isSelected ? "default" : "outline"}
+                            aria-pressed={isSelected}
+                            disabled={!canBook}
+                            onClick={() => setSelected({ mentorId: mentor.user_id, slotId: slot.id, startsAt })}
+                          >
+                            {formatTime(startsAt)}
+                          </Button>
+                        );
+                      })}
+                    </div>
+                  )}
+                  {selected?.slotId === slot.id && (
+                    <form onSubmit={handleBook} className="space-y-2 rounded-md border border-border p-3">
+                      <Label htmlFor="booking-topic">
+                        {t("officeHours.topicLabel", {
+                          time: formatTime(selected.startsAt),
+                          mentor: mentor.display_name,
+                          minutes: duration,
+                        })}
+                      </Label>
+                      <Input
+                        id="booking-topic"
+                        value={topic}
+                        placeholder={t("officeHours.topicPlaceholder")}
+                        onChange={(e) => setTopic(e.target.value)}
+                      />
+                      <div className="flex gap-2">
+                        <Button type="submit" size="sm" disabled={busyId === "book"}>
+                          {busyId === "book" && <Loader2 className="mr-2 w-4 h-4 animate-spin" aria-hidden="true" />}
+                          {t("officeHours.book")}
+                        </Button>
+                        <Button type="button" size="sm" variant="ghost" onClick={() => setSelected(null)}>
+                          {t("common.cancel")}
+                        </Button>
+                      </div>
+                    </form>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderContent = () => {
+    if (authLoading || (isLoading && !data)) {
+      return (
+        <div className="flex items-center justify-center py-12" role="status" aria-live="polite">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" aria-hidden="true" />
+          <span className="sr-only">{t("officeHours.loading")}</span>
+        </div>
+      );
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    return (
+      <>
+        {!user ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("officeHours.signInTitle")}</CardTitle>
+              <CardDescription>{t("officeHours.signInDescription")}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button asChild>
+                <Link to={PORTAL_PATH}>{t("matching.goToPortal")}</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : data.team_id ? (
+          <>
+            <HelpRequestCard />
+            {renderTeamBookings(data)}
+          </>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("officeHours.noTeamTitle")}</CardTitle>
+              <CardDescription>{t("officeHours.noTeamDescription")}</CardDescription>
+            </CardHeader>
+          </Card>
+        )}
+
+        <div className="flex items-center gap-2" role="group" aria-label={t("officeHours.duration")}>
+          <span className="text-sm text-muted-foreground">{t("officeHours.duration")}</span>
+          {SESSION_DURATIONS.map((minutes) => (
+            <Button
+              key={minutes}
+              type="button"
+              size="sm"
+              variant={duration === minutes ? "default" : "outline"}
+              aria-pressed={duration === minutes}
+              onClick={() => {
+                setDuration(minutes);
+                setSelected(null);
+              }}
+            >
+              {t("officeHours.minutes", { minutes })}
+            </Button>
+          ))}
+        </div>
+
+        {data.mentors.length === 0 ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("officeHours.noMentorsTitle")}</CardTitle>
+              <CardDescription>{t("officeHours.noMentorsDescription")}</CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          data.mentors.map((mentor) => renderMentor(mentor, data))
+        )}
+      </>
+    );
+  };
+
+  return (
+    <>
+      <SEO
+        title="Mentor Office Hours | JengaHacks 2026"
+        description="Book a session with a JengaHacks 2026 mentor during the hackathon."
+        url="https://jengahacks.com/office-hours"
+      />
+      <SkipLink />
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <main id="main-content" tabIndex={-1} className="pt-16 sm:pt-20">
+          <section className="py-12 sm:py-16" aria-labelledby="office-hours-heading">
+            <div className="container mx-auto px-4 sm:px-6 max-w-2xl space-y-6">
+              <header className="space-y-2">
+                <Button asChild variant="ghost" size="sm" className="-ml-3">
+                  <Link to="/judges-mentors">
+                    <ArrowLeft className="mr-2 w-4 h-4" aria-hidden="true" />
+                    {t("officeHours.backToMentors")}
+                  </Link>
+                </Button>
+                <h1 id="office-hours-heading" className="text-2xl sm:text-3xl font-bold flex items-center gap-2">
+                  <CalendarClock className="w-7 h-7" aria-hidden="true" />
+                  {t("officeHours.title")}
+                </h1>
+                <p className="text-muted-foreground">{t("officeHours.description")}</p>
+              </header>
+              {renderContent()}
+            </div>
+          </section>
+        </main>
+        <footer className="border-t border-border py-6 sm:py-8" role="contentinfo">
+          <div className="container mx-auto px-4 sm:px-6 text-center text-muted-foreground">
+            <p className="text-xs sm:text-sm">{t("footer.copyright", { year: new Date().getFullYear() })}</p>
+          </div>
+        </footer>
+      </div>
+    </>
+  );
+};
+
+export default OfficeHours;
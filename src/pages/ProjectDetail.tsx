@@ -0,0 +1,189 @@
+import { useEffect } from "react";
+import { useParams, Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Code, ExternalLink, PlayCircle, Share2, Trophy } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import Navbar from "@/components/Navbar";
+import PeoplesChoiceVote from "@/components/PeoplesChoiceVote";
+import Footer from "@/components/Footer";
+import SEO from "@/components/SEO";
+import SocialShare from "@/components/SocialShare";
+import { useTranslation } from "@/hooks/useTranslation";
+import { trackPageView } from "@/lib/analytics";
+import { CACHE_KEYS, CACHE_DURATIONS } from "@/lib/cache";
+import { PROJECTS_PATH, getAwardLabelKey, getProjectPath, getPublicProject, type PublicProject } from "@/lib/gallery";
+import { sanitizeForRender } from "@/lib/sanitize";
+
+const SEO_DESCRIPTION_LENGTH = 160;
+
+const ProjectDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { t } = useTranslation();
+
+  const { data: project, isLoading, error } = useQuery<PublicProject | null>({
+    queryKey: [CACHE_KEYS.projects.project(id || "")],
+    queryFn: () => (id ? getPublicProject(id) : Promise.resolve(null)),
+    enabled: !!id,
+    staleTime: CACHE_DURATIONS.SHORT,
+    gcTime: CACHE_DURATIONS.LONG,
+  });
+
+  // Track page view when project loads
+  useEffect(() => {
+    if (project && id) {
+      trackPageView(getProjectPath(id), project.title);
+    }
+  }, [project, id]);
+
+  if (isLoading) {
+    return (
+      <>
+        <SEO title="Loading..." />
+        <div className="min-h-screen bg-background">
+          <Navbar />
+          <main id="main-content" tabIndex={-1} className="pt-24 sm:pt-28">
+            <div className="container mx-auto px-4 sm:px-6">
+              <div className="flex items-center justify-center py-12" role="status" aria-live="polite">
+                <div className="text-center">
+                  <div className="mb-4 h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent mx-auto" aria-label="Loading project" />
+                  <p className="text-muted-foreground">{t("gallery.loadingProject")}</p>
+                </div>
+              </div>
+            </div>
+          </main>
+          <Footer />
+        </div>
+      </>
+    );
+  }
+
+  if (error || !project) {
+    return (
+      <>
+        <SEO title="Project Not Found | JengaHacks 2026" />
+        <div className="min-h-screen bg-background">
+          <Navbar />
+          <main id="main-content" tabIndex={-1} className="pt-24 sm:pt-28">
+            <div className="container mx-auto px-4 sm:px-6">
+              <div className="text-center py-12" role="alert" aria-live="assertive">
+                <h1 className="text-3xl font-bold mb-4">{t("gallery.notFound")}</h1>
+                <p className="text-muted-foreground mb-6">{t("gallery.notFoundMessage")}</p>
+                <div className="flex gap-4 justify-center">
+                  <Button variant="outline" asChild>
+                    <Link to={PROJECTS_PATH}>{t("gallery.backToProjects")}</Link>
+                  </Button>
+                  <Button variant="hero" asChild>
+                    <Link to="/">{t("common.home")}</Link>
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </main>
+          <Footer />
+        </div>
+      </>
+    );
+  }
+
+  const summary = project.description.slice(0, SEO_DESCRIPTION_LENGTH);
+
+  return (
+    <>
+      <SEO
+        title={`${project.title} | JengaHacks 2026 Projects`}
+        description={summary}
+        url={`https://jengahacks.com${getProjectPath(project.id)}`}
+        type="article"
+      />
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <main id="main-content" tabIndex={-1}>
+          <article className="pt-24 sm:pt-28 pb-12 sm:pb-16">
+            <div className="container mx-auto px-4 sm:px-6 max-w-4xl">
+              <Button variant="ghost" size="sm" asChild className="mb-6 -ml-2">
+                <Link to={PROJECTS_PATH}>
+                  <ArrowLeft className="w-4 h-4 mr-2" aria-hidden="true" />
+                  {t("gallery.backToProjects")}
+                </Link>
+              </Button>
+
+              {/* Project Header */}
+              <header className="mb-8">
+                <div className="flex flex-wrap gap-2 mb-4">
+                  <Badge variant="secondary">{t(`customQuestions.track.options.${project.track}`)}</Badge>
+                  {project.overall_rank !== null && (
+                    <Badge variant="outline">{t("gallery.rank", { rank: project.overall_rank })}</Badge>
+                  )}
+                  {project.track_rank !== null && (
+                    <Badge variant="outline">
+                      {t("gallery.trackRank", {
+                        rank: project.track_rank,
+                        track: t(`customQuestions.track.options.${project.track}`),
+                      })}
+                    </Badge>
+                  )}
+                  {project.award && (
+                    <Badge className="gap-1">
+                      <Trophy className="w-3 h-3" aria-hidden="true" />
+                      {t(getAwardLabelKey(project.award))}
+                    </Badge>
+                  )}
+                </div>
+                <h1 className="text-3xl sm:text-4xl md:text-5xl font-bold mb-4">{project.title}</h1>
+                <p className="text-muted-foreground">{t("gallery.byTeam", { team: project.team_name })}</p>
+              </header>
+
+              {/* Description */}
+              <div
+                className="text-lg leading-relaxed whitespace-pre-line mb-8"
+                dangerouslySetInnerHTML={sanitizeForRender(project.description)}
+              />
+
+              <div className="flex flex-wrap gap-3">
+                <Button asChild variant="outline">
+                  <a href={project.repository_url} target="_blank" rel="noopener noreferrer">
+                    <Code className="w-4 h-4 mr-2" aria-hidden="true" />
+                    {t("gallery.repository")}
+                    <ExternalLink className="w-3 h-3 ml-2" aria-hidden="true" />
+                  </a>
+                </Button>
+                <Button asChild variant="outline">
+                  <a href={project.demo_video_url} target="_blank" rel="noopener noreferrer">
+                    <PlayCircle className="w-4 h-4 mr-2" aria-hidden="true" />
+                    {t("gallery.demo")}
+                    <ExternalLink className="w-3 h-3 ml-2" aria-hidden="true" />
+                  </a>
+                </Button>
+              </div>
+
+              <PeoplesChoiceVote submissionId={project.id} projectTitle={project.title} />
+
+              {/* Share Section */}
+              <div className="mt-12 pt-8 border-t border-border">
+                <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                  <div>
+                    <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
+                      <Share2 className="w-5 h-5" aria-hidden="true" />
+                      {t("gallery.share")}
+                    </h3>
+                    <p className="text-sm text-muted-foreground">{t("gallery.shareDescription")}</p>
+                  </div>
+                  <SocialShare
+                    url={window.location.href}
+                    title={project.title}
+                    description={summary}
+                    hideHeader={true}
+                  />
+                </div>
+              </div>
+            </div>
+          </article>
+        </main>
+        <Footer />
+      </div>
+    </>
+  );
+};
+
+export default ProjectDetail;
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowRight, Heart, Search, Trophy } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import Navbar from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import SEO from "@/components/SEO";
+import { TRACK_OPTIONS } from "@/content/registrationQuestions";
+import { useTranslation } from "@/hooks/useTranslation";
+import { CACHE_KEYS, CACHE_DURATIONS } from "@/lib/cache";
+import {
+  filterProjects,
+  getAwardLabelKey,
+  getProjectPath,
+  getPublicProjects,
+  type PublicProject,
+} from "@/lib/gallery";
+import { formatDateTimeShort } from "@/lib/i18n";
+import { getVotingStatus, getVotingWindowState, type VotingStatus } from "@/lib/voting";
+
+const Projects = () => {
+  const { t } = useTranslation();
+  const [track, setTrack] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+
+  const { data: projects = [], isLoading, error } = useQuery<PublicProject[]>({
+    queryKey: [CACHE_KEYS.projects.list],
+    queryFn: getPublicProjects,
+    staleTime: CACHE_DURATIONS.SHORT,
+    gcTime: CACHE_DURATIONS.LONG,
+  });
+
+  const { data: votingStatus } = useQuery<VotingStatus>({
+    queryKey: [CACHE_KEYS.voting.status],
+    queryFn: getVotingStatus,
+    staleTime: CACHE_DURATIONS.SHORT,
+  });
+
+  const visible = filterProjects(projects, { track, query });
+  const votingClosesAt =
+    votingStatus && getVotingWindowState(votingStatus.opens_at, votingStatus.closes_at) === "open"
+      ? votingStatus.closes_at
+      : null;
+
+  const renderTrackFilter = (value: string | null, label: string) => (
+    <Button
+      key={value ?? "all"}
+      type="button"
+      size="sm"
+      variant={track === value ? "default" : "outline"}
+      onClick={() => setTrack(value)}
+      aria-pressed={track === value}
+    >
+      {label}
+    </Button>
+  );
+
+  return (
+    <>
+      <SEO
+        title="Projects | JengaHacks 2026"
+        description="Explore the projects built at JengaHacks 2026 across FinTech, HealthTech, AgriTech, EdTech, Climate Tech, JobTech, AI/ML and Open Innovation."
+        url="https://jengahacks.com/projects"
+      />
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <main id="main-content" tabIndex={-1}>
+          {/* Header */}
+          <section className="pt-24 sm:pt-28 pb-12 sm:pb-16 bg-gradient-to-b from-card/50 to-background" aria-labelledby="projects-heading">
+            <div className="container mx-auto px-4 sm:px-6">
+              <header className="text-center max-w-3xl mx-auto">
+                <h1 id="projects-heading" className="text-3xl sm:text-4xl md:text-5xl font-bold mb-4">
+                  <span className="text-gradient">{t("gallery.title")}</span>
+                </h1>
+                <p className="text-lg sm:text-xl text-muted-foreground">
+                  {t("gallery.subtitle")}
+                </p>
+                {votingClosesAt && (
+                  <p className="mt-4 inline-flex items-center gap-2 text-primary font-medium" role="status">
+                    <Heart className="w-4 h-4" aria-hidden="true" />
+                    {t("voting.galleryBanner", { date: formatDateTimeShort(votingClosesAt) })}
+                  </p>
+                )}
+              </header>
+            </div>
+          </section>
+
+          {/* Filters */}
+          <section className="pb-6" aria-label={t("gallery.filters")}>
+            <div className="container mx-auto px-4 sm:px-6 max-w-7xl space-y-4">
+              <div className="relative max-w-md mx-auto">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" aria-hidden="true" />
+                <Input
+                  type="search"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder={t("gallery.searchPlaceholder")}
+                  aria-label={t("gallery.search")}
+                  className="pl-9"
+                />
+              </div>
+              <div className="flex flex-wrap justify-center gap-2">
+                {renderTrackFilter(null, t("gallery.allTracks"))}
+                {TRACK_OPTIONS.map((option) => renderTrackFilter(option.value, t(option.labelKey)))}
+              </div>
+            </div>
+          </section>
+
+          {/* Projects */}
+          <section className="pb-12 sm:pb-16">
+            <div className="container mx-auto px-4 sm:px-6">
+              {isLoading ? (
+                <div className="flex items-center justify-center py-12" role="status" aria-live="polite">
+                  <div className="text-center">
+                    <div className="mb-4 h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent mx-auto" aria-label="Loading projects" />
+                    <p className="text-muted-foreground">{t("gallery.loading")}</p>
+                  </div>
+                </div>
+              ) : error ? (
+                <div className="text-center py-12" role="alert" aria-live="assertive">
+                  <p className="text-destructive text-lg mb-2">{t("gallery.error")}</p>
+                  <Button variant="outline" onClick={() => window.location.reload()}>
+                    {t("common.retry")}
+                  </Button>
+                </div>
+              ) : projects.length === 0 ? (
+                <div className="text-center py-12" role="status" aria-live="polite">
+                  <p className="text-muted-foreground text-lg">{t("gallery.noProjects")}</p>
+                  <p className="text-muted-foreground mt-2">{t("gallery.checkBack")}</p>
+                </div>
+              ) : visible.length === 0 ? (
+                <div className="text-center py-12" role="status" aria-live="polite">
+                  <p className="text-muted-foreground text-lg">{t("gallery.noMatches")}</p>
+                </div>
+              ) : (
+                <div className="grid gap-6 sm:gap-8 md:grid-cols-2 lg:grid-cols-3 max-w-7xl mx-auto" role="list" aria-label={t("gallery.title")}>
+                  {visible.map((project) => (
+                    <Link key={project.id} to={getProjectPath(project.id)} className="block" role="listitem">
+                      <Card className="group hover:shadow-lg transition-all duration-300 hover:-translate-y-1 flex flex-col h-full">
+                        <CardHeader>
+                          <div className="flex flex-wrap items-center gap-2 mb-2">
+                            <Badge variant="secondary">{t(`customQuestions.track.options.${project.track}`)}</Badge>
+                            {project.overall_rank !== null && (
+                              <Badge variant="outline">{t("gallery.rank", { rank: project.overall_rank })}</Badge>
+                            )}
+                            {project.award && (
+                              <Badge className="gap-1">
+                                <Trophy className="w-3 h-3" aria-hidden="true" />
+                                {t(getAwardLabelKey(project.award))}
+                              </Badge>
+                            )}
+                          </div>
+                          <CardTitle className="line-clamp-2 group-hover:text-primary transition-colors">
+                            {project.title}
+                          </CardTitle>
+                          <CardDescription>{t("gallery.byTeam", { team: project.team_name })}</CardDescription>
+                        </CardHeader>
+                        <CardContent className="flex-1 flex flex-col">
+                          <p className="text-muted-foreground mb-4 line-clamp-3 flex-1">{project.description}</p>
+                          <div className="flex items-center gap-2 text-sm text-primary group-hover:underline">
+                            {t("gallery.viewProject")}
+                            <ArrowRight className="w-4 h-4" aria-hidden="true" />
+                          </div>
+                        </CardContent>
+                      </Card>
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </div>
+          </section>
+        </main>
+        <Footer />
+      </div>
+    </>
+  );
+};
+
+export default Projects;
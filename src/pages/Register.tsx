@@ -0,0 +1,33 @@
+import Navbar from "@/components/Navbar";
+import Registration from "@/components/Registration";
+import SEO from "@/components/SEO";
+import SkipLink from "@/components/SkipLink";
+import { useTranslation } from "@/hooks/useTranslation";
+
+const Register = () => {
+  const { t } = useTranslation();
+
+  return (
+    <>
+      <SEO
+        title="Register | JengaHacks 2026"
+        description="Register for JengaHacks 2026, East Africa's premier 36-hour hackathon in Nairobi, Kenya. February 21-22, 2026."
+        url="https://jengahacks.com/register"
+      />
+      <SkipLink />
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <main id="main-content" tabIndex={-1} className="pt-16 sm:pt-20">
+          <Registration />
+        </main>
+        <footer className="border-t border-border py-6 sm:py-8" role="contentinfo">
+          <div className="container mx-auto px-4 sm:px-6 text-center text-muted-foreground">
+            <p className="text-xs sm:text-sm">{t("footer.copyright", { year: new Date().getFullYear() })}</p>
+          </div>
+        </footer>
+      </div>
+    </>
+  );
+};
+
+export default Register;
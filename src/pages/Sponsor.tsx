@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { ExternalLink, FileSearch, Loader2, LogOut, Search } from "lucide-react";
+import { toast } from "sonner";
+import SEO from "@/components/SEO";
+import SkipLink from "@/components/SkipLink";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useRoleAuth } from "@/hooks/useRoleAuth";
+import { useTranslation } from "@/hooks/useTranslation";
+import {
+  parseSnippet,
+  searchResumesForSponsors,
+  type SponsorCandidate,
+} from "@/lib/resumeSearch";
+
+const Sponsor = () => {
+  const { t } = useTranslation();
+  const { user, hasRole: isSponsor, isLoading: authLoading, signOut } = useRoleAuth("sponsor");
+  const [query, setQuery] = useState("");
+  const [searchedFor, setSearchedFor] = useState<string | null>(null);
+  const [results, setResults] = useState<SponsorCandidate[]>([]);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const runSearch = async (term: string, offset: number) => {
+    setIsSearching(true);
+    try {
+      const page = await searchResumesForSponsors(term, offset);
+      setResults((current) => (offset === 0 ? page.candidates : [...current, ...page.candidates]));
+      setNextOffset(page.nextOffset);
+      setSearchedFor(term);
+    } catch (error) {
+      toast.error(t("sponsorSearch.failedSearch"));
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    runSearch(query.trim(), 0);
+  };
+
+  const renderCandidate = (candidate: SponsorCandidate) => (
+    <li key={candidate.id} className="rounded-md border border-border p-4 space-y-2">
+      <div className="flex items-center justify-between gap-4">
+        <p className="font-medium">{candidate.full_name}</p>
+        {candidate.linkedin_url && (
+          <Button asChild size="sm" variant="outline">
+            <a href={candidate.linkedin_url} target="_blank" rel="noopener noreferrer">
+              <ExternalLink className="mr-2 w-4 h-4" aria-hidden="true" />
+              {t("sponsorSearch.linkedIn")}
+            </a>
+          </Button>
+        )}
+      </div>
+      {candidate.resume_snippet && (
+        <p className="text-sm text-muted-foreground" title={t("sponsorSearch.resumeMatch")}>
+          {parseSnippet(candidate.resume_snippet).map((segment, index) =>
+            segment.highlighted ? (
+              <mark key={index} className="bg-primary/20 text-foreground rounded px-0.5">
+                {segment.text}
+              </mark>
+            ) : (
+              <span key={index}>{segment.text}</span>
+            )
+          )}
+        </p>
+      )}
+    </li>
+  );
+
+  const renderContent = () => {
+    if (authLoading) {
+      return (
+        <div className="flex items-center justify-center py-12" role="status" aria-live="polite">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" aria-hidden="true" />
+          <span className="sr-only">{t("sponsorSearch.loading")}</span>
+        </div>
+      );
+    }
+
+    if (!isSponsor) {
+      return (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("sponsorSearch.signInTitle")}</CardTitle>
+            <CardDescription>{t("sponsorSearch.signInDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild>
+              <Link to="/admin/login">{t("sponsorSearch.signIn")}</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("sponsorSearch.searchTitle")}</CardTitle>
+          <CardDescription>{t("sponsorSearch.searchDescription")}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleSearch} role="search" className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" aria-hidden="true" />
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={t("sponsorSearch.placeholder")}
+                aria-label={t("sponsorSearch.searchTitle")}
+                className="pl-9"
+              />
+            </div>
+            <Button type="submit" disabled={isSearching || !query.trim()}>
+              {isSearching && <Loader2 className="mr-2 w-4 h-4 animate-spin" aria-hidden="true" />}
+              {t("sponsorSearch.search")}
+            </Button>
+          </form>
+
+          {searchedFor !== null && results.length === 0 && !isSearching && (
+            <p className="text-sm text-muted-foreground">{t("sponsorSearch.noResults", { query: searchedFor })}</p>
+          )}
+
+          {results.length > 0 && (
+            <ul className="space-y-3" aria-live="polite">
+              {results.map(renderCandidate)}
+            </ul>
+          )}
+
+          {nextOffset !== null && searchedFor && (
+            <Button variant="outline" onClick={() => runSearch(searchedFor, nextOffset)} disabled={isSearching}>
+              {t("sponsorSearch.loadMore")}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <>
+      <SEO title="Talent Search | JengaHacks 2026" />
+      <SkipLink />
+      <div className="min-h-screen bg-background">
+        <header className="border-b border-border bg-card" role="banner">
+          <div className="container mx-auto px-4 py-4 flex items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold flex items-center gap-2">
+                <FileSearch className="w-6 h-6" aria-hidden="true" />
+                {t("sponsorSearch.title")}
+              </h1>
+              {user?.email && (
+                <p className="text-sm text-muted-foreground">{t("judge.signedInAs", { email: user.email })}</p>
+              )}
+            </div>
+            {isSponsor && (
+              <Button onClick={signOut} variant="outline">
+                <LogOut className="mr-2 w-4 h-4" aria-hidden="true" />
+                {t("judge.signOut")}
+              </Button>
+            )}
+          </div>
+        </header>
+        <main id="main-content" tabIndex={-1} className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+          {renderContent()}
+        </main>
+      </div>
+    </>
+  );
+};
+
+export default Sponsor;